@@ -0,0 +1,122 @@
+/**
+ * AI接続先のテスト用スタブサーバー（vitest の globalSetup）
+ *
+ * Anthropic の /messages と OpenAI 互換の /chat/completions に応答し、
+ * 受け取ったリクエストを本文に入れて返す。stream: true なら SSE で数回に分けて返す。
+ * モデル名で異常系を起こせる: 'status-401' などはそのステータスで失敗、'truncated' は出力上限で打ち切り、
+ * 'stalled' はストリーミングの最初の断片を送ったまま止まる。
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+// ProvidedContext を拡張するため vitest 本体の型を読み込む
+import type {} from 'vitest';
+import type { TestProject } from 'vitest/node';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    aiStubUrl: string;
+  }
+}
+
+// 応答に載せるトークン数（テストはこの値を期待する）
+const STUB_USAGE = { input: 120, output: 45 };
+
+/** 本文の JSON。読めなければ null */
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown> | null> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+  } catch {
+    return null;
+  }
+}
+
+// 本文を3つに分けて、Anthropic / OpenAI 互換それぞれの SSE で送る
+function writeStream(res: ServerResponse, anthropic: boolean, text: string, model: string) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  const send = (data: unknown, event?: string) =>
+    res.write(`${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+  const size = Math.ceil(text.length / 3);
+  const pieces = [text.slice(0, size), text.slice(size, size * 2), text.slice(size * 2)];
+  const truncated = model === 'truncated';
+
+  if (anthropic) send({ type: 'message_start', message: { model, usage: { input_tokens: STUB_USAGE.input, output_tokens: 1 } } }, 'message_start');
+  for (const [i, piece] of pieces.entries()) {
+    if (anthropic) send({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: piece } }, 'content_block_delta');
+    else send({ choices: [{ delta: { content: piece }, finish_reason: null }] });
+    // 止まったままのストリーム（中断のテスト用）。接続はクライアントが切る
+    if (model === 'stalled' && i === 0) return;
+  }
+  if (anthropic) {
+    send({ type: 'message_delta', delta: { stop_reason: truncated ? 'max_tokens' : 'end_turn' }, usage: { output_tokens: STUB_USAGE.output } }, 'message_delta');
+    send({ type: 'message_stop' }, 'message_stop');
+  } else {
+    send({ choices: [{ delta: {}, finish_reason: truncated ? 'length' : 'stop' }] });
+    send({ choices: [], usage: { prompt_tokens: STUB_USAGE.input, completion_tokens: STUB_USAGE.output } });
+    send('[DONE]');
+  }
+  res.end();
+}
+
+export default async function setup(project: TestProject) {
+  const server = createServer(async (req, res) => {
+    const body = await readBody(req);
+    if (!body) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('invalid json');
+      return;
+    }
+    const model = String(body.model ?? '');
+    const status = model.match(/^status-(\d{3})$/);
+    if (status) {
+      res.writeHead(Number(status[1]), { 'Content-Type': 'text/plain' });
+      res.end('stub error');
+      return;
+    }
+
+    const echo = JSON.stringify({
+      path: req.url,
+      headers: {
+        authorization: req.headers.authorization,
+        'x-api-key': req.headers['x-api-key'],
+        'anthropic-version': req.headers['anthropic-version'],
+      },
+      body,
+    });
+    const truncated = model === 'truncated';
+    const anthropic = req.url?.endsWith('/messages') ?? false;
+
+    if (body.stream && (anthropic || req.url?.endsWith('/chat/completions'))) {
+      writeStream(res, anthropic, echo, model);
+      return;
+    }
+
+    if (anthropic) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        content: [{ type: 'text', text: echo }],
+        stop_reason: truncated ? 'max_tokens' : 'end_turn',
+        usage: { input_tokens: STUB_USAGE.input, output_tokens: STUB_USAGE.output },
+      }));
+    } else if (req.url?.endsWith('/chat/completions')) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        choices: [{ message: { role: 'assistant', content: echo }, finish_reason: truncated ? 'length' : 'stop' }],
+        usage: { prompt_tokens: STUB_USAGE.input, completion_tokens: STUB_USAGE.output },
+      }));
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  project.provide('aiStubUrl', `http://127.0.0.1:${port}`);
+
+  return () => new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  });
+}
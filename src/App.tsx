@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { Nav } from './components/Nav';
 import { Footer } from './components/Footer';
@@ -12,26 +13,48 @@ import { Sitemap } from './pages/Sitemap';
 import { Landing } from './pages/Landing';
 import { AiLogs } from './pages/AiLogs';
 import { DiaryLookup } from './pages/DiaryLookup';
+import { Observatory } from './pages/Observatory';
+import { UnlockScreen } from './components/UnlockScreen';
+import { startJobQueue } from './utils/jobQueue';
+import { startAutoBackup } from './utils/autoBackup';
+import { startAutoSync } from './utils/sync';
+import { useLockState } from './hooks/useLockState';
+import { useIdleLock } from './hooks/useIdleLock';
 
 export default function App() {
+  const lockState = useLockState();
+  useIdleLock(lockState);
+
+  // 前回の未完了のAI処理があれば、どのページを開いても再開する（ロック中は解除を待つ）
+  // 自動バックアップと同期も、ロック中は日記を読めないので解除を待つ
+  useEffect(() => {
+    if (lockState === 'locked') return;
+    void startJobQueue();
+    startAutoBackup();
+    startAutoSync();
+  }, [lockState]);
+
   return (
     <BrowserRouter>
       <div className="app">
         <Nav />
         <main className="main">
-          <Routes>
-            <Route path="/" element={<Landing />} />
-            <Route path="/import" element={<Import />} />
-            <Route path="/fragments" element={<Fragments />} />
-            <Route path="/timeline" element={<Timeline />} />
-            <Route path="/analysis" element={<Analysis />} />
-            <Route path="/diary" element={<DiaryLookup />} />
-            <Route path="/ai-logs" element={<AiLogs />} />
-            <Route path="/settings" element={<Settings />} />
-            <Route path="/privacy" element={<Privacy />} />
-            <Route path="/terms" element={<Terms />} />
-            <Route path="/sitemap" element={<Sitemap />} />
-          </Routes>
+          {lockState === 'locked' ? <UnlockScreen /> : (
+            <Routes>
+              <Route path="/" element={<Landing />} />
+              <Route path="/import" element={<Import />} />
+              <Route path="/fragments" element={<Fragments />} />
+              <Route path="/timeline" element={<Timeline />} />
+              <Route path="/analysis" element={<Analysis />} />
+              <Route path="/diary" element={<DiaryLookup />} />
+              <Route path="/observatory" element={<Observatory />} />
+              <Route path="/ai-logs" element={<AiLogs />} />
+              <Route path="/settings" element={<Settings />} />
+              <Route path="/privacy" element={<Privacy />} />
+              <Route path="/terms" element={<Terms />} />
+              <Route path="/sitemap" element={<Sitemap />} />
+            </Routes>
+          )}
         </main>
         <Footer />
       </div>
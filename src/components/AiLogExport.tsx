@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { getAllAiLogs } from '../db';
+import { downloadBlob, downloadText } from '../utils/download';
+import {
+  filterLogsForExport,
+  toMarkdownReport,
+  toHtmlReport,
+  reportFilename,
+  type AiLogExportFormat,
+} from '../utils/aiLogExport';
+
+interface Props {
+  /** 選べる分析タイプ（ログのあるもの） */
+  types: { type: string; label: string }[];
+  labelOf: (type: string) => string;
+  onMessage: (message: string) => void;
+}
+
+/** 種類と期間を選んで、AIログを Markdown か HTML のレポートとして書き出す */
+export function AiLogExport({ types, labelOf, onMessage }: Props) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(types.map(t => t.type)));
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [format, setFormat] = useState<AiLogExportFormat>('markdown');
+  const [exporting, setExporting] = useState(false);
+
+  function toggleType(type: string) {
+    const next = new Set(selected);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    setSelected(next);
+  }
+
+  async function handleExport() {
+    setExporting(true);
+    try {
+      const logs = filterLogsForExport(await getAllAiLogs(), { types: [...selected], from: from || undefined, to: to || undefined });
+      if (logs.length === 0) {
+        onMessage('条件に合うログがありません');
+        return;
+      }
+      const filename = reportFilename(format);
+      if (format === 'markdown') {
+        downloadText(toMarkdownReport(logs, labelOf), filename);
+      } else {
+        downloadBlob(new Blob([toHtmlReport(logs, labelOf)], { type: 'text/html;charset=utf-8' }), filename);
+      }
+      onMessage(`${logs.length}件のログを書き出しました`);
+    } catch {
+      onMessage('書き出しに失敗しました');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <div className="ailogs-export">
+      <fieldset className="ailogs-export-types">
+        <legend className="settings-label">分析</legend>
+        {types.map(t => (
+          <label key={t.type} className="ailogs-history-pinned">
+            <input type="checkbox" checked={selected.has(t.type)} onChange={() => toggleType(t.type)} />
+            {t.label}
+          </label>
+        ))}
+      </fieldset>
+      <div className="ailogs-filter">
+        <input
+          type="date"
+          value={from}
+          onChange={e => setFrom(e.target.value)}
+          className="api-key-input"
+          aria-label="開始日"
+        />
+        <span className="ailogs-count">〜</span>
+        <input
+          type="date"
+          value={to}
+          onChange={e => setTo(e.target.value)}
+          className="api-key-input"
+          aria-label="終了日"
+        />
+        <select
+          className="custom-select"
+          value={format}
+          onChange={e => setFormat(e.target.value as AiLogExportFormat)}
+          aria-label="形式"
+        >
+          <option value="markdown">Markdown</option>
+          <option value="html">HTML</option>
+        </select>
+        <button
+          className="btn btn-small btn-primary"
+          onClick={handleExport}
+          disabled={exporting || selected.size === 0}
+        >
+          {exporting ? '書き出し中...' : '書き出す'}
+        </button>
+      </div>
+      <p className="settings-desc">期間は分析した日で絞り込みます。空欄なら全期間です。</p>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { AiLog } from '../types';
+import { getAiLogsByType, setAiLogPinned } from '../db';
+import { diffText, type DiffMode } from '../utils/textDiff';
+import { AiResultBody } from './AiResultBody';
+
+interface Props {
+  type: string;
+  label: string;
+  onBack: () => void;
+}
+
+function formatDate(iso: string): string {
+  const d = new Date(iso);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  const h = String(d.getHours()).padStart(2, '0');
+  const min = String(d.getMinutes()).padStart(2, '0');
+  return `${y}/${m}/${day} ${h}:${min}`;
+}
+
+/** 1種類の分析のログを1件ずつさかのぼり、1つ前の結果との差分を見る */
+export function AiLogHistory({ type, label, onBack }: Props) {
+  const [logs, setLogs] = useState<AiLog[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [diffMode, setDiffMode] = useState<DiffMode | 'off'>('off');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAiLogsByType(type).then(all => {
+      if (cancelled) return;
+      setLogs(all.sort((a, b) => (b.analyzedAt ?? '').localeCompare(a.analyzedAt ?? '')));
+    });
+    return () => { cancelled = true; };
+  }, [type]);
+
+  const visible = useMemo(
+    () => (logs ?? []).filter(log => !pinnedOnly || log.pinned),
+    [logs, pinnedOnly],
+  );
+  // ★のみの表示で★を外すと件数が減るので、範囲に収める
+  const position = Math.min(index, Math.max(0, visible.length - 1));
+  const current = visible.at(position);
+  // 比べる相手は、絞り込みに関係なく1つ前（古い側）のログ
+  const previous = current && logs ? logs[logs.indexOf(current) + 1] : undefined;
+  const diff = useMemo(
+    () => (diffMode !== 'off' && current && previous ? diffText(previous.result, current.result, diffMode) : null),
+    [diffMode, current, previous],
+  );
+
+  async function togglePin(log: AiLog) {
+    const pinned = !log.pinned;
+    await setAiLogPinned(log.id, pinned);
+    setLogs(prev => prev?.map(l => (l.id === log.id ? { ...l, pinned } : l)) ?? null);
+  }
+
+  function handlePinnedOnlyChange(checked: boolean) {
+    setPinnedOnly(checked);
+    setIndex(0);
+  }
+
+  return (
+    <div className="ailogs-history">
+      <div className="ailogs-filter">
+        <button className="btn btn-small" onClick={onBack}>一覧に戻る</button>
+        <h2 className="ailogs-history-title">{label}の履歴</h2>
+        {logs && <span className="ailogs-count">{logs.length}件</span>}
+      </div>
+
+      {!logs ? (
+        <p className="loading-text">読み込み中...</p>
+      ) : (
+        <>
+          <div className="ailogs-filter">
+            <button
+              className="btn btn-small"
+              onClick={() => setIndex(position - 1)}
+              disabled={position <= 0}
+            >
+              新しい
+            </button>
+            <select
+              className="custom-select"
+              value={position}
+              onChange={e => setIndex(Number(e.target.value))}
+              aria-label="表示するログ"
+            >
+              {visible.map((log, i) => (
+                <option key={log.id} value={i}>
+                  {log.pinned ? '★ ' : ''}{formatDate(log.analyzedAt)}
+                </option>
+              ))}
+            </select>
+            <button
+              className="btn btn-small"
+              onClick={() => setIndex(position + 1)}
+              disabled={position >= visible.length - 1}
+            >
+              古い
+            </button>
+            <select
+              className="custom-select"
+              value={diffMode}
+              onChange={e => setDiffMode(e.target.value as DiffMode | 'off')}
+              aria-label="1つ前との差分"
+            >
+              <option value="off">差分なし</option>
+              <option value="sentence">1つ前との差分（文）</option>
+              <option value="char">1つ前との差分（文字）</option>
+            </select>
+            <label className="ailogs-history-pinned">
+              <input
+                type="checkbox"
+                checked={pinnedOnly}
+                onChange={e => handlePinnedOnlyChange(e.target.checked)}
+              />
+              ★のみ
+            </label>
+          </div>
+
+          {!current ? (
+            <p className="empty-message">
+              {pinnedOnly ? '★を付けたログはありません' : 'この分析のログはありません'}
+            </p>
+          ) : (
+            <section className="ailogs-item">
+              <div className="ailogs-item-body">
+                <div className="ailogs-body-meta">
+                  <span>{formatDate(current.analyzedAt)}</span>
+                  <span className="ailogs-body-count">エントリ数: {current.entryCount}</span>
+                  {current.promptVersion && <span className="ailogs-body-count">版 {current.promptVersion}</span>}
+                  {current.usage && <span className="ailogs-body-count">{current.usage.model}</span>}
+                  <button
+                    className="btn btn-small"
+                    onClick={() => togglePin(current)}
+                    aria-pressed={current.pinned ?? false}
+                  >
+                    {current.pinned ? '★ 外す' : '☆ 付ける'}
+                  </button>
+                </div>
+                {diffMode === 'off' ? (
+                  <AiResultBody text={current.result} />
+                ) : !previous ? (
+                  <p className="settings-desc">いちばん古いログなので、比べる相手がありません</p>
+                ) : diff && (
+                  <>
+                    <p className="settings-desc">
+                      {formatDate(previous.analyzedAt)} の結果との差分
+                      {diff.mode !== diffMode && '（長いので文単位で比べています）'}
+                    </p>
+                    <p className="ailogs-diff">
+                      {diff.parts.map((part, i) => (
+                        part.op === 'equal'
+                          ? <span key={i}>{part.text}</span>
+                          : part.op === 'insert'
+                            ? <ins key={i} className="ailogs-diff-insert">{part.text}</ins>
+                            : <del key={i} className="ailogs-diff-delete">{part.text}</del>
+                      ))}
+                    </p>
+                  </>
+                )}
+              </div>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,103 +1,38 @@
 import type { ReactNode } from 'react';
+import { parseAiResult, parseInline } from '../utils/aiResultFormat';
 
 /**
  * インライン記法（**太字**）をReact要素に変換する
  */
 function renderInline(text: string): ReactNode[] {
-  const parts = text.split(/(\*\*.+?\*\*)/g);
-  return parts.map((part, i) => {
-    const m = part.match(/^\*\*(.+)\*\*$/);
-    if (m) return <strong key={i}>{m[1]}</strong>;
-    return part;
-  });
+  return parseInline(text).map((part, i) => (part.bold ? <strong key={i}>{part.text}</strong> : part.text));
 }
 
 /**
  * AI出力テキストをパースして適切なHTML構造でレンダリングする。
- * 対応記法: **太字**, - 箇条書き, 番号付きリスト, ■見出し, 【】見出し, ##見出し, ---区切り, 空行
+ * 記法の解釈は utils/aiResultFormat.ts（書き出しと共通）
  */
 export function AiResultBody({ text }: { text: string }) {
-  const lines = text.split('\n');
-  const elements: ReactNode[] = [];
-  let listItems: ReactNode[] = [];
-  let orderedListItems: ReactNode[] = [];
-
-  const flushList = (key: string) => {
-    if (listItems.length > 0) {
-      elements.push(
-        <ul key={key} className="ai-result-list">
-          {listItems}
-        </ul>,
-      );
-      listItems = [];
-    }
-    if (orderedListItems.length > 0) {
-      elements.push(
-        <ol key={`ol-${key}`} className="ai-result-list">
-          {orderedListItems}
-        </ol>,
-      );
-      orderedListItems = [];
-    }
-  };
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // --- 区切り線
-    if (/^-{3,}$/.test(line.trim())) {
-      flushList(`ul-${i}`);
-      elements.push(<hr key={i} className="ai-result-hr" />);
-      continue;
-    }
-
-    const bulletMatch = line.match(/^[-•]\s+(.*)/);
-    const orderedMatch = line.match(/^\d+[.)]\s+(.*)/);
-    const h3Match = line.match(/^#{3,}\s+(.*)/);
-    const h2Match = line.match(/^#{1,2}\s+(.*)/);
-    // ■ で始まる行 → セクション見出し
-    const sectionMatch = line.match(/^■\s*(.*)/);
-    // 【...】で始まる行 → 見出し
-    const bracketMatch = line.match(/^【(.+?)】(.*)/);
-
-    if (bulletMatch) {
-      if (orderedListItems.length > 0) flushList(`ul-${i}`);
-      listItems.push(<li key={i}>{renderInline(bulletMatch[1])}</li>);
-    } else if (orderedMatch) {
-      if (listItems.length > 0) flushList(`ul-${i}`);
-      orderedListItems.push(<li key={i}>{renderInline(orderedMatch[1])}</li>);
-    } else if (sectionMatch) {
-      flushList(`ul-${i}`);
-      elements.push(
-        <h3 key={i} className="ai-result-heading">{renderInline(sectionMatch[1])}</h3>,
-      );
-    } else if (bracketMatch) {
-      flushList(`ul-${i}`);
-      const rest = bracketMatch[2].trim();
-      elements.push(
-        <h3 key={i} className="ai-result-heading">
-          {'【'}{renderInline(bracketMatch[1])}{'】'}
-          {rest ? <>{' '}{renderInline(rest)}</> : null}
-        </h3>,
-      );
-    } else if (h3Match) {
-      flushList(`ul-${i}`);
-      elements.push(
-        <h4 key={i} className="ai-result-heading-sm">{renderInline(h3Match[1])}</h4>,
-      );
-    } else if (h2Match) {
-      flushList(`ul-${i}`);
-      elements.push(
-        <h3 key={i} className="ai-result-heading">{renderInline(h2Match[1])}</h3>,
-      );
-    } else {
-      flushList(`ul-${i}`);
-      elements.push(
-        <p key={i}>{line ? renderInline(line) : '\u00A0'}</p>,
-      );
-    }
-  }
-  flushList('ul-end');
-
-  return <>{elements}</>;
+  return (
+    <>
+      {parseAiResult(text).map((block, i) => {
+        switch (block.kind) {
+          case 'hr':
+            return <hr key={i} className="ai-result-hr" />;
+          case 'list': {
+            const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+            return block.ordered
+              ? <ol key={i} className="ai-result-list">{items}</ol>
+              : <ul key={i} className="ai-result-list">{items}</ul>;
+          }
+          case 'heading':
+            return block.level === 3
+              ? <h3 key={i} className="ai-result-heading">{renderInline(block.text)}</h3>
+              : <h4 key={i} className="ai-result-heading-sm">{renderInline(block.text)}</h4>;
+          case 'paragraph':
+            return <p key={i}>{block.text ? renderInline(block.text) : '\u00A0'}</p>;
+        }
+      })}
+    </>
+  );
 }
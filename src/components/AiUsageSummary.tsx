@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import type { CustomAnalysisType } from '../types';
+import { getAllAiUsageRecords, getAllCustomAnalysisTypes } from '../db';
+import {
+  summarizeByMonth,
+  toLocalMonthKey,
+  formatUsd,
+  getMonthlyBudgetUsd,
+  setMonthlyBudgetUsd,
+  type MonthlyUsage,
+} from '../utils/aiUsage';
+import { getAnalysisLabel } from '../utils/analysisTypes';
+
+const MAX_MONTHS = 12;
+
+// 分析以外の呼び出しの用途
+const purposeLabels: Record<string, string> = {
+  fragments: '宝物庫の収集',
+};
+
+/** AI呼び出しの月ごとの使用量・推定費用と、月の予算の設定 */
+export function AiUsageSummary({ onMessage }: { onMessage: (message: string) => void }) {
+  const [months, setMonths] = useState<MonthlyUsage[] | null>(null);
+  // ユーザー定義の分析は id ではなく名前で出す
+  const [customTypes, setCustomTypes] = useState<CustomAnalysisType[]>([]);
+  const [budget, setBudget] = useState(() => getMonthlyBudgetUsd());
+  const [budgetInput, setBudgetInput] = useState(() => String(getMonthlyBudgetUsd() ?? ''));
+
+  useEffect(() => {
+    Promise.all([getAllAiUsageRecords(), getAllCustomAnalysisTypes()]).then(([records, customs]) => {
+      setMonths(summarizeByMonth(records));
+      setCustomTypes(customs);
+    });
+  }, []);
+
+  function handleSaveBudget() {
+    const value = Number(budgetInput);
+    const next = budgetInput.trim() && value > 0 ? value : null;
+    setMonthlyBudgetUsd(next);
+    setBudget(next);
+    setBudgetInput(String(next ?? ''));
+    onMessage(next === null ? '月の予算を解除しました' : `月の予算を ${formatUsd(next)} にしました`);
+  }
+
+  const current = months?.find(m => m.month === toLocalMonthKey(new Date()));
+  const spent = current?.costUsd ?? 0;
+
+  return (
+    <div className="ai-usage">
+      <div className="settings-row">
+        <div style={{ flex: 1 }}>
+          <p className="settings-label">月の予算（USD）</p>
+          <p className="settings-desc">
+            今月の推定費用が予算に達すると、それ以降のAI呼び出しを止めます。空欄なら上限なし。
+          </p>
+        </div>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={budgetInput}
+          onChange={e => setBudgetInput(e.target.value)}
+          placeholder="上限なし"
+          className="api-key-input ai-usage-budget-input"
+          aria-label="月の予算（USD）"
+        />
+        <button onClick={handleSaveBudget} className="btn btn-small">保存</button>
+      </div>
+
+      <p className="ai-usage-current">
+        今月の推定費用: <strong>{formatUsd(spent)}</strong>
+        {budget !== null && ` / 予算 ${formatUsd(budget)}`}
+        {budget !== null && spent >= budget && <span className="error-text">（予算に達したため停止中）</span>}
+      </p>
+      {budget !== null && (
+        <div className="analysis-progress-bar">
+          <div className="analysis-progress-fill" style={{ width: `${Math.min(100, (spent / budget) * 100)}%` }} />
+        </div>
+      )}
+
+      {months === null ? (
+        <p className="loading-text">読み込み中...</p>
+      ) : months.length === 0 ? (
+        <p className="settings-desc">まだAIの呼び出し記録はありません</p>
+      ) : (
+        <table className="ai-usage-table">
+          <thead>
+            <tr>
+              <th>月</th>
+              <th>回数</th>
+              <th>入力 / 出力トークン</th>
+              <th>推定費用</th>
+            </tr>
+          </thead>
+          <tbody>
+            {months.slice(0, MAX_MONTHS).map(m => (
+              <tr key={m.month}>
+                <td>{m.month}</td>
+                <td>{m.calls}</td>
+                <td>{m.inputTokens.toLocaleString()} / {m.outputTokens.toLocaleString()}</td>
+                <td>
+                  {formatUsd(m.costUsd)}
+                  {m.unpricedCalls > 0 && <span className="ai-usage-note">（単価不明 {m.unpricedCalls}回を除く）</span>}
+                  <span className="ai-usage-note">
+                    {m.byPurpose.map(p => `${purposeLabels[p.purpose] ?? getAnalysisLabel(p.purpose, customTypes)} ${formatUsd(p.costUsd)}`).join('、')}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
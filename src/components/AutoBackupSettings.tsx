@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { BackupSnapshot } from '../types';
+import { getAllSnapshots, deleteSnapshots } from '../db/snapshots';
+import {
+  createSnapshot,
+  loadSnapshot,
+  canChooseBackupFolder,
+  chooseBackupFolder,
+  getBackupFolder,
+  requestBackupFolderPermission,
+  forgetBackupFolder,
+} from '../utils/autoBackup';
+import {
+  getAutoBackupSettings,
+  setAutoBackupSettings,
+  type AutoBackupSettings as Settings,
+  type SnapshotFrequency,
+} from '../utils/snapshotSchedule';
+import { BackupRestore } from './BackupRestore';
+import { toErrorMessage } from '../utils/errorMessage';
+
+const FREQUENCIES: { value: SnapshotFrequency; label: string }[] = [
+  { value: 'daily', label: '毎日' },
+  { value: 'weekly', label: '毎週' },
+  { value: 'off', label: '作らない' },
+];
+const KEEP_DAILY_CHOICES = [3, 7, 14, 30];
+const KEEP_WEEKLY_CHOICES = [0, 4, 8, 12];
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  const h = String(d.getHours()).padStart(2, '0');
+  const min = String(d.getMinutes()).padStart(2, '0');
+  return `${y}/${m}/${day} ${h}:${min}`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)}KB` : `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+/** 自動バックアップの間隔・保持数・書き出し先フォルダと、スナップショットからの復元 */
+export function AutoBackupSettings({ onMessage }: { onMessage: (message: string) => void }) {
+  const [settings, setSettings] = useState<Settings>(getAutoBackupSettings);
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[] | null>(null);
+  const [folder, setFolder] = useState<{ name: string; permission: PermissionState } | null>(null);
+  const [restoring, setRestoring] = useState<{ id: string; raw: unknown } | null>(null);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setSnapshots(await getAllSnapshots());
+    setFolder(await getBackupFolder());
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function update(next: Settings) {
+    setSettings(setAutoBackupSettings(next));
+  }
+
+  async function handleCreate() {
+    setBusy(true);
+    try {
+      await createSnapshot('manual');
+      onMessage('スナップショットを作りました');
+      await load();
+    } catch (err) {
+      onMessage(toErrorMessage(err, 'スナップショットを作れませんでした'));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleOpen(snapshot: BackupSnapshot) {
+    try {
+      setRestoring({ id: snapshot.id, raw: await loadSnapshot(snapshot.id) });
+    } catch (err) {
+      onMessage(toErrorMessage(err, 'スナップショットを読み込めませんでした'));
+    }
+  }
+
+  async function handleDelete(snapshot: BackupSnapshot) {
+    if (confirmId !== snapshot.id) {
+      setConfirmId(snapshot.id);
+      return;
+    }
+    setConfirmId(null);
+    try {
+      await deleteSnapshots([snapshot.id]);
+      if (restoring?.id === snapshot.id) setRestoring(null);
+      await load();
+    } catch (err) {
+      onMessage(toErrorMessage(err, '削除に失敗しました'));
+    }
+  }
+
+  async function handleChooseFolder() {
+    try {
+      const name = await chooseBackupFolder();
+      onMessage(`これからのスナップショットを「${name}」にも書き出します`);
+      await load();
+    } catch (err) {
+      // 選ぶのをやめたときは何も言わない
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      onMessage(toErrorMessage(err, 'フォルダを選べませんでした'));
+    }
+  }
+
+  async function handleRequestPermission() {
+    if (!await requestBackupFolderPermission()) {
+      onMessage('フォルダへの書き込みが許可されませんでした');
+    }
+    await load();
+  }
+
+  async function handleForgetFolder() {
+    await forgetBackupFolder();
+    setFolder(null);
+    onMessage('フォルダへの書き出しをやめました');
+  }
+
+  return (
+    <>
+      <div className="settings-row">
+        <div style={{ flex: 1 }}>
+          <p className="settings-label">自動で作る間隔</p>
+          <p className="settings-desc">アプリを開いているときに、前回から間隔が空いていれば作ります。</p>
+        </div>
+        <select
+          className="custom-select"
+          value={settings.frequency}
+          onChange={e => update({ ...settings, frequency: e.target.value as SnapshotFrequency })}
+          aria-label="自動バックアップの間隔"
+        >
+          {FREQUENCIES.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+      </div>
+
+      <div className="settings-row">
+        <div style={{ flex: 1 }}>
+          <p className="settings-label">残す数</p>
+          <p className="settings-desc">自動のスナップショットは、日ごと・週ごとに一番新しいものを残します。手動で作ったものは消しません。</p>
+        </div>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <select
+            className="custom-select"
+            value={settings.keepDaily}
+            onChange={e => update({ ...settings, keepDaily: Number(e.target.value) })}
+            aria-label="日ごとに残す日数"
+          >
+            {KEEP_DAILY_CHOICES.map(n => <option key={n} value={n}>直近{n}日</option>)}
+          </select>
+          <select
+            className="custom-select"
+            value={settings.keepWeekly}
+            onChange={e => update({ ...settings, keepWeekly: Number(e.target.value) })}
+            aria-label="週ごとに残す週数"
+          >
+            {KEEP_WEEKLY_CHOICES.map(n => <option key={n} value={n}>{n === 0 ? '週ごとは残さない' : `直近${n}週`}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {canChooseBackupFolder() && (
+        <div className="settings-row">
+          <div style={{ flex: 1 }}>
+            <p className="settings-label">書き出し先フォルダ</p>
+            <p className="settings-desc">
+              {!folder
+                ? 'ブラウザのデータが消えても残るよう、端末のフォルダにも書き出せます。'
+                : folder.permission === 'granted'
+                  ? `「${folder.name}」にも書き出します`
+                  : `「${folder.name}」への書き込みの許可が切れています。許可し直すまで書き出しません。`}
+            </p>
+          </div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            {folder && folder.permission !== 'granted' && (
+              <button onClick={handleRequestPermission} className="btn btn-small btn-primary">許可する</button>
+            )}
+            <button onClick={handleChooseFolder} className="btn btn-small">
+              {folder ? '変更' : 'フォルダを選ぶ'}
+            </button>
+            {folder && <button onClick={handleForgetFolder} className="btn btn-small">やめる</button>}
+          </div>
+        </div>
+      )}
+
+      <div className="settings-row">
+        <div>
+          <p className="settings-label">スナップショット</p>
+          <p className="settings-desc">この端末のブラウザ内に保存されます。ロック中に作ったものは暗号化されます。</p>
+        </div>
+        <button onClick={handleCreate} className="btn btn-small" disabled={busy}>
+          {busy ? '作成中...' : '今すぐ作る'}
+        </button>
+      </div>
+
+      {snapshots === null ? (
+        <p className="loading-text">読み込み中...</p>
+      ) : snapshots.length === 0 ? (
+        <p className="settings-desc">スナップショットはまだありません</p>
+      ) : (
+        <ul className="import-history">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="import-history-item">
+              <div className="import-history-main">
+                <p className="settings-label">{formatDateTime(snapshot.createdAt)}</p>
+                <p className="settings-desc">
+                  {snapshot.trigger === 'manual' ? '手動' : '自動'}
+                  {` / 日記 ${snapshot.entryCount}件 / ${formatSize(snapshot.size)}`}
+                  {snapshot.encrypted && ' / 暗号化'}
+                </p>
+              </div>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <button onClick={() => handleOpen(snapshot)} className="btn btn-small">復元</button>
+                <button
+                  className={`btn btn-small ${confirmId === snapshot.id ? 'btn-danger-confirm' : 'btn-danger'}`}
+                  onClick={() => handleDelete(snapshot)}
+                >
+                  {confirmId === snapshot.id ? '本当に削除' : '削除'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {restoring && (
+        <BackupRestore
+          key={restoring.id}
+          onMessage={onMessage}
+          initialRaw={restoring.raw}
+          onClose={() => setRestoring(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState, useEffect, useCallback, useId } from 'react';
+import { restoreBackup, markAllAiCacheStale } from '../db';
+import { decryptBackup, isEncryptedBackup, type EncryptedBackup } from '../utils/encryptedBackup';
+import {
+  parseBackup,
+  describeRestoreSummary,
+  BACKUP_STORES,
+  BACKUP_STORE_LABELS,
+  type BackupData,
+  type BackupIssue,
+  type RestoreStrategy,
+} from '../utils/backupSchema';
+import { toErrorMessage } from '../utils/errorMessage';
+
+const MAX_LISTED_ISSUES = 50;
+
+const STRATEGIES: { value: RestoreStrategy; label: string; description: string }[] = [
+  { value: 'merge', label: '統合', description: '同じ日記やログは新しい方を残し、ないものは追加します' },
+  { value: 'add-only', label: '追加のみ', description: '今のデータは変えず、ないものだけを追加します' },
+  { value: 'replace', label: '置き換え', description: '今のデータ（編集履歴・インポート履歴を含む）を消して、バックアップの内容にします' },
+];
+
+type Stage =
+  | { kind: 'passphrase'; backup: EncryptedBackup }
+  | { kind: 'ready'; data: BackupData; issues: BackupIssue[] };
+
+function readyStage(raw: unknown): Stage {
+  const { data, issues } = parseBackup(raw);
+  return { kind: 'ready', data, issues };
+}
+
+interface Props {
+  onMessage: (message: string) => void;
+  /** ファイルの代わりに、読み込み済みのバックアップ（自動バックアップのスナップショット）を開く */
+  initialRaw?: unknown;
+  onClose?: () => void;
+}
+
+/** バックアップの読み込み・確認・復元（暗号化されたファイルはパスフレーズを聞く） */
+export function BackupRestore({ onMessage, initialRaw, onClose }: Props) {
+  const strategyName = useId();
+  const [stage, setStage] = useState<Stage | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [strategy, setStrategy] = useState<RestoreStrategy>('merge');
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [summary, setSummary] = useState<string[] | null>(null);
+
+  const open = useCallback((raw: unknown) => {
+    setSummary(null);
+    try {
+      if (isEncryptedBackup(raw)) {
+        setPassphrase('');
+        setStage({ kind: 'passphrase', backup: raw });
+        return;
+      }
+      setStage(readyStage(raw));
+      setConfirmReplace(false);
+    } catch (err) {
+      setStage(null);
+      onMessage(toErrorMessage(err, '無効なバックアップファイルです'));
+    }
+  }, [onMessage]);
+
+  useEffect(() => {
+    if (initialRaw !== undefined) open(initialRaw);
+  }, [initialRaw, open]);
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    // 同じファイルを選び直せるように
+    e.target.value = '';
+    if (!file) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch (err) {
+      setStage(null);
+      onMessage(toErrorMessage(err, '無効なバックアップファイルです'));
+      return;
+    }
+    open(raw);
+  }
+
+  function handleCancel() {
+    setStage(null);
+    onClose?.();
+  }
+
+  async function handleDecrypt(backup: EncryptedBackup) {
+    setBusy(true);
+    try {
+      setStage(readyStage(await decryptBackup(backup, passphrase)));
+      setConfirmReplace(false);
+      setPassphrase('');
+    } catch (err) {
+      onMessage(toErrorMessage(err, '復号に失敗しました'));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRestore(data: BackupData) {
+    if (strategy === 'replace' && !confirmReplace) {
+      setConfirmReplace(true);
+      return;
+    }
+    setBusy(true);
+    try {
+      const result = await restoreBackup(data, strategy);
+      await markAllAiCacheStale();
+      const lines = describeRestoreSummary(result);
+      setSummary(lines.length > 0 ? lines : ['変わったデータはありません']);
+      setStage(null);
+      onMessage('バックアップを復元しました');
+    } catch (err) {
+      onMessage(toErrorMessage(err, '復元に失敗しました'));
+    } finally {
+      setBusy(false);
+      setConfirmReplace(false);
+    }
+  }
+
+  return (
+    <>
+      {initialRaw === undefined && <div className="settings-row">
+        <div>
+          <p className="settings-label">バックアップを復元</p>
+          <p className="settings-desc">エクスポートしたJSONファイルから復元</p>
+        </div>
+        <label className="btn">
+          ファイルを選択
+          <input
+            type="file"
+            accept=".json"
+            onChange={handleFile}
+            style={{ display: 'none' }}
+          />
+        </label>
+      </div>}
+
+      {stage?.kind === 'passphrase' && (
+        <div className="settings-row">
+          <div className="passphrase-fields">
+            <p className="settings-label">暗号化されたバックアップ</p>
+            <p className="settings-desc">
+              {initialRaw === undefined
+                ? '書き出したときのパスフレーズを入力してください'
+                : 'スナップショットを作ったときのロックのパスフレーズを入力してください'}
+            </p>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              placeholder="パスフレーズ"
+              className="api-key-input"
+              autoComplete="off"
+              autoFocus
+            />
+          </div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button
+              onClick={() => handleDecrypt(stage.backup)}
+              className="btn btn-small btn-primary"
+              disabled={busy || !passphrase}
+            >
+              {busy ? '復号中...' : '開く'}
+            </button>
+            <button onClick={handleCancel} className="btn btn-small" disabled={busy}>
+              やめる
+            </button>
+          </div>
+        </div>
+      )}
+
+      {stage?.kind === 'ready' && (
+        <div className="backup-restore">
+          <p className="settings-desc">
+            {BACKUP_STORES.map(store => `${BACKUP_STORE_LABELS[store]} ${stage.data[store].length}件`).join('・')}
+          </p>
+          {stage.issues.length > 0 && (
+            <details className="backup-issues">
+              <summary>読み込めなかったレコード {stage.issues.length}件（復元しません）</summary>
+              <ul>
+                {stage.issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                  <li key={i}>
+                    {BACKUP_STORE_LABELS[issue.store]}
+                    {issue.index >= 0 && ` ${issue.index + 1}件目`}
+                    {issue.id && `（${issue.id}）`}: {issue.reason}
+                  </li>
+                ))}
+              </ul>
+              {stage.issues.length > MAX_LISTED_ISSUES && (
+                <p className="settings-desc">ほか {stage.issues.length - MAX_LISTED_ISSUES}件</p>
+              )}
+            </details>
+          )}
+          <fieldset className="backup-strategy">
+            <legend className="settings-label">復元の方法</legend>
+            {STRATEGIES.map(s => (
+              <label key={s.value} className="backup-strategy-option">
+                <input
+                  type="radio"
+                  name={strategyName}
+                  value={s.value}
+                  checked={strategy === s.value}
+                  onChange={() => { setStrategy(s.value); setConfirmReplace(false); }}
+                />
+                <span>
+                  {s.label}
+                  <span className="settings-desc"> — {s.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button
+              onClick={() => handleRestore(stage.data)}
+              className={`btn btn-small ${confirmReplace ? 'btn-danger-confirm' : 'btn-primary'}`}
+              disabled={busy}
+            >
+              {busy ? '復元中...' : confirmReplace ? '本当に置き換える' : '復元'}
+            </button>
+            <button onClick={handleCancel} className="btn btn-small" disabled={busy}>
+              やめる
+            </button>
+          </div>
+        </div>
+      )}
+
+      {summary && (
+        <ul className="backup-summary">
+          {summary.map(line => <li key={line}>{line}</li>)}
+        </ul>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import type { CustomAnalysisType, CustomSampleWindow, PromptPartKey } from '../types';
+import { getAiCache, putAiCache, putCustomAnalysisType } from '../db';
+import { PROMPT_PARTS } from '../utils/promptParts';
+import {
+  DEFAULT_CUSTOM_DRAFT,
+  SAMPLE_WINDOW_LABELS,
+  MIN_CUSTOM_MAX_TOKENS,
+  MAX_CUSTOM_MAX_TOKENS,
+  MAX_CUSTOM_SAMPLE_COUNT,
+  validateCustomDraft,
+  toCustomAnalysisType,
+  type CustomAnalysisDraft,
+} from '../utils/customAnalysis';
+
+interface Props {
+  /** 編集する定義（新規作成なら undefined） */
+  initial?: CustomAnalysisType;
+  onSaved: (type: CustomAnalysisType) => void;
+  onCancel: () => void;
+}
+
+/** ユーザー定義の分析の作成・編集フォーム */
+export function CustomAnalysisEditor({ initial, onSaved, onCancel }: Props) {
+  const [draft, setDraft] = useState<CustomAnalysisDraft>(() => initial ?? DEFAULT_CUSTOM_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  function update(patch: Partial<CustomAnalysisDraft>) {
+    setDraft(prev => ({ ...prev, ...patch }));
+  }
+
+  function togglePart(key: PromptPartKey) {
+    update({
+      promptParts: draft.promptParts.includes(key)
+        ? draft.promptParts.filter(k => k !== key)
+        : [...draft.promptParts, key],
+    });
+  }
+
+  async function handleSave() {
+    const invalid = validateCustomDraft(draft);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setSaving(true);
+    try {
+      const type = toCustomAnalysisType(draft, initial);
+      await putCustomAnalysisType(type);
+      // プロンプトが変わったので、前の定義で出した結果は「更新あり」にする
+      const cached = initial && await getAiCache(type.id);
+      if (cached) await putAiCache({ ...cached, isStale: true });
+      onSaved(type);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '保存に失敗しました');
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="custom-analysis-editor">
+      <label className="custom-analysis-field">
+        <span className="settings-label">名前</span>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={e => update({ name: e.target.value })}
+          className="api-key-input"
+          placeholder="例: 身体の声"
+        />
+      </label>
+
+      <label className="custom-analysis-field">
+        <span className="settings-label">システムプロンプト</span>
+        <textarea
+          className="direct-input"
+          value={draft.systemPrompt}
+          onChange={e => update({ systemPrompt: e.target.value })}
+          rows={8}
+          placeholder="あなたは日記の読み手。今日の日記から、身体の感覚について書かれたところだけを拾う。"
+        />
+      </label>
+
+      <fieldset className="custom-analysis-field">
+        <legend className="settings-label">足すルール</legend>
+        {(Object.keys(PROMPT_PARTS) as PromptPartKey[]).map(key => (
+          <label key={key} className="custom-analysis-check">
+            <input
+              type="checkbox"
+              checked={draft.promptParts.includes(key)}
+              onChange={() => togglePart(key)}
+            />
+            {PROMPT_PARTS[key].label}
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="custom-analysis-row">
+        <label className="custom-analysis-field">
+          <span className="settings-label">渡す日記</span>
+          <select
+            className="custom-select"
+            value={draft.sampleWindow}
+            onChange={e => update({ sampleWindow: e.target.value as CustomSampleWindow })}
+          >
+            {(Object.keys(SAMPLE_WINDOW_LABELS) as CustomSampleWindow[]).map(w => (
+              <option key={w} value={w}>{SAMPLE_WINDOW_LABELS[w]}</option>
+            ))}
+          </select>
+        </label>
+        {draft.sampleWindow === 'uniform' && (
+          <label className="custom-analysis-field">
+            <span className="settings-label">件数</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_CUSTOM_SAMPLE_COUNT}
+              value={draft.sampleCount}
+              onChange={e => update({ sampleCount: Number(e.target.value) })}
+              className="api-key-input custom-analysis-number"
+            />
+          </label>
+        )}
+        <label className="custom-analysis-field">
+          <span className="settings-label">最大トークン数</span>
+          <input
+            type="number"
+            min={MIN_CUSTOM_MAX_TOKENS}
+            max={MAX_CUSTOM_MAX_TOKENS}
+            step={100}
+            value={draft.maxTokens}
+            onChange={e => update({ maxTokens: Number(e.target.value) })}
+            className="api-key-input custom-analysis-number"
+          />
+        </label>
+      </div>
+
+      <label className="custom-analysis-check">
+        <input
+          type="checkbox"
+          checked={draft.includeDeepStats}
+          onChange={e => update({ includeDeepStats: e.target.checked })}
+        />
+        統計データ（変化の検出・季節ごとの集計・現在地）を添える
+      </label>
+
+      {error && <p className="error-text">{error}</p>}
+      <div className="entry-editor-footer">
+        <span className="entry-editor-spacer" />
+        <button className="btn btn-small" onClick={onCancel} disabled={saving}>
+          キャンセル
+        </button>
+        <button className="btn btn-small btn-primary" onClick={handleSave} disabled={saving}>
+          {saving ? '保存中...' : '保存'}
+        </button>
+      </div>
+    </div>
+  );
+}
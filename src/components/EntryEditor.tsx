@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import type { DiaryEntry, EntryRevision } from '../types';
+import { editEntry, deleteEntry, getEntryRevisions, markAllAiCacheStale } from '../db';
+import { toDateOnly } from '../utils/dateNormalize';
+import { toErrorMessage } from '../utils/errorMessage';
+
+interface EditorProps {
+  entry: DiaryEntry;
+  onSaved: (entry: DiaryEntry) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * 日記の本文・日付をその場で直す編集フォーム。
+ * 保存すると編集前の版が履歴に残り、AI分析キャッシュは stale になる。
+ */
+export function EntryEditor({ entry, onSaved, onDeleted, onClose }: EditorProps) {
+  const [content, setContent] = useState(entry.content);
+  const [date, setDate] = useState(entry.date ? toDateOnly(entry.date) : '');
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSave() {
+    if (!content.trim()) {
+      setError('本文を空にはできません。消したい場合は削除してください。');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const { entry: updated, revision } = await editEntry(entry.id, {
+        content: content.trim(),
+        date: date || null,
+      });
+      if (revision) await markAllAiCacheStale();
+      onSaved(updated);
+      onClose();
+    } catch (err) {
+      setError(toErrorMessage(err, '保存に失敗しました'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await deleteEntry(entry.id);
+      await markAllAiCacheStale();
+      onDeleted(entry.id);
+    } catch (err) {
+      setError(toErrorMessage(err, '削除に失敗しました'));
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="entry-editor">
+      <label className="entry-editor-field">
+        <span className="diary-lookup-label">日付</span>
+        <input
+          type="date"
+          value={date}
+          onChange={e => setDate(e.target.value)}
+          className="entry-editor-date"
+        />
+      </label>
+      <textarea
+        className="direct-input"
+        value={content}
+        onChange={e => setContent(e.target.value)}
+        rows={10}
+      />
+      {error && <p className="error-text">{error}</p>}
+      <div className="entry-editor-footer">
+        <button
+          className={`btn btn-small ${confirmDelete ? 'btn-danger-confirm' : 'btn-danger'}`}
+          onClick={handleDelete}
+          disabled={saving}
+        >
+          {confirmDelete ? '本当に削除する（宝物庫も消えます）' : 'この日記を削除'}
+        </button>
+        <span className="entry-editor-spacer" />
+        <button className="btn btn-small" onClick={onClose} disabled={saving}>
+          キャンセル
+        </button>
+        <button className="btn btn-small btn-primary" onClick={handleSave} disabled={saving}>
+          {saving ? '保存中...' : '保存'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  const h = String(d.getHours()).padStart(2, '0');
+  const min = String(d.getMinutes()).padStart(2, '0');
+  return `${y}/${m}/${day} ${h}:${min}`;
+}
+
+interface HistoryProps {
+  entry: DiaryEntry;
+  onRestored: (entry: DiaryEntry) => void;
+}
+
+/** 編集履歴の一覧。任意の版に戻せる（戻す操作自体も履歴に残る） */
+export function EntryRevisionHistory({ entry, onRestored }: HistoryProps) {
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getEntryRevisions(entry.id).then(list => {
+      if (!cancelled) setRevisions(list);
+    }).catch(err => {
+      if (!cancelled) setError(toErrorMessage(err, '編集履歴を読み込めませんでした'));
+    });
+    return () => { cancelled = true; };
+  }, [entry]);
+
+  async function handleRestore(revision: EntryRevision) {
+    setError(null);
+    try {
+      const { entry: restored } = await editEntry(entry.id, {
+        content: revision.content,
+        date: revision.date,
+      });
+      await markAllAiCacheStale();
+      onRestored(restored);
+    } catch (err) {
+      setError(toErrorMessage(err, '復元に失敗しました'));
+    }
+  }
+
+  if (revisions === null && error) return <p className="error-text">{error}</p>;
+  if (revisions === null) return <p className="loading-text">読み込み中...</p>;
+
+  return (
+    <div className="entry-history">
+      {revisions.length === 0 ? (
+        <p className="hint">編集履歴はありません</p>
+      ) : (
+        <ul className="entry-history-list">
+          {revisions.map(r => (
+            <li key={r.id} className="entry-history-item">
+              <div className="entry-history-header">
+                <span className="entry-history-date">
+                  {formatDateTime(r.editedAt)} まで
+                  {' / '}日付: {r.date ? toDateOnly(r.date) : '不明'}
+                </span>
+                <button className="diary-lookup-link" onClick={() => handleRestore(r)}>
+                  この版に戻す
+                </button>
+              </div>
+              <div className="entry-history-content">{r.content}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="error-text">{error}</p>}
+    </div>
+  );
+}
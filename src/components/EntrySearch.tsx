@@ -0,0 +1,149 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { DiaryEntry } from '../types';
+import { ensureSearchIndex, searchEntries } from '../db';
+import { parseSearchQuery, isEmptyQuery, buildSnippets } from '../utils/search';
+import { toDateOnly } from '../utils/dateNormalize';
+import { toErrorMessage } from '../utils/errorMessage';
+
+const SEARCH_DEBOUNCE_MS = 250;
+const PAGE_SIZE = 50;
+
+interface Props {
+  sourceFiles: string[];
+  onOpenDate: (date: string) => void;
+}
+
+/**
+ * キーワードで全日記を検索する。
+ * 転置インデックス（IndexedDB）で候補を絞るので、件数が多くても入力ごとに全件を走査しない。
+ */
+export function EntrySearch({ sourceFiles, onOpenDate }: Props) {
+  const [input, setInput] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [sourceFile, setSourceFile] = useState('');
+  const [indexProgress, setIndexProgress] = useState<{ done: number; total: number } | null>(null);
+  const [indexReady, setIndexReady] = useState(false);
+  const [results, setResults] = useState<DiaryEntry[] | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = useMemo(() => parseSearchQuery(input), [input]);
+  const highlightTerms = useMemo(() => query.groups.flat(), [query]);
+
+  // 初回表示時に、まだ索引のない日記を索引付けする
+  useEffect(() => {
+    let cancelled = false;
+    ensureSearchIndex((done, total) => {
+      if (!cancelled) setIndexProgress({ done, total });
+    })
+      .then(() => {
+        if (!cancelled) setIndexReady(true);
+      })
+      .catch(err => {
+        if (!cancelled) setError(toErrorMessage(err, '検索インデックスの作成に失敗しました'));
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!indexReady) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      if (isEmptyQuery(query)) {
+        setResults(null);
+        return;
+      }
+      searchEntries(query, { from: from || undefined, to: to || undefined, sourceFile: sourceFile || undefined })
+        .then(found => {
+          if (cancelled) return;
+          setResults(found);
+          setVisibleCount(PAGE_SIZE);
+          setError(null);
+        })
+        .catch(err => {
+          if (!cancelled) setError(toErrorMessage(err, '検索に失敗しました'));
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [indexReady, query, from, to, sourceFile]);
+
+  return (
+    <div className="entry-search">
+      <input
+        type="search"
+        className="entry-search-input"
+        value={input}
+        onChange={e => setInput(e.target.value)}
+        placeholder='例: 山 雨 OR 雪 -仕事 "ひとりで歩いた"'
+        aria-label="日記を検索"
+      />
+      <p className="hint">
+        空白区切りで AND、OR でどちらか、-語 で除外、"…" でフレーズ検索
+      </p>
+
+      <div className="entry-search-filters">
+        <label>
+          <span className="diary-lookup-label">期間</span>
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} aria-label="開始日" />
+          <span>〜</span>
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} aria-label="終了日" />
+        </label>
+        {sourceFiles.length > 1 && (
+          <label>
+            <span className="diary-lookup-label">ソース</span>
+            <select value={sourceFile} onChange={e => setSourceFile(e.target.value)}>
+              <option value="">すべて</option>
+              {sourceFiles.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {error && <p className="error-text">{error}</p>}
+
+      {!indexReady ? (
+        <p className="loading-text">
+          検索インデックスを準備中...
+          {indexProgress && `（${indexProgress.done} / ${indexProgress.total}件）`}
+        </p>
+      ) : results === null ? null : results.length === 0 ? (
+        <p className="empty-message">一致する日記は見つかりませんでした。</p>
+      ) : (
+        <>
+          <p className="entry-search-count">{results.length}件ヒット</p>
+          <ul className="entry-search-results">
+            {results.slice(0, visibleCount).map(entry => (
+              <li key={entry.id} className="entry-search-result">
+                <div className="entry-search-result-header">
+                  <span className="entry-search-result-date">
+                    {entry.date ? toDateOnly(entry.date) : '日付不明'}
+                  </span>
+                  <span className="entry-search-result-source">{entry.sourceFile}</span>
+                  {entry.date && (
+                    <button className="diary-lookup-link" onClick={() => onOpenDate(toDateOnly(entry.date!))}>
+                      この日を開く
+                    </button>
+                  )}
+                </div>
+                {buildSnippets(entry.content, highlightTerms).map((parts, i) => (
+                  <p key={i} className="entry-search-snippet">
+                    {parts.map((part, j) => part.hit ? <mark key={j}>{part.text}</mark> : part.text)}
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+          {results.length > visibleCount && (
+            <button className="btn btn-small" onClick={() => setVisibleCount(c => c + PAGE_SIZE)}>
+              さらに表示（残り{results.length - visibleCount}件）
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import type { DiaryEntry, FutureComment } from '../types';
+import { updateEntry } from '../db';
+import {
+  FUTURE_COMMENT_MAX_LENGTH,
+  countChars,
+  validateFutureComment,
+  createFutureComment,
+  formatElapsedSince,
+} from '../utils/futureComment';
+import { toErrorMessage } from '../utils/errorMessage';
+
+interface Props {
+  entry: DiaryEntry;
+  onUpdated: (entry: DiaryEntry) => void;
+}
+
+/**
+ * 未来の自分から過去の日記へ書き込むコメント欄（140字まで）。
+ * 保存は updateEntry 経由でエントリ自体に埋め込む。
+ */
+export function FutureComments({ entry, onUpdated }: Props) {
+  const comments = entry.comments ?? [];
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function save(next: FutureComment[]): Promise<boolean> {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = { ...entry, comments: next };
+      await updateEntry(updated);
+      onUpdated(updated);
+      return true;
+    } catch (err) {
+      setError(toErrorMessage(err, 'コメントの保存に失敗しました'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAdd() {
+    const invalid = validateFutureComment(draft);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    if (await save([...comments, createFutureComment(draft)])) {
+      setDraft('');
+    }
+  }
+
+  async function handleEditSave(id: string) {
+    const invalid = validateFutureComment(editText);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    const next = comments.map(c => c.id === id ? { ...c, text: editText.trim() } : c);
+    if (await save(next)) {
+      setEditingId(null);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    await save(comments.filter(c => c.id !== id));
+  }
+
+  const draftCount = countChars(draft.trim());
+  const editCount = countChars(editText.trim());
+
+  return (
+    <div className="future-comments">
+      {comments.length > 0 && (
+        <ul className="future-comments-list">
+          {comments.map(c => (
+            <li key={c.id} className="future-comment">
+              <div className="future-comment-header">
+                {entry.date && (
+                  <span className="future-comment-badge">
+                    {formatElapsedSince(entry.date, c.createdAt)}に書いたコメント
+                  </span>
+                )}
+                <span className="future-comment-date">{c.createdAt.slice(0, 10).replace(/-/g, '.')}</span>
+              </div>
+              {editingId === c.id ? (
+                <>
+                  <textarea
+                    className="future-comment-input"
+                    value={editText}
+                    onChange={e => setEditText(e.target.value)}
+                    rows={3}
+                  />
+                  <div className="future-comment-footer">
+                    <span className={`future-comment-counter${editCount > FUTURE_COMMENT_MAX_LENGTH ? ' over' : ''}`}>
+                      {editCount}/{FUTURE_COMMENT_MAX_LENGTH}
+                    </span>
+                    <button className="btn btn-small" onClick={() => setEditingId(null)} disabled={saving}>
+                      キャンセル
+                    </button>
+                    <button className="btn btn-small" onClick={() => handleEditSave(c.id)} disabled={saving}>
+                      保存
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="future-comment-text">{c.text}</p>
+                  <div className="future-comment-actions">
+                    <button
+                      className="future-comment-action"
+                      onClick={() => { setEditingId(c.id); setEditText(c.text); setError(null); }}
+                      disabled={saving}
+                    >
+                      編集
+                    </button>
+                    <button
+                      className="future-comment-action"
+                      onClick={() => handleDelete(c.id)}
+                      disabled={saving}
+                    >
+                      削除
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <textarea
+        className="future-comment-input"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        placeholder="未来の自分から、この日の自分へ（140字まで）"
+        rows={2}
+      />
+      <div className="future-comment-footer">
+        <span className={`future-comment-counter${draftCount > FUTURE_COMMENT_MAX_LENGTH ? ' over' : ''}`}>
+          {draftCount}/{FUTURE_COMMENT_MAX_LENGTH}
+        </span>
+        <button
+          className="btn btn-small"
+          onClick={handleAdd}
+          disabled={saving || draftCount === 0 || draftCount > FUTURE_COMMENT_MAX_LENGTH}
+        >
+          {saving ? '保存中...' : 'コメントを残す'}
+        </button>
+      </div>
+      {error && <p className="error-text">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ImportBatch } from '../types';
+import { getImportBatches, rollbackImportBatch, markAllAiCacheStale } from '../db';
+import { toErrorMessage } from '../utils/errorMessage';
+
+type BatchWithRemaining = ImportBatch & { remaining: number };
+
+const MAX_LISTED_FILES = 5;
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  const h = String(d.getHours()).padStart(2, '0');
+  const min = String(d.getMinutes()).padStart(2, '0');
+  return `${y}/${m}/${day} ${h}:${min}`;
+}
+
+/** インポート履歴。1回分のインポートをまるごと取り消せる */
+export function ImportHistory({ onMessage }: { onMessage: (message: string) => void }) {
+  const [batches, setBatches] = useState<BatchWithRemaining[] | null>(null);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setBatches(await getImportBatches());
+      setError(null);
+    } catch (err) {
+      const message = toErrorMessage(err, 'インポート履歴を読み込めませんでした');
+      setError(message);
+      onMessage(message);
+    }
+  }, [onMessage]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleRollback(batch: BatchWithRemaining) {
+    if (confirmId !== batch.id) {
+      setConfirmId(batch.id);
+      return;
+    }
+    setBusyId(batch.id);
+    try {
+      const deleted = await rollbackImportBatch(batch.id);
+      if (deleted > 0) await markAllAiCacheStale();
+      onMessage(`${formatDateTime(batch.importedAt)} のインポートを取り消しました（${deleted}件を削除）`);
+      await load();
+    } catch (err) {
+      onMessage(toErrorMessage(err, '取り消しに失敗しました'));
+    } finally {
+      setBusyId(null);
+      setConfirmId(null);
+    }
+  }
+
+  if (batches === null && error) return <p className="error-text">{error}</p>;
+  if (batches === null) return <p className="loading-text">読み込み中...</p>;
+  if (batches.length === 0) return <p className="settings-desc">インポート履歴はありません</p>;
+
+  return (
+    <ul className="import-history">
+      {batches.map(batch => (
+        <li key={batch.id} className="import-history-item">
+          <div className="import-history-main">
+            <p className="settings-label">{formatDateTime(batch.importedAt)}</p>
+            <p className="settings-desc">
+              追加 {batch.added}件
+              {batch.duplicates > 0 && ` / 重複スキップ ${batch.duplicates}件`}
+              {batch.remaining !== batch.added && ` / 現在 ${batch.remaining}件`}
+            </p>
+            <p className="import-history-files">
+              {batch.files.slice(0, MAX_LISTED_FILES).map(f => `${f.path}（${f.count}）`).join('、')}
+              {batch.files.length > MAX_LISTED_FILES && ` ほか${batch.files.length - MAX_LISTED_FILES}ファイル`}
+            </p>
+          </div>
+          <button
+            className={`btn btn-small ${confirmId === batch.id ? 'btn-danger-confirm' : 'btn-danger'}`}
+            onClick={() => handleRollback(batch)}
+            disabled={busyId !== null}
+          >
+            {busyId === batch.id
+              ? '取り消し中...'
+              : confirmId === batch.id
+                ? `${batch.remaining}件を削除する`
+                : '取り消す'}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
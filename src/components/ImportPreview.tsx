@@ -0,0 +1,190 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { DiaryEntry } from '../types';
+import { getDeduplicationKeys, findDuplicateIds } from '../db';
+import {
+  setEntryDate,
+  previousInSameFile,
+  mergeWithPrevious,
+  splitEntry,
+  groupBySourceFile,
+} from '../utils/importPreview';
+import { toDateOnly } from '../utils/dateNormalize';
+import { toErrorMessage } from '../utils/errorMessage';
+
+const PREVIEW_LINES = 4;
+
+interface Props {
+  entries: DiaryEntry[];
+  saving: boolean;
+  onConfirm: (entries: DiaryEntry[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 取り込み前の確認画面。ファイルがどう区切られたかを見て、
+ * 日付の修正・結合・分割・除外をしてから保存できる。
+ */
+export function ImportPreview({ entries, saving, onConfirm, onCancel }: Props) {
+  const [rows, setRows] = useState(entries);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [existingKeys, setExistingKeys] = useState<Set<string> | null>(null);
+  const [duplicateIds, setDuplicateIds] = useState<Set<string>>(new Set());
+  const [splittingId, setSplittingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const kept = useMemo(() => rows.filter(r => !excluded.has(r.id)), [rows, excluded]);
+  const groups = useMemo(() => groupBySourceFile(rows, duplicateIds), [rows, duplicateIds]);
+  const importable = kept.filter(r => !duplicateIds.has(r.id)).length;
+
+  // 保存済みエントリの重複キーは一度だけ計算する
+  useEffect(() => {
+    let cancelled = false;
+    getDeduplicationKeys().then(keys => {
+      if (!cancelled) setExistingKeys(keys);
+    }).catch(err => {
+      if (!cancelled) setError(toErrorMessage(err, '保存済みの日記との重複を確認できませんでした'));
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // 手直しで日付や本文が変わるたびに重複を判定し直す（除外した行は数えない）
+  useEffect(() => {
+    if (!existingKeys) return;
+    let cancelled = false;
+    findDuplicateIds(kept, existingKeys).then(ids => {
+      if (!cancelled) setDuplicateIds(ids);
+    }).catch(err => {
+      if (!cancelled) setError(toErrorMessage(err, '重複を確認できませんでした'));
+    });
+    return () => { cancelled = true; };
+  }, [kept, existingKeys]);
+
+  function toggleExcluded(id: string) {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  }
+
+  function handleSplit(id: string, lineIndex: number) {
+    setRows(splitEntry(rows, id, lineIndex));
+    setSplittingId(null);
+  }
+
+  return (
+    <div className="import-preview">
+      <h2>取り込み内容の確認</h2>
+      <p className="hint">
+        ファイルの区切り方を確認してください。日付の修正、前のエントリとの結合、分割、除外ができます。
+      </p>
+
+      {groups.map(group => (
+        <section key={group.sourceFile} className="import-preview-file">
+          <h3 className="import-preview-file-name">
+            {group.sourceFile}
+            <span className="import-preview-file-stats">
+              {group.entries.length}件
+              {group.undated > 0 && ` / 日付不明 ${group.undated}`}
+              {group.duplicates > 0 && ` / 重複 ${group.duplicates}`}
+            </span>
+          </h3>
+
+          <ul className="import-preview-list">
+            {group.entries.map(entry => {
+              const isExcluded = excluded.has(entry.id);
+              const isDuplicate = duplicateIds.has(entry.id);
+              const lines = entry.content.split('\n');
+              const expanded = expandedId === entry.id;
+              // 除外した行に結合すると本文ごと取り込まれなくなるので、前の行も残すときだけ結合できる
+              const previous = previousInSameFile(rows, entry.id);
+              const shown = expanded ? lines : lines.slice(0, PREVIEW_LINES);
+              return (
+                <li
+                  key={entry.id}
+                  className={`import-preview-row${isExcluded ? ' excluded' : ''}${entry.date === null ? ' undated' : ''}`}
+                >
+                  <div className="import-preview-row-header">
+                    <input
+                      type="date"
+                      className="entry-editor-date"
+                      value={entry.date ? toDateOnly(entry.date) : ''}
+                      onChange={e => setRows(setEntryDate(rows, entry.id, e.target.value || null))}
+                      disabled={isExcluded}
+                      aria-label="日付"
+                    />
+                    {entry.date === null && <span className="import-preview-badge">日付不明</span>}
+                    {isDuplicate && !isExcluded && (
+                      <span className="import-preview-badge duplicate">重複（取り込まれません）</span>
+                    )}
+                    <span className="entry-editor-spacer" />
+                    {previous && !isExcluded && !excluded.has(previous.id) && (
+                      <button className="diary-lookup-link" onClick={() => setRows(mergeWithPrevious(rows, entry.id))}>
+                        前と結合
+                      </button>
+                    )}
+                    {lines.length > 1 && !isExcluded && (
+                      <button
+                        className="diary-lookup-link"
+                        onClick={() => setSplittingId(splittingId === entry.id ? null : entry.id)}
+                      >
+                        {splittingId === entry.id ? '分割をやめる' : '分割'}
+                      </button>
+                    )}
+                    <button className="diary-lookup-link" onClick={() => toggleExcluded(entry.id)}>
+                      {isExcluded ? '戻す' : '除外'}
+                    </button>
+                  </div>
+
+                  {splittingId === entry.id ? (
+                    <ol className="import-preview-split">
+                      {lines.map((line, i) => (
+                        <li key={i}>
+                          {i > 0 && (
+                            <button className="import-preview-split-here" onClick={() => handleSplit(entry.id, i)}>
+                              ✂ ここから分割
+                            </button>
+                          )}
+                          <span>{line || ' '}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <div className="import-preview-content">
+                      {shown.join('\n')}
+                      {lines.length > PREVIEW_LINES && (
+                        <button className="diary-lookup-link" onClick={() => setExpandedId(expanded ? null : entry.id)}>
+                          {expanded ? '折りたたむ' : `…続き ${lines.length - PREVIEW_LINES} 行`}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+
+      <div className="import-preview-footer">
+        <span className="import-preview-summary">
+          {error
+            ? <span className="error-text">{error}</span>
+            : existingKeys === null
+            ? '重複を確認中...'
+            : `取り込み ${importable}件（除外 ${rows.length - kept.length} / 重複 ${kept.length - importable}）`}
+        </span>
+        <span className="entry-editor-spacer" />
+        <button className="btn" onClick={onCancel} disabled={saving}>キャンセル</button>
+        <button
+          className="btn btn-primary"
+          onClick={() => onConfirm(kept)}
+          disabled={saving || existingKeys === null || importable === 0}
+        >
+          {saving ? '保存中...' : 'この内容で取り込む'}
+        </button>
+      </div>
+    </div>
+  );
+}
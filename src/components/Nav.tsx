@@ -1,17 +1,47 @@
 import { useState, useCallback, useEffect } from 'react';
 import { NavLink, useLocation } from 'react-router-dom';
+import { useJobQueue } from '../hooks/useJobQueue';
+import { summarizeJobRuns } from '../utils/jobQueue';
 
 const links = [
   { to: '/', label: 'トップ' },
   { to: '/timeline', label: 'タイムライン' },
   { to: '/fragments', label: '宝物庫' },
   { to: '/diary', label: '日記検索' },
+  { to: '/observatory', label: '観測所' },
   { to: '/import', label: 'インポート' },
   { to: '/analysis', label: 'AI分析' },
   { to: '/ai-logs', label: 'AIログ' },
   { to: '/settings', label: '設定' },
 ];
 
+// AI処理のジョブが残っている間だけ、進み具合と行き先を出す
+function JobIndicator() {
+  const { jobs } = useJobQueue();
+  const active = summarizeJobRuns(jobs).filter(r => r.active);
+  if (active.length === 0) return null;
+
+  const total = active.reduce((sum, r) => sum + r.total, 0);
+  const finished = active.reduce((sum, r) => sum + r.finished, 0);
+  const waitingUntil = active.find(r => r.waitingUntil)?.waitingUntil;
+  const resumeAt = waitingUntil
+    ? new Date(waitingUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : null;
+
+  return (
+    <NavLink
+      to={active[0].kind === 'fragments' ? '/fragments' : '/analysis'}
+      className="nav-jobs"
+      title={resumeAt ? `APIの混雑のため ${resumeAt} に再開します` : 'AIの処理を続けています'}
+    >
+      <span>{resumeAt ? 'AI 待機中' : 'AI 処理中'} {finished}/{total}</span>
+      <span className="nav-jobs-bar">
+        <span className="nav-jobs-fill" style={{ width: `${(finished / total) * 100}%` }} />
+      </span>
+    </NavLink>
+  );
+}
+
 export function Nav() {
   const [open, setOpen] = useState(false);
   const location = useLocation();
@@ -29,6 +59,7 @@ export function Nav() {
     <nav className="nav" aria-label="メインナビゲーション">
       <div className="nav-bar">
         <NavLink to="/" className="nav-brand">登山ログ</NavLink>
+        <JobIndicator />
         <button
           className="nav-toggle"
           onClick={toggle}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useLockState } from '../hooks/useLockState';
+import { useJobQueue } from '../hooks/useJobQueue';
+import {
+  getEncryptionSettings,
+  validatePassphrase,
+  DEFAULT_IDLE_LOCK_MINUTES,
+  IDLE_LOCK_CHOICES,
+} from '../utils/encryption';
+import { enablePassphraseLock, disablePassphraseLock, lockNow, setIdleLockMinutes } from '../utils/passphraseLock';
+import { toErrorMessage } from '../utils/errorMessage';
+
+function idleLabel(minutes: number): string {
+  return minutes === 0 ? '自動ではロックしない' : `${minutes}分操作がなければロック`;
+}
+
+/** パスフレーズのロックの有効化・解除と、自動ロックまでの時間 */
+export function PassphraseLockSettings({ onMessage }: { onMessage: (message: string) => void }) {
+  const lockState = useLockState();
+  const { activeJobId } = useJobQueue();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [idleMinutes, setIdleMinutes] = useState(() => getEncryptionSettings()?.idleMinutes ?? DEFAULT_IDLE_LOCK_MINUTES);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [busy, setBusy] = useState<'encrypt' | 'decrypt' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const enabled = lockState !== 'off';
+
+  const onProgress = (done: number, total: number) => setProgress({ done, total });
+
+  async function handleEnable() {
+    const invalid = validatePassphrase(passphrase, confirmation);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setBusy('encrypt');
+    setError(null);
+    try {
+      const plainFiles = await enablePassphraseLock(passphrase, idleMinutes, onProgress);
+      setPassphrase('');
+      setConfirmation('');
+      onMessage(plainFiles.length > 0
+        ? `ロックを有効にし、保存済みのデータを暗号化しました。書き出し先フォルダの ${plainFiles.join('、')} は平文のままなので、フォルダから削除してください`
+        : 'ロックを有効にし、保存済みのデータを暗号化しました');
+    } catch (err) {
+      setError(toErrorMessage(err, '暗号化に失敗しました'));
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  }
+
+  async function handleDisable() {
+    setBusy('decrypt');
+    setError(null);
+    try {
+      await disablePassphraseLock(passphrase, onProgress);
+      setPassphrase('');
+      onMessage('ロックをやめ、データを暗号化しない形に戻しました');
+    } catch (err) {
+      setError(toErrorMessage(err, '暗号化の解除に失敗しました'));
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  }
+
+  function handleIdleChange(minutes: number) {
+    setIdleMinutes(minutes);
+    if (enabled) {
+      setIdleLockMinutes(minutes);
+      onMessage(minutes === 0 ? '自動ロックを止めました' : `${minutes}分操作がなければロックします`);
+    }
+  }
+
+  return (
+    <>
+      <div className="settings-row">
+        <div style={{ flex: 1 }}>
+          <p className="settings-label">自動ロック</p>
+          <p className="settings-desc">AI分析の実行中は、終わるまでロックしません。</p>
+        </div>
+        <select
+          className="custom-select"
+          value={idleMinutes}
+          onChange={e => handleIdleChange(Number(e.target.value))}
+          aria-label="自動ロックまでの時間"
+          disabled={!!busy}
+        >
+          {IDLE_LOCK_CHOICES.map(minutes => (
+            <option key={minutes} value={minutes}>{idleLabel(minutes)}</option>
+          ))}
+        </select>
+      </div>
+
+      {enabled && (
+        <div className="settings-row">
+          <div>
+            <p className="settings-label">今すぐロック</p>
+            <p className="settings-desc">
+              {activeJobId ? 'AI分析の実行中はロックできません' : '次に開くときはパスフレーズが必要です'}
+            </p>
+          </div>
+          <button onClick={lockNow} className="btn btn-small" disabled={!!busy || !!activeJobId}>
+            ロック
+          </button>
+        </div>
+      )}
+
+      <div className="settings-row">
+        <div className="passphrase-fields">
+          <p className="settings-label">{enabled ? 'ロックをやめる' : 'パスフレーズでロック'}</p>
+          <p className="settings-desc">
+            {enabled
+              ? 'パスフレーズを入力すると、すべてのデータを暗号化しない形に戻します。'
+              : '日記の本文・未来からのコメント・日記アプリから取り込んだ場所やタグや天気・宝物庫・観測所のメモ・AIの分析結果・分析タイプのプロンプト・APIキーを暗号化して保存します。日付と時刻、件数、分析タイプの名前は暗号化しません。'}
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder="パスフレーズ"
+            className="api-key-input"
+            autoComplete={enabled ? 'current-password' : 'new-password'}
+            disabled={!!busy}
+          />
+          {!enabled && (
+            <input
+              type="password"
+              value={confirmation}
+              onChange={e => setConfirmation(e.target.value)}
+              placeholder="パスフレーズ（確認）"
+              className="api-key-input"
+              autoComplete="new-password"
+              disabled={!!busy}
+            />
+          )}
+          {error && <p className="error-text">{error}</p>}
+          {progress && (
+            <p className="settings-desc">
+              {busy === 'decrypt' ? '復号中' : '暗号化中'}... {progress.done} / {progress.total}件
+            </p>
+          )}
+        </div>
+        <button
+          onClick={enabled ? handleDisable : handleEnable}
+          className={`btn btn-small${enabled ? ' btn-danger' : ''}`}
+          disabled={!!busy || !passphrase || !!activeJobId}
+        >
+          {busy ? '処理中...' : enabled ? 'ロックをやめる' : '有効にする'}
+        </button>
+      </div>
+
+      {!enabled && (
+        <p className="settings-desc passphrase-warning">
+          パスフレーズを忘れると、暗号化したデータは誰にも（このアプリにも）戻せません。
+          バックアップは、エクスポートのときに暗号化を選ばないと平文のまま書き出されます。
+          これまでの自動バックアップのスナップショットは暗号化し直し、書き出し先フォルダのファイルも
+          書き込みが許可されていれば暗号化したものに置き換えます。
+        </p>
+      )}
+    </>
+  );
+}
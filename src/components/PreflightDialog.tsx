@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from 'react';
+import { getAllAiUsageRecords, getAiCostSince } from '../db';
+import { getAiProviderConfig, AI_PROVIDERS } from '../utils/aiProvider';
+import { formatUsd, getMonthlyBudgetUsd, monthStartISO } from '../utils/aiUsage';
+import { estimatePreflight, formatDuration, type PlannedRequest, type PreflightEstimate } from '../utils/preflight';
+
+interface Props {
+  title: string;
+  /** 見積もり用に集めたリクエスト（集めている間は null） */
+  requests: PlannedRequest[] | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * 一括実行の前に、リクエスト数・トークン数・費用・所要時間の見積もりを見せて確認する
+ */
+export function PreflightDialog({ title, requests, onConfirm, onCancel }: Props) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [estimate, setEstimate] = useState<PreflightEstimate | null>(null);
+  const [remainingUsd, setRemainingUsd] = useState<number | null>(null);
+  const { provider, model } = getAiProviderConfig();
+
+  useEffect(() => {
+    dialogRef.current?.showModal();
+  }, []);
+
+  useEffect(() => {
+    if (!requests) return;
+    let cancelled = false;
+    const budget = getMonthlyBudgetUsd();
+    Promise.all([getAllAiUsageRecords(), getAiCostSince(monthStartISO(new Date()))]).then(([history, spent]) => {
+      if (cancelled) return;
+      setEstimate(estimatePreflight(requests, { provider, model }, history));
+      setRemainingUsd(budget === null ? null : Math.max(0, budget - spent));
+    });
+    return () => { cancelled = true; };
+  }, [requests, provider, model]);
+
+  const overBudget = estimate?.costUsd != null && remainingUsd !== null && estimate.costUsd > remainingUsd;
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="preflight-dialog"
+      onCancel={e => { e.preventDefault(); onCancel(); }}
+      aria-labelledby="preflight-title"
+    >
+      <h2 id="preflight-title">{title}</h2>
+      {!estimate ? (
+        <p className="loading-text">見積もり中...</p>
+      ) : estimate.requests === 0 ? (
+        <p className="settings-desc">送るリクエストはありません</p>
+      ) : (
+        <>
+          <dl className="preflight-figures">
+            <dt>リクエスト数</dt>
+            <dd>{estimate.requests.toLocaleString()}回</dd>
+            <dt>入力トークン</dt>
+            <dd>約{estimate.inputTokens.toLocaleString()}</dd>
+            <dt>出力トークン</dt>
+            <dd>約{estimate.outputTokens.toLocaleString()}</dd>
+            <dt>推定費用</dt>
+            <dd>{estimate.costUsd === null ? '不明（単価のわからないモデル）' : formatUsd(estimate.costUsd)}</dd>
+            <dt>所要時間</dt>
+            <dd>{formatDuration(estimate.seconds)}</dd>
+          </dl>
+          <p className="settings-desc">
+            {model}（{AI_PROVIDERS[provider].label}）で見積もっています。
+            {estimate.historyPurposes.length > 0
+              ? '出力トークンと所要時間はこれまでの呼び出しの平均から出しています。'
+              : '出力トークンと所要時間は目安です。'}
+          </p>
+          {remainingUsd !== null && (
+            <p className={overBudget ? 'error-text' : 'settings-desc'}>
+              今月の残り予算: {formatUsd(remainingUsd)}
+              {overBudget && '（途中で予算に達して止まる見込みです）'}
+            </p>
+          )}
+        </>
+      )}
+      <div className="preflight-actions">
+        <button onClick={onCancel} className="btn btn-small">やめる</button>
+        <button
+          onClick={onConfirm}
+          disabled={!estimate || estimate.requests === 0}
+          className="btn btn-small btn-primary"
+        >
+          実行する
+        </button>
+      </div>
+    </dialog>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef } from 'react';
+import type { CustomAnalysisType, PromptVersion } from '../types';
+import { getPromptVersionsByPurpose } from '../db';
+import { isAiProviderReady, isAbortError, getAiProviderConfig } from '../utils/aiProvider';
+import { formatUsd } from '../utils/aiUsage';
+import { getRunOrder, getAnalysisLabel } from '../utils/analysisTypes';
+import { runComparison, type ComparisonVariant, type ComparisonResult } from '../utils/analysisRunner';
+import { AiResultBody } from './AiResultBody';
+
+const VARIANT_NAMES = ['A', 'B'];
+
+function formatDate(iso: string): string {
+  const d = new Date(iso);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}/${m}/${day}`;
+}
+
+/**
+ * 同じ「今日」で、プロンプトの版かモデルを変えた2つの分析を並べて比べる。
+ * 結果は保存しない
+ */
+export function PromptCompare({ customTypes }: { customTypes: CustomAnalysisType[] }) {
+  const types = getRunOrder(customTypes);
+  const [type, setType] = useState(types[0]);
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [variants, setVariants] = useState<ComparisonVariant[]>([{}, {}]);
+  const [running, setRunning] = useState(false);
+  const [partials, setPartials] = useState<(string | null)[]>([null, null]);
+  const [outcome, setOutcome] = useState<{ date?: string; results: ComparisonResult[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const defaultModel = getAiProviderConfig().model;
+
+  useEffect(() => {
+    let cancelled = false;
+    getPromptVersionsByPurpose(type).then(v => {
+      if (!cancelled) setVersions(v);
+    });
+    return () => { cancelled = true; };
+  }, [type]);
+
+  function handleTypeChange(next: string) {
+    setType(next);
+    // 版は分析ごとに違うので、選び直してもらう
+    setVariants(variants.map(v => ({ ...v, promptVersion: undefined })));
+    setOutcome(null);
+  }
+
+  function updateVariant(index: number, patch: ComparisonVariant) {
+    setVariants(variants.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+  }
+
+  async function handleRun() {
+    if (!isAiProviderReady()) {
+      setError('APIキーが設定されていません。設定ページで入力してください。');
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError(null);
+    setOutcome(null);
+    setPartials([null, null]);
+    try {
+      setOutcome(await runComparison(type, variants, {
+        signal: controller.signal,
+        onText: (index, text) => setPartials(prev => prev.map((p, i) => (i === index ? text : p))),
+      }));
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : '比較に失敗しました');
+    } finally {
+      abortRef.current = null;
+      setPartials([null, null]);
+      setRunning(false);
+    }
+  }
+
+  return (
+    <div className="prompt-compare">
+      <div className="prompt-compare-controls">
+        <select
+          className="custom-select"
+          value={type}
+          onChange={e => handleTypeChange(e.target.value)}
+          disabled={running}
+          aria-label="比べる分析"
+        >
+          {types.map(t => (
+            <option key={t} value={t}>{getAnalysisLabel(t, customTypes)}</option>
+          ))}
+        </select>
+        {variants.map((variant, i) => (
+          <div key={i} className="prompt-compare-variant">
+            <span className="settings-label">{VARIANT_NAMES[i]}</span>
+            <select
+              className="custom-select"
+              value={variant.promptVersion ?? ''}
+              onChange={e => updateVariant(i, { promptVersion: e.target.value || undefined })}
+              disabled={running}
+              aria-label={`${VARIANT_NAMES[i]} のプロンプト`}
+            >
+              <option value="">現行のプロンプト</option>
+              {versions.map(v => (
+                <option key={v.version} value={v.version}>
+                  版 {v.version}（{formatDate(v.firstUsedAt)}〜）
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={variant.model ?? ''}
+              onChange={e => updateVariant(i, { model: e.target.value.trim() || undefined })}
+              placeholder={defaultModel}
+              className="api-key-input"
+              disabled={running}
+              aria-label={`${VARIANT_NAMES[i]} のモデル`}
+            />
+          </div>
+        ))}
+        <div className="prompt-compare-actions">
+          <button onClick={handleRun} disabled={running} className="btn btn-small btn-primary">
+            {running ? '比較中...' : '比較する'}
+          </button>
+          {running && (
+            <button onClick={() => abortRef.current?.abort()} className="btn btn-small btn-danger">
+              中止
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="settings-desc">
+        同じ「今日」の日記で2回分析します（2回分の費用がかかります）。比較の結果はAIログに残りません。
+        過去の版で差し替えるのはシステムプロンプトだけです。
+      </p>
+      {error && <p className="error-text">{error}</p>}
+
+      {(running || outcome) && (
+        <div className="prompt-compare-results">
+          {variants.map((variant, i) => {
+            const result = outcome?.results[i];
+            const text = result?.text ?? partials[i];
+            return (
+              <section key={i} className="prompt-compare-column" aria-live="polite">
+                <div className="ailogs-body-meta">
+                  <span>{VARIANT_NAMES[i]}</span>
+                  <span>版 {result?.promptVersion ?? variant.promptVersion ?? '現行'}</span>
+                  <span>{result?.model ?? variant.model ?? defaultModel}</span>
+                  {result?.usage?.costUsd != null && <span>約 {formatUsd(result.usage.costUsd)}</span>}
+                </div>
+                {text !== null && text !== undefined
+                  ? <AiResultBody text={text} />
+                  : <p className="loading-text">{running ? '待機中...' : ''}</p>}
+              </section>
+            );
+          })}
+        </div>
+      )}
+      {outcome?.date && <p className="settings-desc">対象日: {outcome.date}</p>}
+    </div>
+  );
+}
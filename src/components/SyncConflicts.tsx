@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { SyncConflict, SyncRecord, SyncStoreName } from '../types';
+import { getSyncConflicts, adoptSyncConflict, dismissSyncConflict, markAllAiCacheStale } from '../db';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { toErrorMessage } from '../utils/errorMessage';
+
+const STORE_LABELS: Record<SyncStoreName, string> = {
+  entries: '日記',
+  fragments: '宝物庫',
+  observations: '観測所',
+};
+const PREVIEW_LENGTH = 60;
+
+function preview(text: string): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > PREVIEW_LENGTH ? `${oneLine.slice(0, PREVIEW_LENGTH)}…` : oneLine;
+}
+
+function describeRecord(record: SyncRecord): string {
+  if (record.value === null) return '削除';
+  switch (record.store) {
+    case 'entries': return `${record.value.date ?? '日付なし'} ${preview(record.value.content)}`;
+    case 'fragments': return preview(record.value.text);
+    case 'observations': return `${record.value.date} ${record.value.sky} ${preview(record.value.note)}`;
+  }
+}
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  const h = String(d.getHours()).padStart(2, '0');
+  const min = String(d.getMinutes()).padStart(2, '0');
+  return `${m}/${day} ${h}:${min}`;
+}
+
+/** 同期の衝突。新しい方が採用されているので、採用されなかった方を選び直せる */
+export function SyncConflicts({ onMessage }: { onMessage: (message: string) => void }) {
+  const { lastSyncedAt } = useSyncStatus();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setConflicts(await getSyncConflicts());
+  }, []);
+
+  // 同期のたびに読み直す
+  useEffect(() => {
+    load();
+  }, [load, lastSyncedAt]);
+
+  async function handleAdopt(conflict: SyncConflict) {
+    setBusyKey(conflict.key);
+    try {
+      await adoptSyncConflict(conflict.key);
+      if (conflict.store === 'entries') await markAllAiCacheStale();
+      onMessage('採用しなかった方に戻しました。次の同期でほかの端末にも反映されます');
+      await load();
+    } catch (err) {
+      onMessage(toErrorMessage(err, '戻せませんでした'));
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function handleDismiss(conflict: SyncConflict) {
+    await dismissSyncConflict(conflict.key);
+    await load();
+  }
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <>
+      <p className="settings-label sync-conflicts-title">衝突 {conflicts.length}件</p>
+      <p className="settings-desc">
+        同じレコードがほかの端末でも変えられていました。新しい方を採用しています。
+      </p>
+      <ul className="import-history">
+        {conflicts.map(conflict => (
+          <li key={conflict.key} className="import-history-item">
+            <div className="import-history-main">
+              <p className="settings-label">
+                {STORE_LABELS[conflict.store]}（{formatDateTime(conflict.detectedAt)}）
+              </p>
+              <p className="import-history-files">採用: {describeRecord(conflict.kept)}</p>
+              <p className="import-history-files">採用しなかった方: {describeRecord(conflict.discarded)}</p>
+            </div>
+            <div style={{ display: 'flex', gap: 8 }}>
+              <button
+                onClick={() => handleAdopt(conflict)}
+                className="btn btn-small"
+                disabled={busyKey !== null}
+              >
+                {busyKey === conflict.key ? '処理中...' : 'こちらに戻す'}
+              </button>
+              <button
+                onClick={() => handleDismiss(conflict)}
+                className="btn btn-small"
+                disabled={busyKey !== null}
+              >
+                このまま
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
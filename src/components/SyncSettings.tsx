@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { getSyncConfig, saveSyncConfig, syncNow, isSyncConfigured } from '../utils/sync';
+import type { SyncTargetConfig } from '../utils/syncTarget';
+import type { SyncResult } from '../utils/syncEngine';
+import { validatePassphrase, WrongPassphraseError } from '../utils/encryption';
+import { toErrorMessage } from '../utils/errorMessage';
+import { SyncConflicts } from './SyncConflicts';
+
+type TargetKind = SyncTargetConfig['kind'];
+
+const EMPTY_WEBDAV: Extract<SyncTargetConfig, { kind: 'webdav' }> = { kind: 'webdav', url: '', username: '', password: '' };
+const EMPTY_S3: Extract<SyncTargetConfig, { kind: 's3' }> = {
+  kind: 's3', endpoint: '', region: '', bucket: '', prefix: 'climbing-log/', accessKeyId: '', secretAccessKey: '',
+};
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  const h = String(d.getHours()).padStart(2, '0');
+  const min = String(d.getMinutes()).padStart(2, '0');
+  return `${y}/${m}/${day} ${h}:${min}`;
+}
+
+function describeResult(result: SyncResult): string {
+  const parts = [`取り込み ${result.pulled}件`, `送り出し ${result.pushed}件`];
+  if (result.conflicts > 0) parts.push(`衝突 ${result.conflicts}件`);
+  return parts.join('・');
+}
+
+function syncErrorMessage(err: unknown): string {
+  return err instanceof WrongPassphraseError
+    ? '同期用のパスフレーズが、ほかの端末で設定したものと違います'
+    : toErrorMessage(err, '同期に失敗しました');
+}
+
+/** 端末間の同期先（WebDAV / S3 互換）の設定と、今すぐ同期 */
+export function SyncSettings({ onMessage }: { onMessage: (message: string) => void }) {
+  const status = useSyncStatus();
+  const [configured, setConfigured] = useState(isSyncConfigured);
+  const [webdav, setWebdav] = useState(EMPTY_WEBDAV);
+  const [s3, setS3] = useState(EMPTY_S3);
+  const [kind, setKind] = useState<TargetKind>('webdav');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [confirmStop, setConfirmStop] = useState(false);
+
+  useEffect(() => {
+    getSyncConfig().then(config => {
+      if (!config) return;
+      setKind(config.target.kind);
+      if (config.target.kind === 'webdav') setWebdav(config.target);
+      else setS3(config.target);
+    }).catch(err => setError(toErrorMessage(err, '同期の設定を読み込めませんでした')));
+  }, []);
+
+  async function runNow() {
+    try {
+      const result = await syncNow();
+      if (result) onMessage(`同期しました（${describeResult(result)}）`);
+    } catch (err) {
+      onMessage(syncErrorMessage(err));
+    }
+  }
+
+  async function handleSave() {
+    // 設定済みならパスフレーズは空欄のまま（変えない）でよい
+    const current = await getSyncConfig();
+    if (!current || passphrase) {
+      const invalid = validatePassphrase(passphrase, confirmation);
+      if (invalid) {
+        setError(invalid);
+        return;
+      }
+    }
+    setError(null);
+    try {
+      await saveSyncConfig({
+        target: kind === 'webdav' ? webdav : s3,
+        passphrase: passphrase || current?.passphrase || '',
+      });
+      setPassphrase('');
+      setConfirmation('');
+      setConfigured(true);
+    } catch (err) {
+      setError(toErrorMessage(err, '同期の設定を保存できませんでした'));
+      return;
+    }
+    await runNow();
+  }
+
+  async function handleStop() {
+    if (!confirmStop) {
+      setConfirmStop(true);
+      return;
+    }
+    setConfirmStop(false);
+    await saveSyncConfig(null);
+    setConfigured(false);
+    onMessage('同期をやめました。同期先のファイルとほかの端末のデータはそのまま残ります');
+  }
+
+  const input = (value: string, onChange: (value: string) => void, placeholder: string, type = 'text') => (
+    <input
+      type={type}
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="api-key-input"
+      autoComplete="off"
+      disabled={status.running}
+    />
+  );
+
+  return (
+    <>
+      {configured && (
+        <div className="settings-row">
+          <div>
+            <p className="settings-label">同期の状態</p>
+            <p className="settings-desc">
+              {status.running
+                ? '同期中...'
+                : status.lastSyncedAt
+                  ? `最後の同期: ${formatDateTime(status.lastSyncedAt)}${status.lastResult ? `（${describeResult(status.lastResult)}）` : ''}`
+                  : 'まだ同期していません'}
+            </p>
+            {status.lastError && !status.running && <p className="error-text">{status.lastError}</p>}
+          </div>
+          <button onClick={runNow} className="btn btn-small btn-primary" disabled={status.running}>
+            今すぐ同期
+          </button>
+        </div>
+      )}
+
+      <div className="settings-row">
+        <div className="passphrase-fields">
+          <p className="settings-label">同期先</p>
+          <p className="settings-desc">
+            自分で用意した WebDAV か S3 互換のストレージ（MinIO など）に、暗号化した変更だけを置きます。
+            同期先でこのアプリのオリジンからの CORS を許可してください。
+            同じファイルを複数の端末で取り込んでいた日記は、その端末の初めての同期で1件にまとめます。
+          </p>
+          <select
+            className="custom-select"
+            value={kind}
+            onChange={e => setKind(e.target.value as TargetKind)}
+            aria-label="同期先の種類"
+            disabled={status.running}
+          >
+            <option value="webdav">WebDAV</option>
+            <option value="s3">S3 互換</option>
+          </select>
+          {kind === 'webdav' ? (
+            <>
+              {input(webdav.url, url => setWebdav({ ...webdav, url }), 'フォルダの URL（例: https://dav.example.com/climbing-log/）')}
+              {input(webdav.username, username => setWebdav({ ...webdav, username }), 'ユーザー名')}
+              {input(webdav.password, password => setWebdav({ ...webdav, password }), 'パスワード', 'password')}
+            </>
+          ) : (
+            <>
+              {input(s3.endpoint, endpoint => setS3({ ...s3, endpoint }), 'エンドポイント（例: http://localhost:9000）')}
+              {input(s3.region, region => setS3({ ...s3, region }), 'リージョン（空欄なら us-east-1）')}
+              {input(s3.bucket, bucket => setS3({ ...s3, bucket }), 'バケット')}
+              {input(s3.prefix, prefix => setS3({ ...s3, prefix }), 'プレフィックス（例: climbing-log/）')}
+              {input(s3.accessKeyId, accessKeyId => setS3({ ...s3, accessKeyId }), 'アクセスキー ID')}
+              {input(s3.secretAccessKey, secretAccessKey => setS3({ ...s3, secretAccessKey }), 'シークレットアクセスキー', 'password')}
+            </>
+          )}
+          <p className="settings-desc">
+            同期用のパスフレーズ（すべての端末で同じものを入力します。ロックのパスフレーズとは別です）
+          </p>
+          {input(passphrase, setPassphrase, configured ? 'パスフレーズ（変えないなら空欄）' : 'パスフレーズ', 'password')}
+          {input(confirmation, setConfirmation, 'パスフレーズ（確認）', 'password')}
+          {error && <p className="error-text">{error}</p>}
+        </div>
+        <button onClick={handleSave} className="btn btn-small" disabled={status.running}>
+          {configured ? '保存して同期' : '同期を始める'}
+        </button>
+      </div>
+
+      {configured && (
+        <div className="settings-row">
+          <div>
+            <p className="settings-label">同期をやめる</p>
+            <p className="settings-desc">
+              この端末の同期だけをやめます。この端末で「すべてのデータを削除」しても、同期先とほかの端末のデータは消えません。
+            </p>
+          </div>
+          <button
+            onClick={handleStop}
+            className={`btn btn-small ${confirmStop ? 'btn-danger-confirm' : 'btn-danger'}`}
+            disabled={status.running}
+          >
+            {confirmStop ? '本当にやめる' : 'やめる'}
+          </button>
+        </div>
+      )}
+
+      {configured && <SyncConflicts onMessage={onMessage} />}
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { unlockWithPassphrase } from '../utils/passphraseLock';
+import { getEncryptionSettings } from '../utils/encryption';
+import { toErrorMessage } from '../utils/errorMessage';
+
+/** ロック中はページの代わりにこれを出す */
+export function UnlockScreen() {
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const migrating = getEncryptionSettings()?.migrating;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      // 解除できるとこの画面ごと消えるので、成功時は状態を戻さない
+      await unlockWithPassphrase(passphrase, (done, total) => setProgress({ done, total }));
+    } catch (err) {
+      setError(toErrorMessage(err, 'ロックを解除できませんでした'));
+      setUnlocking(false);
+    }
+  }
+
+  return (
+    <div className="page unlock-screen">
+      <h1 className="page-title">ロック中</h1>
+      <p className="subtitle">日記はパスフレーズで暗号化されています。</p>
+      <form onSubmit={handleSubmit} className="unlock-form">
+        <label>
+          <span className="settings-label">パスフレーズ</span>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            className="api-key-input"
+            autoComplete="current-password"
+            autoFocus
+          />
+        </label>
+        {error && <p className="error-text">{error}</p>}
+        <button type="submit" className="btn btn-primary" disabled={unlocking || !passphrase}>
+          {unlocking ? '解除中...' : 'ロックを解除'}
+        </button>
+      </form>
+      {migrating && (
+        <p className="settings-desc">
+          前回の{migrating === 'encrypt' ? '暗号化' : '暗号化の解除'}が途中です。ロックを解除すると続きを処理します。
+          {progress && ` ${progress.done} / ${progress.total}件`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,34 @@
-import { openDB, type DBSchema, type IDBPDatabase, type IDBPTransaction } from 'idb';
-import type { DiaryEntry, Fragment, AiCache, AiLog, Observation } from '../types';
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPTransaction, type StoreNames } from 'idb';
+import type { DiaryEntry, EntryMetadata, Fragment, AiCache, AiLog, Observation, EntryRevision, ImportBatch, AiUsageRecord, AiJob, CustomAnalysisType, PromptVersion, SyncConflict, SyncRecord, SyncStoreName, SyncTombstone } from '../types';
 import { compareDateOnly } from '../utils/dateNormalize';
+import { normalizeComments } from '../utils/futureComment';
+import {
+  planRestore,
+  BACKUP_SCHEMA_VERSION,
+  type BackupData,
+  type RestoreStrategy,
+  type RestoreSummary,
+} from '../utils/backupSchema';
+import { encryptString, decryptString, isEncrypting, isEncryptedValue } from '../utils/encryption';
+import {
+  SYNC_STORES,
+  syncKey,
+  recordKey,
+  tombstoneRecord,
+  entryModifiedAt,
+  fragmentModifiedAt,
+  observationModifiedAt,
+} from '../utils/syncMerge';
+import type { SyncLocalState, SyncLocalChanges } from '../utils/syncEngine';
+import {
+  extractGrams,
+  termGrams,
+  normalizeForSearch,
+  matchesQuery,
+  matchesFilters,
+  type SearchQuery,
+  type SearchFilters,
+} from '../utils/search';
 
 // --- スキーマ定義 ---
 // 最新のスキーマを反映する。マイグレーションで段階的にここへ到達する。
@@ -12,7 +40,7 @@ interface ClimbingLogDB extends DBSchema {
     indexes: {
       'by-date': string;
       'by-imported': string;
-      'by-favorite': number;
+      'by-favorite': number; // isFavorite は boolean でキーにならないため、実際には何も載らない
     };
   };
   fragments: {
@@ -43,8 +71,84 @@ interface ClimbingLogDB extends DBSchema {
       'by-created': string;
     };
   };
+  entryRevisions: {
+    key: string; // UUID
+    value: EntryRevision;
+    indexes: {
+      'by-entry': string;
+      'by-edited': string;
+    };
+  };
+  importBatches: {
+    key: string; // UUID
+    value: ImportBatch;
+    indexes: {
+      'by-imported': string;
+    };
+  };
+  searchIndex: {
+    key: string; // entryId
+    value: SearchIndexRecord;
+    indexes: {
+      'by-gram': string; // multiEntry: grams の各要素がキーになる
+    };
+  };
+  aiUsage: {
+    key: string; // UUID
+    value: AiUsageRecord;
+    indexes: {
+      'by-called': string;
+    };
+  };
+  aiJobs: {
+    key: string; // UUID
+    value: AiJob;
+  };
+  customAnalysisTypes: {
+    key: string; // 'custom-' + UUID
+    value: CustomAnalysisType;
+  };
+  promptVersions: {
+    key: string; // プロンプトのハッシュ
+    value: PromptVersion;
+  };
+  syncTombstones: {
+    key: string; // `${store}:${id}`
+    value: SyncTombstone;
+  };
+  syncVersions: {
+    key: string; // `${store}:${id}`
+    value: SyncVersion;
+  };
+  syncConflicts: {
+    key: string; // `${store}:${id}`
+    value: SyncConflict;
+  };
+  syncState: {
+    key: string; // 'cursor'
+    value: SyncCursor;
+  };
+}
+
+// 全文検索の転置インデックス。エントリごとにグラム集合を持ち、
+// multiEntry インデックスでグラム → entryId を引く
+interface SearchIndexRecord {
+  entryId: string;
+  grams: string[];
+}
+
+// 同期: レコードごとの最後に同期した版と、同期先の変更の束をどこまで読んだか
+interface SyncVersion {
+  key: string;
+  modifiedAt: string;
 }
 
+interface SyncCursor {
+  lastSeq: number;
+}
+
+type ClimbingLogStore = StoreNames<ClimbingLogDB>;
+
 // --- マイグレーション ---
 //
 // 新しいバージョンを追加する手順:
@@ -55,9 +159,9 @@ interface ClimbingLogDB extends DBSchema {
 // 例: v1のユーザーがv3のアプリを開くと oldVersion=1 で呼ばれ、
 //     v2とv3のブロックが順番に両方実行される。
 
-const DB_VERSION = 4;
+const DB_VERSION = 12;
 
-type UpgradeTx = IDBPTransaction<ClimbingLogDB, ('entries' | 'fragments' | 'aiCache' | 'aiLogs' | 'observations')[], 'versionchange'>;
+type UpgradeTx = IDBPTransaction<ClimbingLogDB, ClimbingLogStore[], 'versionchange'>;
 
 function runMigrations(
   db: IDBPDatabase<ClimbingLogDB>,
@@ -97,15 +201,90 @@ function runMigrations(
     obsStore.createIndex('by-created', 'createdAt');
   }
 
+  // v4 → v5: エントリの編集履歴ストアを追加
+  if (oldVersion < 5) {
+    const revStore = db.createObjectStore('entryRevisions', { keyPath: 'id' });
+    revStore.createIndex('by-entry', 'entryId');
+    revStore.createIndex('by-edited', 'editedAt');
+  }
+
+  // v5 → v6: 全文検索インデックスを追加（既存エントリは ensureSearchIndex() で後から索引付け）
+  if (oldVersion < 6) {
+    const searchStore = db.createObjectStore('searchIndex', { keyPath: 'entryId' });
+    searchStore.createIndex('by-gram', 'grams', { multiEntry: true });
+  }
+
+  // v6 → v7: インポート履歴ストアを追加し、既存エントリから過去のインポートを復元
+  if (oldVersion < 7) {
+    const batchStore = db.createObjectStore('importBatches', { keyPath: 'id' });
+    batchStore.createIndex('by-imported', 'importedAt');
+    void backfillImportBatches(tx);
+  }
+
+  // v7 → v8: AI呼び出しの使用量台帳を追加
+  if (oldVersion < 8) {
+    const usageStore = db.createObjectStore('aiUsage', { keyPath: 'id' });
+    usageStore.createIndex('by-called', 'calledAt');
+  }
+
+  // v8 → v9: 再開できるAI処理のジョブキューを追加
+  if (oldVersion < 9) {
+    db.createObjectStore('aiJobs', { keyPath: 'id' });
+  }
+
+  // v9 → v10: ユーザー定義の分析タイプを追加
+  if (oldVersion < 10) {
+    db.createObjectStore('customAnalysisTypes', { keyPath: 'id' });
+  }
+
+  // v10 → v11: プロンプトの版（A/B比較で過去の版を送り直すために本文も残す）
+  if (oldVersion < 11) {
+    db.createObjectStore('promptVersions', { keyPath: 'version' });
+  }
+
+  // v11 → v12: 端末間の同期（トゥームストーン・同期済みの版・衝突・読み終えた位置）
+  if (oldVersion < 12) {
+    db.createObjectStore('syncTombstones', { keyPath: 'key' });
+    db.createObjectStore('syncVersions', { keyPath: 'key' });
+    db.createObjectStore('syncConflicts', { keyPath: 'key' });
+    db.createObjectStore('syncState');
+  }
+
   // --- 次のマイグレーションはここに追加 ---
 }
 
+// v7 以前は1ファイルごとに importedAt が振られていたので、同じ importedAt のエントリを1回分とみなす
+async function backfillImportBatches(tx: UpgradeTx): Promise<void> {
+  const groups = new Map<string, Map<string, number>>();
+  let cursor = await tx.objectStore('entries').index('by-imported').openCursor();
+  while (cursor) {
+    const { importedAt, sourceFile } = cursor.value;
+    const files = groups.get(importedAt) ?? new Map<string, number>();
+    files.set(sourceFile, (files.get(sourceFile) ?? 0) + 1);
+    groups.set(importedAt, files);
+    cursor = await cursor.continue();
+  }
+
+  const batchStore = tx.objectStore('importBatches');
+  for (const [importedAt, files] of groups) {
+    const total = [...files.values()].reduce((sum, n) => sum + n, 0);
+    await batchStore.put({
+      id: crypto.randomUUID(),
+      importedAt,
+      files: [...files].map(([path, count]) => ({ path, count })),
+      total,
+      added: total,
+      duplicates: 0,
+    });
+  }
+}
+
 // --- 堅牢な全件取得 ---
 // カーソル走査を基本とし、db.count() と照合して不足があれば getAll() でフォールバック。
 // さらに getAll() でも不足する場合は getAllKeys() + 個別 get() で確実に全件取得する。
 
 /** カーソル走査で全件取得 */
-async function fetchByCursor<StoreName extends 'entries' | 'fragments' | 'aiCache' | 'aiLogs' | 'observations'>(
+async function fetchByCursor<StoreName extends ClimbingLogStore>(
   db: IDBPDatabase<ClimbingLogDB>,
   storeName: StoreName,
 ): Promise<{ records: ClimbingLogDB[StoreName]['value'][]; expectedCount: number }> {
@@ -122,7 +301,7 @@ async function fetchByCursor<StoreName extends 'entries' | 'fragments' | 'aiCach
 }
 
 /** getAll() フォールバック */
-async function fetchByGetAll<StoreName extends 'entries' | 'fragments' | 'aiCache' | 'aiLogs' | 'observations'>(
+async function fetchByGetAll<StoreName extends ClimbingLogStore>(
   db: IDBPDatabase<ClimbingLogDB>,
   storeName: StoreName,
 ): Promise<ClimbingLogDB[StoreName]['value'][]> {
@@ -133,7 +312,7 @@ async function fetchByGetAll<StoreName extends 'entries' | 'fragments' | 'aiCach
 }
 
 /** キーカーソル走査 + 個別 get() フォールバック（Safari/iOS 対策） */
-async function fetchByKeyCursor<StoreName extends 'entries' | 'fragments' | 'aiCache' | 'aiLogs' | 'observations'>(
+async function fetchByKeyCursor<StoreName extends ClimbingLogStore>(
   db: IDBPDatabase<ClimbingLogDB>,
   storeName: StoreName,
 ): Promise<ClimbingLogDB[StoreName]['value'][]> {
@@ -158,7 +337,7 @@ async function fetchByKeyCursor<StoreName extends 'entries' | 'fragments' | 'aiC
  * 堅牢な全件取得。3段階のフォールバックで確実に全件取得する。
  * 1. カーソル走査 → 2. getAll() → 3. キーカーソル + 個別get()
  */
-async function cursorGetAll<StoreName extends 'entries' | 'fragments' | 'aiCache' | 'aiLogs' | 'observations'>(
+async function cursorGetAll<StoreName extends ClimbingLogStore>(
   db: IDBPDatabase<ClimbingLogDB>,
   storeName: StoreName,
 ): Promise<ClimbingLogDB[StoreName]['value'][]> {
@@ -194,6 +373,129 @@ async function getDB(): Promise<IDBPDatabase<ClimbingLogDB>> {
   return dbInstance;
 }
 
+// --- 暗号化 ---
+// パスフレーズのロックが有効なとき、本文などの項目だけを暗号化して保存する（utils/encryption.ts）。
+// 日付や ID はインデックスに使うので平文のまま。
+// WebCrypto の処理を待つとトランザクションが閉じてしまうため、暗号化はトランザクションを開く前に、
+// 復号は読み終えた後に行う。
+
+type EncryptedStore =
+  | 'entries' | 'fragments' | 'observations' | 'entryRevisions' | 'aiLogs' | 'aiCache' | 'syncConflicts'
+  | 'customAnalysisTypes' | 'promptVersions';
+type StoreValue<S extends ClimbingLogStore> = ClimbingLogDB[S]['value'];
+type TextTransform = (text: string) => Promise<string>;
+
+const ENCRYPTED_STORES: EncryptedStore[] = [
+  'entries', 'fragments', 'observations', 'entryRevisions', 'aiLogs', 'aiCache', 'syncConflicts',
+  'customAnalysisTypes', 'promptVersions',
+];
+
+// ストアごとに暗号化する項目
+const encryptedFields: { [S in EncryptedStore]: (value: StoreValue<S>, transform: TextTransform) => Promise<StoreValue<S>> } = {
+  entries: async (entry, transform) => ({
+    ...entry,
+    content: await transform(entry.content),
+    comments: await Promise.all(
+      normalizeComments(entry.comments).map(async c => ({ ...c, text: await transform(c.text) })),
+    ),
+    ...(entry.metadata && { metadata: await transformMetadata(entry.metadata, transform) }),
+  }),
+  fragments: async (fragment, transform) => ({ ...fragment, text: await transform(fragment.text) }),
+  observations: async (observation, transform) => ({ ...observation, note: await transform(observation.note) }),
+  entryRevisions: async (revision, transform) => ({ ...revision, content: await transform(revision.content) }),
+  aiLogs: async (log, transform) => ({ ...log, result: await transform(log.result) }),
+  aiCache: async (cache, transform) => ({ ...cache, result: await transform(cache.result) }),
+  syncConflicts: async (conflict, transform) => ({
+    ...conflict,
+    kept: await transformSyncRecord(conflict.kept, transform),
+    discarded: await transformSyncRecord(conflict.discarded, transform),
+  }),
+  customAnalysisTypes: async (type, transform) => ({ ...type, systemPrompt: await transform(type.systemPrompt) }),
+  promptVersions: async (version, transform) => ({ ...version, system: await transform(version.system) }),
+};
+
+// 日記アプリの付加情報（場所・緯度経度・タグ・天気）は数値を含むので、app 以外を JSON にまとめて暗号化する
+async function transformMetadata(metadata: EntryMetadata, transform: TextTransform): Promise<EntryMetadata> {
+  if (metadata.sealed !== undefined) {
+    const text = await transform(metadata.sealed);
+    return isEncryptedValue(text) ? metadata : { app: metadata.app, ...JSON.parse(text) as Omit<EntryMetadata, 'app'> };
+  }
+  const { app, ...rest } = metadata;
+  const text = await transform(JSON.stringify(rest));
+  return isEncryptedValue(text) ? { app, sealed: text } : metadata;
+}
+
+// 同期のレコードは、中身をそのストアの規則で暗号化する
+async function transformSyncRecord(record: SyncRecord, transform: TextTransform): Promise<SyncRecord> {
+  if (record.value === null) return record;
+  switch (record.store) {
+    case 'entries': return { ...record, value: await encryptedFields.entries(record.value, transform) };
+    case 'fragments': return { ...record, value: await encryptedFields.fragments(record.value, transform) };
+    case 'observations': return { ...record, value: await encryptedFields.observations(record.value, transform) };
+  }
+}
+
+function seal<S extends EncryptedStore>(store: S, value: StoreValue<S>): Promise<StoreValue<S>> {
+  return encryptedFields[store](value, encryptString);
+}
+
+function unseal<S extends EncryptedStore>(store: S, value: StoreValue<S>): Promise<StoreValue<S>> {
+  return encryptedFields[store](value, decryptString);
+}
+
+function unsealAll<S extends EncryptedStore>(store: S, values: StoreValue<S>[]): Promise<StoreValue<S>[]> {
+  return Promise.all(values.map(v => unseal(store, v)));
+}
+
+// 削除を同期でほかの端末に伝えるための記録
+function tombstone(store: SyncStoreName, id: string, deletedAt: string): SyncTombstone {
+  return { key: syncKey(store, id), store, id, deletedAt };
+}
+
+/**
+ * 暗号化の対象ストアを全件書き直す（ロックの有効化・解除のとき）。
+ * 読み出しは平文・暗号文のどちらでもよく、書き込みは今の設定に従う。途中で閉じても、もう一度呼べば続きを処理する。
+ * 読んでから書くまでに別の処理が書き換えたレコードは、すでに今の設定で書かれているので飛ばす。
+ * 暗号化するときは検索インデックス（本文のグラム）を消し、平文に戻したら作り直す。
+ */
+export async function rewriteEncryptedStores(
+  onProgress?: (done: number, total: number) => void,
+): Promise<void> {
+  const db = await getDB();
+  const keysByStore = await Promise.all(ENCRYPTED_STORES.map(store => db.getAllKeys(store)));
+  const total = keysByStore.reduce((sum, keys) => sum + keys.length, 0);
+  let done = 0;
+
+  const BATCH_SIZE = 200;
+  for (const [i, store] of ENCRYPTED_STORES.entries()) {
+    const keys = keysByStore[i];
+    for (let start = 0; start < keys.length; start += BATCH_SIZE) {
+      const batch = keys.slice(start, start + BATCH_SIZE);
+      const readTx = db.transaction(store, 'readonly');
+      const raws = await Promise.all(batch.map(key => readTx.store.get(key)));
+      await readTx.done;
+
+      const rewritten = await Promise.all(raws.map(async raw => (
+        raw ? seal(store, await unseal(store, raw)) : undefined
+      )));
+
+      const writeTx = db.transaction(store, 'readwrite');
+      for (const [j, key] of batch.entries()) {
+        const next = rewritten[j];
+        if (!next) continue;
+        const current = await writeTx.store.get(key);
+        if (JSON.stringify(current) === JSON.stringify(raws[j])) await writeTx.store.put(next);
+      }
+      await writeTx.done;
+      done += batch.length;
+      onProgress?.(done, total);
+    }
+  }
+
+  if (isEncrypting()) await db.clear('searchIndex');
+  else await ensureSearchIndex();
+}
+
 // コンテンツの簡易ハッシュ（重複検出用）
 async function contentHash(text: string): Promise<string> {
   const encoded = new TextEncoder().encode(text);
@@ -202,50 +504,144 @@ async function contentHash(text: string): Promise<string> {
 }
 
 // 重複検出キーを生成: sourceFile + date + content hash
-async function deduplicationKey(entry: DiaryEntry): Promise<string> {
+export async function deduplicationKey(entry: DiaryEntry): Promise<string> {
   const hash = await contentHash(entry.content);
   return `${entry.sourceFile ?? ''}|${entry.date ?? ''}|${hash}`;
 }
 
-/**
- * エントリを追加する。重複チェックを行い、同一 sourceFile+date+contentHash のエントリはスキップする。
- * @returns 実際に追加された件数
- */
-export async function addEntries(entries: DiaryEntry[]): Promise<number> {
+/** 保存済みエントリの重複検出キー一覧 */
+export async function getDeduplicationKeys(): Promise<Set<string>> {
   const db = await getDB();
-
-  // 既存エントリの重複キーセットを構築
-  const existing = await cursorGetAll(db, 'entries');
-  const existingKeys = new Set<string>();
+  const existing = await unsealAll('entries', await cursorGetAll(db, 'entries'));
+  const keys = new Set<string>();
   for (const e of existing) {
-    existingKeys.add(await deduplicationKey(e));
+    keys.add(await deduplicationKey(e));
   }
+  return keys;
+}
 
-  // 新規エントリから重複を除外
-  const toAdd: DiaryEntry[] = [];
+/**
+ * 重複としてスキップされるエントリのIDを返す（バッチ内の重複を含む）。
+ * 同一 sourceFile+date+contentHash のエントリを重複とみなす。
+ * existingKeys を渡すと保存済みエントリのキー計算を省略できる。
+ */
+export async function findDuplicateIds(
+  entries: DiaryEntry[],
+  existingKeys?: Set<string>,
+): Promise<Set<string>> {
+  const seen = new Set(existingKeys ?? await getDeduplicationKeys());
+  const duplicates = new Set<string>();
   for (const entry of entries) {
     const key = await deduplicationKey(entry);
-    if (!existingKeys.has(key)) {
-      toAdd.push(entry);
-      existingKeys.add(key); // バッチ内重複も防止
+    if (seen.has(key)) {
+      duplicates.add(entry.id);
+    } else {
+      seen.add(key);
     }
   }
+  return duplicates;
+}
+
+/**
+ * インポート1回分としてエントリを追加し、履歴に記録する。
+ * 全件の importedAt をバッチ共通の値にそろえ、あとで rollbackImportBatch で取り消せるようにする。
+ * 1件も追加されなかった場合は履歴に残さない。
+ */
+export async function importEntries(
+  entries: DiaryEntry[],
+  files: { path: string; count: number }[],
+): Promise<ImportBatch> {
+  const db = await getDB();
+  const duplicateIds = await findDuplicateIds(entries);
+
+  // importedAt がバッチの識別子になるので、既存バッチと重ならない時刻を選ぶ
+  let time = Date.now();
+  while (await db.countFromIndex('entries', 'by-imported', new Date(time).toISOString()) > 0) {
+    time++;
+  }
+  const importedAt = new Date(time).toISOString();
+
+  const toAdd = entries
+    .filter(e => !duplicateIds.has(e.id))
+    .map(e => ({ ...e, importedAt }));
+  const batch: ImportBatch = {
+    id: crypto.randomUUID(),
+    importedAt,
+    files,
+    total: entries.length,
+    added: toAdd.length,
+    duplicates: duplicateIds.size,
+  };
+  if (toAdd.length === 0) return batch;
+
+  const sealed = await Promise.all(toAdd.map(e => seal('entries', e)));
+  const indexed = !isEncrypting();
+  const tx = db.transaction(['entries', 'searchIndex', 'importBatches'], 'readwrite');
+  for (const [i, entry] of sealed.entries()) {
+    await tx.objectStore('entries').put(entry);
+    if (indexed) await tx.objectStore('searchIndex').put(toSearchIndexRecord(toAdd[i]));
+  }
+  await tx.objectStore('importBatches').put(batch);
+  await tx.done;
+  return batch;
+}
 
-  if (toAdd.length > 0) {
-    const tx = db.transaction('entries', 'readwrite');
-    for (const entry of toAdd) {
-      await tx.store.put(entry);
+/** インポート履歴を新しい順で返す。remaining は今も残っているエントリ数 */
+export async function getImportBatches(): Promise<(ImportBatch & { remaining: number })[]> {
+  const db = await getDB();
+  const batches = await db.getAll('importBatches');
+  const withCounts = await Promise.all(batches.map(async b => ({
+    ...b,
+    remaining: await db.countFromIndex('entries', 'by-imported', b.importedAt),
+  })));
+  return withCounts.sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
+
+/**
+ * インポートを取り消す。そのバッチのエントリと、派生した宝物庫・編集履歴・検索インデックスを削除する。
+ * @returns 削除したエントリ数
+ */
+export async function rollbackImportBatch(id: string): Promise<number> {
+  const db = await getDB();
+  const tx = db.transaction(
+    ['entries', 'fragments', 'entryRevisions', 'searchIndex', 'importBatches', 'syncTombstones'],
+    'readwrite',
+  );
+  const batch = await tx.objectStore('importBatches').get(id);
+  if (!batch) throw new Error('インポート履歴が見つかりません');
+
+  const deletedAt = new Date().toISOString();
+  let deleted = 0;
+  let cursor = await tx.objectStore('entries').index('by-imported').openCursor(batch.importedAt);
+  while (cursor) {
+    const entryId = cursor.value.id;
+    let fragment = await tx.objectStore('fragments').index('by-entry').openCursor(entryId);
+    while (fragment) {
+      await tx.objectStore('syncTombstones').put(tombstone('fragments', fragment.value.id, deletedAt));
+      await fragment.delete();
+      fragment = await fragment.continue();
     }
-    await tx.done;
+    let revision = await tx.objectStore('entryRevisions').index('by-entry').openCursor(entryId);
+    while (revision) {
+      await revision.delete();
+      revision = await revision.continue();
+    }
+    await tx.objectStore('searchIndex').delete(entryId);
+    await tx.objectStore('syncTombstones').put(tombstone('entries', entryId, deletedAt));
+    await cursor.delete();
+    deleted++;
+    cursor = await cursor.continue();
   }
 
-  return toAdd.length;
+  await tx.objectStore('importBatches').delete(id);
+  await tx.done;
+  return deleted;
 }
 
 export async function getAllEntries(): Promise<DiaryEntry[]> {
   const db = await getDB();
   // カーソルで全件取得（getAll は一部環境で件数制限があるため）
-  const all = await cursorGetAll(db, 'entries');
+  const all = await unsealAll('entries', await cursorGetAll(db, 'entries'));
   // 日付あり→日付昇順、日付なし→末尾（importedAt降順）
   return all.sort((a, b) => {
     if (a.date && b.date) {
@@ -259,25 +655,116 @@ export async function getAllEntries(): Promise<DiaryEntry[]> {
 
 export async function getEntry(id: string): Promise<DiaryEntry | undefined> {
   const db = await getDB();
-  return db.get('entries', id);
+  const entry = await db.get('entries', id);
+  return entry && unseal('entries', entry);
 }
 
 export async function updateEntry(entry: DiaryEntry): Promise<void> {
   const db = await getDB();
-  await db.put('entries', entry);
+  await db.put('entries', await seal('entries', { ...entry, updatedAt: new Date().toISOString() }));
 }
 
+/**
+ * 本文・日付を編集する。編集前の内容を履歴ストアに残し、
+ * 日付が変わった場合は派生した宝物庫の entryDate も追従させる。
+ * 暗号化のため、比べるための読み出しと書き込みは別のトランザクションになる。
+ * @returns 保存された履歴（変更がなければ null）
+ */
+export async function editEntry(
+  id: string,
+  changes: { content: string; date: string | null },
+): Promise<{ entry: DiaryEntry; revision: EntryRevision | null }> {
+  const current = await getEntry(id);
+  if (!current) throw new Error('編集対象の日記が見つかりません');
+
+  if (current.content === changes.content && current.date === changes.date) {
+    return { entry: current, revision: null };
+  }
+
+  const editedAt = new Date().toISOString();
+  const revision: EntryRevision = {
+    id: crypto.randomUUID(),
+    entryId: id,
+    content: current.content,
+    date: current.date,
+    editedAt,
+  };
+  const updated: DiaryEntry = { ...current, content: changes.content, date: changes.date, updatedAt: editedAt };
+  const [sealedRevision, sealedEntry] = await Promise.all([seal('entryRevisions', revision), seal('entries', updated)]);
+
+  const db = await getDB();
+  const tx = db.transaction(['entries', 'entryRevisions', 'fragments', 'searchIndex'], 'readwrite');
+  await tx.objectStore('entryRevisions').put(sealedRevision);
+  await tx.objectStore('entries').put(sealedEntry);
+  if (current.content !== changes.content && !isEncrypting()) {
+    await tx.objectStore('searchIndex').put(toSearchIndexRecord(updated));
+  }
+
+  if (current.date !== changes.date) {
+    const fragStore = tx.objectStore('fragments');
+    let cursor = await fragStore.index('by-entry').openCursor(id);
+    while (cursor) {
+      await cursor.update({ ...cursor.value, entryDate: changes.date });
+      cursor = await cursor.continue();
+    }
+  }
+
+  await tx.done;
+  return { entry: updated, revision };
+}
+
+/** エントリの編集履歴を新しい順で返す */
+export async function getEntryRevisions(entryId: string): Promise<EntryRevision[]> {
+  const db = await getDB();
+  const revisions = await unsealAll('entryRevisions', await db.getAllFromIndex('entryRevisions', 'by-entry', entryId));
+  return revisions.sort((a, b) => b.editedAt.localeCompare(a.editedAt));
+}
+
+/** エントリを1件削除する。派生した宝物庫と編集履歴も一緒に消す */
+export async function deleteEntry(id: string): Promise<void> {
+  const db = await getDB();
+  const deletedAt = new Date().toISOString();
+  const tx = db.transaction(['entries', 'fragments', 'entryRevisions', 'searchIndex', 'syncTombstones'], 'readwrite');
+  await tx.objectStore('entries').delete(id);
+  await tx.objectStore('searchIndex').delete(id);
+  await tx.objectStore('syncTombstones').put(tombstone('entries', id, deletedAt));
+
+  let fragCursor = await tx.objectStore('fragments').index('by-entry').openCursor(id);
+  while (fragCursor) {
+    await tx.objectStore('syncTombstones').put(tombstone('fragments', fragCursor.value.id, deletedAt));
+    await fragCursor.delete();
+    fragCursor = await fragCursor.continue();
+  }
+
+  let revCursor = await tx.objectStore('entryRevisions').index('by-entry').openCursor(id);
+  while (revCursor) {
+    await revCursor.delete();
+    revCursor = await revCursor.continue();
+  }
+
+  await tx.done;
+}
+
+/**
+ * 日記と派生データをすべて消す。同期先やほかの端末からは消さない（削除を伝えず、同期の記録も消す）ので、
+ * 同期していれば次の同期で最初から取り込み直す。
+ */
 export async function deleteAllEntries(): Promise<void> {
   const db = await getDB();
   await db.clear('entries');
   await db.clear('fragments');
+  await db.clear('entryRevisions');
+  await db.clear('searchIndex');
+  await db.clear('importBatches');
+  await resetSyncState();
 }
 
 export async function addFragments(fragments: Fragment[]): Promise<void> {
   if (fragments.length === 0) return;
   const db = await getDB();
+  const sealed = await Promise.all(fragments.map(f => seal('fragments', f)));
   const tx = db.transaction('fragments', 'readwrite');
-  for (const f of fragments) {
+  for (const f of sealed) {
     await tx.store.put(f);
   }
   await tx.done;
@@ -286,12 +773,15 @@ export async function addFragments(fragments: Fragment[]): Promise<void> {
 export async function getAllFragments(): Promise<Fragment[]> {
   const db = await getDB();
   // インデックス経由だと savedAt が欠落したレコードを取りこぼすため、ストア直接走査で全件取得
-  return cursorGetAll(db, 'fragments');
+  return unsealAll('fragments', await cursorGetAll(db, 'fragments'));
 }
 
 export async function deleteFragment(id: string): Promise<void> {
   const db = await getDB();
-  await db.delete('fragments', id);
+  const tx = db.transaction(['fragments', 'syncTombstones'], 'readwrite');
+  await tx.objectStore('fragments').delete(id);
+  await tx.objectStore('syncTombstones').put(tombstone('fragments', id, new Date().toISOString()));
+  await tx.done;
 }
 
 export async function getFragmentEntryIds(): Promise<Set<string>> {
@@ -312,58 +802,204 @@ export async function getEntryCount(): Promise<number> {
   return db.count('entries');
 }
 
-export async function exportAllData(): Promise<{
-  entries: DiaryEntry[];
-  fragments: Fragment[];
-  observations: Observation[];
-}> {
+/** バックアップ用に全データを書き出す（版2の形式。暗号化している項目は復号する） */
+export async function exportAllData(): Promise<BackupData> {
+  const db = await getDB();
+  return {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: await unsealAll('entries', await cursorGetAll(db, 'entries')),
+    fragments: await unsealAll('fragments', await cursorGetAll(db, 'fragments')),
+    observations: await unsealAll('observations', await cursorGetAll(db, 'observations')),
+    aiLogs: await unsealAll('aiLogs', await cursorGetAll(db, 'aiLogs')),
+    aiCache: await unsealAll('aiCache', await cursorGetAll(db, 'aiCache')),
+  };
+}
+
+/**
+ * バックアップを復元する（utils/backupSchema.ts の planRestore で書き込む内容を決める）。
+ * replace では日記に結びつく編集履歴・インポート履歴・検索インデックスも消し、消えた日記・宝物庫・観測は
+ * 同期でほかの端末にも削除として伝える。書き込む日記・宝物庫・観測は今の時刻の版とし、削除の記録も消すので、
+ * 一度削除してから復元したものも次の同期でほかの端末に伝わる。
+ * @returns ストアごとの追加・更新・据え置き・削除の件数
+ */
+export async function restoreBackup(data: BackupData, strategy: RestoreStrategy): Promise<RestoreSummary> {
   const db = await getDB();
-  const entries = await cursorGetAll(db, 'entries');
-  const fragments = await cursorGetAll(db, 'fragments');
-  const observations = await cursorGetAll(db, 'observations');
-  return { entries, fragments, observations };
+  const existing = await exportAllData();
+  const keysOf = async (entries: DiaryEntry[]) => new Map(
+    await Promise.all(entries.map(async e => [e.id, await deduplicationKey(e)] as const)),
+  );
+  const plan = planRestore(existing, data, strategy, {
+    existing: await keysOf(existing.entries),
+    incoming: await keysOf(data.entries),
+  });
+
+  const now = new Date().toISOString();
+  const puts = {
+    entries: plan.puts.entries.map(e => ({ ...e, updatedAt: now })),
+    fragments: plan.puts.fragments.map(f => ({ ...f, updatedAt: now })),
+    observations: plan.puts.observations.map(o => ({ ...o, updatedAt: now })),
+  };
+  const sealed = {
+    entries: await Promise.all(puts.entries.map(e => seal('entries', e))),
+    fragments: await Promise.all(puts.fragments.map(f => seal('fragments', f))),
+    observations: await Promise.all(puts.observations.map(o => seal('observations', o))),
+    aiLogs: await Promise.all(plan.puts.aiLogs.map(l => seal('aiLogs', l))),
+    aiCache: await Promise.all(plan.puts.aiCache.map(c => seal('aiCache', c))),
+  };
+  const indexed = !isEncrypting();
+  const removed = plan.clear
+    ? SYNC_STORES.flatMap(store => {
+      const kept = new Set(puts[store].map(r => r.id));
+      return existing[store].filter(r => !kept.has(r.id)).map(r => tombstone(store, r.id, now));
+    })
+    : [];
+
+  const tx = db.transaction(
+    ['entries', 'fragments', 'observations', 'aiLogs', 'aiCache', 'entryRevisions', 'importBatches', 'searchIndex', 'syncTombstones'],
+    'readwrite',
+  );
+  if (plan.clear) {
+    for (const store of ['entries', 'fragments', 'observations', 'aiLogs', 'aiCache', 'entryRevisions', 'importBatches', 'searchIndex'] as const) {
+      await tx.objectStore(store).clear();
+    }
+    for (const t of removed) await tx.objectStore('syncTombstones').put(t);
+  }
+  for (const store of SYNC_STORES) {
+    for (const r of puts[store]) await tx.objectStore('syncTombstones').delete(syncKey(store, r.id));
+  }
+  for (const [i, entry] of sealed.entries.entries()) {
+    await tx.objectStore('entries').put(entry);
+    if (indexed) await tx.objectStore('searchIndex').put(toSearchIndexRecord(puts.entries[i]));
+  }
+  for (const fragment of sealed.fragments) await tx.objectStore('fragments').put(fragment);
+  for (const observation of sealed.observations) await tx.objectStore('observations').put(observation);
+  for (const log of sealed.aiLogs) await tx.objectStore('aiLogs').put(log);
+  for (const cache of sealed.aiCache) await tx.objectStore('aiCache').put(cache);
+  await tx.done;
+  return plan.summary;
+}
+
+// --- 全文検索 ---
+
+function toSearchIndexRecord(entry: DiaryEntry): SearchIndexRecord {
+  return { entryId: entry.id, grams: extractGrams(entry.content) };
 }
 
-export async function importAllData(data: {
-  entries: DiaryEntry[];
-  fragments: Fragment[];
-  observations?: Observation[];
-}): Promise<void> {
+/**
+ * 索引のないエントリを索引付けし、消えたエントリの索引を削除する。
+ * v6 より前に取り込んだ日記はここで初めて索引が作られる。
+ * 暗号化しているあいだは本文のグラムを残さないので、索引は空にしておく。
+ * @returns 新たに索引付けした件数
+ */
+export async function ensureSearchIndex(
+  onProgress?: (done: number, total: number) => void,
+): Promise<number> {
   const db = await getDB();
-  const tx1 = db.transaction('entries', 'readwrite');
-  for (const entry of data.entries) {
-    await tx1.store.put(entry);
+  if (isEncrypting()) {
+    await db.clear('searchIndex');
+    return 0;
+  }
+  const entryIds = new Set(await db.getAllKeys('entries'));
+  const indexedIds = new Set(await db.getAllKeys('searchIndex'));
+
+  const orphans = [...indexedIds].filter(id => !entryIds.has(id));
+  const missing = [...entryIds].filter(id => !indexedIds.has(id));
+  if (orphans.length === 0 && missing.length === 0) return 0;
+
+  if (orphans.length > 0) {
+    const tx = db.transaction('searchIndex', 'readwrite');
+    for (const id of orphans) {
+      await tx.store.delete(id);
+    }
+    await tx.done;
   }
-  await tx1.done;
-  const tx2 = db.transaction('fragments', 'readwrite');
-  for (const frag of data.fragments) {
-    await tx2.store.put(frag);
+
+  // 大量件数でもトランザクションが長くなりすぎないよう、まとめて少しずつ書き込む
+  const BATCH_SIZE = 200;
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const tx = db.transaction(['entries', 'searchIndex'], 'readwrite');
+    for (const id of missing.slice(i, i + BATCH_SIZE)) {
+      const entry = await tx.objectStore('entries').get(id);
+      if (entry) await tx.objectStore('searchIndex').put(toSearchIndexRecord(entry));
+    }
+    await tx.done;
+    onProgress?.(Math.min(i + BATCH_SIZE, missing.length), missing.length);
   }
-  await tx2.done;
-  if (data.observations && data.observations.length > 0) {
-    const tx3 = db.transaction('observations', 'readwrite');
-    for (const obs of data.observations) {
-      await tx3.store.put(obs);
+
+  return missing.length;
+}
+
+// 語を含む可能性のあるエントリID（語のグラムをすべて持つもの）
+async function candidateIdsForTerm(
+  db: IDBPDatabase<ClimbingLogDB>,
+  term: string,
+): Promise<Set<string>> {
+  let result: Set<string> | null = null;
+  for (const gram of termGrams(term)) {
+    const ids: string[] = await db.getAllKeysFromIndex('searchIndex', 'by-gram', gram);
+    result = result ? new Set(ids.filter(id => result!.has(id))) : new Set(ids);
+    if (result.size === 0) break;
+  }
+  return result ?? new Set();
+}
+
+/**
+ * 転置インデックスで候補を絞り込み、本文で一致を確かめてから返す。
+ * 除外語だけのクエリと、暗号化していて索引がないときは全件が候補になる。結果は新しい日付順（日付不明は末尾）。
+ */
+export async function searchEntries(
+  query: SearchQuery,
+  filters: SearchFilters = {},
+): Promise<DiaryEntry[]> {
+  const db = await getDB();
+
+  let candidates: DiaryEntry[];
+  if (query.groups.length === 0 || isEncrypting()) {
+    candidates = await unsealAll('entries', await cursorGetAll(db, 'entries'));
+  } else {
+    let ids: Set<string> | null = null;
+    for (const group of query.groups) {
+      // グループ内は OR なので和集合、グループ間は AND なので積集合
+      const union = new Set<string>();
+      for (const term of group) {
+        for (const id of await candidateIdsForTerm(db, term)) union.add(id);
+      }
+      ids = ids ? new Set([...union].filter(id => ids!.has(id))) : union;
+      if (ids.size === 0) return [];
     }
-    await tx3.done;
+    const tx = db.transaction('entries', 'readonly');
+    const fetched = await Promise.all([...ids!].map(id => tx.store.get(id)));
+    await tx.done;
+    candidates = fetched.filter((e): e is DiaryEntry => e !== undefined);
   }
+
+  return candidates
+    .filter(e => matchesFilters(e, filters) && matchesQuery(normalizeForSearch(e.content).text, query))
+    .sort((a, b) => {
+      if (a.date && b.date) return compareDateOnly(b.date, a.date);
+      if (a.date) return -1;
+      if (b.date) return 1;
+      return 0;
+    });
 }
 
 // --- AIキャッシュ操作 ---
 
 export async function getAiCache(type: string): Promise<AiCache | undefined> {
   const db = await getDB();
-  return db.get('aiCache', type);
+  const cache = await db.get('aiCache', type);
+  return cache && unseal('aiCache', cache);
 }
 
 export async function getAllAiCache(): Promise<AiCache[]> {
   const db = await getDB();
-  return cursorGetAll(db, 'aiCache');
+  return unsealAll('aiCache', await cursorGetAll(db, 'aiCache'));
 }
 
 export async function putAiCache(cache: AiCache): Promise<void> {
   const db = await getDB();
-  await db.put('aiCache', cache);
+  await db.put('aiCache', await seal('aiCache', cache));
 }
 
 export async function markAllAiCacheStale(): Promise<void> {
@@ -386,17 +1022,25 @@ export async function clearAllAiCache(): Promise<void> {
 
 export async function addAiLog(log: AiLog): Promise<void> {
   const db = await getDB();
-  await db.put('aiLogs', log);
+  await db.put('aiLogs', await seal('aiLogs', log));
 }
 
 export async function getAllAiLogs(): Promise<AiLog[]> {
   const db = await getDB();
   // ストア直接走査で全件取得（インデックス経由だと analyzedAt 欠落レコードを取りこぼす）
-  const all = await cursorGetAll(db, 'aiLogs');
+  const all = await unsealAll('aiLogs', await cursorGetAll(db, 'aiLogs'));
   // analyzedAt 降順ソート（インデックス経由で得ていた順序を維持）
   return all.sort((a, b) => (b.analyzedAt ?? '').localeCompare(a.analyzedAt ?? ''));
 }
 
+export async function setAiLogPinned(id: string, pinned: boolean): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('aiLogs', 'readwrite');
+  const log = await tx.store.get(id);
+  if (log) await tx.store.put({ ...log, pinned });
+  await tx.done;
+}
+
 export async function getAiLogsByType(type: string): Promise<AiLog[]> {
   const db = await getDB();
   const tx = db.transaction('aiLogs', 'readonly');
@@ -407,6 +1051,314 @@ export async function getAiLogsByType(type: string): Promise<AiLog[]> {
     cursor = await cursor.continue();
   }
   await tx.done;
-  return results;
+  return unsealAll('aiLogs', results);
+}
+
+// --- ユーザー定義の分析タイプ ---
+
+export async function getAllCustomAnalysisTypes(): Promise<CustomAnalysisType[]> {
+  const db = await getDB();
+  const all = await unsealAll('customAnalysisTypes', await cursorGetAll(db, 'customAnalysisTypes'));
+  return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getCustomAnalysisType(id: string): Promise<CustomAnalysisType | undefined> {
+  const db = await getDB();
+  const type = await db.get('customAnalysisTypes', id);
+  return type && unseal('customAnalysisTypes', type);
+}
+
+export async function putCustomAnalysisType(type: CustomAnalysisType): Promise<void> {
+  const sealed = await seal('customAnalysisTypes', type);
+  const db = await getDB();
+  await db.put('customAnalysisTypes', sealed);
+}
+
+/** 定義と最新結果のキャッシュを消す（AIログは残す） */
+export async function deleteCustomAnalysisType(id: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['customAnalysisTypes', 'aiCache'], 'readwrite');
+  await tx.objectStore('customAnalysisTypes').delete(id);
+  await tx.objectStore('aiCache').delete(id);
+  await tx.done;
+}
+
+// --- プロンプトの版 ---
+
+/** 初めて使った版だけを残す（最初に使った日時と用途を上書きしない） */
+export async function savePromptVersion(version: PromptVersion): Promise<void> {
+  const sealed = await seal('promptVersions', version);
+  const db = await getDB();
+  const tx = db.transaction('promptVersions', 'readwrite');
+  if (!(await tx.store.get(version.version))) await tx.store.put(sealed);
+  await tx.done;
+}
+
+export async function getPromptVersion(version: string): Promise<PromptVersion | undefined> {
+  const db = await getDB();
+  const stored = await db.get('promptVersions', version);
+  return stored && unseal('promptVersions', stored);
+}
+
+/** 用途ごとの版（新しい順） */
+export async function getPromptVersionsByPurpose(purpose: string): Promise<PromptVersion[]> {
+  const db = await getDB();
+  const all = await cursorGetAll(db, 'promptVersions');
+  const matched = await unsealAll('promptVersions', all.filter(v => v.purpose === purpose));
+  return matched.sort((a, b) => b.firstUsedAt.localeCompare(a.firstUsedAt));
+}
+
+// --- AI使用量台帳 ---
+
+export async function addAiUsageRecord(record: AiUsageRecord): Promise<void> {
+  const db = await getDB();
+  await db.put('aiUsage', record);
+}
+
+export async function getAllAiUsageRecords(): Promise<AiUsageRecord[]> {
+  const db = await getDB();
+  const all = await cursorGetAll(db, 'aiUsage');
+  return all.sort((a, b) => b.calledAt.localeCompare(a.calledAt));
 }
 
+/** since 以降の推定費用の合計（USD、単価のわからない呼び出しは数えない） */
+export async function getAiCostSince(since: string): Promise<number> {
+  const db = await getDB();
+  const tx = db.transaction('aiUsage', 'readonly');
+  let total = 0;
+  let cursor = await tx.store.index('by-called').openCursor(IDBKeyRange.lowerBound(since));
+  while (cursor) {
+    total += cursor.value.costUsd ?? 0;
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+  return total;
+}
+
+// --- AIジョブキュー ---
+
+export async function getAllAiJobs(): Promise<AiJob[]> {
+  const db = await getDB();
+  const all = await cursorGetAll(db, 'aiJobs');
+  return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.seq - b.seq);
+}
+
+export async function getAiJob(id: string): Promise<AiJob | undefined> {
+  const db = await getDB();
+  return db.get('aiJobs', id);
+}
+
+export async function putAiJobs(jobs: AiJob[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('aiJobs', 'readwrite');
+  for (const job of jobs) await tx.store.put(job);
+  await tx.done;
+}
+
+export async function deleteAiJobs(ids: string[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('aiJobs', 'readwrite');
+  for (const id of ids) await tx.store.delete(id);
+  await tx.done;
+}
+
+// --- 観測所操作 ---
+
+export async function addObservation(observation: Observation): Promise<void> {
+  const db = await getDB();
+  await db.put('observations', await seal('observations', observation));
+}
+
+export async function getAllObservations(): Promise<Observation[]> {
+  const db = await getDB();
+  const all = await unsealAll('observations', await cursorGetAll(db, 'observations'));
+  // 新しい順（同じ日なら記録時刻の新しい順）
+  return all.sort((a, b) =>
+    b.date.localeCompare(a.date) || (b.createdAt ?? '').localeCompare(a.createdAt ?? ''),
+  );
+}
+
+export async function deleteObservation(id: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['observations', 'syncTombstones'], 'readwrite');
+  await tx.objectStore('observations').delete(id);
+  await tx.objectStore('syncTombstones').put(tombstone('observations', id, new Date().toISOString()));
+  await tx.done;
+}
+
+
+// --- 端末間の同期 ---
+// 同期の手順は utils/syncEngine.ts。ここでは手元のレコード・トゥームストーン・同期済みの版を読み書きする。
+
+const SYNC_CURSOR_KEY = 'cursor';
+const SYNC_STORE_NAMES = ['syncTombstones', 'syncVersions', 'syncConflicts', 'syncState'] as const;
+
+/** 同期に使う手元の状態（レコードは復号して返す。残っているレコードがあればトゥームストーンより優先する） */
+export async function getSyncState(): Promise<SyncLocalState> {
+  const db = await getDB();
+  const entries = await unsealAll('entries', await cursorGetAll(db, 'entries'));
+  const fragments = await unsealAll('fragments', await cursorGetAll(db, 'fragments'));
+  const observations = await unsealAll('observations', await cursorGetAll(db, 'observations'));
+  const records: SyncRecord[] = [
+    ...entries.map(value => ({ store: 'entries' as const, id: value.id, modifiedAt: entryModifiedAt(value), value })),
+    ...fragments.map(value => ({ store: 'fragments' as const, id: value.id, modifiedAt: fragmentModifiedAt(value), value })),
+    ...observations.map(value => ({ store: 'observations' as const, id: value.id, modifiedAt: observationModifiedAt(value), value })),
+  ];
+  const present = new Set(records.map(recordKey));
+  for (const t of await cursorGetAll(db, 'syncTombstones')) {
+    if (!present.has(t.key)) records.push(tombstoneRecord(t));
+  }
+  const versions = await cursorGetAll(db, 'syncVersions');
+  const cursor = await db.get('syncState', SYNC_CURSOR_KEY);
+  return {
+    records,
+    synced: new Map(versions.map(v => [v.key, v.modifiedAt])),
+    lastSeq: cursor?.lastSeq ?? 0,
+  };
+}
+
+// 保存されている値を同期のレコードにする。版の項目は暗号化しないので、暗号化したままの値でもよい
+function storedSyncRecord(store: SyncStoreName, value: DiaryEntry | Fragment | Observation): SyncRecord {
+  switch (store) {
+    case 'entries': return { store, id: value.id, modifiedAt: entryModifiedAt(value as DiaryEntry), value: value as DiaryEntry };
+    case 'fragments': return { store, id: value.id, modifiedAt: fragmentModifiedAt(value as Fragment), value: value as Fragment };
+    case 'observations':
+      return { store, id: value.id, modifiedAt: observationModifiedAt(value as Observation), value: value as Observation };
+  }
+}
+
+/**
+ * 同期で取り込んだ版を書き込み、同期済みの版・衝突・読み終えた位置を記録する。
+ * 日記の削除が届いたら、この端末の宝物庫・編集履歴も一緒に消す（宝物庫の削除はほかの端末にも伝える）。
+ * 同期先とやりとりしているあいだに手元で変えられたレコードは上書きせず、届いた版を衝突として残す
+ * （手元の版は次の同期で送り出される）。
+ */
+export async function applySyncChanges(changes: SyncLocalChanges): Promise<void> {
+  const db = await getDB();
+  const sealed = await Promise.all(changes.apply.map(record => transformSyncRecord(record, encryptString)));
+  const sealedConflicts = await Promise.all(changes.conflicts.map(c => seal('syncConflicts', c)));
+  const expected = new Map(changes.expected);
+  const detectedAt = new Date().toISOString();
+  const indexed = !isEncrypting();
+
+  const tx = db.transaction(
+    ['entries', 'fragments', 'observations', 'entryRevisions', 'searchIndex', ...SYNC_STORE_NAMES],
+    'readwrite',
+  );
+  const tombstones = tx.objectStore('syncTombstones');
+  for (const [i, record] of sealed.entries()) {
+    const key = recordKey(record);
+    const stored = await tx.objectStore(record.store).get(record.id);
+    const deleted = stored ? undefined : await tombstones.get(key);
+    const mine = stored ? storedSyncRecord(record.store, stored) : deleted ? tombstoneRecord(deleted) : null;
+    if ((mine?.modifiedAt ?? null) !== (expected.get(key) ?? null)) {
+      // 暗号化したままの版どうしなので、そのまま衝突の記録にできる
+      if (mine) sealedConflicts.push({ key, store: record.store, id: record.id, detectedAt, kept: mine, discarded: record });
+      continue;
+    }
+
+    if (record.value === null) {
+      await tx.objectStore(record.store).delete(record.id);
+      await tombstones.put(tombstone(record.store, record.id, record.modifiedAt));
+      if (record.store === 'entries') {
+        await tx.objectStore('searchIndex').delete(record.id);
+        let fragment = await tx.objectStore('fragments').index('by-entry').openCursor(record.id);
+        while (fragment) {
+          await tombstones.put(tombstone('fragments', fragment.value.id, record.modifiedAt));
+          await fragment.delete();
+          fragment = await fragment.continue();
+        }
+        let revision = await tx.objectStore('entryRevisions').index('by-entry').openCursor(record.id);
+        while (revision) {
+          await revision.delete();
+          revision = await revision.continue();
+        }
+      }
+      continue;
+    }
+
+    await tombstones.delete(key);
+    switch (record.store) {
+      case 'entries': {
+        const plain = changes.apply[i].value as DiaryEntry;
+        await tx.objectStore('entries').put(record.value);
+        if (indexed) await tx.objectStore('searchIndex').put(toSearchIndexRecord(plain));
+        // 宝物庫の entryDate は日記の日付の写しなので、日付が変わっていれば追従させる
+        let fragment = await tx.objectStore('fragments').index('by-entry').openCursor(record.id);
+        while (fragment) {
+          if (fragment.value.entryDate !== plain.date) await fragment.update({ ...fragment.value, entryDate: plain.date });
+          fragment = await fragment.continue();
+        }
+        break;
+      }
+      case 'fragments':
+        await tx.objectStore('fragments').put(record.value);
+        break;
+      case 'observations':
+        await tx.objectStore('observations').put(record.value);
+        break;
+    }
+  }
+  for (const [key, modifiedAt] of changes.synced) await tx.objectStore('syncVersions').put({ key, modifiedAt });
+  for (const conflict of sealedConflicts) await tx.objectStore('syncConflicts').put(conflict);
+  await tx.objectStore('syncState').put({ lastSeq: changes.lastSeq }, SYNC_CURSOR_KEY);
+  await tx.done;
+}
+
+/** 同期先を変えたとき・この端末のデータを消したとき: 同期の記録を消し、次の同期で最初から読み直す */
+export async function resetSyncState(): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction([...SYNC_STORE_NAMES], 'readwrite');
+  for (const store of SYNC_STORE_NAMES) await tx.objectStore(store).clear();
+  await tx.done;
+}
+
+/** 同期の衝突（新しい順） */
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  const db = await getDB();
+  const all = await unsealAll('syncConflicts', await cursorGetAll(db, 'syncConflicts'));
+  return all.sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+}
+
+/** 採用された版のままにして、衝突の記録だけを消す */
+export async function dismissSyncConflict(key: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('syncConflicts', key);
+}
+
+/**
+ * 採用されなかった版を選び直す。今の時刻の版として書くので、次の同期でほかの端末にも伝わる。
+ * 選び直した版が削除なら、ふだんの削除と同じように消す。
+ */
+export async function adoptSyncConflict(key: string): Promise<void> {
+  const db = await getDB();
+  const stored = await db.get('syncConflicts', key);
+  if (!stored) return;
+  const { discarded } = await unseal('syncConflicts', stored);
+  const now = new Date().toISOString();
+
+  if (discarded.value === null) {
+    if (discarded.store === 'entries') await deleteEntry(discarded.id);
+    else if (discarded.store === 'fragments') await deleteFragment(discarded.id);
+    else await deleteObservation(discarded.id);
+  } else {
+    const adopted = { ...discarded, modifiedAt: now, value: { ...discarded.value, updatedAt: now } } as SyncRecord;
+    const sealed = await transformSyncRecord(adopted, encryptString);
+    const tx = db.transaction(['entries', 'fragments', 'observations', 'searchIndex', 'syncTombstones'], 'readwrite');
+    await tx.objectStore('syncTombstones').delete(key);
+    switch (sealed.store) {
+      case 'entries':
+        await tx.objectStore('entries').put(sealed.value!);
+        if (!isEncrypting()) await tx.objectStore('searchIndex').put(toSearchIndexRecord(adopted.value as DiaryEntry));
+        break;
+      case 'fragments':
+        await tx.objectStore('fragments').put(sealed.value!);
+        break;
+      case 'observations':
+        await tx.objectStore('observations').put(sealed.value!);
+        break;
+    }
+    await tx.done;
+  }
+  await db.delete('syncConflicts', key);
+}
@@ -0,0 +1,86 @@
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type { BackupSnapshot } from '../types';
+
+// --- 自動バックアップの保存先 ---
+// 日記の DB（climbing-log）とは別のデータベースに置く。日記の DB を消したり
+// 作り直したりしても、スナップショットから戻せるようにするため。
+
+interface SnapshotDB extends DBSchema {
+  snapshots: {
+    key: string; // UUID
+    value: BackupSnapshot;
+  };
+  snapshotContents: {
+    key: string; // BackupSnapshot.id
+    value: { id: string; content: string }; // バックアップファイルと同じ JSON
+  };
+  settings: {
+    key: string;
+    value: unknown; // 'folder': 書き出し先フォルダの FileSystemDirectoryHandle
+  };
+}
+
+const DB_VERSION = 1;
+
+let dbInstance: IDBPDatabase<SnapshotDB> | null = null;
+
+async function getDB(): Promise<IDBPDatabase<SnapshotDB>> {
+  if (dbInstance) return dbInstance;
+  dbInstance = await openDB<SnapshotDB>('climbing-log-snapshots', DB_VERSION, {
+    upgrade(db, oldVersion) {
+      // v0 → v1: 初期スキーマ
+      if (oldVersion < 1) {
+        db.createObjectStore('snapshots', { keyPath: 'id' });
+        db.createObjectStore('snapshotContents', { keyPath: 'id' });
+        db.createObjectStore('settings');
+      }
+    },
+  });
+  return dbInstance;
+}
+
+/** スナップショットの目録を新しい順で返す（中身は読まない） */
+export async function getAllSnapshots(): Promise<BackupSnapshot[]> {
+  const db = await getDB();
+  const all = await db.getAll('snapshots');
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function addSnapshot(snapshot: BackupSnapshot, content: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['snapshots', 'snapshotContents'], 'readwrite');
+  await tx.objectStore('snapshotContents').put({ id: snapshot.id, content });
+  await tx.objectStore('snapshots').put(snapshot);
+  await tx.done;
+}
+
+export async function getSnapshotContent(id: string): Promise<string | undefined> {
+  const db = await getDB();
+  return (await db.get('snapshotContents', id))?.content;
+}
+
+export async function deleteSnapshots(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await getDB();
+  const tx = db.transaction(['snapshots', 'snapshotContents'], 'readwrite');
+  for (const id of ids) {
+    await tx.objectStore('snapshots').delete(id);
+    await tx.objectStore('snapshotContents').delete(id);
+  }
+  await tx.done;
+}
+
+export async function getSnapshotSetting<T>(key: string): Promise<T | undefined> {
+  const db = await getDB();
+  return (await db.get('settings', key)) as T | undefined;
+}
+
+export async function putSnapshotSetting(key: string, value: unknown): Promise<void> {
+  const db = await getDB();
+  await db.put('settings', value, key);
+}
+
+export async function deleteSnapshotSetting(key: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('settings', key);
+}
@@ -1,13 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { AiCache } from '../types';
-import { getAllAiCache, putAiCache, addAiLog } from '../db';
+import { getAllAiCache } from '../db';
 
 export function useAiCache() {
   const [cache, setCache] = useState<Record<string, AiCache>>({});
   const [loading, setLoading] = useState(true);
 
+  // 初回以外は読み込み中にせず、表示したまま差し替える
   const load = useCallback(async () => {
-    setLoading(true);
     const all = await getAllAiCache();
     const map: Record<string, AiCache> = {};
     for (const c of all) {
@@ -21,38 +21,5 @@ export function useAiCache() {
     load(); // eslint-disable-line react-hooks/set-state-in-effect -- 初回マウント時の非同期データ取得
   }, [load]);
 
-  // 分析結果をキャッシュに保存し、ログにも蓄積する
-  const save = useCallback(async (
-    type: string,
-    result: string,
-    entryCount: number,
-    analyzedForDate?: string,
-    todayEntryCount?: number,
-  ) => {
-    const now = new Date().toISOString();
-
-    const cacheEntry: AiCache = {
-      type,
-      result,
-      analyzedAt: now,
-      entryCount,
-      isStale: false,
-      analyzedForDate,
-      todayEntryCount,
-    };
-    await putAiCache(cacheEntry);
-
-    // ログとして蓄積（消さない）
-    await addAiLog({
-      id: crypto.randomUUID(),
-      type,
-      result,
-      analyzedAt: now,
-      entryCount,
-    });
-
-    setCache(prev => ({ ...prev, [type]: cacheEntry }));
-  }, []);
-
-  return { cache, loading, reload: load, save };
+  return { cache, loading, reload: load };
 }
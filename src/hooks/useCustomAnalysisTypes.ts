@@ -0,0 +1,20 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CustomAnalysisType } from '../types';
+import { getAllCustomAnalysisTypes } from '../db';
+
+/** ユーザー定義の分析タイプ（作成順） */
+export function useCustomAnalysisTypes() {
+  const [customTypes, setCustomTypes] = useState<CustomAnalysisType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setCustomTypes(await getAllCustomAnalysisTypes());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load(); // eslint-disable-line react-hooks/set-state-in-effect -- 初回マウント時の非同期データ取得
+  }, [load]);
+
+  return { customTypes, loading, reload: load };
+}
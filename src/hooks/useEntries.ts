@@ -16,9 +16,19 @@ export function useEntries() {
     setLoading(false);
   }, []);
 
+  // 1件だけ更新したとき、全件を取り直さずにローカル状態へ反映する
+  const replaceEntry = useCallback((entry: DiaryEntry) => {
+    setEntries(prev => prev.map(e => e.id === entry.id ? entry : e));
+  }, []);
+
+  const removeEntry = useCallback((id: string) => {
+    setEntries(prev => prev.filter(e => e.id !== id));
+    setCount(prev => Math.max(0, prev - 1));
+  }, []);
+
   useEffect(() => {
     refresh(); // eslint-disable-line react-hooks/set-state-in-effect -- 初回マウント時の非同期データ取得
   }, [refresh]);
 
-  return { entries, count, loading, refresh };
+  return { entries, count, loading, refresh, replaceEntry, removeEntry };
 }
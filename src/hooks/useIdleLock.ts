@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { getEncryptionSettings, type LockState } from '../utils/encryption';
+import { lockNow } from '../utils/passphraseLock';
+import { getJobQueueState } from '../utils/jobQueue';
+import { getSyncStatus } from '../utils/sync';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const CHECK_INTERVAL_MS = 15_000;
+
+/**
+ * 操作のない時間が設定の分数を超えたらロックする。
+ * AI処理や同期の実行中はロックすると結果を保存できないので、終わるまで待つ。
+ */
+export function useIdleLock(lockState: LockState): void {
+  useEffect(() => {
+    if (lockState !== 'unlocked') return;
+    let lastActivity = Date.now();
+    const touch = () => { lastActivity = Date.now(); };
+    for (const event of ACTIVITY_EVENTS) window.addEventListener(event, touch, { passive: true });
+
+    // 分数は設定画面で変えられるので、毎回読み直す（バックグラウンドで間引かれても時刻で比べる）
+    const timer = setInterval(() => {
+      const minutes = getEncryptionSettings()?.idleMinutes ?? 0;
+      if (getJobQueueState().activeJobId || getSyncStatus().running) touch();
+      else if (minutes > 0 && Date.now() - lastActivity >= minutes * 60_000) lockNow();
+    }, CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      for (const event of ACTIVITY_EVENTS) window.removeEventListener(event, touch);
+    };
+  }, [lockState]);
+}
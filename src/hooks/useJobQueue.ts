@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { subscribeJobQueue, getJobQueueState, type JobQueueState } from '../utils/jobQueue';
+
+/** ジョブキューの状態（どのページからでも同じものを見る） */
+export function useJobQueue(): JobQueueState {
+  return useSyncExternalStore(subscribeJobQueue, getJobQueueState);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { subscribeLockState, getLockState, type LockState } from '../utils/encryption';
+
+/** パスフレーズのロックの状態（どのページからでも同じものを見る） */
+export function useLockState(): LockState {
+  return useSyncExternalStore(subscribeLockState, getLockState);
+}
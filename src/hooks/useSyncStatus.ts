@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { subscribeSyncStatus, getSyncStatus, type SyncStatus } from '../utils/sync';
+
+/** 端末間の同期の状態（どのページからでも同じものを見る） */
+export function useSyncStatus(): SyncStatus {
+  return useSyncExternalStore(subscribeSyncStatus, getSyncStatus);
+}
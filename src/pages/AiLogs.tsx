@@ -1,29 +1,17 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import type { AiLog, AiCache } from '../types';
-import { getAllAiLogs, getAllAiCache } from '../db';
+import type { AiLog, AiCache, CustomAnalysisType } from '../types';
+import { getAllAiLogs, getAllAiCache, getAllCustomAnalysisTypes } from '../db';
 import { useHead } from '../hooks/useHead';
 import { AiResultBody } from '../components/AiResultBody';
+import { PromptCompare } from '../components/PromptCompare';
+import { AiLogHistory } from '../components/AiLogHistory';
+import { AiLogExport } from '../components/AiLogExport';
+import { formatUsd } from '../utils/aiUsage';
+import { ANALYSIS_TYPES, isCurrentAnalysisType, getAnalysisLabel } from '../utils/analysisTypes';
 
-// 現行のAnalysis.tsxと一致させる（7種類）
-type AnalysisType = 'todaysEntry' | 'vitalPoint' | 'externalStandardsMastery' | 'todaysLandscape' | 'natureReflection' | 'timeChanges' | 'crossReading';
-
-const typeLabels: Record<AnalysisType, string> = {
-  todaysEntry: '今日',
-  vitalPoint: '急所',
-  externalStandardsMastery: '外基準の統合',
-  todaysLandscape: '今日の景色',
-  natureReflection: '自然の眼',
-  timeChanges: '時間の地層',
-  crossReading: '横断読み',
-};
-
-const allTypes: AnalysisType[] = [
-  'todaysEntry', 'todaysLandscape', 'vitalPoint', 'externalStandardsMastery', 'natureReflection', 'timeChanges', 'crossReading',
-];
-
-// 現行タイプのセット（フィルタリング用）
-const currentTypeSet = new Set<string>(allTypes);
+// アーカイブ（やめた分析・削除したユーザー定義の分析）のログだけを出すフィルタ
+const ARCHIVED_FILTER = 'archived';
 
 function formatDate(iso: string): string {
   const d = new Date(iso);
@@ -46,13 +34,20 @@ export function AiLogs() {
   const [logs, setLogs] = useState<AiLog[]>([]);
   const [latestCaches, setLatestCaches] = useState<AiCache[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<AnalysisType | 'all'>('all');
+  const [customTypes, setCustomTypes] = useState<CustomAnalysisType[]>([]);
+  const [filter, setFilter] = useState<string>('all');
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [copyMessage, setCopyMessage] = useState<string | null>(null);
+  // 一覧の上に開く A/B比較・書き出し
+  const [panel, setPanel] = useState<'compare' | 'export' | null>(null);
+  // 履歴を開いている分析タイプ
+  const [historyType, setHistoryType] = useState<string | null>(null);
   const location = useLocation();
 
+  const labelOf = (type: string) => getAnalysisLabel(type, customTypes);
+
   const handleItemCopy = async (log: AiLog) => {
-    const label = typeLabels[log.type as AnalysisType] || log.type;
+    const label = labelOf(log.type);
     const date = formatDate(log.analyzedAt);
     const text = `【${label}】${date}（${log.entryCount}件の日記）\n${log.result}`;
     try {
@@ -67,19 +62,18 @@ export function AiLogs() {
 
   const fetchLogs = useCallback(async () => {
     setLoading(true);
-    const [all, allCaches] = await Promise.all([getAllAiLogs(), getAllAiCache()]);
-    // 新しい順に並べる
-    all.reverse();
-    // 現行タイプのみ、各タイプごとに最新の1件だけを保持
+    // getAllAiLogs は新しい順
+    const [all, allCaches, customs] = await Promise.all([getAllAiLogs(), getAllAiCache(), getAllCustomAnalysisTypes()]);
+    // 各タイプごとに最新の1件だけを保持（アーカイブのタイプも残す）
     const latestByType = new Map<string, AiLog>();
     for (const log of all) {
-      if (!currentTypeSet.has(log.type)) continue;
       if (!latestByType.has(log.type)) {
         latestByType.set(log.type, log);
       }
     }
+    setCustomTypes(customs);
     setLogs(Array.from(latestByType.values()));
-    setLatestCaches(allCaches.filter(c => currentTypeSet.has(c.type) && c.result));
+    setLatestCaches(allCaches.filter(c => isCurrentAnalysisType(c.type, customs) && c.result));
     setLoading(false);
   }, []);
 
@@ -96,14 +90,18 @@ export function AiLogs() {
     );
   }
 
+  const currentLogs = logs.filter(l => isCurrentAnalysisType(l.type, customTypes));
+  const archivedLogs = logs.filter(l => !isCurrentAnalysisType(l.type, customTypes));
   const filtered = filter === 'all'
-    ? logs
-    : logs.filter(l => l.type === filter);
+    ? currentLogs
+    : filter === ARCHIVED_FILTER
+      ? archivedLogs
+      : logs.filter(l => l.type === filter);
 
   const handleBulkCopy = async () => {
     if (filtered.length === 0) return;
     const text = filtered.map(log => {
-      const label = typeLabels[log.type as AnalysisType] || log.type;
+      const label = labelOf(log.type);
       const date = formatDate(log.analyzedAt);
       return `【${label}】${date}（${log.entryCount}件の日記）\n${log.result}`;
     }).join('\n\n---\n\n');
@@ -120,7 +118,7 @@ export function AiLogs() {
   const handleCopyLatestResults = async () => {
     if (latestCaches.length === 0) return;
     const parts = latestCaches.map(c => {
-      const label = typeLabels[c.type as AnalysisType] || c.type;
+      const label = labelOf(c.type);
       const date = formatDate(c.analyzedAt);
       return `【${label}】${date}（${c.entryCount}件の日記）\n${c.result}`;
     });
@@ -144,7 +142,39 @@ export function AiLogs() {
       <h1 className="page-title">AI分析ログ</h1>
       <p className="subtitle">各分析タイプの最新結果を表示しています</p>
 
-      {logs.length === 0 ? (
+      <div className="ailogs-compare">
+        <div className="ailogs-filter">
+          <button className="btn btn-small" onClick={() => setPanel(panel === 'compare' ? null : 'compare')}>
+            {panel === 'compare' ? 'A/B比較を閉じる' : 'A/B比較'}
+          </button>
+          <button
+            className="btn btn-small"
+            onClick={() => setPanel(panel === 'export' ? null : 'export')}
+            disabled={logs.length === 0}
+          >
+            {panel === 'export' ? '書き出しを閉じる' : 'レポートを書き出す'}
+          </button>
+        </div>
+        {panel === 'compare' && <PromptCompare customTypes={customTypes} />}
+        {panel === 'export' && (
+          <AiLogExport
+            types={logs.map(l => ({ type: l.type, label: labelOf(l.type) }))}
+            labelOf={labelOf}
+            onMessage={message => {
+              setCopyMessage(message);
+              setTimeout(() => setCopyMessage(null), 2500);
+            }}
+          />
+        )}
+      </div>
+
+      {historyType ? (
+        <AiLogHistory
+          type={historyType}
+          label={labelOf(historyType)}
+          onBack={() => { setHistoryType(null); fetchLogs(); }}
+        />
+      ) : logs.length === 0 ? (
         <div className="ailogs-empty">
           <p className="empty-message">まだ分析ログがありません</p>
           <p className="hint">
@@ -157,16 +187,19 @@ export function AiLogs() {
             <select
               className="custom-select"
               value={filter}
-              onChange={e => setFilter(e.target.value as AnalysisType | 'all')}
+              onChange={e => setFilter(e.target.value)}
             >
-              <option value="all">すべて ({logs.length})</option>
-              {allTypes
-                .filter(t => existingTypes.has(t))
+              <option value="all">すべて ({currentLogs.length})</option>
+              {[...Object.keys(ANALYSIS_TYPES), ...customTypes.map(t => t.id)]
+                .filter(t => existingTypes.has(t) && isCurrentAnalysisType(t, customTypes))
                 .map(t => (
                   <option key={t} value={t}>
-                    {typeLabels[t]}
+                    {labelOf(t)}
                   </option>
                 ))}
+              {archivedLogs.length > 0 && (
+                <option value={ARCHIVED_FILTER}>アーカイブ ({archivedLogs.length})</option>
+              )}
             </select>
             <span className="ailogs-count">
               {filtered.length}件表示
@@ -198,11 +231,12 @@ export function AiLogs() {
                   >
                     <div className="ailogs-item-info">
                       <span className="ailogs-type-badge">
-                        {typeLabels[log.type as AnalysisType] || log.type}
+                        {labelOf(log.type)}
                       </span>
                       <span className="ailogs-date">
                         {formatDate(log.analyzedAt)}
                       </span>
+                      {log.pinned && <span className="ailogs-date" aria-label="★付き">★</span>}
                     </div>
                     <div className="ailogs-item-meta">
                       <span className="ailogs-entry-count">
@@ -222,12 +256,27 @@ export function AiLogs() {
                         <span className="ailogs-body-count">
                           エントリ数: {log.entryCount}
                         </span>
+                        {log.promptVersion && (
+                          <span className="ailogs-body-count">版 {log.promptVersion}</span>
+                        )}
+                        {log.usage && (
+                          <span className="ailogs-body-count">
+                            {log.usage.model} / 入力 {log.usage.inputTokens.toLocaleString()}・出力 {log.usage.outputTokens.toLocaleString()} トークン
+                            {log.usage.costUsd !== null && `（約 ${formatUsd(log.usage.costUsd)}）`}
+                          </span>
+                        )}
                         <button
                           className="btn btn-small"
                           onClick={(e) => { e.stopPropagation(); handleItemCopy(log); }}
                         >
                           コピー
                         </button>
+                        <button
+                          className="btn btn-small"
+                          onClick={() => setHistoryType(log.type)}
+                        >
+                          履歴
+                        </button>
                       </div>
                       <AiResultBody text={log.result} />
                     </div>
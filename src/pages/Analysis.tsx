@@ -1,109 +1,40 @@
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useEntries } from '../hooks/useEntries';
 import { useHead } from '../hooks/useHead';
 import { useAiCache } from '../hooks/useAiCache';
-import { hasApiKey } from '../utils/apiKey';
-import { getAllEntries, getEntryCount } from '../db';
+import { useCustomAnalysisTypes } from '../hooks/useCustomAnalysisTypes';
+import { useJobQueue } from '../hooks/useJobQueue';
+import { isAiProviderReady, isAbortError, type ChatOptions } from '../utils/aiProvider';
+import { getFavoriteSamplingMode, setFavoriteSamplingMode, type FavoriteSamplingMode } from '../utils/favoriteSampling';
+import { getAllEntries, deleteCustomAnalysisType } from '../db';
+import type { CustomAnalysisType } from '../types';
+import { detectAnalysisToday } from '../utils/claude';
+import { runAnalysis, callAnalysis, collectCachedResults } from '../utils/analysisRunner';
 import {
-  analyzeVitalPoint,
-  analyzeTodaysEntry,
-  analyzeExternalStandardsMastery,
-  analyzeTodaysLandscape,
-  analyzeNatureReflection,
-  analyzeTimeChanges,
-  analyzeCrossReading,
-  detectAnalysisToday,
-} from '../utils/claude';
-import type { DiaryEntry } from '../types';
+  ANALYSIS_TYPES,
+  ANALYSIS_CATEGORY_LABELS,
+  ACTIVE_ANALYSIS_TYPES,
+  getRunOrder,
+  type AnalysisType,
+  type AnalysisCategory,
+} from '../utils/analysisTypes';
+import { enqueueJobs, cancelJobRun, summarizeJobRuns } from '../utils/jobQueue';
+import type { PlannedRequest } from '../utils/preflight';
+import { describeCustomAnalysis } from '../utils/customAnalysis';
 import { AiResultBody } from '../components/AiResultBody';
-import { getAiLogsByType } from '../db';
-
-type AnalysisType =
-  | 'todaysEntry'
-  | 'vitalPoint'
-  | 'externalStandardsMastery'
-  | 'todaysLandscape'
-  | 'natureReflection'
-  | 'timeChanges'
-  | 'crossReading';
+import { PreflightDialog } from '../components/PreflightDialog';
+import { CustomAnalysisEditor } from '../components/CustomAnalysisEditor';
 
 interface AnalysisItem {
   title: string;
   desc: string;
-  fn: (entries: DiaryEntry[], previousResult?: string) => Promise<string>;
 }
 
-interface AnalysisCategory {
-  label: string;
-  items: AnalysisType[];
+interface AnalysisSection {
+  category: AnalysisCategory;
+  items: string[];
 }
 
-const analysisMap: Record<AnalysisType, AnalysisItem> = {
-  todaysEntry: {
-    title: '今日',
-    desc: '今日だけ。でもわかってる人が読む今日',
-    fn: analyzeTodaysEntry,
-  },
-  vitalPoint: {
-    title: '急所',
-    desc: '今日の日記から本質を突く、たった一つの指摘',
-    fn: analyzeVitalPoint,
-  },
-  externalStandardsMastery: {
-    title: '外基準の統合',
-    desc: '今日、内側を守ったまま外基準を道具として扱えているか。感情の地層を掘り、今日固有の最深部を言い当てる',
-    fn: analyzeExternalStandardsMastery,
-  },
-  todaysLandscape: {
-    title: '今日の景色',
-    desc: 'フィルターなしで今日の全トピックをマッピング。不安だけでなく、好奇心も遊びも日常も',
-    fn: analyzeTodaysLandscape,
-  },
-  natureReflection: {
-    title: '自然の眼',
-    desc: '今日の日記の中の比喩・メタファー・自然的イメージを拾い上げる。どんなレンズで世界を見ているかを、選ばれた言葉の構造から読む',
-    fn: analyzeNatureReflection,
-  },
-  timeChanges: {
-    title: '時間の地層',
-    desc: '3日・1週間・1ヶ月・3ヶ月・半年・1年・3年・5年 — 8つの距離から今日を見る。変化の事実だけを、評価せずに描く',
-    fn: analyzeTimeChanges,
-  },
-  crossReading: {
-    title: '横断読み',
-    desc: '他の分析結果を横断して読む。同じ急所が形を変えて繰り返し現れるところ、分析同士が気づかないまま指しているつながりを見つける',
-    fn: async () => '', // 特殊ハンドリング — run() 内で analyzeCrossReading を直接呼ぶ
-  },
-};
-
-const sampleLimits: Record<AnalysisType, number> = {
-  todaysEntry: 30,      // 今日＋背景知識
-  vitalPoint: 30,       // 今日＋存在テーマ密度
-  externalStandardsMastery: 30, // 今日＋背景知識
-  todaysLandscape: 30,  // 今日＋直近30日の背景
-  natureReflection: 30, // 今日＋直近30日の比喩背景
-  timeChanges: 9999,    // 全エントリから各時点を抽出（関数内でフィルタ）
-  crossReading: 30,     // 今日＋他の分析結果をインプットにする
-};
-
-// 横断読みは他の分析結果をインプットにするため、すべて実行の最後に回す
-const runLastTypes = new Set<AnalysisType>(['crossReading']);
-
-const categories: AnalysisCategory[] = [
-  {
-    label: '今ここ',
-    items: ['todaysEntry', 'todaysLandscape', 'vitalPoint', 'externalStandardsMastery', 'natureReflection'],
-  },
-  {
-    label: '時間',
-    items: ['timeChanges'],
-  },
-  {
-    label: '横断',
-    items: ['crossReading'],
-  },
-];
-
 function formatDate(iso: string): string {
   const d = new Date(iso);
   const y = d.getFullYear();
@@ -123,147 +54,142 @@ export function Analysis() {
   });
 
   const { entries, loading, refresh: refreshEntries } = useEntries();
-  const { cache, loading: cacheLoading, save } = useAiCache();
-  const [running, setRunning] = useState<AnalysisType | null>(null);
-  const [runningAll, setRunningAll] = useState(false);
+  const { cache, loading: cacheLoading, reload: reloadCache } = useAiCache();
+  const { customTypes, reload: reloadCustomTypes } = useCustomAnalysisTypes();
+  const queue = useJobQueue();
+  // 単発で実行中の分析（すべて実行はジョブキューが受け持つ）
+  const [running, setRunning] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [allProgress, setAllProgress] = useState<{ done: number; total: number } | null>(null);
+  const [favoriteMode, setFavoriteMode] = useState<FavoriteSamplingMode>(() => getFavoriteSamplingMode());
+  // ストリーミング中の途中経過（保存はしない）
+  const [partial, setPartial] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // すべて実行の前の見積もり（requests は集めている間 null）
+  const [preflight, setPreflight] = useState<{ requests: PlannedRequest[] | null } | null>(null);
+  // ユーザー定義の分析の編集（'new' は新規作成）と、削除の確認
+  const [editing, setEditing] = useState<CustomAnalysisType | 'new' | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const allTypes = getRunOrder(customTypes);
+  const customById = new Map(customTypes.map(t => [t.id, t]));
+
+  // 直近の「すべて実行」。再読み込みしても続きから進む
+  const allRun = summarizeJobRuns(queue.jobs).find(r => r.kind === 'analysis');
+  const runningAll = allRun?.active ?? false;
+  const activeJob = queue.jobs.find(j => j.id === queue.activeJobId && j.kind === 'analysis');
+  const doneJobCount = allRun?.jobs.filter(j => j.status === 'done').length ?? 0;
+
+  // すべて実行の分析が1つ終わるたびに結果を読み直す
+  useEffect(() => {
+    if (doneJobCount > 0) reloadCache();
+  }, [doneJobCount, reloadCache]);
+
+  function handleFavoriteModeChange(mode: FavoriteSamplingMode) {
+    setFavoriteSamplingMode(mode);
+    setFavoriteMode(mode);
+  }
 
 
+  // 1回分の分析の中断と途中経過の表示を用意する
+  function startStream(): ChatOptions {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPartial(null);
+    return { signal: controller.signal, onText: setPartial };
+  }
+
+  function handleCancel() {
+    if (running) abortRef.current?.abort();
+    else if (allRun?.active) void cancelJobRun(allRun.runId);
+  }
+
   // キャッシュから結果を取得（表示用）
-  function getResult(type: AnalysisType): string | undefined {
+  function getResult(type: string): string | undefined {
     return cache[type]?.result;
   }
 
-  // 横断読みに必要な他の分析結果を収集する（日付不一致のキャッシュは除外）
-  function collectAnalysisResultsForDate(currentDate?: string): Record<string, string> {
-    const otherTypes: AnalysisType[] = ['todaysEntry', 'vitalPoint', 'externalStandardsMastery', 'todaysLandscape', 'natureReflection', 'timeChanges'];
-    const results: Record<string, string> = {};
-    for (const t of otherTypes) {
-      const c = cache[t];
-      if (!c?.result) continue;
-      // analyzedForDate がある場合、現在の「今日」と一致するもののみ使う
-      if (currentDate && c.analyzedForDate && c.analyzedForDate !== currentDate) continue;
-      results[t] = c.result;
+  function getItem(type: string): AnalysisItem {
+    const custom = customById.get(type);
+    return custom
+      ? { title: custom.name, desc: describeCustomAnalysis(custom) }
+      : { title: ANALYSIS_TYPES[type as AnalysisType].label, desc: ANALYSIS_TYPES[type as AnalysisType].description };
+  }
+
+  // 代表何件を分析したかの表示に使う上限（均等に選ぶユーザー定義の分析はその件数）
+  function getSampleLimit(type: string): number {
+    const custom = customById.get(type);
+    if (custom) return custom.sampleWindow === 'uniform' ? custom.sampleCount : Infinity;
+    return ANALYSIS_TYPES[type as AnalysisType].sampleLimit;
+  }
+
+  async function handleCustomSaved() {
+    setEditing(null);
+    await Promise.all([reloadCustomTypes(), reloadCache()]);
+  }
+
+  async function handleCustomDelete(type: CustomAnalysisType) {
+    if (confirmDeleteId !== type.id) {
+      setConfirmDeleteId(type.id);
+      return;
+    }
+    setConfirmDeleteId(null);
+    try {
+      await deleteCustomAnalysisType(type.id);
+      await Promise.all([reloadCustomTypes(), reloadCache()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '削除に失敗しました');
     }
-    return results;
   }
 
-  async function run(type: AnalysisType) {
-    if (!hasApiKey()) {
+  async function run(type: string) {
+    if (!isAiProviderReady()) {
       setError('APIキーが設定されていません。設定ページで入力してください。');
       return;
     }
     setRunning(type);
     setError(null);
     try {
-      // 分析実行前にDBから最新エントリを取得（ステートが古い可能性があるため）
-      const freshEntries = await getAllEntries();
-      const freshCount = await getEntryCount();
-      const today = detectAnalysisToday(freshEntries);
-
-      // 急所の場合、過去ログから問い追跡用の結果を取得
-      if (type === 'vitalPoint') {
-        const prevResult = cache[type]?.result;
-        const pastLogs = await getAiLogsByType('vitalPoint');
-        const pastResults = pastLogs
-          .sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt))
-          .map(log => log.result);
-        const result = await analyzeVitalPoint(freshEntries, prevResult, pastResults);
-        await save(type, result, freshCount, today?.date, today?.count);
-      } else if (type === 'crossReading') {
-        // 横断読みは他の分析結果をインプットにする
-        // キャッシュ汚染防止: 現在の「今日」と一致する分析結果のみ使う
-        const analysisResults = collectAnalysisResultsForDate(today?.date);
-        if (Object.keys(analysisResults).length === 0) {
-          setError('横断読みには他の分析結果が必要です。先に他の分析を実行してください。');
-          return;
-        }
-        const result = await analyzeCrossReading(freshEntries, analysisResults);
-        await save(type, result, freshCount, today?.date, today?.count);
-      } else {
-        const prevResult = cache[type]?.result;
-        const result = await analysisMap[type].fn(freshEntries, prevResult);
-        await save(type, result, freshCount, today?.date, today?.count);
-      }
+      await runAnalysis(type, startStream());
+      await reloadCache();
     } catch (err) {
-      setError(err instanceof Error ? err.message : '分析に失敗しました');
+      // 中止したときは途中までの結果を捨てるだけ
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : '分析に失敗しました');
     } finally {
+      abortRef.current = null;
+      setPartial(null);
       setRunning(null);
       refreshEntries();
     }
   }
 
-  async function runAll() {
-    if (!hasApiKey()) {
+  // すべて実行の前に、送るはずのプロンプトを集めて見積もりを出す
+  async function handleRunAllClick() {
+    if (!isAiProviderReady()) {
       setError('APIキーが設定されていません。設定ページで入力してください。');
       return;
     }
-    setRunningAll(true);
     setError(null);
-
-    // 分析実行前にDBから最新エントリを取得（ステートが古い可能性があるため）
-    const freshEntries = await getAllEntries();
-    const freshCount = await getEntryCount();
-    const today = detectAnalysisToday(freshEntries);
-
-    const mainTypes = categories.flatMap(c => c.items).filter(t => !runLastTypes.has(t));
-    const lastTypes = categories.flatMap(c => c.items).filter(t => runLastTypes.has(t));
-    const allTypes = [...mainTypes, ...lastTypes];
-    setAllProgress({ done: 0, total: allTypes.length });
-
-    // 横断読み用に各分析結果をローカルに収集（cache のクロージャは古いため）
-    const collectedResults: Record<string, string> = {};
-    const errors: string[] = [];
-
-    for (let i = 0; i < mainTypes.length; i++) {
-      const type = mainTypes[i];
-      setRunning(type);
-      try {
-        const prevResult = cache[type]?.result;
-        let result: string;
-        if (type === 'vitalPoint') {
-          const pastLogs = await getAiLogsByType('vitalPoint');
-          const pastResults = pastLogs
-            .sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt))
-            .map(log => log.result);
-          result = await analyzeVitalPoint(freshEntries, prevResult, pastResults);
-        } else {
-          result = await analysisMap[type].fn(freshEntries, prevResult);
-        }
-        await save(type, result, freshCount, today?.date, today?.count);
-        if (result) collectedResults[type] = result;
-      } catch (err) {
-        errors.push(err instanceof Error ? err.message : `${analysisMap[type].title}の分析に失敗しました`);
-      }
-      setAllProgress({ done: i + 1, total: allTypes.length });
-    }
-
-    // 横断読みを最後に実行（他の分析結果を収集済み）
-    if (lastTypes.length > 0 && Object.keys(collectedResults).length > 0) {
-      for (let i = 0; i < lastTypes.length; i++) {
-        const type = lastTypes[i];
-        setRunning(type);
-        try {
-          if (type === 'crossReading') {
-            const result = await analyzeCrossReading(freshEntries, collectedResults);
-            await save(type, result, freshCount, today?.date, today?.count);
-          }
-        } catch (err) {
-          errors.push(err instanceof Error ? err.message : `${analysisMap[type].title}の分析に失敗しました`);
-        }
-        setAllProgress({ done: mainTypes.length + i + 1, total: allTypes.length });
+    setPreflight({ requests: null });
+    try {
+      const freshEntries = await getAllEntries();
+      const requests: PlannedRequest[] = [];
+      // 横断読みの入力になる分析結果はまだないので、キャッシュ済みの結果で代わりに見積もる
+      const standIn = await collectCachedResults();
+      for (const type of allTypes) {
+        if (type === 'crossReading' && Object.keys(standIn).length === 0) continue;
+        await callAnalysis(type, freshEntries, { purpose: type, onPayload: r => requests.push(r) }, standIn);
       }
+      setPreflight({ requests });
+    } catch (err) {
+      setPreflight(null);
+      setError(err instanceof Error ? err.message : '見積もりに失敗しました');
     }
+  }
 
-    if (errors.length > 0) {
-      setError(`${errors.length}件の分析でエラー: ${errors.join(' / ')}`);
-    }
-
-    setRunning(null);
-    setRunningAll(false);
-    setAllProgress(null);
-    refreshEntries();
+  // 各分析をジョブとして積む。横断読みは他の分析結果をインプットにするので最後
+  async function runAll() {
+    setError(null);
+    await enqueueJobs(allTypes.map(type => ({ kind: 'analysis', analysisType: type })));
   }
 
   if (loading || cacheLoading) return <div className="page"><p className="loading-text">読み込み中...</p></div>;
@@ -277,8 +203,20 @@ export function Analysis() {
     );
   }
 
-  const isRunning = running !== null;
-  const validTypes = new Set(Object.keys(analysisMap));
+  const isRunning = running !== null || runningAll;
+  // 単発の実行か、すべて実行のうちいま動いている分析
+  const runningType = running ?? activeJob?.analysisType ?? null;
+  const streaming = running ? partial : activeJob ? queue.partial : null;
+  const validTypes = new Set<string>(allTypes);
+  // カスタムは空でも「分析を追加」を出すために残す
+  const sections: AnalysisSection[] = (Object.keys(ANALYSIS_CATEGORY_LABELS) as AnalysisCategory[])
+    .map(category => ({
+      category,
+      items: category === 'custom'
+        ? customTypes.map(t => t.id)
+        : ACTIVE_ANALYSIS_TYPES.filter(t => ANALYSIS_TYPES[t].category === category),
+    }))
+    .filter(section => section.category === 'custom' || section.items.length > 0);
   const completedCount = Object.keys(cache).filter(k => validTypes.has(k) && cache[k]?.result).length;
 
   // 現在の「今日」を検出し、キャッシュの日付不一致を stale 扱いにする
@@ -298,48 +236,74 @@ export function Analysis() {
       <h1 className="page-title">AI分析</h1>
       <p className="subtitle">直近の日記だけを見る。深く。</p>
 
-      {!hasApiKey() && (
+      {!isAiProviderReady() && (
         <p className="hint" style={{ color: 'var(--danger)' }}>
-          設定ページでAnthropic APIキーを入力してください
+          設定ページでAI分析の接続先とAPIキーを設定してください
         </p>
       )}
 
       {error && <p className="error-text">{error}</p>}
+      {allRun && !allRun.active && allRun.errors.length > 0 && (
+        <p className="error-text">{allRun.failed}件の分析でエラー: {allRun.errors.join(' / ')}</p>
+      )}
 
       <div className="analysis-toolbar">
         <button
-          onClick={runAll}
-          disabled={isRunning}
+          onClick={handleRunAllClick}
+          disabled={isRunning || preflight !== null}
           className="btn btn-primary"
         >
           {runningAll ? '一括分析中...' : staleCount > 0 ? 'すべて再分析' : 'すべて実行'}
         </button>
         {completedCount > 0 && (
           <span className="analysis-completed-count">
-            {completedCount}/{Object.keys(analysisMap).length} 完了
+            {completedCount}/{allTypes.length} 完了
             {staleCount > 0 && ` (${staleCount}件 更新あり)`}
           </span>
         )}
-        {allProgress && (
+        <select
+          className="custom-select"
+          value={favoriteMode}
+          onChange={e => handleFavoriteModeChange(e.target.value as FavoriteSamplingMode)}
+          disabled={isRunning}
+          aria-label="過去の日記のサンプリング方法"
+        >
+          <option value="off">過去の日記: 均等に選ぶ</option>
+          <option value="prefer">過去の日記: お気に入りを優先</option>
+          <option value="only">過去の日記: お気に入りのみ</option>
+        </select>
+        {runningAll && allRun && (
           <div className="analysis-progress">
             <div className="analysis-progress-bar">
               <div
                 className="analysis-progress-fill"
-                style={{ width: `${(allProgress.done / allProgress.total) * 100}%` }}
+                style={{ width: `${(allRun.finished / allRun.total) * 100}%` }}
               />
             </div>
             <span className="analysis-progress-text">
-              {allProgress.done}/{allProgress.total}
+              {allRun.finished}/{allRun.total}
             </span>
           </div>
         )}
       </div>
 
-      {categories.map(cat => (
-        <div key={cat.label} className="analysis-category">
-          <h2 className="analysis-category-title">{cat.label}</h2>
+      {preflight && (
+        <PreflightDialog
+          title="すべて実行の見積もり"
+          requests={preflight.requests}
+          onConfirm={() => { setPreflight(null); runAll(); }}
+          onCancel={() => setPreflight(null)}
+        />
+      )}
+
+      {sections.map(section => (
+        <div key={section.category} className="analysis-category">
+          <h2 className="analysis-category-title">{ANALYSIS_CATEGORY_LABELS[section.category]}</h2>
           <div className="analysis-list">
-            {cat.items.map(type => {
+            {section.items.map(type => {
+              const item = getItem(type);
+              const custom = customById.get(type);
+              const sampleLimit = getSampleLimit(type);
               const result = getResult(type);
               const c = cache[type];
               const stale = c?.isStale || (currentToday && c?.analyzedForDate && c.analyzedForDate !== currentToday.date);
@@ -348,12 +312,13 @@ export function Analysis() {
               const forDate = c?.analyzedForDate;
               const todayCount = c?.todayEntryCount;
               const dateMismatch = currentToday && forDate && forDate !== currentToday.date;
+              const streamingText = runningType === type ? streaming : null;
               return (
                 <section key={type} className="analysis-section">
                   <div className="analysis-header">
                     <div>
-                      <h3>{analysisMap[type].title}</h3>
-                      <p className="settings-desc">{analysisMap[type].desc}</p>
+                      <h3>{item.title}</h3>
+                      <p className="settings-desc">{item.desc}</p>
                     </div>
                     <div className="analysis-header-actions">
                       {result && !stale && <span className="analysis-done-badge">完了</span>}
@@ -363,11 +328,45 @@ export function Analysis() {
                         disabled={isRunning}
                         className="btn btn-small"
                       >
-                        {running === type ? '分析中...' : result ? '再実行' : '実行'}
+                        {runningType === type ? '分析中...' : result ? '再実行' : '実行'}
                       </button>
+                      {runningType === type && (
+                        <button onClick={handleCancel} className="btn btn-small btn-danger">
+                          中止
+                        </button>
+                      )}
+                      {custom && (
+                        <>
+                          <button
+                            onClick={() => { setConfirmDeleteId(null); setEditing(custom); }}
+                            disabled={isRunning || editing !== null}
+                            className="btn btn-small"
+                          >
+                            編集
+                          </button>
+                          <button
+                            onClick={() => handleCustomDelete(custom)}
+                            disabled={isRunning || editing !== null}
+                            className={`btn btn-small ${confirmDeleteId === type ? 'btn-danger-confirm' : 'btn-danger'}`}
+                          >
+                            {confirmDeleteId === type ? '本当に削除する' : '削除'}
+                          </button>
+                        </>
+                      )}
                     </div>
                   </div>
-                  {result && (
+                  {custom && editing !== 'new' && editing?.id === type && (
+                    <CustomAnalysisEditor
+                      initial={custom}
+                      onSaved={handleCustomSaved}
+                      onCancel={() => setEditing(null)}
+                    />
+                  )}
+                  {streamingText !== null ? (
+                    <div className="analysis-result analysis-result-streaming" aria-live="polite">
+                      <AiResultBody text={streamingText} />
+                    </div>
+                  ) : result && (
                     <div className="analysis-result">
                       {dateMismatch && (
                         <p className="analysis-stale-notice" style={{ fontSize: '0.8em', color: 'var(--danger, #c0392b)', marginBottom: 8, fontWeight: 'bold' }}>
@@ -385,8 +384,8 @@ export function Analysis() {
                           分析日時: {formatDate(cachedAt)}
                           {forDate && ` / 対象日: ${forDate}`}
                           {todayCount != null && ` / 「今日」のエントリ: ${todayCount}件`}
-                          {cachedCount != null && cachedCount > sampleLimits[type]
-                            ? ` / 全${cachedCount}件中、代表${sampleLimits[type]}件を分析`
+                          {cachedCount != null && cachedCount > sampleLimit
+                            ? ` / 全${cachedCount}件中、代表${sampleLimit}件を分析`
                             : ` / ${cachedCount}件を分析`}
                         </p>
                       )}
@@ -396,6 +395,24 @@ export function Analysis() {
               );
             })}
           </div>
+          {section.category === 'custom' && (
+            editing === 'new' ? (
+              <CustomAnalysisEditor onSaved={handleCustomSaved} onCancel={() => setEditing(null)} />
+            ) : (
+              <>
+                {customTypes.length === 0 && (
+                  <p className="settings-desc">自分で書いたプロンプトで、好きな読み方の分析を足せます</p>
+                )}
+                <button
+                  onClick={() => { setConfirmDeleteId(null); setEditing('new'); }}
+                  disabled={editing !== null}
+                  className="btn btn-small custom-analysis-add"
+                >
+                  分析を追加
+                </button>
+              </>
+            )
+          )}
         </div>
       ))}
 
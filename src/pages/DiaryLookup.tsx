@@ -1,18 +1,37 @@
 import { useState, useMemo, useCallback } from 'react';
+import type { DiaryEntry, EntryMetadata } from '../types';
+import { updateEntry } from '../db';
 import { useEntries } from '../hooks/useEntries';
 import { useHead } from '../hooks/useHead';
 import { BreadcrumbJsonLd } from '../components/JsonLd';
+import { FutureComments } from '../components/FutureComments';
+import { EntryEditor, EntryRevisionHistory } from '../components/EntryEditor';
+import { EntrySearch } from '../components/EntrySearch';
 import { toDateOnly, compareDateOnly } from '../utils/dateNormalize';
+import { toErrorMessage } from '../utils/errorMessage';
 
 export function DiaryLookup() {
   useHead({
     title: '日記検索',
-    description: '年月日を指定して日記を一件ずつ読み返せるページ。過去の特定の日に何を書いていたか、すぐに見つかります。',
-    keywords: '日記検索,日付検索,日記閲覧,過去の日記',
+    description: '年月日の指定やキーワードで日記を読み返せるページ。過去の特定の日に何を書いていたか、すぐに見つかります。',
+    keywords: '日記検索,日付検索,全文検索,日記閲覧,過去の日記',
     path: '/diary',
   });
 
-  const { entries, loading } = useEntries();
+  const { entries, loading, replaceEntry, removeEntry } = useEntries();
+  const [view, setView] = useState<'date' | 'favorites' | 'search'>('date');
+
+  // お気に入り（日付順、日付不明は末尾）— getAllEntries の並び順をそのまま使う
+  const favorites = useMemo(() => entries.filter(e => e.isFavorite), [entries]);
+
+  // 検索の絞り込み用ソースファイル一覧
+  const sourceFiles = useMemo(() => [...new Set(entries.map(e => e.sourceFile))].sort(), [entries]);
+
+  const toggleFavorite = useCallback(async (entry: DiaryEntry) => {
+    const updated = { ...entry, isFavorite: !entry.isFavorite };
+    await updateEntry(updated);
+    replaceEntry(updated);
+  }, [replaceEntry]);
 
   // 日付のあるエントリだけを日付順にソート
   const dated = useMemo(() => {
@@ -95,69 +114,210 @@ export function DiaryLookup() {
       <h1>日記検索</h1>
       <p className="diary-lookup-summary">{dates.length}日分の日記（{dated.length}件）</p>
 
-      {/* 日付セレクター */}
-      <div className="diary-lookup-selectors">
-        <label>
-          <span className="diary-lookup-label">年</span>
-          <select value={currentYear} onChange={e => handleYearChange(e.target.value)}>
-            {years.map(y => <option key={y} value={y}>{y}年</option>)}
-          </select>
-        </label>
-        <label>
-          <span className="diary-lookup-label">月</span>
-          <select value={currentMonth} onChange={e => handleMonthChange(e.target.value)}>
-            {months.map(m => <option key={m} value={m}>{Number(m)}月</option>)}
-          </select>
-        </label>
-        <label>
-          <span className="diary-lookup-label">日</span>
-          <select value={currentDay} onChange={e => handleDayChange(e.target.value)}>
-            {days.map(d => <option key={d} value={d}>{Number(d)}日</option>)}
-          </select>
-        </label>
-      </div>
-
-      {/* 前後ナビ */}
-      <div className="diary-lookup-nav">
+      {/* 表示切り替え */}
+      <div className="diary-lookup-tabs" role="tablist">
+        <button
+          role="tab"
+          aria-selected={view === 'date'}
+          className={`diary-lookup-tab${view === 'date' ? ' active' : ''}`}
+          onClick={() => setView('date')}
+        >
+          日付で読む
+        </button>
         <button
-          className="btn"
-          disabled={!hasPrev}
-          onClick={() => hasPrev && goTo(dates[currentIdx - 1])}
+          role="tab"
+          aria-selected={view === 'favorites'}
+          className={`diary-lookup-tab${view === 'favorites' ? ' active' : ''}`}
+          onClick={() => setView('favorites')}
         >
-          ← 前の日
+          ★ お気に入り（{favorites.length}）
         </button>
-        <span className="diary-lookup-current">
-          {currentDate ? formatDateJa(currentDate) : '—'}
-        </span>
         <button
-          className="btn"
-          disabled={!hasNext}
-          onClick={() => hasNext && goTo(dates[currentIdx + 1])}
+          role="tab"
+          aria-selected={view === 'search'}
+          className={`diary-lookup-tab${view === 'search' ? ' active' : ''}`}
+          onClick={() => setView('search')}
         >
-          次の日 →
+          キーワードで探す
         </button>
       </div>
 
-      {/* エントリ表示 */}
-      {matchedEntries.length === 0 ? (
-        <p>この日の日記はありません。</p>
+      {view === 'search' ? (
+        <EntrySearch
+          sourceFiles={sourceFiles}
+          onOpenDate={date => { goTo(date); setView('date'); }}
+        />
+      ) : view === 'favorites' ? (
+        favorites.length === 0 ? (
+          <p className="empty-message">まだお気に入りはありません。日記の ☆ を押すと、ここに集まります。</p>
+        ) : (
+          favorites.map(entry => (
+            <EntryArticle
+              key={entry.id}
+              entry={entry}
+              label={entry.date ? formatDateJa(toDateOnly(entry.date)) : '日付不明'}
+              onToggleFavorite={toggleFavorite}
+              onUpdated={replaceEntry}
+              onDeleted={removeEntry}
+              onOpenDate={entry.date ? () => { goTo(toDateOnly(entry.date!)); setView('date'); } : undefined}
+            />
+          ))
+        )
       ) : (
-        matchedEntries.map((entry, i) => (
-          <article key={entry.id} className="diary-lookup-entry">
-            {matchedEntries.length > 1 && (
-              <p className="diary-lookup-entry-num">{i + 1} / {matchedEntries.length}件</p>
-            )}
-            <div className="diary-lookup-content">{entry.content}</div>
-            <p className="diary-lookup-meta">
-              ソース: {entry.sourceFile}
-            </p>
-          </article>
-        ))
+        <>
+          {/* 日付セレクター */}
+          <div className="diary-lookup-selectors">
+            <label>
+              <span className="diary-lookup-label">年</span>
+              <select value={currentYear} onChange={e => handleYearChange(e.target.value)}>
+                {years.map(y => <option key={y} value={y}>{y}年</option>)}
+              </select>
+            </label>
+            <label>
+              <span className="diary-lookup-label">月</span>
+              <select value={currentMonth} onChange={e => handleMonthChange(e.target.value)}>
+                {months.map(m => <option key={m} value={m}>{Number(m)}月</option>)}
+              </select>
+            </label>
+            <label>
+              <span className="diary-lookup-label">日</span>
+              <select value={currentDay} onChange={e => handleDayChange(e.target.value)}>
+                {days.map(d => <option key={d} value={d}>{Number(d)}日</option>)}
+              </select>
+            </label>
+          </div>
+
+          {/* 前後ナビ */}
+          <div className="diary-lookup-nav">
+            <button
+              className="btn"
+              disabled={!hasPrev}
+              onClick={() => hasPrev && goTo(dates[currentIdx - 1])}
+            >
+              ← 前の日
+            </button>
+            <span className="diary-lookup-current">
+              {currentDate ? formatDateJa(currentDate) : '—'}
+            </span>
+            <button
+              className="btn"
+              disabled={!hasNext}
+              onClick={() => hasNext && goTo(dates[currentIdx + 1])}
+            >
+              次の日 →
+            </button>
+          </div>
+
+          {/* エントリ表示 */}
+          {matchedEntries.length === 0 ? (
+            <p>この日の日記はありません。</p>
+          ) : (
+            matchedEntries.map((entry, i) => (
+              <EntryArticle
+                key={entry.id}
+                entry={entry}
+                label={matchedEntries.length > 1 ? `${i + 1} / ${matchedEntries.length}件` : undefined}
+                onToggleFavorite={toggleFavorite}
+                onUpdated={replaceEntry}
+                onDeleted={removeEntry}
+              />
+            ))
+          )}
+        </>
       )}
     </div>
   );
 }
 
+interface EntryArticleProps {
+  entry: DiaryEntry;
+  label?: string;
+  onToggleFavorite: (entry: DiaryEntry) => Promise<void>;
+  onUpdated: (entry: DiaryEntry) => void;
+  onDeleted: (id: string) => void;
+  onOpenDate?: () => void;
+}
+
+function EntryArticle({ entry, label, onToggleFavorite, onUpdated, onDeleted, onOpenDate }: EntryArticleProps) {
+  const [mode, setMode] = useState<'read' | 'edit' | 'history'>('read');
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleToggleFavorite() {
+    setError(null);
+    try {
+      await onToggleFavorite(entry);
+    } catch (err) {
+      setError(toErrorMessage(err, 'お気に入りを保存できませんでした'));
+    }
+  }
+
+  if (mode === 'edit') {
+    return (
+      <article className="diary-lookup-entry">
+        <p className="diary-lookup-entry-num">編集中</p>
+        <EntryEditor
+          entry={entry}
+          onSaved={onUpdated}
+          onDeleted={onDeleted}
+          onClose={() => setMode('read')}
+        />
+      </article>
+    );
+  }
+
+  return (
+    <article className="diary-lookup-entry">
+      <div className="diary-lookup-entry-header">
+        <p className="diary-lookup-entry-num">{label}</p>
+        <button
+          className={`diary-lookup-favorite${entry.isFavorite ? ' active' : ''}`}
+          onClick={handleToggleFavorite}
+          aria-pressed={entry.isFavorite}
+          aria-label={entry.isFavorite ? 'お気に入りから外す' : 'お気に入りに追加'}
+        >
+          {entry.isFavorite ? '★' : '☆'}
+        </button>
+      </div>
+      {error && <p className="error-text">{error}</p>}
+      <div className="diary-lookup-content">{entry.content}</div>
+      {entry.metadata && <EntryMetadataLine metadata={entry.metadata} />}
+      <p className="diary-lookup-meta">
+        {entry.time && `${entry.time}${entry.timeZone ? `（${entry.timeZone}）` : ''} / `}
+        ソース: {entry.sourceFile}
+        {onOpenDate && (
+          <>
+            {' / '}
+            <button className="diary-lookup-link" onClick={onOpenDate}>この日を開く</button>
+          </>
+        )}
+        {' / '}
+        <button className="diary-lookup-link" onClick={() => setMode('edit')}>編集</button>
+        {' / '}
+        <button className="diary-lookup-link" onClick={() => setMode(mode === 'history' ? 'read' : 'history')}>
+          {mode === 'history' ? '履歴を閉じる' : '編集履歴'}
+        </button>
+      </p>
+      {mode === 'history' && (
+        <EntryRevisionHistory entry={entry} onRestored={onUpdated} />
+      )}
+      <FutureComments entry={entry} onUpdated={onUpdated} />
+    </article>
+  );
+}
+
+// 日記アプリから取り込んだタグ・場所・天気
+function EntryMetadataLine({ metadata }: { metadata: EntryMetadata }) {
+  const items: string[] = [];
+  if (metadata.tags) items.push(metadata.tags.map(t => `#${t}`).join(' '));
+  if (metadata.location?.name) items.push(`📍 ${metadata.location.name}`);
+  if (metadata.weather) {
+    const { description, temperatureC } = metadata.weather;
+    items.push([description, temperatureC !== undefined ? `${temperatureC}°C` : null].filter(Boolean).join(' '));
+  }
+  if (items.length === 0) return null;
+  return <p className="diary-lookup-metadata">{items.join(' / ')}</p>;
+}
+
 function formatDateJa(date: string): string {
   const [y, m, d] = date.split('-');
   return `${y}年${Number(m)}月${Number(d)}日`;
@@ -1,11 +1,14 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { DiaryEntry, Fragment } from '../types';
-import { getAllFragments, addFragments, getFragmentEntryIds, getAllEntries, getEntryCount } from '../db';
-import { extractFragments, ApiOverloadError } from '../utils/claude';
-import { hasApiKey } from '../utils/apiKey';
+import { getAllFragments, getFragmentEntryIds, getAllEntries, getEntryCount } from '../db';
+import { extractFragments } from '../utils/claude';
+import { isAiProviderReady } from '../utils/aiProvider';
+import { selectEntriesToCollect, toFragmentBatches } from '../utils/fragmentCollector';
+import { enqueueJobs, cancelJobRun, summarizeJobRuns } from '../utils/jobQueue';
 import { useHead } from '../hooks/useHead';
-
-const BATCH_SIZE = 5;
+import { useJobQueue } from '../hooks/useJobQueue';
+import type { PlannedRequest } from '../utils/preflight';
+import { PreflightDialog } from '../components/PreflightDialog';
 
 export function Fragments() {
   useHead({
@@ -17,30 +20,23 @@ export function Fragments() {
 
   const [fragments, setFragments] = useState<Fragment[]>([]);
   const [loading, setLoading] = useState(true);
-  const [collecting, setCollecting] = useState(false);
-  const [progress, setProgress] = useState({ done: 0, total: 0 });
   const [error, setError] = useState<string | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
-  const cancelRef = useRef(false);
-  const wakeLockRef = useRef<WakeLockSentinel | null>(null);
-
-  async function acquireWakeLock() {
-    try {
-      if ('wakeLock' in navigator) {
-        wakeLockRef.current = await navigator.wakeLock.request('screen');
-      }
-    } catch {
-      // Wake Lock API 非対応 or 権限拒否 — 無視して続行
-    }
-  }
-
-  function releaseWakeLock() {
-    wakeLockRef.current?.release();
-    wakeLockRef.current = null;
-  }
-
+  // 収集前の見積もり（requests は集めている間 null）
+  const [preflight, setPreflight] = useState<{ entries: DiaryEntry[]; requests: PlannedRequest[] | null } | null>(null);
+
+  // 直近の収集。バッチごとのジョブとして進み、再読み込みしても続きから再開する
+  const queue = useJobQueue();
+  const collectRun = summarizeJobRuns(queue.jobs).find(r => r.kind === 'fragments');
+  const collecting = collectRun?.active ?? false;
+  const countEntries = (status?: string) => (collectRun?.jobs ?? [])
+    .filter(j => !status || j.status === status)
+    .reduce((sum, j) => sum + (j.entryIds?.length ?? 0), 0);
+  const progress = { done: countEntries('done') + countEntries('failed') + countEntries('cancelled'), total: countEntries() };
+  const doneBatchCount = collectRun?.jobs.filter(j => j.status === 'done').length ?? 0;
+
+  // 初回以外は読み込み中にせず、表示したまま差し替える
   const load = useCallback(async () => {
-    setLoading(true);
     const all = await getAllFragments();
     // スキップマーカー（source: 'auto-skip'）を除外して表示用のみ取得
     const visible = all.filter(f => f.source !== 'auto-skip');
@@ -56,25 +52,19 @@ export function Fragments() {
     setLoading(false);
   }, []);
 
-  useEffect(() => { load(); }, [load]);
+  useEffect(() => {
+    load(); // eslint-disable-line react-hooks/set-state-in-effect -- 初回マウント時の非同期データ取得
+  }, [load]);
 
-  // タブが再びアクティブになったら Wake Lock を再取得
+  // バッチが1つ終わるたびに一覧を読み直す
   useEffect(() => {
-    function handleVisibility() {
-      if (document.visibilityState === 'visible' && collecting) {
-        acquireWakeLock();
-      }
-    }
-    document.addEventListener('visibilitychange', handleVisibility);
-    return () => document.removeEventListener('visibilitychange', handleVisibility);
-  }, [collecting]);
+    if (doneBatchCount > 0) load(); // eslint-disable-line react-hooks/set-state-in-effect -- 収集の進み具合に合わせた再取得
+  }, [doneBatchCount, load]);
 
+  // 未収集の日記を選び、送るはずのプロンプトから見積もりを出す
   async function handleCollectAll() {
-    if (collecting) return;
+    if (collecting || preflight) return;
     setError(null);
-    setCollecting(true);
-    cancelRef.current = false;
-    await acquireWakeLock();
 
     try {
       const [allEntries, existingIds, totalCount] = await Promise.all([
@@ -91,14 +81,11 @@ export function Fragments() {
         setError(
           `⚠ 日記の取得が不完全です（${allEntries.length} / ${totalCount}件）。ブラウザを再起動してから再度お試しください。`,
         );
-        setCollecting(false);
         return;
       }
 
       const notProcessed = allEntries.filter(e => !existingIds.has(e.id));
-      const unprocessed = notProcessed
-        .filter(e => e.content.trim().length > 30)
-        .reverse(); // 新しい日記から優先的に処理する（getAllEntries は日付昇順のため reverse）
+      const unprocessed = selectEntriesToCollect(allEntries, existingIds);
 
       const skippedShort = notProcessed.length - unprocessed.length;
       const alreadyProcessed = totalCount - notProcessed.length;
@@ -108,74 +95,33 @@ export function Fragments() {
         if (alreadyProcessed > 0) details.push(`収集済み ${alreadyProcessed}件`);
         if (skippedShort > 0) details.push(`短文除外 ${skippedShort}件`);
         setError(`すべての日記から収集済みです（全${totalCount}件${details.length > 0 ? '、' + details.join('、') : ''}）`);
-        setCollecting(false);
         return;
       }
 
-      setProgress({ done: 0, total: unprocessed.length });
-
-      let skippedCount = 0;
-
-      for (let i = 0; i < unprocessed.length; i += BATCH_SIZE) {
-        if (cancelRef.current) break;
-        const batch = unprocessed.slice(i, i + BATCH_SIZE);
-
-        try {
-          await processBatch(batch);
-        } catch (e) {
-          if (!(e instanceof ApiOverloadError)) throw e; // 429/529以外はそのまま上に投げる
-          // 429/529 は callChatRaw の内部リトライ（Retry-After対応）で処理済み。
-          // それでもダメなら長時間の障害なのでスキップして先に進む。
-          skippedCount += batch.length;
-        }
-
-        setProgress({ done: Math.min(i + BATCH_SIZE, unprocessed.length), total: unprocessed.length });
-      }
-
-      await load();
-
-      if (skippedCount > 0) {
-        setError(`APIの混雑により${skippedCount}件の日記をスキップしました。時間を置いて再度お試しください。`);
+      setPreflight({ entries: unprocessed, requests: null });
+      const requests: PlannedRequest[] = [];
+      for (const batch of toFragmentBatches(unprocessed)) {
+        await extractFragments(batch, { onPayload: r => requests.push(r) });
       }
+      setPreflight({ entries: unprocessed, requests });
     } catch (e: unknown) {
+      setPreflight(null);
       setError(e instanceof Error ? e.message : 'エラーが発生しました');
-    } finally {
-      releaseWakeLock();
-      setCollecting(false);
     }
   }
 
-  async function processBatch(entries: DiaryEntry[]) {
-    const results = await extractFragments(entries);
-    const foundEntryIds = new Set(results.map(r => r.entryId));
-    const now = new Date().toISOString();
-
-    // 抽出結果とスキップマーカーをまとめて1トランザクションで書き込む
-    const toSave: Fragment[] = results.map(r => ({
-      id: crypto.randomUUID(),
-      entryId: r.entryId,
-      text: r.text,
-      savedAt: now,
-      source: 'auto',
-      entryDate: r.entryDate,
-    }));
-    for (const entry of entries) {
-      if (!foundEntryIds.has(entry.id)) {
-        toSave.push({
-          id: crypto.randomUUID(),
-          entryId: entry.id,
-          text: '',
-          savedAt: now,
-          source: 'auto-skip',
-          entryDate: entry.date,
-        });
-      }
-    }
-    await addFragments(toSave);
+  // バッチごとにジョブとして積む（ページを離れても、閉じても次に開いたときに続きから）
+  async function collect(unprocessed: DiaryEntry[]) {
+    setPreflight(null);
+    setError(null);
+    await enqueueJobs(toFragmentBatches(unprocessed).map(batch => ({
+      kind: 'fragments',
+      entryIds: batch.map(e => e.id),
+    })));
   }
 
   function handleCancel() {
-    cancelRef.current = true;
+    if (collectRun) void cancelJobRun(collectRun.runId);
   }
 
   async function handleCopy(id: string, text: string) {
@@ -197,7 +143,7 @@ export function Fragments() {
 
   if (loading) return <div className="page"><p className="loading-text">読み込み中...</p></div>;
 
-  const hasKey = hasApiKey();
+  const hasKey = isAiProviderReady();
 
   return (
     <div className="page">
@@ -222,18 +168,34 @@ export function Fragments() {
               {progress.done} / {progress.total} 件の日記から光を集めています...
             </p>
             <p className="treasure-progress-hint">
-              画面を表示したままにしてください
+              {collectRun?.waitingUntil
+                ? `APIの混雑のため ${new Date(collectRun.waitingUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} に再開します`
+                : 'ほかのページに移っても続きます。閉じた場合は次に開いたときに再開します'}
             </p>
             <button onClick={handleCancel} className="btn btn-small">中断する</button>
           </div>
         ) : (
-          <button onClick={handleCollectAll} className="btn btn-primary">
+          <button onClick={handleCollectAll} disabled={preflight !== null} className="btn btn-primary">
             すべての日記から光を集める
           </button>
         )}
         {error && <p className="treasure-error">{error}</p>}
+        {collectRun && !collectRun.active && collectRun.failed > 0 && (
+          <p className="treasure-error">
+            {countEntries('failed')}件の日記を収集できませんでした（{collectRun.errors.join(' / ')}）。もう一度集めると残りを処理します。
+          </p>
+        )}
       </div>
 
+      {preflight && (
+        <PreflightDialog
+          title={`${preflight.entries.length}件の日記から光を集める見積もり`}
+          requests={preflight.requests}
+          onConfirm={() => collect(preflight.entries)}
+          onCancel={() => setPreflight(null)}
+        />
+      )}
+
       {/* フラグメント一覧 */}
       {fragments.length === 0 ? (
         <div className="treasure-empty">
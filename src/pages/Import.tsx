@@ -1,20 +1,34 @@
 import { useRef, useState } from 'react';
-import { importFile, parseTextFile } from '../utils/importer';
-import { addEntries, markAllAiCacheStale } from '../db';
+import { parseTextFile } from '../utils/importer';
+import {
+  importSources,
+  fileToSource,
+  collectDroppedSources,
+  type ImportSource,
+  type FileImportReport,
+} from '../utils/bulkImport';
+import { importEntries, markAllAiCacheStale } from '../db';
+import { ImportPreview } from '../components/ImportPreview';
+import type { DiaryEntry } from '../types';
 import { useHead } from '../hooks/useHead';
 import { toErrorMessage } from '../utils/errorMessage';
 
 export function Import() {
   useHead({
     title: '日記インポート',
-    description: 'テキスト（.txt）・Markdown（.md）・JSONファイルから日記をインポート。「2024年3月15日」「2024-03-15」など複数の日付形式を自動認識。ドラッグ＆ドロップまたはブラウザから直接入力にも対応。',
-    keywords: '日記インポート,テキスト取り込み,Markdown日記,JSON日記,日付自動認識,ドラッグ＆ドロップ',
+    description: 'テキスト（.txt）・Markdown（.md）・JSONファイルから日記をインポート。ZIPやフォルダごとの読み込みにも対応。「2024年3月15日」「2024-03-15」など複数の日付形式を自動認識。ドラッグ＆ドロップまたはブラウザから直接入力にも対応。',
+    keywords: '日記インポート,テキスト取り込み,Markdown日記,JSON日記,ZIPインポート,日付自動認識,ドラッグ＆ドロップ',
     path: '/import',
   });
   const fileRef = useRef<HTMLInputElement>(null);
-  const [result, setResult] = useState<{ count: number; total: number; files: string[] } | null>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+  const [result, setResult] = useState<{ count: number; total: number; files: FileImportReport[] } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [importing, setImporting] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  // 保存前の確認待ち
+  const [preview, setPreview] = useState<{ entries: DiaryEntry[]; reports: FileImportReport[] } | null>(null);
+  const [saving, setSaving] = useState(false);
 
   // 直接入力
   const [directText, setDirectText] = useState('');
@@ -22,36 +36,64 @@ export function Import() {
   const [directError, setDirectError] = useState<string | null>(null);
   const [directSaving, setDirectSaving] = useState(false);
 
-  async function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
-    const files = e.target.files;
-    if (!files || files.length === 0) return;
-
+  async function runImport(collect: () => Promise<ImportSource[]>) {
     setImporting(true);
     setError(null);
     setResult(null);
+    setPreview(null);
 
     try {
-      const allEntries = [];
-      const fileNames: string[] = [];
-
-      for (const file of Array.from(files)) {
-        const text = await file.text();
-        const entries = importFile(text, file.name);
-        allEntries.push(...entries);
-        fileNames.push(file.name);
+      const sources = await collect();
+      const { entries, reports } = await importSources(sources);
+      if (entries.length === 0) {
+        setResult({ count: 0, total: 0, files: reports });
+      } else {
+        setPreview({ entries, reports });
       }
-
-      const addedCount = await addEntries(allEntries);
-      await markAllAiCacheStale();
-      setResult({ count: addedCount, total: allEntries.length, files: fileNames });
     } catch (err) {
       setError(toErrorMessage(err, '読み込みに失敗しました'));
     } finally {
       setImporting(false);
       if (fileRef.current) fileRef.current.value = '';
+      if (folderRef.current) folderRef.current.value = '';
     }
   }
 
+  async function handleConfirm(entries: DiaryEntry[]) {
+    if (!preview) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const files = preview.reports
+        .filter(r => r.status === 'imported')
+        .map(r => ({ path: r.path, count: entries.filter(e => e.sourceFile === r.path).length }));
+      const batch = await importEntries(entries, files);
+      if (batch.added > 0) await markAllAiCacheStale();
+      setResult({ count: batch.added, total: entries.length, files: preview.reports });
+      setPreview(null);
+    } catch (err) {
+      setError(toErrorMessage(err, '保存に失敗しました'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+    const sources = Array.from(files).map(fileToSource);
+    runImport(async () => sources);
+  }
+
+  function handleDrop(e: React.DragEvent<HTMLDivElement>) {
+    e.preventDefault();
+    setDragging(false);
+    if (importing || preview) return;
+    // DataTransfer はイベント処理中にしか読めないので、収集を先に始めておく
+    const collecting = collectDroppedSources(e.dataTransfer);
+    runImport(() => collecting);
+  }
+
   async function handleDirectSave() {
     const trimmed = directText.trim();
     if (!trimmed) return;
@@ -62,9 +104,9 @@ export function Import() {
 
     try {
       const entries = parseTextFile(trimmed, '直接入力');
-      const addedCount = await addEntries(entries);
+      const batch = await importEntries(entries, [{ path: '直接入力', count: entries.length }]);
       await markAllAiCacheStale();
-      setDirectResult({ count: addedCount, total: entries.length });
+      setDirectResult({ count: batch.added, total: entries.length });
       setDirectText('');
     } catch (err) {
       setDirectError(toErrorMessage(err, '保存に失敗しました'));
@@ -113,25 +155,53 @@ export function Import() {
         <span className="import-divider-text">または</span>
       </div>
 
-      <div className="import-area">
+      <div
+        className={`import-area import-dropzone${dragging ? ' dragging' : ''}`}
+        onDragOver={e => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
         <h2>ファイルから読み込み</h2>
-        <p className="hint">txt / md / json ファイルを選択</p>
+        <p className="hint">txt / md / json ファイル、ZIP、フォルダを選択（ここへのドラッグ＆ドロップも可）</p>
         <input
           ref={fileRef}
           type="file"
-          accept=".txt,.md,.json"
+          accept=".txt,.md,.json,.zip"
           multiple
           onChange={handleFiles}
           className="file-input"
           id="file-input"
         />
-        <label htmlFor="file-input" className="file-label">
-          ファイルを選択
-        </label>
+        <input
+          ref={folderRef}
+          type="file"
+          multiple
+          onChange={handleFiles}
+          className="file-input"
+          id="folder-input"
+          {...{ webkitdirectory: '' }}
+        />
+        <div className="import-buttons">
+          <label htmlFor="file-input" className="file-label">
+            ファイルを選択
+          </label>
+          <label htmlFor="folder-input" className="file-label">
+            フォルダを選択
+          </label>
+        </div>
       </div>
 
       {importing && <p className="loading-text">インポート中...</p>}
 
+      {preview && (
+        <ImportPreview
+          entries={preview.entries}
+          saving={saving}
+          onConfirm={handleConfirm}
+          onCancel={() => setPreview(null)}
+        />
+      )}
+
       {error && <p className="error-text">{error}</p>}
 
       {result && (
@@ -142,11 +212,7 @@ export function Import() {
               {result.total - result.count} 件は既存データと重複のためスキップ
             </p>
           )}
-          <ul className="file-list">
-            {result.files.map((f, i) => (
-              <li key={i}>{f}</li>
-            ))}
-          </ul>
+          <ImportReportList reports={result.files} />
         </div>
       )}
 
@@ -168,7 +234,42 @@ export function Import() {
   { "date": "2024-03-20", "content": "少しだけ話せた。" }
 ]`}</pre>
         </div>
+        <div className="format-example">
+          <h3>日記アプリのエクスポート</h3>
+          <p className="hint">
+            Day One（Journal.json）、Journey（エントリごとの JSON）、Diarium（JSON）はそのまま読み込めます。
+            タグ・場所・天気・記録時刻とタイムゾーンも一緒に取り込みます。
+          </p>
+        </div>
       </div>
     </div>
   );
 }
+
+// ファイルごとの結果。読み飛ばしたファイル（写真など）は折りたたんでまとめる
+function ImportReportList({ reports }: { reports: FileImportReport[] }) {
+  const listed = reports.filter(r => r.status !== 'skipped');
+  const skipped = reports.filter(r => r.status === 'skipped');
+
+  return (
+    <>
+      <ul className="file-list">
+        {listed.map((r, i) => (
+          <li key={i} className={r.status === 'failed' ? 'file-list-failed' : undefined}>
+            {r.path}: {r.status === 'failed' ? `失敗（${r.message}）` : `${r.count} 件`}
+          </li>
+        ))}
+      </ul>
+      {skipped.length > 0 && (
+        <details className="file-list-skipped">
+          <summary>{skipped.length} 件のファイルは読み飛ばしました</summary>
+          <ul className="file-list">
+            {skipped.map((r, i) => (
+              <li key={i}>{r.path}（{r.message}）</li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </>
+  );
+}
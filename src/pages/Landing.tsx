@@ -25,7 +25,7 @@ const features: { title: string; desc: string; icon: ReactNode; link: string }[]
   },
   {
     title: '日記検索',
-    desc: '年月日を指定して日記を一件ずつ読み返せる。過去の特定の日に何を書いていたか、すぐに見つかる。前後の日付への移動にも対応。',
+    desc: '年月日を指定して日記を一件ずつ読み返せる。キーワードでの全文検索（AND / OR / 除外 / フレーズ）にも対応し、過去に何を書いていたか、すぐに見つかる。',
     icon: <CalendarSearch size={28} strokeWidth={1.5} />,
     link: '/diary',
   },
@@ -215,6 +215,7 @@ export function Landing() {
           <p>
             年・月・日のセレクターで日付を指定し、その日の日記を一件ずつ読み返せます。
             前後の日付へのナビゲーションにも対応。過去の特定の日に何を書いていたか、すぐに見つかります。
+            キーワード検索では AND / OR / 除外 / フレーズ指定と、期間・ソースファイルでの絞り込みができ、一致箇所がハイライトされます。
           </p>
           <p><Link to="/diary">日記検索を試す</Link></p>
         </div>
@@ -0,0 +1,238 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
+  ResponsiveContainer, Legend,
+} from 'recharts';
+import type { Observation } from '../types';
+import { addObservation, getAllObservations, deleteObservation } from '../db';
+import { useHead } from '../hooks/useHead';
+import { BreadcrumbJsonLd } from '../components/JsonLd';
+import { toErrorMessage } from '../utils/errorMessage';
+import {
+  SKY_OPTIONS,
+  WAVE_LABELS,
+  localDateString,
+  pickPrompt,
+  clampComfort,
+  isWave,
+  toObservationChartData,
+  type Wave,
+} from '../utils/observatory';
+
+const waveOptions: Wave[] = ['calm', 'ripple', 'high'];
+
+export function Observatory() {
+  useHead({
+    title: '観測所',
+    description: '空模様・安心ゲージ・心の波を記録する毎日の小さなチェックイン。日記を書けない日でも、今日の自分を一行だけ観測できます。',
+    keywords: '気分記録,チェックイン,セルフモニタリング,観測所,安心ゲージ',
+    path: '/observatory',
+  });
+
+  const [observations, setObservations] = useState<Observation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [sky, setSky] = useState<string>(SKY_OPTIONS[0]);
+  const [comfort, setComfort] = useState(50);
+  const [wave, setWave] = useState<Wave>('calm');
+  const [note, setNote] = useState('');
+  const [promptOffset, setPromptOffset] = useState(0);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setObservations(await getAllObservations());
+    } catch (err) {
+      setError(toErrorMessage(err, '観測の読み込みに失敗しました'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const today = localDateString();
+  const lastPrompt = observations[0]?.prompt;
+  const prompt = pickPrompt(today, lastPrompt, promptOffset);
+  const todayCount = observations.filter(o => o.date === today).length;
+
+  const chartData = useMemo(() => toObservationChartData(observations), [observations]);
+
+  async function handleSave() {
+    setSaving(true);
+    setError(null);
+    try {
+      const observation: Observation = {
+        id: crypto.randomUUID(),
+        date: today,
+        sky,
+        comfort: clampComfort(comfort),
+        wave,
+        note: note.trim(),
+        prompt,
+        createdAt: new Date().toISOString(),
+      };
+      await addObservation(observation);
+      setObservations(prev => [observation, ...prev]);
+      setNote('');
+      setPromptOffset(0);
+      setMessage('観測しました');
+    } catch (err) {
+      setError(toErrorMessage(err, '保存に失敗しました'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      await deleteObservation(id);
+      setObservations(prev => prev.filter(o => o.id !== id));
+    } catch (err) {
+      setError(toErrorMessage(err, '削除に失敗しました'));
+    }
+  }
+
+  if (loading) return <div className="page"><p className="loading-text">読み込み中...</p></div>;
+
+  return (
+    <div className="page">
+      <BreadcrumbJsonLd items={[{ name: '観測所', path: '/observatory' }]} />
+      <h1 className="page-title">観測所</h1>
+      <p className="subtitle">書けない日も、空だけ見ておく。</p>
+
+      <section className="observatory-form">
+        <div className="observatory-prompt">
+          <p className="observatory-prompt-text">{prompt}</p>
+          <button className="observatory-prompt-next" onClick={() => setPromptOffset(n => n + 1)}>
+            別の問い
+          </button>
+        </div>
+
+        <div className="observatory-field">
+          <p className="observatory-label">空模様</p>
+          <div className="observatory-sky">
+            {SKY_OPTIONS.map(s => (
+              <button
+                key={s}
+                className={`observatory-sky-option${sky === s ? ' active' : ''}`}
+                onClick={() => setSky(s)}
+                aria-pressed={sky === s}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="observatory-field">
+          <p className="observatory-label">安心ゲージ <span className="observatory-value">{comfort}</span></p>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={comfort}
+            onChange={e => setComfort(Number(e.target.value))}
+            className="observatory-range"
+          />
+        </div>
+
+        <div className="observatory-field">
+          <p className="observatory-label">心の波</p>
+          <div className="observatory-wave">
+            {waveOptions.map(w => (
+              <button
+                key={w}
+                className={`btn btn-small observatory-wave-option${wave === w ? ' active' : ''}`}
+                onClick={() => setWave(w)}
+                aria-pressed={wave === w}
+              >
+                {WAVE_LABELS[w]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="observatory-field">
+          <p className="observatory-label">ひとこと（任意）</p>
+          <textarea
+            className="direct-input"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            rows={3}
+          />
+        </div>
+
+        <button className="btn btn-primary" onClick={handleSave} disabled={saving}>
+          {saving ? '保存中...' : '観測する'}
+        </button>
+        {todayCount > 0 && (
+          <p className="hint">今日はすでに{todayCount}回観測しています</p>
+        )}
+        {error && <p className="error-text">{error}</p>}
+      </section>
+
+      {chartData.length > 1 && (
+        <section className="chart-section">
+          <h2>安心ゲージと波の推移</h2>
+          <p style={{ fontSize: '0.85em', color: 'var(--text-muted, #888)', marginBottom: 12 }}>
+            実線 = 安心ゲージ（0-100）。破線 = 心の波（0 凪 / 1 さざ波 / 2 高波）。同じ日の観測は平均。
+          </p>
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis dataKey="date" fontSize={11} />
+              <YAxis yAxisId="comfort" domain={[0, 100]} fontSize={12} />
+              <YAxis yAxisId="wave" orientation="right" domain={[0, 2]} ticks={[0, 1, 2]} fontSize={12} />
+              <Tooltip />
+              <Legend />
+              <Line yAxisId="comfort" type="monotone" dataKey="安心" stroke="#333" strokeWidth={2} dot={{ r: 2 }} />
+              <Line yAxisId="wave" type="stepAfter" dataKey="波" stroke="#999" strokeWidth={1} strokeDasharray="4 2" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </section>
+      )}
+
+      <section className="observatory-history">
+        <h2>これまでの観測</h2>
+        {observations.length === 0 ? (
+          <p className="empty-message">まだ観測はありません</p>
+        ) : (
+          <ul className="observatory-list">
+            {observations.map(o => (
+              <li key={o.id} className="observatory-item">
+                <div className="observatory-item-header">
+                  <span className="observatory-item-sky">{o.sky}</span>
+                  <span className="observatory-item-date">{o.date.replace(/-/g, '.')}</span>
+                  <span className="observatory-item-meta">
+                    安心 {o.comfort} / {isWave(o.wave) ? WAVE_LABELS[o.wave] : o.wave}
+                  </span>
+                  <button
+                    className="observatory-item-delete"
+                    onClick={() => handleDelete(o.id)}
+                    aria-label="この観測を削除"
+                  >
+                    削除
+                  </button>
+                </div>
+                {o.prompt && <p className="observatory-item-prompt">{o.prompt}</p>}
+                {o.note && <p className="observatory-item-note">{o.note}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {message && (
+        <div className="toast" onClick={() => setMessage(null)}>
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -27,18 +27,31 @@ export function Privacy() {
           <h2>2. データの保存場所</h2>
           <p>
             本アプリで作成・インポートされた日記データは、すべてお使いの端末のブラウザ内（IndexedDB）にのみ保存されます。
-            データが外部のサーバーに送信・保存されることはありません。
+            端末間の同期を設定しない限り、データが外部のサーバーに送信・保存されることはありません。
+          </p>
+          <p>
+            設定ページでパスフレーズのロックを有効にすると、日記の本文・日記アプリから取り込んだ場所やタグや天気・宝物庫・観測所のメモ・AIの分析結果・分析タイプのプロンプト・APIキーは、
+            パスフレーズから作った鍵で暗号化して保存されます。鍵は端末のメモリにだけ置かれ、パスフレーズそのものは保存されません。
+          </p>
+          <p>
+            自動バックアップのスナップショットも、同じ端末のブラウザ内（日記とは別の IndexedDB）に保存されます。
+            書き出し先のフォルダを選んだ場合は、そのフォルダにも書き出されます。ロック中に作ったスナップショットは暗号化され、ロックを有効にする前のスナップショットも、そのとき暗号化し直されます。
           </p>
         </section>
 
         <section className="legal-section">
           <h2>3. 外部サービスとの通信</h2>
           <p>
-            AI分析機能を使用する場合に限り、日記の一部がAnthropic Claude APIに送信されます。
-            この通信はユーザーが自身のAPIキーを設定し、明示的に分析を実行した場合にのみ行われます。
+            AI分析機能を使用する場合に限り、日記の一部が設定ページで選んだ接続先（既定はAnthropic Claude API）に送信されます。
+            この通信はユーザーが接続先を設定し、明示的に分析を実行した場合にのみ行われます。
             Anthropicへのデータ送信に関する詳細は、
             <a href="https://www.anthropic.com/privacy" target="_blank" rel="noopener noreferrer">Anthropicのプライバシーポリシー</a>
-            をご確認ください。
+            をご確認ください。OpenAI 互換の接続先を選んだ場合は、その提供元のポリシーが適用されます。
+            ローカルの接続先（Ollama など）を選んだ場合、日記は端末の外に出ません。
+          </p>
+          <p>
+            端末間の同期を設定した場合に限り、日記・宝物庫・観測所の変更が、ユーザー自身が用意した同期先（WebDAV または S3 互換のストレージ）に送信されます。
+            送信する内容は同期用のパスフレーズで暗号化され、本アプリの運営者が管理するサーバーは使用しません。
           </p>
         </section>
 
@@ -53,7 +66,7 @@ export function Privacy() {
         <section className="legal-section">
           <h2>5. APIキーの管理</h2>
           <p>
-            Anthropic APIキーは、お使いの端末のブラウザ内にのみ保存されます。
+            AI分析の接続先ごとのAPIキーは、お使いの端末のブラウザ内にのみ保存されます。
             保存方法は設定ページで選択できます：
           </p>
           <ul>
@@ -62,7 +75,7 @@ export function Privacy() {
           </ul>
           <p>
             APIキーが本アプリの開発者に送信されることはありません。
-            ただし、APIキーはブラウザから直接Anthropic Claude APIに送信されるため、
+            ただし、APIキーはブラウザから直接それぞれの接続先のAPIに送信されるため、
             専用の低権限キーを作成し、使用量上限を設定することを推奨します。
             APIキーの管理はユーザー自身の責任のもとで行ってください。
           </p>
@@ -1,27 +1,68 @@
 import { useState } from 'react';
-import { deleteAllEntries, exportAllData, importAllData, clearAllAiCache, markAllAiCacheStale, getAllEntries, getEntryCount } from '../db';
+import { deleteAllEntries, exportAllData, clearAllAiCache, markAllAiCacheStale, getAllEntries, getEntryCount } from '../db';
 import { getApiKey, setApiKey, getKeyStorageMode, setKeyStorageMode } from '../utils/apiKey';
 import type { KeyStorageMode } from '../utils/apiKey';
+import { AI_PROVIDERS, getAiProvider, setAiProvider, getAiProviderConfig, setAiProviderSettings } from '../utils/aiProvider';
+import type { AiProviderId } from '../types';
 import { useHead } from '../hooks/useHead';
 import { downloadJson, downloadText } from '../utils/download';
 import { toErrorMessage } from '../utils/errorMessage';
+import { ImportHistory } from '../components/ImportHistory';
+import { AiUsageSummary } from '../components/AiUsageSummary';
+import { BackupRestore } from '../components/BackupRestore';
+import { PassphraseLockSettings } from '../components/PassphraseLockSettings';
+import { AutoBackupSettings } from '../components/AutoBackupSettings';
+import { SyncSettings } from '../components/SyncSettings';
+import { getDayBoundaryHour, setDayBoundaryHour, DAY_BOUNDARY_HOUR_MAX } from '../utils/dayBoundary';
+import { encryptBackup } from '../utils/encryptedBackup';
+import { validatePassphrase } from '../utils/encryption';
 
 export function Settings() {
   useHead({
     title: '設定・データ管理',
-    description: '登山ログの設定ページ。データのエクスポート・バックアップ復元・一括削除、Anthropic APIキーの管理が行えます。すべてのデータはブラウザ内に保存。',
+    description: '登山ログの設定ページ。データのエクスポート・バックアップ復元・一括削除、AI分析の接続先とAPIキーの管理が行えます。すべてのデータはブラウザ内に保存。',
     keywords: 'データ管理,バックアップ,エクスポート,APIキー設定,データ削除',
     path: '/settings',
   });
   const [confirmDelete, setConfirmDelete] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
-  const savedKey = getApiKey();
-  const [apiKeyInput, setApiKeyInput] = useState(() => savedKey ?? '');
-  const [keyMasked, setKeyMasked] = useState(() => !!savedKey);
+  const [provider, setProvider] = useState<AiProviderId>(() => getAiProvider());
+  const [baseUrlInput, setBaseUrlInput] = useState(() => getAiProviderConfig().baseUrl);
+  const [modelInput, setModelInput] = useState(() => getAiProviderConfig().model);
+  const [apiKeyInput, setApiKeyInput] = useState(() => getApiKey(getAiProvider()));
+  const [keyMasked, setKeyMasked] = useState(() => !!getApiKey(getAiProvider()));
   const [storageMode, setStorageMode] = useState<KeyStorageMode>(() => getKeyStorageMode());
+  const [boundaryHour, setBoundaryHour] = useState(() => getDayBoundaryHour());
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportConfirmation, setExportConfirmation] = useState('');
 
-  function handleSaveKey() {
-    setApiKey(apiKeyInput);
+  function handleProviderChange(next: AiProviderId) {
+    setAiProvider(next);
+    setProvider(next);
+    const config = getAiProviderConfig(next);
+    setBaseUrlInput(config.baseUrl);
+    setModelInput(config.model);
+    setApiKeyInput(config.apiKey);
+    setKeyMasked(!!config.apiKey);
+    setMessage(`AI分析の接続先を「${AI_PROVIDERS[next].label}」にしました`);
+  }
+
+  function handleSaveConnection() {
+    setAiProviderSettings(provider, { baseUrl: baseUrlInput, model: modelInput });
+    const config = getAiProviderConfig(provider);
+    setBaseUrlInput(config.baseUrl);
+    setModelInput(config.model);
+    setMessage('接続先の設定を保存しました');
+  }
+
+  async function handleSaveKey() {
+    try {
+      await setApiKey(apiKeyInput, provider);
+    } catch (err) {
+      setMessage(toErrorMessage(err, 'APIキーを保存できませんでした'));
+      return;
+    }
     if (apiKeyInput.trim()) {
       setKeyMasked(true);
       setMessage('APIキーを保存しました');
@@ -51,30 +92,27 @@ export function Settings() {
   }
 
   async function handleExport() {
-    try {
-      const data = await exportAllData();
-      downloadJson(data, `climbing-log-backup-${new Date().toISOString().slice(0, 10)}.json`);
-      setMessage('エクスポートしました');
-    } catch (err) {
-      setMessage(toErrorMessage(err, 'エクスポートに失敗しました'));
+    if (encryptExport) {
+      const invalid = validatePassphrase(exportPassphrase, exportConfirmation);
+      if (invalid) {
+        setMessage(invalid);
+        return;
+      }
     }
-  }
-
-  async function handleImportBackup(e: React.ChangeEvent<HTMLInputElement>) {
-    const file = e.target.files?.[0];
-    if (!file) return;
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
-      if (!data.entries || !data.fragments) {
-        setMessage('無効なバックアップファイルです');
-        return;
+      const data = await exportAllData();
+      const date = new Date().toISOString().slice(0, 10);
+      if (encryptExport) {
+        downloadJson(await encryptBackup(data, exportPassphrase), `climbing-log-backup-encrypted-${date}.json`);
+        setExportPassphrase('');
+        setExportConfirmation('');
+        setMessage('暗号化してエクスポートしました');
+      } else {
+        downloadJson(data, `climbing-log-backup-${date}.json`);
+        setMessage('エクスポートしました');
       }
-      await importAllData(data);
-      await markAllAiCacheStale();
-      setMessage('バックアップを復元しました');
     } catch (err) {
-      setMessage(toErrorMessage(err, '復元に失敗しました'));
+      setMessage(toErrorMessage(err, 'エクスポートに失敗しました'));
     }
   }
 
@@ -99,6 +137,14 @@ export function Settings() {
     }
   }
 
+  async function handleBoundaryHourChange(hour: number) {
+    setDayBoundaryHour(hour);
+    setBoundaryHour(hour);
+    // 「今日」の日記が変わりうるので分析結果は更新ありにする
+    await markAllAiCacheStale();
+    setMessage(hour === 0 ? '日付の区切りを0時にしました' : `${hour}時までの日記を前日として扱います`);
+  }
+
   async function handleDeleteAll() {
     if (!confirmDelete) {
       setConfirmDelete(true);
@@ -127,30 +173,45 @@ export function Settings() {
         <h2>データ管理</h2>
 
         <div className="settings-row">
-          <div>
+          <div className="passphrase-fields">
             <p className="settings-label">バックアップをエクスポート</p>
-            <p className="settings-desc">すべてのデータをJSONファイルとして保存</p>
+            <p className="settings-desc">日記・宝物庫・観測所・AIログをJSONファイルとして保存</p>
+            <label className="backup-encrypt-toggle">
+              <input
+                type="checkbox"
+                checked={encryptExport}
+                onChange={e => setEncryptExport(e.target.checked)}
+              />
+              パスフレーズで暗号化する（クラウドに置く場合におすすめ）
+            </label>
+            {encryptExport && (
+              <>
+                <input
+                  type="password"
+                  value={exportPassphrase}
+                  onChange={e => setExportPassphrase(e.target.value)}
+                  placeholder="パスフレーズ"
+                  className="api-key-input"
+                  autoComplete="new-password"
+                />
+                <input
+                  type="password"
+                  value={exportConfirmation}
+                  onChange={e => setExportConfirmation(e.target.value)}
+                  placeholder="パスフレーズ（確認）"
+                  className="api-key-input"
+                  autoComplete="new-password"
+                />
+                <p className="settings-desc">パスフレーズを忘れると、このファイルは復元できません。</p>
+              </>
+            )}
           </div>
           <button onClick={handleExport} className="btn">
             エクスポート
           </button>
         </div>
 
-        <div className="settings-row">
-          <div>
-            <p className="settings-label">バックアップを復元</p>
-            <p className="settings-desc">エクスポートしたJSONファイルから復元</p>
-          </div>
-          <label className="btn">
-            ファイルを選択
-            <input
-              type="file"
-              accept=".json"
-              onChange={handleImportBackup}
-              style={{ display: 'none' }}
-            />
-          </label>
-        </div>
+        <BackupRestore onMessage={setMessage} />
 
         <div className="settings-row">
           <div>
@@ -181,32 +242,130 @@ export function Settings() {
       </section>
 
       <section className="settings-section">
-        <h2>AI分析（Claude API）</h2>
+        <h2>自動バックアップ</h2>
+        <AutoBackupSettings onMessage={setMessage} />
+      </section>
+
+      <section className="settings-section">
+        <h2>端末間の同期</h2>
+        <SyncSettings onMessage={setMessage} />
+      </section>
+
+      <section className="settings-section">
+        <h2>インポート履歴</h2>
+        <p className="settings-desc" style={{ marginBottom: 16 }}>
+          取り消すと、そのとき取り込んだ日記と、そこから保存した宝物庫・編集履歴が削除されます。
+        </p>
+        <ImportHistory onMessage={setMessage} />
+      </section>
+
+      <section className="settings-section">
+        <h2>ロックと暗号化</h2>
+        <PassphraseLockSettings onMessage={setMessage} />
+      </section>
+
+      <section className="settings-section">
+        <h2>日付の区切り</h2>
+        <div className="settings-row">
+          <div style={{ flex: 1 }}>
+            <p className="settings-label">1日の終わり</p>
+            <p className="settings-desc">
+              深夜に書いた日記を前日のものとして扱います。時刻のわかる日記にだけ効き、分析の「今日」や「直近N日」もこの区切りで数えます。
+            </p>
+          </div>
+          <select
+            className="custom-select"
+            value={boundaryHour}
+            onChange={e => handleBoundaryHourChange(Number(e.target.value))}
+            aria-label="1日の終わりの時刻"
+          >
+            {Array.from({ length: DAY_BOUNDARY_HOUR_MAX + 1 }, (_, hour) => (
+              <option key={hour} value={hour}>{hour === 0 ? '0:00（暦どおり）' : `翌${hour}:00`}</option>
+            ))}
+          </select>
+        </div>
+      </section>
+
+      <section className="settings-section">
+        <h2>AI分析</h2>
         <p className="settings-desc" style={{ marginBottom: 16 }}>
           日記の深層分析に使用します。キーはこの端末のブラウザにのみ保存されます。
         </p>
 
-        <div className="api-key-guide" style={{
-          background: 'var(--surface-bg, #f8f9fa)',
-          border: '1px solid var(--border, #e0e0e0)',
-          borderRadius: 8,
-          padding: '12px 16px',
-          marginBottom: 16,
-          fontSize: '0.85em',
-          lineHeight: 1.7,
-        }}>
-          <p style={{ fontWeight: 'bold', marginBottom: 8 }}>APIキーの取得方法</p>
-          <ol style={{ margin: 0, paddingLeft: 20, marginBottom: 12 }}>
-            <li><a href="https://console.anthropic.com/" target="_blank" rel="noopener noreferrer" style={{ textDecoration: 'underline' }}>Anthropic Console</a> にアクセスし、アカウントを作成・ログイン</li>
-            <li>ダッシュボードから「API Keys」を選択</li>
-            <li>「Create Key」で新しいキーを作成し、コピー</li>
-            <li>下のフィールドに貼り付けて「保存」を押す</li>
-          </ol>
-          <p style={{ color: 'var(--text-muted, #888)', fontSize: '0.95em', marginBottom: 8 }}>
-            ※ Anthropic Consoleは英語表示ですが、翻訳せずそのまま操作する方がスムーズです。ブラウザの自動翻訳をオフにしてお使いください。
-          </p>
+        <div className="settings-row">
+          <div style={{ flex: 1 }}>
+            <p className="settings-label">接続先</p>
+            <p className="settings-desc">
+              {provider === 'local'
+                ? 'Ollama や llama.cpp の OpenAI 互換エンドポイントを使います。日記は端末の外に出ません。ブラウザから呼べるよう、Ollama は OLLAMA_ORIGINS にこのサイトを含めて起動してください。'
+                : provider === 'openai'
+                  ? 'OpenAI や互換 API（Chat Completions 形式）を提供するサービスを使います。'
+                  : 'Anthropic の Claude API を使います。'}
+            </p>
+          </div>
+          <select
+            className="custom-select"
+            value={provider}
+            onChange={e => handleProviderChange(e.target.value as AiProviderId)}
+            aria-label="AI分析の接続先"
+          >
+            {(Object.keys(AI_PROVIDERS) as AiProviderId[]).map(id => (
+              <option key={id} value={id}>{AI_PROVIDERS[id].label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="settings-row" style={{ marginBottom: 16 }}>
+          <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <label>
+              <span className="settings-label">ベースURL</span>
+              <input
+                type="url"
+                value={baseUrlInput}
+                onChange={e => setBaseUrlInput(e.target.value)}
+                placeholder={AI_PROVIDERS[provider].baseUrl}
+                className="api-key-input"
+              />
+            </label>
+            <label>
+              <span className="settings-label">モデル</span>
+              <input
+                type="text"
+                value={modelInput}
+                onChange={e => setModelInput(e.target.value)}
+                placeholder={AI_PROVIDERS[provider].model}
+                className="api-key-input"
+              />
+            </label>
+          </div>
+          <button onClick={handleSaveConnection} className="btn btn-small">
+            保存
+          </button>
         </div>
 
+        {provider === 'anthropic' && (
+          <div className="api-key-guide" style={{
+            background: 'var(--surface-bg, #f8f9fa)',
+            border: '1px solid var(--border, #e0e0e0)',
+            borderRadius: 8,
+            padding: '12px 16px',
+            marginBottom: 16,
+            fontSize: '0.85em',
+            lineHeight: 1.7,
+          }}>
+            <p style={{ fontWeight: 'bold', marginBottom: 8 }}>APIキーの取得方法</p>
+            <ol style={{ margin: 0, paddingLeft: 20, marginBottom: 12 }}>
+              <li><a href="https://console.anthropic.com/" target="_blank" rel="noopener noreferrer" style={{ textDecoration: 'underline' }}>Anthropic Console</a> にアクセスし、アカウントを作成・ログイン</li>
+              <li>ダッシュボードから「API Keys」を選択</li>
+              <li>「Create Key」で新しいキーを作成し、コピー</li>
+              <li>下のフィールドに貼り付けて「保存」を押す</li>
+            </ol>
+            <p style={{ color: 'var(--text-muted, #888)', fontSize: '0.95em', marginBottom: 8 }}>
+              ※ Anthropic Consoleは英語表示ですが、翻訳せずそのまま操作する方がスムーズです。ブラウザの自動翻訳をオフにしてお使いください。
+            </p>
+          </div>
+        )}
+
         <div className="api-key-warning" style={{
           background: 'var(--warning-bg, #fff8e1)',
           border: '1px solid var(--warning-border, #ffe082)',
@@ -226,7 +385,9 @@ export function Settings() {
 
         <div className="settings-row">
           <div style={{ flex: 1 }}>
-            <p className="settings-label">Anthropic APIキー</p>
+            <p className="settings-label">
+              APIキー{!AI_PROVIDERS[provider].requiresKey && '（必要な場合のみ）'}
+            </p>
             {keyMasked ? (
               <p className="api-key-masked">{maskKey(apiKeyInput)}</p>
             ) : (
@@ -234,7 +395,7 @@ export function Settings() {
                 type="password"
                 value={apiKeyInput}
                 onChange={e => setApiKeyInput(e.target.value)}
-                placeholder="sk-ant-..."
+                placeholder={provider === 'anthropic' ? 'sk-ant-...' : provider === 'openai' ? 'sk-...' : ''}
                 className="api-key-input"
                 autoComplete="off"
               />
@@ -281,6 +442,14 @@ export function Settings() {
         </div>
       </section>
 
+      <section className="settings-section">
+        <h2>AIの利用料</h2>
+        <p className="settings-desc" style={{ marginBottom: 16 }}>
+          AIを呼び出すたびにトークン数を記録し、モデルの公開価格から費用を見積もります。実際の請求額とは異なることがあります。
+        </p>
+        <AiUsageSummary onMessage={setMessage} />
+      </section>
+
       <section className="settings-section">
         <h2>このアプリについて</h2>
         <p className="about-text">
@@ -7,6 +7,7 @@ const pages = [
     items: [
       { to: '/', label: 'トップ', desc: 'ランディングページ・アプリの紹介' },
       { to: '/import', label: 'インポート', desc: '日記ファイルの取り込み・直接入力' },
+      { to: '/observatory', label: '観測所', desc: '空模様・安心ゲージ・心の波の毎日のチェックイン' },
     ],
   },
   {
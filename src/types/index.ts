@@ -1,11 +1,38 @@
 export interface DiaryEntry {
   id: string;
   date: string | null; // ISO date string or null if unknown
+  time?: string; // HH:mm（書いた時刻。date と同じタイムゾーンでのローカル時刻）
+  timeZone?: string; // IANA タイムゾーン名（例: Asia/Tokyo）。わかる場合のみ
   content: string;
   sourceFile: string;
   importedAt: string;
+  updatedAt?: string; // 最後に本文・日付・コメント・お気に入りを変えた時刻（ISO timestamp）。取り込んだままなら無い
   comments: FutureComment[];
   isFavorite: boolean;
+  metadata?: EntryMetadata; // 日記アプリから取り込んだ場合のみ
+}
+
+export type JournalApp = 'dayone' | 'journey' | 'diarium';
+
+// 日記アプリのエクスポートに含まれていた付加情報
+export interface EntryMetadata {
+  app: JournalApp;
+  createdAt?: string; // 元アプリの記録時刻（ISO 8601）。オフセットなしは書き手のローカル時刻
+  tags?: string[];
+  location?: EntryLocation;
+  weather?: EntryWeather;
+  sealed?: string; // ロック中の保存形式。app 以外をまとめて暗号化した JSON（db 層の中だけで使う）
+}
+
+export interface EntryLocation {
+  name?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface EntryWeather {
+  description?: string;
+  temperatureC?: number;
 }
 
 export interface FutureComment {
@@ -14,6 +41,25 @@ export interface FutureComment {
   createdAt: string;
 }
 
+// 日記の編集履歴: 編集前の本文と日付を残す
+export interface EntryRevision {
+  id: string; // UUID
+  entryId: string;
+  content: string; // 編集前の本文
+  date: string | null; // 編集前の日付
+  editedAt: string; // ISO timestamp（この版が置き換えられた時刻）
+}
+
+// インポート1回分の記録。エントリとは importedAt（バッチ内で共通）で結びつく
+export interface ImportBatch {
+  id: string; // UUID
+  importedAt: string; // ISO timestamp
+  files: { path: string; count: number }[];
+  total: number; // 取り込み候補の件数
+  added: number;
+  duplicates: number; // 重複としてスキップした件数
+}
+
 export interface Fragment {
   id: string;
   entryId: string;
@@ -21,6 +67,7 @@ export interface Fragment {
   savedAt: string;
   source?: 'manual' | 'auto' | 'auto-skip';
   entryDate?: string | null;
+  updatedAt?: string; // 同期の衝突で、採用されなかった版を選び直した時刻（ISO timestamp）
 }
 
 export interface EmotionAnalysis {
@@ -103,6 +150,90 @@ export interface AiLog {
   result: string;
   analyzedAt: string; // ISO timestamp
   entryCount: number; // 分析時のエントリ数
+  usage?: AiUsage; // この分析のトークン使用量（記録を始める前のログにはない）
+  promptVersion?: string; // 結果を出したプロンプトの版（記録を始める前のログにはない）
+  pinned?: boolean; // 履歴で目印を付けた分析
+}
+
+// プロンプトの版: システムプロンプトのハッシュと、その版で送った本文
+export interface PromptVersion {
+  version: string; // ハッシュ（8桁の16進数）
+  purpose: string; // 最初に使った用途（AnalysisType のキー、ユーザー定義の分析の id、または 'fragments'）
+  system: string; // システムプロンプト
+  firstUsedAt: string; // ISO timestamp
+}
+
+// AI分析の接続先（OpenAI 互換 API / ローカルの Ollama・llama.cpp サーバー）
+export type AiProviderId = 'anthropic' | 'openai' | 'local';
+
+// AI呼び出し1回分のトークン使用量と推定費用
+export interface AiUsage {
+  provider: AiProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null; // 単価のわからないモデルは null
+}
+
+// 使用量台帳: AI呼び出しごとの記録
+export interface AiUsageRecord extends AiUsage {
+  id: string; // UUID
+  calledAt: string; // ISO timestamp
+  purpose: string; // AnalysisType のキー、または 'fragments'
+  durationMs?: number; // 送ってから応答を読み終えるまで（所要時間の見積もりに使う）
+}
+
+// ユーザーが画面から定義する分析
+export type CustomSampleWindow = 'today' | 'recent30' | 'uniform';
+export type PromptPartKey =
+  | 'outputFormat'
+  | 'aiOutputDetection'
+  | 'aiOutputExamples'
+  | 'backgroundUsage'
+  | 'bannedPhrases'
+  | 'otherPersonBehavior'
+  | 'correctionContext';
+
+export interface CustomAnalysisType {
+  id: string; // 'custom-' + UUID。AiCache.type / AiLog.type にそのまま使う
+  name: string;
+  systemPrompt: string;
+  promptParts: PromptPartKey[]; // promptParts.ts から足すルール
+  sampleWindow: CustomSampleWindow; // 今日だけ / 今日＋直近30日 / 今日＋全期間から均等にN件
+  sampleCount: number; // sampleWindow === 'uniform' のときのN
+  includeDeepStats: boolean; // formatDeepStatsForPrompt の統計を添える
+  maxTokens: number;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// 長いAI処理のジョブ（すべて実行の分析1種類、または宝物庫の収集1バッチ）
+export type AiJobKind = 'analysis' | 'fragments';
+export type AiJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface AiJob {
+  id: string; // UUID
+  runId: string; // 一度に積んだジョブのまとまり（すべて実行・収集1回分）
+  kind: AiJobKind;
+  seq: number; // run の中での実行順
+  analysisType?: string; // kind === 'analysis' のとき AnalysisType のキー
+  entryIds?: string[]; // kind === 'fragments' のときのバッチ
+  status: AiJobStatus;
+  attempts: number; // 混雑による再試行を含めた実行回数
+  nextAttemptAt?: string; // 混雑で待っているときの再開時刻（ISO timestamp）
+  error?: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// 自動バックアップ: 別の IndexedDB（climbing-log-snapshots）に置くスナップショットの目録。中身は別のストアに置く
+export interface BackupSnapshot {
+  id: string; // UUID
+  createdAt: string; // ISO timestamp
+  trigger: 'scheduled' | 'manual'; // 手動で作ったものは保持の規則で消さない
+  encrypted: boolean; // パスフレーズのロック中に作ったもの（ロックのパスフレーズで復元する）
+  entryCount: number;
+  size: number; // 中身の JSON の文字数
 }
 
 // 観測所の観測記録
@@ -115,6 +246,35 @@ export interface Observation {
   note: string; // 自由記述（任意）
   prompt: string; // 表示されたやさしいプロンプト
   createdAt: string; // ISO timestamp
+  updatedAt?: string; // 同期の衝突で、採用されなかった版を選び直した時刻（ISO timestamp）
+}
+
+// ── 端末間の同期 ──
+
+export type SyncStoreName = 'entries' | 'fragments' | 'observations';
+
+// 同期でやりとりするレコードの1つの版。value が null なら削除（トゥームストーン）
+export type SyncRecord =
+  | { store: 'entries'; id: string; modifiedAt: string; value: DiaryEntry | null }
+  | { store: 'fragments'; id: string; modifiedAt: string; value: Fragment | null }
+  | { store: 'observations'; id: string; modifiedAt: string; value: Observation | null };
+
+// 削除したレコードの記録。ほかの端末に削除を伝えるために残す
+export interface SyncTombstone {
+  key: string; // `${store}:${id}`
+  store: SyncStoreName;
+  id: string;
+  deletedAt: string; // ISO timestamp
+}
+
+// 両方の端末で変えられていたレコード。新しい方（kept）を採用し、もう一方を選び直せるよう残す
+export interface SyncConflict {
+  key: string; // `${store}:${id}`
+  store: SyncStoreName;
+  id: string;
+  detectedAt: string; // ISO timestamp
+  kept: SyncRecord;
+  discarded: SyncRecord;
 }
 
 // ── 深層分析型定義 ──
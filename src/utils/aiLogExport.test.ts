@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { filterLogsForExport, toMarkdownReport, toHtmlReport, reportFilename } from './aiLogExport';
+import type { AiLog } from '../types';
+
+function makeLog(type: string, analyzedAt: string, result: string): AiLog {
+  return { id: crypto.randomUUID(), type, result, analyzedAt, entryCount: 12 };
+}
+
+const logs = [
+  makeLog('vitalPoint', '2025-03-03T12:00:00.000Z', '■ 急所\n- **仕事**のこと'),
+  makeLog('todaysEntry', '2025-03-01T12:00:00.000Z', '【今日】 山に登った'),
+  makeLog('vitalPoint', '2025-02-20T12:00:00.000Z', '古い急所'),
+];
+const labelOf = (type: string) => ({ vitalPoint: '急所', todaysEntry: '今日' }[type] ?? type);
+
+describe('filterLogsForExport', () => {
+  it('種類と期間（両端を含む）で絞り込み、古い順に並べる', () => {
+    const filtered = filterLogsForExport(logs, { types: ['vitalPoint'], from: '2025-02-20', to: '2025-03-03' });
+    expect(filtered.map(l => l.analyzedAt)).toEqual(['2025-02-20T12:00:00.000Z', '2025-03-03T12:00:00.000Z']);
+  });
+
+  it('種類が空ならすべて', () => {
+    expect(filterLogsForExport(logs, { types: [], from: '2025-03-01' })).toHaveLength(2);
+  });
+});
+
+describe('toMarkdownReport', () => {
+  it('ログごとに見出しと日時・件数を付け、本文は表示と同じ規則で変換する', () => {
+    const md = toMarkdownReport([logs[0]], labelOf, '2025-03-04T12:00:00.000Z');
+    expect(md).toContain('# AI分析レポート');
+    expect(md).toMatch(/## 急所（2025\/03\/0[34] \d\d:00）/);
+    expect(md).toContain('日記: 12件');
+    expect(md).toContain('### 急所\n\n- **仕事**のこと');
+  });
+});
+
+describe('toHtmlReport', () => {
+  it('単体で開ける HTML にし、本文はエスケープする', () => {
+    const html = toHtmlReport([makeLog('todaysEntry', '2025-03-01T12:00:00.000Z', '■ <見出し>\n- **太字**')], labelOf);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<h4>&lt;見出し&gt;</h4>');
+    expect(html).toContain('<ul><li><strong>太字</strong></li></ul>');
+    expect(html).toContain('日記: 12件');
+  });
+});
+
+describe('reportFilename', () => {
+  it('形式に合わせた拡張子', () => {
+    expect(reportFilename('markdown', new Date(2025, 2, 4))).toBe('climbing-log-ai-report-2025-03-04.md');
+    expect(reportFilename('html', new Date(2025, 2, 4))).toBe('climbing-log-ai-report-2025-03-04.html');
+  });
+});
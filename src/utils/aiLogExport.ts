@@ -0,0 +1,161 @@
+/**
+ * AIログの書き出し（Markdown / 単体で開ける HTML）
+ *
+ * 本文の ■見出し・【】見出し・箇条書きは、画面の表示と同じ規則（aiResultFormat.ts）で変換する。
+ * 各ログには分析日時・日記の件数・プロンプトの版・モデルを添える。
+ */
+import type { AiLog } from '../types';
+import { parseAiResult, parseInline, type AiResultBlock } from './aiResultFormat';
+
+export type AiLogExportFormat = 'markdown' | 'html';
+
+export interface AiLogExportFilter {
+  types: string[]; // 空ならすべて
+  from?: string; // YYYY-MM-DD（この日を含む）
+  to?: string; // YYYY-MM-DD（この日を含む）
+}
+
+type LabelOf = (type: string) => string;
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/** 端末のタイムゾーンでの YYYY-MM-DD */
+function toLocalDateKey(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getFullYear()}/${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** 種類と期間で絞り込み、古い順に並べる */
+export function filterLogsForExport(logs: AiLog[], filter: AiLogExportFilter): AiLog[] {
+  const types = new Set(filter.types);
+  return logs
+    .filter(log => {
+      if (types.size > 0 && !types.has(log.type)) return false;
+      const day = toLocalDateKey(log.analyzedAt);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      return true;
+    })
+    .sort((a, b) => a.analyzedAt.localeCompare(b.analyzedAt));
+}
+
+function describeLog(log: AiLog): string {
+  return [
+    `分析日時: ${formatDateTime(log.analyzedAt)}`,
+    `日記: ${log.entryCount}件`,
+    log.promptVersion ? `プロンプトの版: ${log.promptVersion}` : '',
+    log.usage ? `モデル: ${log.usage.model}` : '',
+  ].filter(Boolean).join(' / ');
+}
+
+// ── Markdown ──
+
+function blockToMarkdown(block: AiResultBlock): string {
+  switch (block.kind) {
+    case 'hr':
+      return '---';
+    case 'list':
+      return block.items.map((item, i) => (block.ordered ? `${i + 1}. ${item}` : `- ${item}`)).join('\n');
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${block.text}`;
+    case 'paragraph':
+      return block.text;
+  }
+}
+
+export function toMarkdownReport(logs: AiLog[], labelOf: LabelOf, exportedAt = new Date().toISOString()): string {
+  const sections = logs.map(log => [
+    `## ${labelOf(log.type)}（${formatDateTime(log.analyzedAt)}）`,
+    `> ${describeLog(log)}`,
+    // 空行だけの段落は Markdown の段落区切りと重なるので落とす
+    ...parseAiResult(log.result)
+      .filter(block => block.kind !== 'paragraph' || block.text.trim())
+      .map(blockToMarkdown),
+  ].join('\n\n'));
+  return [
+    '# AI分析レポート',
+    `書き出し: ${formatDateTime(exportedAt)} / ${logs.length}件`,
+    ...sections,
+  ].join('\n\n') + '\n';
+}
+
+// ── HTML ──
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function inlineToHtml(text: string): string {
+  return parseInline(text)
+    .map(part => (part.bold ? `<strong>${escapeHtml(part.text)}</strong>` : escapeHtml(part.text)))
+    .join('');
+}
+
+function blockToHtml(block: AiResultBlock): string {
+  switch (block.kind) {
+    case 'hr':
+      return '<hr>';
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li>${inlineToHtml(item)}</li>`).join('')}</${tag}>`;
+    }
+    case 'heading':
+      return `<h${block.level + 1}>${inlineToHtml(block.text)}</h${block.level + 1}>`;
+    case 'paragraph':
+      return block.text ? `<p>${inlineToHtml(block.text)}</p>` : '<p>&nbsp;</p>';
+  }
+}
+
+// 画面の配色に合わせた最小限のスタイル（外部ファイルなしで開けるように埋め込む）
+const REPORT_STYLE = `
+body { font-family: 'Hiragino Kaku Gothic ProN', 'Noto Sans JP', 'Yu Gothic', sans-serif; color: #1a1a1a; line-height: 1.8; max-width: 720px; margin: 48px auto; padding: 0 24px; }
+h1 { font-size: 1.5rem; }
+h2 { font-size: 1.125rem; margin-top: 48px; padding-top: 24px; border-top: 1px solid #e0e0e0; }
+h4 { font-size: 0.9375rem; margin-top: 20px; }
+h5 { font-size: 0.875rem; margin-top: 16px; }
+p { margin: 0 0 4px; white-space: pre-wrap; }
+.meta { color: #999; font-size: 0.8125rem; }
+hr { border: none; border-top: 1px solid #f0f0f0; margin: 16px 0; }
+`;
+
+export function toHtmlReport(logs: AiLog[], labelOf: LabelOf, exportedAt = new Date().toISOString()): string {
+  const sections = logs.map(log => [
+    '<section>',
+    `<h2>${escapeHtml(labelOf(log.type))}（${formatDateTime(log.analyzedAt)}）</h2>`,
+    `<p class="meta">${escapeHtml(describeLog(log))}</p>`,
+    ...parseAiResult(log.result).map(blockToHtml),
+    '</section>',
+  ].join('\n'));
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="ja">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<title>AI分析レポート</title>',
+    `<style>${REPORT_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<h1>AI分析レポート</h1>',
+    `<p class="meta">書き出し: ${formatDateTime(exportedAt)} / ${logs.length}件</p>`,
+    ...sections,
+    '</body>',
+    '</html>',
+  ].join('\n') + '\n';
+}
+
+export function reportFilename(format: AiLogExportFormat, date = new Date()): string {
+  const day = toLocalDateKey(date.toISOString());
+  return `climbing-log-ai-report-${day}.${format === 'markdown' ? 'md' : 'html'}`;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, inject } from 'vitest';
+import { sendChat, isAbortError, type AiProviderConfig, type ChatMessage } from './aiProvider';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    aiStubUrl: string;
+  }
+}
+
+// aiStubServer.ts が受け取ったリクエストを本文に入れて返す
+const stubUrl = inject('aiStubUrl');
+
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'あなたは友人です' },
+  { role: 'user', content: '今日の日記' },
+];
+
+function config(overrides: Partial<AiProviderConfig>): AiProviderConfig {
+  return { provider: 'anthropic', baseUrl: `${stubUrl}/v1`, model: 'stub-model', apiKey: 'test-key', ...overrides };
+}
+
+async function sendAndEcho(cfg: AiProviderConfig) {
+  const result = await sendChat(cfg, messages, 256);
+  return { ...result, echo: JSON.parse(result.text) };
+}
+
+// ── Anthropic ──
+
+describe('sendChat（Anthropic）', () => {
+  it('Messages API の形式で送り、本文を取り出す', async () => {
+    const { echo, stopReason } = await sendAndEcho(config({}));
+    expect(echo.path).toBe('/v1/messages');
+    expect(echo.headers['x-api-key']).toBe('test-key');
+    expect(echo.headers['anthropic-version']).toBe('2023-06-01');
+    expect(echo.body).toMatchObject({
+      model: 'stub-model',
+      max_tokens: 256,
+      system: 'あなたは友人です',
+      messages: [{ role: 'user', content: '今日の日記' }],
+    });
+    expect(stopReason).toBe('end_turn');
+  });
+
+  it('ベースURL末尾のスラッシュは無視する', async () => {
+    const { echo } = await sendAndEcho(config({ baseUrl: `${stubUrl}/v1/` }));
+    expect(echo.path).toBe('/v1/messages');
+  });
+
+  it('キーがなければ送らずにエラー', async () => {
+    await expect(sendChat(config({ apiKey: '' }), messages)).rejects.toThrow('APIキーが設定されていません');
+  });
+});
+
+// ── OpenAI 互換 / ローカル ──
+
+describe('sendChat（OpenAI 互換）', () => {
+  it('Chat Completions の形式で送り、system はメッセージのまま渡す', async () => {
+    const { echo, stopReason } = await sendAndEcho(config({ provider: 'openai' }));
+    expect(echo.path).toBe('/v1/chat/completions');
+    expect(echo.headers.authorization).toBe('Bearer test-key');
+    expect(echo.body).toMatchObject({ model: 'stub-model', max_tokens: 256, messages });
+    expect(stopReason).toBe('end_turn');
+  });
+
+  it('finish_reason: length を max_tokens に読み替える', async () => {
+    const result = await sendChat(config({ provider: 'openai', model: 'truncated' }), messages);
+    expect(result.stopReason).toBe('max_tokens');
+  });
+
+  it('ローカルはキーなしで送れる', async () => {
+    const { echo } = await sendAndEcho(config({ provider: 'local', apiKey: '' }));
+    expect(echo.path).toBe('/v1/chat/completions');
+    expect(echo.headers.authorization).toBeUndefined();
+  });
+});
+
+// ── 使用量 ──
+
+describe('sendChat（使用量）', () => {
+  it.each(['anthropic', 'openai'] as const)('%s: 応答の usage を読む', async provider => {
+    const result = await sendChat(config({ provider }), messages);
+    expect(result.usage).toEqual({ inputTokens: 120, outputTokens: 45 });
+  });
+
+  it.each(['anthropic', 'openai'] as const)('%s: ストリーミングでも usage を読む', async provider => {
+    const result = await sendChat(config({ provider }), messages, 256, { onText: () => {} });
+    expect(result.usage).toEqual({ inputTokens: 120, outputTokens: 45 });
+  });
+
+  it('OpenAI 互換のストリーミングでは usage を求める', async () => {
+    const result = await sendChat(config({ provider: 'openai' }), messages, 256, { onText: () => {} });
+    expect(JSON.parse(result.text).body.stream_options).toEqual({ include_usage: true });
+  });
+});
+
+// ── エラー ──
+
+describe('sendChat（エラー）', () => {
+  it('401 はキーが無効', async () => {
+    await expect(sendChat(config({ model: 'status-401' }), messages)).rejects.toThrow('APIキーが無効です');
+  });
+
+  it('その他の失敗はステータスと本文を含める', async () => {
+    await expect(sendChat(config({ provider: 'openai', model: 'status-500' }), messages))
+      .rejects.toThrow('(500): stub error');
+  });
+
+  it('接続できなければ接続先を示す', async () => {
+    await expect(sendChat(config({ provider: 'local', baseUrl: 'http://127.0.0.1:9/v1' }), messages))
+      .rejects.toThrow('http://127.0.0.1:9/v1）に接続できませんでした');
+  });
+});
+
+// ── ストリーミング ──
+
+describe('sendChat（ストリーミング）', () => {
+  it.each(['anthropic', 'openai'] as const)('%s: 途中経過を渡しながら全文を組み立てる', async provider => {
+    const partials: string[] = [];
+    const result = await sendChat(config({ provider }), messages, 256, { onText: text => partials.push(text) });
+    const echo = JSON.parse(result.text);
+    expect(echo.body.stream).toBe(true);
+    expect(result.stopReason).toBe('end_turn');
+    expect(partials).toHaveLength(3);
+    expect(partials[2]).toBe(result.text);
+    expect(result.text.startsWith(partials[0])).toBe(true);
+  });
+
+  it('打ち切りの理由も読む', async () => {
+    const result = await sendChat(config({ provider: 'openai', model: 'truncated' }), messages, 256, { onText: () => {} });
+    expect(result.stopReason).toBe('max_tokens');
+  });
+
+  it('中断すると AbortError で止まる', async () => {
+    const controller = new AbortController();
+    const promise = sendChat(config({ model: 'stalled' }), messages, 256, {
+      signal: controller.signal,
+      onText: () => controller.abort(),
+    });
+    await expect(promise).rejects.toSatisfy(isAbortError);
+  });
+
+  it('中断しても、それまでに届いた使用量は受け取れる', async () => {
+    const controller = new AbortController();
+    const usages: unknown[] = [];
+    const promise = sendChat(config({ model: 'stalled' }), messages, 256, {
+      signal: controller.signal,
+      onText: () => controller.abort(),
+      onTokenUsage: usage => usages.push(usage),
+    });
+    await expect(promise).rejects.toSatisfy(isAbortError);
+    expect(usages).toEqual([{ inputTokens: 120, outputTokens: 1 }]);
+  });
+
+  it('送信前に中断されていれば送らない', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(sendChat(config({}), messages, 256, { signal: controller.signal })).rejects.toSatisfy(isAbortError);
+  });
+});
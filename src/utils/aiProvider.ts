@@ -0,0 +1,368 @@
+/**
+ * AI分析の接続先
+ *
+ * Anthropic（Messages API）、OpenAI 互換の Chat Completions API、
+ * ローカルの Ollama / llama.cpp サーバー（OpenAI 互換エンドポイント）を切り替えて使う。
+ * 接続先ごとにベースURL・モデル・APIキーを持ち、キーの保存は apiKey.ts に任せる。
+ */
+import type { AiProviderId } from '../types';
+import { getApiKey, hasApiKey } from './apiKey';
+
+const PROVIDER_KEY = 'climbing-log-ai-provider';
+const SETTINGS_KEY = 'climbing-log-ai-provider-settings';
+
+export interface AiProviderInfo {
+  label: string;
+  baseUrl: string;
+  model: string;
+  /** APIキーが必須か（ローカルサーバーは不要） */
+  requiresKey: boolean;
+}
+
+export const AI_PROVIDERS: Record<AiProviderId, AiProviderInfo> = {
+  anthropic: {
+    label: 'Anthropic（Claude）',
+    baseUrl: 'https://api.anthropic.com/v1',
+    model: 'claude-sonnet-4-6',
+    requiresKey: true,
+  },
+  openai: {
+    label: 'OpenAI 互換',
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4.1',
+    requiresKey: true,
+  },
+  local: {
+    label: 'ローカル（Ollama / llama.cpp）',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    requiresKey: false,
+  },
+};
+
+export interface AiProviderConfig {
+  provider: AiProviderId;
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatResult {
+  text: string;
+  /** Anthropic の stop_reason に揃える（出力上限で打ち切られたら 'max_tokens'） */
+  stopReason: string;
+  /** 接続先が使用量を返さなかったときは undefined */
+  usage?: TokenUsage;
+}
+
+export interface ChatOptions {
+  /** 中断用。abort すると通信ごと止め、AbortError を投げる */
+  signal?: AbortSignal;
+  /** 指定するとストリーミング（SSE）で受け取り、途中までの本文を受け取るたびに呼ぶ */
+  onText?: (partial: string) => void;
+  /** ストリーミング中に使用量がわかるたびに呼ぶ（中断・失敗しても、それまでに使った分を残せるように） */
+  onTokenUsage?: (usage: TokenUsage) => void;
+}
+
+type StoredSettings = Partial<Record<AiProviderId, { baseUrl?: string; model?: string }>>;
+
+function isProviderId(value: unknown): value is AiProviderId {
+  return typeof value === 'string' && Object.hasOwn(AI_PROVIDERS, value);
+}
+
+function readSettings(): StoredSettings {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getAiProvider(): AiProviderId {
+  const stored = localStorage.getItem(PROVIDER_KEY);
+  return isProviderId(stored) ? stored : 'anthropic';
+}
+
+export function setAiProvider(provider: AiProviderId): void {
+  localStorage.setItem(PROVIDER_KEY, provider);
+}
+
+/** 接続先の設定（未設定の項目は既定値） */
+export function getAiProviderConfig(provider: AiProviderId = getAiProvider()): AiProviderConfig {
+  const stored = readSettings()[provider] ?? {};
+  const defaults = AI_PROVIDERS[provider];
+  return {
+    provider,
+    baseUrl: stored.baseUrl || defaults.baseUrl,
+    model: stored.model || defaults.model,
+    apiKey: getApiKey(provider),
+  };
+}
+
+/** ベースURL・モデルを保存する（空欄は既定値に戻す） */
+export function setAiProviderSettings(provider: AiProviderId, settings: { baseUrl: string; model: string }): void {
+  const all = readSettings();
+  const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+  const model = settings.model.trim();
+  all[provider] = {
+    ...(baseUrl && baseUrl !== AI_PROVIDERS[provider].baseUrl ? { baseUrl } : {}),
+    ...(model && model !== AI_PROVIDERS[provider].model ? { model } : {}),
+  };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(all));
+}
+
+/** 選択中の接続先で分析を実行できるか（キー必須の接続先はキーがあるか） */
+export function isAiProviderReady(provider: AiProviderId = getAiProvider()): boolean {
+  return !AI_PROVIDERS[provider].requiresKey || hasApiKey(provider);
+}
+
+/** API過負荷（529/503）/ レート制限（429）エラー — 呼び出し元でキャッチしてバッチ単位のリトライに使う */
+export class ApiOverloadError extends Error {
+  retryAfterMs: number;
+  constructor(message: string, retryAfterMs = 0) {
+    super(message);
+    this.name = 'ApiOverloadError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Retry-After ヘッダーからミリ秒を取得（なければ 0） */
+function parseRetryAfterMs(res: Response): number {
+  const header = res.headers.get('retry-after');
+  if (!header) return 0;
+  const seconds = Number(header);
+  return isNaN(seconds) || seconds <= 0 ? 0 : seconds * 1000;
+}
+
+function isOverloaded(status: number): boolean {
+  return status === 429 || status === 503 || status === 529;
+}
+
+// OpenAI 互換の finish_reason を Anthropic の stop_reason に読み替える
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+};
+
+function buildRequest(config: AiProviderConfig, messages: ChatMessage[], maxTokens: number, stream: boolean): Request {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  if (config.provider === 'anthropic') {
+    // system メッセージを抽出（Anthropic APIではsystemパラメータとして渡す）
+    const systemPrompt = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const userMessages = messages.filter(m => m.role !== 'system');
+    return new Request(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: maxTokens,
+        temperature: 0.3,
+        ...(systemPrompt ? { system: systemPrompt } : {}),
+        messages: userMessages.map(m => ({ role: m.role, content: m.content })),
+        ...(stream ? { stream: true } : {}),
+      }),
+    });
+  }
+
+  return new Request(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: config.model,
+      max_tokens: maxTokens,
+      temperature: 0.3,
+      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      // ストリーミングでも最後のチャンクで usage を返してもらう
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    }),
+  });
+}
+
+// Anthropic: input_tokens / output_tokens、OpenAI 互換: prompt_tokens / completion_tokens
+function parseUsage(raw: unknown): TokenUsage | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const usage = raw as Record<string, unknown>;
+  const input = usage.input_tokens ?? usage.prompt_tokens;
+  const output = usage.output_tokens ?? usage.completion_tokens;
+  if (typeof input !== 'number' && typeof output !== 'number') return undefined;
+  return {
+    inputTokens: typeof input === 'number' ? input : 0,
+    outputTokens: typeof output === 'number' ? output : 0,
+  };
+}
+
+function parseResponse(provider: AiProviderId, data: Record<string, unknown>): ChatResult {
+  const usage = parseUsage(data.usage);
+  if (provider === 'anthropic') {
+    const content = data.content as { text?: string }[] | undefined;
+    return {
+      text: content?.[0]?.text ?? '',
+      stopReason: (data.stop_reason as string | undefined) ?? 'unknown',
+      ...(usage ? { usage } : {}),
+    };
+  }
+  const choice = (data.choices as { message?: { content?: string }; finish_reason?: string }[] | undefined)?.[0];
+  const finishReason = choice?.finish_reason;
+  return {
+    text: choice?.message?.content ?? '',
+    stopReason: finishReason ? FINISH_REASONS[finishReason] ?? finishReason : 'unknown',
+    ...(usage ? { usage } : {}),
+  };
+}
+
+/** SSE の data 行を、イベントの区切りごとに取り出す */
+async function readSseData(body: ReadableStream<Uint8Array>, onData: (data: string) => boolean | void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : events.pop() ?? '';
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        // onData が true を返したら読み終える
+        if (data && onData(data)) return;
+      }
+      if (done) return;
+    }
+  } finally {
+    // 途中で読み終えたときは残りを捨てて接続を閉じる
+    void reader.cancel().catch(() => undefined);
+  }
+}
+
+async function readStream(
+  provider: AiProviderId,
+  body: ReadableStream<Uint8Array>,
+  onText: (partial: string) => void,
+  onTokenUsage?: (usage: TokenUsage) => void,
+): Promise<ChatResult> {
+  let text = '';
+  let stopReason = 'unknown';
+  let usage: TokenUsage | undefined;
+  const reportUsage = (next: TokenUsage | undefined) => {
+    if (!next) return;
+    usage = next;
+    onTokenUsage?.(next);
+  };
+
+  await readSseData(body, data => {
+    if (data === '[DONE]') return true;
+    const event = JSON.parse(data);
+    let delta = '';
+    if (provider === 'anthropic') {
+      if (event.type === 'error') {
+        const message = event.error?.message ?? 'ストリーミング中にエラーが発生しました';
+        if (event.error?.type === 'overloaded_error') throw new ApiOverloadError('APIサーバーが混雑しています。しばらく待ってからもう一度お試しください。');
+        throw new Error(`API呼び出しに失敗しました: ${message}`);
+      }
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') delta = event.delta.text ?? '';
+      // 入力トークンは message_start、出力トークンは message_delta で届く
+      if (event.type === 'message_start') reportUsage(parseUsage(event.message?.usage));
+      if (event.type === 'message_delta') {
+        if (event.delta?.stop_reason) stopReason = event.delta.stop_reason;
+        const final = parseUsage(event.usage);
+        if (final) reportUsage({ inputTokens: usage?.inputTokens ?? final.inputTokens, outputTokens: final.outputTokens });
+      }
+      if (event.type === 'message_stop') return true;
+    } else {
+      const choice = event.choices?.[0];
+      delta = choice?.delta?.content ?? '';
+      reportUsage(parseUsage(event.usage));
+      if (choice?.finish_reason) stopReason = FINISH_REASONS[choice.finish_reason] ?? choice.finish_reason;
+    }
+    if (delta) {
+      text += delta;
+      onText(text);
+    }
+  });
+
+  return { text, stopReason, ...(usage ? { usage } : {}) };
+}
+
+/** 中断（AbortController.abort）による失敗か */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/**
+ * 接続先にチャットを送る。
+ * 429 / 503 / 529 は指数バックオフで最大3回リトライし、それでもだめなら ApiOverloadError を投げる。
+ * onText を渡すとストリーミングで受け取る。中断されたら AbortError をそのまま投げる。
+ */
+export async function sendChat(
+  config: AiProviderConfig,
+  messages: ChatMessage[],
+  maxTokens = 1024,
+  options: ChatOptions = {},
+): Promise<ChatResult> {
+  const { signal, onText, onTokenUsage } = options;
+  if (AI_PROVIDERS[config.provider].requiresKey && !config.apiKey) {
+    throw new Error('APIキーが設定されていません。設定ページで入力してください。');
+  }
+
+  const MAX_RETRIES = 3;
+  const RETRY_DELAYS = [2000, 4000, 8000]; // ms — 指数バックオフ
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(buildRequest(config, messages, maxTokens, !!onText), { signal });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      throw new Error(`${AI_PROVIDERS[config.provider].label}（${config.baseUrl}）に接続できませんでした。URLとサーバーの状態を確認してください。`);
+    }
+
+    if (!res.ok) {
+      const retryAfterMs = isOverloaded(res.status) ? parseRetryAfterMs(res) : 0;
+      const body = await res.text();
+      if (res.status === 401) throw new Error('APIキーが無効です。設定を確認してください。');
+      // 過負荷またはレート制限はリトライ対象
+      // Retry-After ヘッダーがあればその値を使い、なければ固定バックオフ（1回あたり最大30秒）
+      if (isOverloaded(res.status) && attempt < MAX_RETRIES) {
+        const delay = retryAfterMs > 0
+          ? Math.min(retryAfterMs, 30_000)
+          : RETRY_DELAYS[attempt];
+        await new Promise(r => setTimeout(r, delay));
+        signal?.throwIfAborted();
+        continue;
+      }
+      if (res.status === 429) throw new ApiOverloadError('リクエスト制限に達しました。しばらく待ってください。', retryAfterMs);
+      if (isOverloaded(res.status)) throw new ApiOverloadError('APIサーバーが混雑しています。しばらく待ってからもう一度お試しください。', retryAfterMs);
+      throw new Error(`API呼び出しに失敗しました (${res.status}): ${body}`);
+    }
+
+    if (onText && res.body) return readStream(config.provider, res.body, onText, onTokenUsage);
+    return parseResponse(config.provider, await res.json());
+  }
+
+  // ここには到達しないはずだが型安全のため
+  throw new Error('APIサーバーが混雑しています。しばらく待ってからもう一度お試しください。');
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseAiResult, parseInline } from './aiResultFormat';
+
+describe('parseInline', () => {
+  it('**太字** を分ける', () => {
+    expect(parseInline('急所は**仕事**にある')).toEqual([
+      { bold: false, text: '急所は' },
+      { bold: true, text: '仕事' },
+      { bold: false, text: 'にある' },
+    ]);
+  });
+});
+
+describe('parseAiResult', () => {
+  it('■見出し・【】見出し・##見出し', () => {
+    expect(parseAiResult('■ 急所\n【今日の景色】 山\n## まとめ\n### 補足')).toEqual([
+      { kind: 'heading', level: 3, text: '急所' },
+      { kind: 'heading', level: 3, text: '【今日の景色】 山' },
+      { kind: 'heading', level: 3, text: 'まとめ' },
+      { kind: 'heading', level: 4, text: '補足' },
+    ]);
+  });
+
+  it('続く箇条書きは1つのリストにまとめ、番号付きに変わったら別のリスト', () => {
+    expect(parseAiResult('- 一つ目\n• 二つ目\n1. 番号')).toEqual([
+      { kind: 'list', ordered: false, items: ['一つ目', '二つ目'] },
+      { kind: 'list', ordered: true, items: ['番号'] },
+    ]);
+  });
+
+  it('区切り線と空行と段落', () => {
+    expect(parseAiResult('本文\n\n---\n- 項目\n本文2')).toEqual([
+      { kind: 'paragraph', text: '本文' },
+      { kind: 'paragraph', text: '' },
+      { kind: 'hr' },
+      { kind: 'list', ordered: false, items: ['項目'] },
+      { kind: 'paragraph', text: '本文2' },
+    ]);
+  });
+});
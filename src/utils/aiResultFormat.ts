@@ -0,0 +1,79 @@
+/**
+ * AI出力テキストの記法
+ *
+ * 画面の表示（AiResultBody）と、AIログの Markdown / HTML 書き出しで同じ規則を使うため、
+ * 行ごとの解釈をここにまとめる。
+ * 対応記法: **太字**, - 箇条書き, 番号付きリスト, ■見出し, 【】見出し, ##見出し, ---区切り, 空行
+ */
+
+export type AiResultBlock =
+  | { kind: 'heading'; level: 3 | 4; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'hr' }
+  | { kind: 'paragraph'; text: string }; // 空行は text が空
+
+export type InlinePart = { bold: boolean; text: string };
+
+/** インライン記法（**太字**）を分ける */
+export function parseInline(text: string): InlinePart[] {
+  return text
+    .split(/(\*\*.+?\*\*)/g)
+    .filter(part => part !== '')
+    .map(part => {
+      const m = part.match(/^\*\*(.+)\*\*$/);
+      return m ? { bold: true, text: m[1] } : { bold: false, text: part };
+    });
+}
+
+/** 行ごとに解釈し、続く箇条書きは1つのリストにまとめる */
+export function parseAiResult(text: string): AiResultBlock[] {
+  const blocks: AiResultBlock[] = [];
+  let list: { kind: 'list'; ordered: boolean; items: string[] } | null = null;
+
+  const addItem = (ordered: boolean, item: string) => {
+    if (!list || list.ordered !== ordered) {
+      list = { kind: 'list', ordered, items: [] };
+      blocks.push(list);
+    }
+    list.items.push(item);
+  };
+  const add = (block: AiResultBlock) => {
+    list = null;
+    blocks.push(block);
+  };
+
+  for (const line of text.split('\n')) {
+    // --- 区切り線
+    if (/^-{3,}$/.test(line.trim())) {
+      add({ kind: 'hr' });
+      continue;
+    }
+
+    const bulletMatch = line.match(/^[-•]\s+(.*)/);
+    const orderedMatch = line.match(/^\d+[.)]\s+(.*)/);
+    const h3Match = line.match(/^#{3,}\s+(.*)/);
+    const h2Match = line.match(/^#{1,2}\s+(.*)/);
+    // ■ で始まる行 → セクション見出し
+    const sectionMatch = line.match(/^■\s*(.*)/);
+    // 【...】で始まる行 → 見出し
+    const bracketMatch = line.match(/^【(.+?)】(.*)/);
+
+    if (bulletMatch) {
+      addItem(false, bulletMatch[1]);
+    } else if (orderedMatch) {
+      addItem(true, orderedMatch[1]);
+    } else if (sectionMatch) {
+      add({ kind: 'heading', level: 3, text: sectionMatch[1] });
+    } else if (bracketMatch) {
+      const rest = bracketMatch[2].trim();
+      add({ kind: 'heading', level: 3, text: `【${bracketMatch[1]}】${rest ? ` ${rest}` : ''}` });
+    } else if (h3Match) {
+      add({ kind: 'heading', level: 4, text: h3Match[1] });
+    } else if (h2Match) {
+      add({ kind: 'heading', level: 3, text: h2Match[1] });
+    } else {
+      add({ kind: 'paragraph', text: line });
+    }
+  }
+  return blocks;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { estimateCostUsd, addUsage, summarizeByMonth, toLocalMonthKey, formatUsd } from './aiUsage';
+import type { AiUsage, AiUsageRecord } from '../types';
+
+function makeRecord(calledAt: string, purpose: string, costUsd: number | null, tokens = 1000): AiUsageRecord {
+  return {
+    id: crypto.randomUUID(),
+    calledAt,
+    purpose,
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-6',
+    inputTokens: tokens,
+    outputTokens: tokens / 2,
+    costUsd,
+  };
+}
+
+// ── estimateCostUsd ──
+
+describe('estimateCostUsd', () => {
+  it('100万トークンあたりの単価で計算する', () => {
+    // 入力 $3 / 出力 $15
+    expect(estimateCostUsd('anthropic', 'claude-sonnet-4-6', { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(4.5);
+  });
+
+  it('長い接頭辞を優先する', () => {
+    expect(estimateCostUsd('openai', 'gpt-4.1-mini', { inputTokens: 1_000_000, outputTokens: 0 })).toBeCloseTo(0.4);
+    expect(estimateCostUsd('openai', 'gpt-4.1', { inputTokens: 1_000_000, outputTokens: 0 })).toBeCloseTo(2);
+  });
+
+  it('ローカルは無料、知らないモデルは不明', () => {
+    expect(estimateCostUsd('local', 'llama3.1', { inputTokens: 5000, outputTokens: 5000 })).toBe(0);
+    expect(estimateCostUsd('openai', 'mystery-model', { inputTokens: 5000, outputTokens: 5000 })).toBeNull();
+  });
+});
+
+// ── addUsage ──
+
+describe('addUsage', () => {
+  const usage: AiUsage = { provider: 'anthropic', model: 'm', inputTokens: 100, outputTokens: 50, costUsd: 0.01 };
+
+  it('トークンと費用を足す', () => {
+    expect(addUsage(usage, usage)).toMatchObject({ inputTokens: 200, outputTokens: 100, costUsd: 0.02 });
+  });
+
+  it('どちらかの費用が不明なら不明', () => {
+    expect(addUsage(usage, { ...usage, costUsd: null }).costUsd).toBeNull();
+  });
+});
+
+// ── summarizeByMonth ──
+
+describe('summarizeByMonth', () => {
+  const records = [
+    makeRecord(new Date(2025, 0, 10).toISOString(), 'todaysEntry', 0.02),
+    makeRecord(new Date(2025, 0, 31, 23).toISOString(), 'fragments', 0.05),
+    makeRecord(new Date(2025, 0, 20).toISOString(), 'fragments', null),
+    makeRecord(new Date(2025, 1, 1).toISOString(), 'vitalPoint', 0.01),
+  ];
+  const months = summarizeByMonth(records);
+
+  it('ローカル時刻の月ごとに新しい順でまとめる', () => {
+    expect(months.map(m => m.month)).toEqual(['2025-02', '2025-01']);
+  });
+
+  it('回数・トークン・費用を合計し、単価不明の回数を数える', () => {
+    expect(months[1]).toMatchObject({ calls: 3, inputTokens: 3000, outputTokens: 1500, unpricedCalls: 1 });
+    expect(months[1].costUsd).toBeCloseTo(0.07);
+  });
+
+  it('用途ごとの内訳を費用の多い順に並べる', () => {
+    expect(months[1].byPurpose.map(p => [p.purpose, p.calls])).toEqual([['fragments', 2], ['todaysEntry', 1]]);
+  });
+});
+
+describe('toLocalMonthKey / formatUsd', () => {
+  it('月をゼロ埋めする', () => {
+    expect(toLocalMonthKey(new Date(2025, 2, 5))).toBe('2025-03');
+  });
+
+  it('1ドル未満は細かく表示する', () => {
+    expect(formatUsd(0.01234)).toBe('$0.0123');
+    expect(formatUsd(12.5)).toBe('$12.50');
+  });
+});
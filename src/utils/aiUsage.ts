@@ -0,0 +1,134 @@
+/**
+ * AI呼び出しの使用量と費用
+ *
+ * 1回ごとのトークン数から推定費用（USD）を出し、月ごとに集計する。
+ * 月の予算を設定すると、その月の推定費用が予算に達した時点で以降の呼び出しを止める。
+ * 単価は公開価格の目安で、実際の請求額とは一致しないことがある。
+ */
+import type { AiProviderId, AiUsage, AiUsageRecord } from '../types';
+import type { AiProviderConfig, TokenUsage } from './aiProvider';
+
+const BUDGET_KEY = 'climbing-log-ai-monthly-budget-usd';
+
+/** 100万トークンあたりの単価（USD）。モデル名の前方一致で引き、長い接頭辞を優先する */
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-haiku-4', input: 1, output: 5 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+];
+
+/** 推定費用（USD）。ローカルは 0、単価のわからないモデルは null */
+export function estimateCostUsd(provider: AiProviderId, model: string, tokens: TokenUsage): number | null {
+  if (provider === 'local') return 0;
+  const price = MODEL_PRICES
+    .filter(p => model.startsWith(p.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (!price) return null;
+  return (tokens.inputTokens * price.input + tokens.outputTokens * price.output) / 1_000_000;
+}
+
+export function toAiUsage(config: AiProviderConfig, tokens: TokenUsage): AiUsage {
+  return {
+    provider: config.provider,
+    model: config.model,
+    inputTokens: tokens.inputTokens,
+    outputTokens: tokens.outputTokens,
+    costUsd: estimateCostUsd(config.provider, config.model, tokens),
+  };
+}
+
+/** 複数回の呼び出しをまとめる（どちらかの費用が不明なら不明） */
+export function addUsage(total: AiUsage | undefined, usage: AiUsage): AiUsage {
+  if (!total) return usage;
+  return {
+    ...usage,
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    costUsd: total.costUsd === null || usage.costUsd === null ? null : total.costUsd + usage.costUsd,
+  };
+}
+
+/** ローカル時刻での月（YYYY-MM） */
+export function toLocalMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** その月の初めの ISO timestamp（ローカル時刻の1日0時） */
+export function monthStartISO(date: Date): string {
+  return new Date(date.getFullYear(), date.getMonth(), 1).toISOString();
+}
+
+export interface MonthlyUsage {
+  month: string; // YYYY-MM
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  unpricedCalls: number; // 単価がわからず費用に含められなかった呼び出し
+  byPurpose: { purpose: string; calls: number; costUsd: number }[];
+}
+
+/** 台帳を月ごとに集計する（新しい月が先） */
+export function summarizeByMonth(records: AiUsageRecord[]): MonthlyUsage[] {
+  const months = new Map<string, MonthlyUsage & { purposes: Map<string, { calls: number; costUsd: number }> }>();
+  for (const r of records) {
+    const month = toLocalMonthKey(new Date(r.calledAt));
+    let m = months.get(month);
+    if (!m) {
+      m = { month, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0, byPurpose: [], purposes: new Map() };
+      months.set(month, m);
+    }
+    m.calls++;
+    m.inputTokens += r.inputTokens;
+    m.outputTokens += r.outputTokens;
+    if (r.costUsd === null) m.unpricedCalls++;
+    else m.costUsd += r.costUsd;
+    const p = m.purposes.get(r.purpose) ?? { calls: 0, costUsd: 0 };
+    p.calls++;
+    p.costUsd += r.costUsd ?? 0;
+    m.purposes.set(r.purpose, p);
+  }
+  return [...months.values()]
+    .sort((a, b) => b.month.localeCompare(a.month))
+    .map(({ purposes, ...m }) => ({
+      ...m,
+      byPurpose: [...purposes.entries()]
+        .map(([purpose, p]) => ({ purpose, ...p }))
+        .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls),
+    }));
+}
+
+/** 月の予算（USD）。未設定なら null */
+export function getMonthlyBudgetUsd(): number | null {
+  const stored = Number(localStorage.getItem(BUDGET_KEY));
+  return stored > 0 ? stored : null;
+}
+
+export function setMonthlyBudgetUsd(budget: number | null): void {
+  if (budget === null || !(budget > 0)) localStorage.removeItem(BUDGET_KEY);
+  else localStorage.setItem(BUDGET_KEY, String(budget));
+}
+
+/** 月の予算を使い切ったため呼び出しを止めた */
+export class BudgetExceededError extends Error {
+  spentUsd: number;
+  budgetUsd: number;
+  constructor(spentUsd: number, budgetUsd: number) {
+    super(`今月のAI利用の予算（${formatUsd(budgetUsd)}）に達しました（推定 ${formatUsd(spentUsd)}）。設定ページで予算を見直してください。`);
+    this.name = 'BudgetExceededError';
+    this.spentUsd = spentUsd;
+    this.budgetUsd = budgetUsd;
+  }
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount < 1 ? amount.toFixed(4) : amount.toFixed(2)}`;
+}
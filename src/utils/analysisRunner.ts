@@ -0,0 +1,230 @@
+/**
+ * AI分析の実行と保存
+ *
+ * 分析ページからの単発の実行と、ジョブキューからの「すべて実行」の両方がここを通る。
+ * 急所には過去ログを、横断読みには同じ「今日」の他の分析結果を渡す。
+ * 分析タイプは組み込みの7種類のキーか、ユーザー定義の分析の id（'custom-…'）。
+ */
+import type { DiaryEntry, AiCache, AiUsage } from '../types';
+import {
+  getAllEntries,
+  getEntryCount,
+  getAiCache,
+  getAllAiCache,
+  getAiLogsByType,
+  putAiCache,
+  addAiLog,
+  getCustomAnalysisType,
+  getAllCustomAnalysisTypes,
+  getPromptVersion,
+} from '../db';
+import {
+  analyzeVitalPoint,
+  analyzeTodaysEntry,
+  analyzeExternalStandardsMastery,
+  analyzeTodaysLandscape,
+  analyzeNatureReflection,
+  analyzeTimeChanges,
+  analyzeCrossReading,
+  analyzeCustom,
+  detectAnalysisToday,
+  type AiCallOptions,
+} from './claude';
+import { addUsage } from './aiUsage';
+import { getAiProviderConfig } from './aiProvider';
+import { hashPromptVersion } from './promptVersion';
+import { isCustomAnalysisType } from './customAnalysis';
+import {
+  ANALYSIS_TYPES,
+  isAnalysisType,
+  isCurrentAnalysisType,
+  getAnalysisLabel,
+  type AnalysisType,
+} from './analysisTypes';
+
+// 日記だけを入力にする分析
+const simpleAnalyzers: Record<Exclude<AnalysisType, 'vitalPoint' | 'crossReading'>, (entries: DiaryEntry[], options?: AiCallOptions) => Promise<string>> = {
+  todaysEntry: analyzeTodaysEntry,
+  externalStandardsMastery: analyzeExternalStandardsMastery,
+  todaysLandscape: analyzeTodaysLandscape,
+  natureReflection: analyzeNatureReflection,
+  timeChanges: analyzeTimeChanges,
+};
+
+/**
+ * 横断読みに必要な他の分析結果をキャッシュから集める（日付不一致のキャッシュは除外）。
+ * やめた分析と削除したユーザー定義の分析のキャッシュは使わない。
+ * ユーザー定義の分析は、横断読みのプロンプトで見出しになるよう名前をキーにする
+ */
+export async function collectCachedResults(currentDate?: string): Promise<Record<string, string>> {
+  const [caches, customTypes] = await Promise.all([getAllAiCache(), getAllCustomAnalysisTypes()]);
+  const results: Record<string, string> = {};
+  for (const c of caches) {
+    if (!c.result || !isCurrentAnalysisType(c.type, customTypes)) continue;
+    if (isAnalysisType(c.type) && ANALYSIS_TYPES[c.type].runsLast) continue;
+    // analyzedForDate がある場合、現在の「今日」と一致するもののみ使う
+    if (currentDate && c.analyzedForDate && c.analyzedForDate !== currentDate) continue;
+    results[isAnalysisType(c.type) ? c.type : getAnalysisLabel(c.type, customTypes)] = c.result;
+  }
+  return results;
+}
+
+/** 1種類の分析を呼ぶ（横断読みは otherResults をインプットにする） */
+export async function callAnalysis(
+  type: string,
+  entries: DiaryEntry[],
+  options: AiCallOptions,
+  otherResults: Record<string, string> = {},
+): Promise<string> {
+  if (type === 'vitalPoint') {
+    // 問い追跡用に、直前の結果と過去ログを渡す
+    const [prev, pastLogs] = await Promise.all([getAiCache(type), getAiLogsByType(type)]);
+    const pastResults = pastLogs
+      .sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt))
+      .map(log => log.result);
+    return analyzeVitalPoint(entries, prev?.result, pastResults, options);
+  }
+  if (type === 'crossReading') {
+    if (Object.keys(otherResults).length === 0) {
+      throw new Error('横断読みには他の分析結果が必要です。先に他の分析を実行してください。');
+    }
+    return analyzeCrossReading(entries, otherResults, options);
+  }
+  if (isCustomAnalysisType(type)) {
+    const custom = await getCustomAnalysisType(type);
+    if (!custom) throw new Error('この分析は削除されています。');
+    return analyzeCustom(custom, entries, options);
+  }
+  const analyze = simpleAnalyzers[type as keyof typeof simpleAnalyzers];
+  if (!analyze) throw new Error(`不明な分析タイプです: ${type}`);
+  return analyze(entries, options);
+}
+
+/** 分析結果をキャッシュに保存し、ログにも蓄積する */
+export async function saveAnalysisResult(
+  type: string,
+  result: string,
+  entryCount: number,
+  analyzedForDate?: string,
+  todayEntryCount?: number,
+  usage?: AiUsage,
+  promptVersion?: string,
+): Promise<AiCache> {
+  const now = new Date().toISOString();
+
+  const cacheEntry: AiCache = {
+    type,
+    result,
+    analyzedAt: now,
+    entryCount,
+    isStale: false,
+    analyzedForDate,
+    todayEntryCount,
+  };
+  await putAiCache(cacheEntry);
+
+  // ログとして蓄積（消さない）
+  await addAiLog({
+    id: crypto.randomUUID(),
+    type,
+    result,
+    analyzedAt: now,
+    entryCount,
+    ...(usage ? { usage } : {}),
+    ...(promptVersion ? { promptVersion } : {}),
+  });
+
+  return cacheEntry;
+}
+
+/** DBの最新エントリで1種類の分析を実行し、この回の使用量を添えて保存する */
+export async function runAnalysis(type: string, options: AiCallOptions = {}): Promise<AiCache> {
+  // 分析実行前にDBから最新エントリを取得（ステートが古い可能性があるため）
+  const [entries, entryCount] = await Promise.all([getAllEntries(), getEntryCount()]);
+  const today = detectAnalysisToday(entries);
+  // キャッシュ汚染防止: 横断読みには現在の「今日」と一致する分析結果のみ使う
+  const otherResults = type === 'crossReading' ? await collectCachedResults(today?.date) : {};
+
+  let usage: AiUsage | undefined;
+  const versions: string[] = [];
+  const result = await callAnalysis(type, entries, {
+    ...options,
+    purpose: type,
+    onUsage: u => {
+      usage = addUsage(usage, u);
+      options.onUsage?.(u);
+    },
+    onPromptVersion: v => {
+      versions.push(v);
+      options.onPromptVersion?.(v);
+    },
+  }, otherResults);
+  return saveAnalysisResult(type, result, entryCount, today?.date, today?.count, usage, combinePromptVersions(versions));
+}
+
+// 1回の分析で複数回呼ぶときは、各回の版をまとめて1つの版にする
+function combinePromptVersions(versions: string[]): string | undefined {
+  if (versions.length <= 1) return versions[0];
+  return hashPromptVersion(versions);
+}
+
+// ── A/B比較 ──
+
+/** 比較する片側。promptVersion・model を省くと現行のプロンプト・設定のモデル */
+export interface ComparisonVariant {
+  promptVersion?: string;
+  model?: string;
+}
+
+export interface ComparisonResult {
+  text: string;
+  model: string;
+  promptVersion?: string; // 実際に送った版
+  usage?: AiUsage;
+}
+
+export interface ComparisonOptions {
+  signal?: AbortSignal;
+  /** index 番目の比較のストリーミング途中経過 */
+  onText?: (index: number, text: string) => void;
+}
+
+/**
+ * 同じ「今日」の日記で、プロンプトの版やモデルを変えて1種類の分析を続けて実行する。
+ * 比較用の結果なのでキャッシュにもAIログにも保存しない（使用量の台帳には残る）
+ */
+export async function runComparison(
+  type: string,
+  variants: ComparisonVariant[],
+  options: ComparisonOptions = {},
+): Promise<{ date?: string; results: ComparisonResult[] }> {
+  const entries = await getAllEntries();
+  const today = detectAnalysisToday(entries);
+  const otherResults = type === 'crossReading' ? await collectCachedResults(today?.date) : {};
+  const defaultModel = getAiProviderConfig().model;
+
+  const results: ComparisonResult[] = [];
+  for (const [index, variant] of variants.entries()) {
+    const stored = variant.promptVersion ? await getPromptVersion(variant.promptVersion) : undefined;
+    if (variant.promptVersion && !stored) throw new Error(`プロンプトの版 ${variant.promptVersion} が見つかりません。`);
+
+    let usage: AiUsage | undefined;
+    const versions: string[] = [];
+    const text = await callAnalysis(type, entries, {
+      signal: options.signal,
+      onText: t => options.onText?.(index, t),
+      purpose: type,
+      systemPrompt: stored?.system,
+      model: variant.model || undefined,
+      onUsage: u => { usage = addUsage(usage, u); },
+      onPromptVersion: v => { versions.push(v); },
+    }, otherResults);
+    results.push({
+      text,
+      model: variant.model || defaultModel,
+      promptVersion: combinePromptVersions(versions),
+      usage,
+    });
+  }
+  return { date: today?.date, results };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ANALYSIS_TYPES,
+  ACTIVE_ANALYSIS_TYPES,
+  getRunOrder,
+  isCurrentAnalysisType,
+  getAnalysisLabel,
+} from './analysisTypes';
+import { toCustomAnalysisType, DEFAULT_CUSTOM_DRAFT } from './customAnalysis';
+
+const custom = toCustomAnalysisType({
+  ...DEFAULT_CUSTOM_DRAFT,
+  name: '身体の声',
+  systemPrompt: '身体の感覚について書かれたところだけを拾う。',
+});
+
+describe('getRunOrder', () => {
+  it('最後に回す分析は、ユーザー定義の分析よりも後', () => {
+    const order = getRunOrder([custom]);
+    expect(order.at(-1)).toBe('crossReading');
+    expect(order.at(-2)).toBe(custom.id);
+    expect(order).toHaveLength(ACTIVE_ANALYSIS_TYPES.length + 1);
+  });
+
+  it('組み込みの分析は一覧の順番どおり', () => {
+    expect(getRunOrder().slice(0, 2)).toEqual(['todaysEntry', 'todaysLandscape']);
+  });
+});
+
+describe('isCurrentAnalysisType', () => {
+  it('組み込みの分析と、残っているユーザー定義の分析だけが現行', () => {
+    expect(isCurrentAnalysisType('vitalPoint')).toBe(true);
+    expect(isCurrentAnalysisType(custom.id, [custom])).toBe(true);
+    expect(isCurrentAnalysisType(custom.id, [])).toBe(false);
+    expect(isCurrentAnalysisType('oldAnalysis')).toBe(false);
+  });
+
+  it('やめた分析は現行ではない', () => {
+    ANALYSIS_TYPES.timeChanges.deprecated = true;
+    try {
+      expect(isCurrentAnalysisType('timeChanges')).toBe(false);
+    } finally {
+      delete ANALYSIS_TYPES.timeChanges.deprecated;
+    }
+  });
+});
+
+describe('getAnalysisLabel', () => {
+  it('組み込みの分析は日本語名、ユーザー定義の分析は付けた名前', () => {
+    expect(getAnalysisLabel('vitalPoint')).toBe('急所');
+    expect(getAnalysisLabel(custom.id, [custom])).toBe('身体の声');
+  });
+
+  it('削除したユーザー定義の分析と、不明なタイプ', () => {
+    expect(getAnalysisLabel(custom.id, [])).toBe('削除した分析');
+    expect(getAnalysisLabel('oldAnalysis')).toBe('oldAnalysis');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * AI分析タイプの一覧
+ *
+ * 分析ページ・AIログ・横断読み・使用量の表示は、ここから名前や並び順を引く。
+ * 分析をやめるときは消さずに deprecated にする（過去のログをAIログの「アーカイブ」で読めるようにするため）。
+ */
+import type { CustomAnalysisType } from '../types';
+import { isCustomAnalysisType } from './customAnalysis';
+
+export type AnalysisType =
+  | 'todaysEntry'
+  | 'vitalPoint'
+  | 'externalStandardsMastery'
+  | 'todaysLandscape'
+  | 'natureReflection'
+  | 'timeChanges'
+  | 'crossReading';
+
+export type AnalysisCategory = 'now' | 'time' | 'cross' | 'custom';
+
+export interface AnalysisTypeInfo {
+  label: string;
+  description: string;
+  category: AnalysisCategory;
+  /** 他の分析結果をインプットにするので、すべて実行の最後に回す */
+  runsLast?: boolean;
+  /** 分析に渡す日記の件数の上限（結果の「代表n件を分析」の表示に使う） */
+  sampleLimit: number;
+  /** 分析ページには出さず、過去のログだけをアーカイブとして残す */
+  deprecated?: boolean;
+}
+
+// 分析ページとAIログの並び順はこの順
+export const ANALYSIS_TYPES: Record<AnalysisType, AnalysisTypeInfo> = {
+  todaysEntry: {
+    label: '今日',
+    description: '今日だけ。でもわかってる人が読む今日',
+    category: 'now',
+    sampleLimit: 30, // 今日＋背景知識
+  },
+  todaysLandscape: {
+    label: '今日の景色',
+    description: 'フィルターなしで今日の全トピックをマッピング。不安だけでなく、好奇心も遊びも日常も',
+    category: 'now',
+    sampleLimit: 30, // 今日＋直近30日の背景
+  },
+  vitalPoint: {
+    label: '急所',
+    description: '今日の日記から本質を突く、たった一つの指摘',
+    category: 'now',
+    sampleLimit: 30, // 今日＋存在テーマ密度
+  },
+  externalStandardsMastery: {
+    label: '外基準の統合',
+    description: '今日、内側を守ったまま外基準を道具として扱えているか。感情の地層を掘り、今日固有の最深部を言い当てる',
+    category: 'now',
+    sampleLimit: 30, // 今日＋背景知識
+  },
+  natureReflection: {
+    label: '自然の眼',
+    description: '今日の日記の中の比喩・メタファー・自然的イメージを拾い上げる。どんなレンズで世界を見ているかを、選ばれた言葉の構造から読む',
+    category: 'now',
+    sampleLimit: 30, // 今日＋直近30日の比喩背景
+  },
+  timeChanges: {
+    label: '時間の地層',
+    description: '3日・1週間・1ヶ月・3ヶ月・半年・1年・3年・5年 — 8つの距離から今日を見る。変化の事実だけを、評価せずに描く',
+    category: 'time',
+    sampleLimit: 9999, // 全エントリから各時点を抽出（関数内でフィルタ）
+  },
+  crossReading: {
+    label: '横断読み',
+    description: '他の分析結果を横断して読む。同じ急所が形を変えて繰り返し現れるところ、分析同士が気づかないまま指しているつながりを見つける',
+    category: 'cross',
+    runsLast: true,
+    sampleLimit: 30, // 今日＋他の分析結果をインプットにする
+  },
+};
+
+export const ANALYSIS_CATEGORY_LABELS: Record<AnalysisCategory, string> = {
+  now: '今ここ',
+  time: '時間',
+  cross: '横断',
+  custom: 'カスタム',
+};
+
+export function isAnalysisType(type: string): type is AnalysisType {
+  return Object.hasOwn(ANALYSIS_TYPES, type);
+}
+
+/** 分析ページに出す組み込みの分析（並び順どおり） */
+export const ACTIVE_ANALYSIS_TYPES = (Object.keys(ANALYSIS_TYPES) as AnalysisType[])
+  .filter(type => !ANALYSIS_TYPES[type].deprecated);
+
+/** すべて実行の順番。ユーザー定義の分析は組み込みの分析の後、最後に回す分析の前 */
+export function getRunOrder(customTypes: CustomAnalysisType[] = []): string[] {
+  return [
+    ...ACTIVE_ANALYSIS_TYPES.filter(t => !ANALYSIS_TYPES[t].runsLast),
+    ...customTypes.map(t => t.id),
+    ...ACTIVE_ANALYSIS_TYPES.filter(t => ANALYSIS_TYPES[t].runsLast),
+  ];
+}
+
+/** いま分析ページにある分析か（やめた分析・削除したユーザー定義の分析・不明なタイプは false） */
+export function isCurrentAnalysisType(type: string, customTypes: CustomAnalysisType[] = []): boolean {
+  if (isAnalysisType(type)) return !ANALYSIS_TYPES[type].deprecated;
+  return customTypes.some(t => t.id === type);
+}
+
+/** 表示用の名前。削除したユーザー定義の分析は名前が残っていないので一括りにする */
+export function getAnalysisLabel(type: string, customTypes: CustomAnalysisType[] = []): string {
+  if (isAnalysisType(type)) return ANALYSIS_TYPES[type].label;
+  const custom = customTypes.find(t => t.id === type);
+  if (custom) return custom.name;
+  return isCustomAnalysisType(type) ? '削除した分析' : type;
+}
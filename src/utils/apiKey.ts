@@ -1,22 +1,38 @@
+import type { AiProviderId } from '../types';
+import { isEncryptionEnabled, encryptString, decryptString } from './encryption';
+
 const STORAGE_KEY = 'climbing-log-openai-key';
 const MODE_KEY = 'climbing-log-key-storage-mode';
 
+const PROVIDER_IDS: AiProviderId[] = ['anthropic', 'openai', 'local'];
+
 export type KeyStorageMode = 'local' | 'session';
 
+// パスフレーズのロックが有効なときは暗号化して保存し、ロック解除中だけ復号したキーをメモリに置く
+const unlockedKeys = new Map<AiProviderId, string>();
+
+// Anthropic のキーは従来の保存名のまま（既存の設定を引き継ぐ）
+function storageKeyFor(provider: AiProviderId): string {
+  return provider === 'anthropic' ? STORAGE_KEY : `climbing-log-api-key-${provider}`;
+}
+
 export function getKeyStorageMode(): KeyStorageMode {
   return (localStorage.getItem(MODE_KEY) as KeyStorageMode) ?? 'local';
 }
 
 export function setKeyStorageMode(mode: KeyStorageMode): void {
-  const currentKey = getApiKey();
+  // 暗号化している場合も、保存されている値をそのまま移す
+  const currentKeys = PROVIDER_IDS.map(provider => [provider, readStoredKey(provider)] as const);
   // 古い保存先からキーを削除
-  localStorage.removeItem(STORAGE_KEY);
-  sessionStorage.removeItem(STORAGE_KEY);
+  for (const provider of PROVIDER_IDS) {
+    localStorage.removeItem(storageKeyFor(provider));
+    sessionStorage.removeItem(storageKeyFor(provider));
+  }
   // モードを保存(モード設定自体はlocalStorage固定)
   localStorage.setItem(MODE_KEY, mode);
   // キーがあれば新しい保存先に移動
-  if (currentKey) {
-    getStorage(mode).setItem(STORAGE_KEY, currentKey);
+  for (const [provider, key] of currentKeys) {
+    if (key) getStorage(mode).setItem(storageKeyFor(provider), key);
   }
 }
 
@@ -24,20 +40,58 @@ function getStorage(mode?: KeyStorageMode): Storage {
   return (mode ?? getKeyStorageMode()) === 'session' ? sessionStorage : localStorage;
 }
 
-export function getApiKey(): string {
+function readStoredKey(provider: AiProviderId): string {
+  const key = storageKeyFor(provider);
   // sessionStorageを先に確認し、なければlocalStorageを確認
-  return sessionStorage.getItem(STORAGE_KEY) ?? localStorage.getItem(STORAGE_KEY) ?? '';
+  return sessionStorage.getItem(key) ?? localStorage.getItem(key) ?? '';
+}
+
+export function getApiKey(provider: AiProviderId = 'anthropic'): string {
+  if (isEncryptionEnabled()) return unlockedKeys.get(provider) ?? '';
+  return readStoredKey(provider);
 }
 
-export function setApiKey(key: string): void {
+export async function setApiKey(key: string, provider: AiProviderId = 'anthropic'): Promise<void> {
+  const storageKey = storageKeyFor(provider);
+  const trimmed = key.trim();
+  const stored = trimmed ? await encryptString(trimmed) : '';
   // 両方からクリアしてから、現在のモードの保存先に保存
-  localStorage.removeItem(STORAGE_KEY);
-  sessionStorage.removeItem(STORAGE_KEY);
-  if (key.trim()) {
-    getStorage().setItem(STORAGE_KEY, key.trim());
+  localStorage.removeItem(storageKey);
+  sessionStorage.removeItem(storageKey);
+  if (stored) {
+    getStorage().setItem(storageKey, stored);
+  }
+  if (isEncryptionEnabled()) {
+    if (trimmed) unlockedKeys.set(provider, trimmed);
+    else unlockedKeys.delete(provider);
   }
 }
 
-export function hasApiKey(): boolean {
-  return getApiKey().length > 0;
+export function hasApiKey(provider: AiProviderId = 'anthropic'): boolean {
+  return getApiKey(provider).length > 0;
+}
+
+/** ロック解除時: 保存されたキーを復号してメモリに置く */
+export async function loadApiKeys(): Promise<void> {
+  for (const provider of PROVIDER_IDS) {
+    const stored = readStoredKey(provider);
+    if (stored) unlockedKeys.set(provider, await decryptString(stored));
+    else unlockedKeys.delete(provider);
+  }
+}
+
+/** ロック時: メモリのキーを捨てる */
+export function forgetApiKeys(): void {
+  unlockedKeys.clear();
+}
+
+/** ロックの有効化・解除時: 保存されたキーを今の設定（暗号化するかどうか）で書き直す */
+export async function rewriteStoredApiKeys(): Promise<void> {
+  for (const provider of PROVIDER_IDS) {
+    const storageKey = storageKeyFor(provider);
+    for (const storage of [localStorage, sessionStorage]) {
+      const stored = storage.getItem(storageKey);
+      if (stored) storage.setItem(storageKey, await encryptString(await decryptString(stored)));
+    }
+  }
 }
@@ -0,0 +1,203 @@
+/**
+ * 自動バックアップ（スナップショット）の作成・保持・フォルダへの書き出し
+ *
+ * スナップショットは日記とは別の IndexedDB（db/snapshots.ts）に、バックアップファイルと同じ JSON で置く。
+ * パスフレーズのロック中は、ロックの鍵で暗号化バックアップ（encryptedBackup.ts）の形にする。
+ * ヘッダーにロックのソルトを載せるので、ロックを解除した後や別の端末でも、同じパスフレーズで復元できる。
+ * デスクトップの Chromium 系ブラウザでは、選んだフォルダにも同じ内容を書き出せる（File System Access API）。
+ */
+import type { BackupSnapshot } from '../types';
+import { exportAllData } from '../db';
+import {
+  addSnapshot,
+  deleteSnapshots,
+  getAllSnapshots,
+  getSnapshotContent,
+  getSnapshotSetting,
+  putSnapshotSetting,
+  deleteSnapshotSetting,
+} from '../db/snapshots';
+import { getLockState, getSessionKey } from './encryption';
+import { encryptBackupWithKey } from './encryptedBackup';
+import { getAutoBackupSettings, isSnapshotDue, localDayKey, snapshotsToPrune } from './snapshotSchedule';
+
+const CHECK_INTERVAL_MS = 60 * 60_000;
+const FOLDER_KEY = 'folder';
+// 複数のタブで同じ日のスナップショットを二重に作らないためのロック
+const LOCK_NAME = 'climbing-log-auto-backup';
+
+// File System Access API のうち lib.dom にない部分
+type PermissionedDirectoryHandle = FileSystemDirectoryHandle & {
+  queryPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+};
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { id?: string; mode?: 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+};
+
+let started = false;
+
+export function canChooseBackupFolder(): boolean {
+  return typeof window !== 'undefined' && typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+}
+
+function snapshotFilename(snapshot: BackupSnapshot): string {
+  const day = localDayKey(new Date(snapshot.createdAt));
+  return `climbing-log-backup-${snapshot.encrypted ? 'encrypted-' : ''}${day}.json`;
+}
+
+/** 選ばれたフォルダに書き出す。許可が切れていれば（ユーザー操作なしには頼めないので）書かない */
+async function writeToFolder(snapshot: BackupSnapshot, content: string): Promise<boolean> {
+  const handle = await getSnapshotSetting<PermissionedDirectoryHandle>(FOLDER_KEY);
+  if (!handle || await handle.queryPermission({ mode: 'readwrite' }) !== 'granted') return false;
+  const file = await handle.getFileHandle(snapshotFilename(snapshot), { create: true });
+  const writable = await file.createWritable();
+  await writable.write(content);
+  await writable.close();
+  return true;
+}
+
+/**
+ * スナップショットを1つ作る。フォルダが選ばれていればそこにも書く。
+ * 自動のときは日記が1件もなければ作らない（空のスナップショットで古いものを押し出さないため）。
+ */
+export async function createSnapshot(trigger: BackupSnapshot['trigger']): Promise<BackupSnapshot | null> {
+  const data = await exportAllData();
+  if (trigger === 'scheduled' && data.entries.length === 0) return null;
+
+  const session = getSessionKey();
+  const content = JSON.stringify(session
+    ? await encryptBackupWithKey(data, session.key, { salt: session.settings.salt, iterations: session.settings.iterations })
+    : data);
+  const snapshot: BackupSnapshot = {
+    id: crypto.randomUUID(),
+    createdAt: data.exportedAt,
+    trigger,
+    encrypted: session !== null,
+    entryCount: data.entries.length,
+    size: content.length,
+  };
+  await addSnapshot(snapshot, content);
+  try {
+    await writeToFolder(snapshot, content);
+  } catch (err) {
+    // フォルダが消された・容量不足など。ブラウザ内のスナップショットは作れているので続ける
+    console.warn('[autoBackup] フォルダへの書き出しに失敗しました', err);
+  }
+  return snapshot;
+}
+
+/**
+ * ロックを有効にしたとき: それまでに平文で作ったスナップショットを、ロックの鍵で暗号化し直す。
+ * フォルダにある平文のファイルも、書き込みの許可があれば暗号化したファイルに置き換える。
+ * 許可が切れていて平文のまま残ったファイルの名前を返す（ユーザーに消してもらう）。
+ */
+export async function encryptPlainSnapshots(): Promise<string[]> {
+  const session = getSessionKey();
+  if (!session) throw new Error('ロックが有効になっていません');
+  const kdf = { salt: session.settings.salt, iterations: session.settings.iterations };
+  const handle = await getSnapshotSetting<PermissionedDirectoryHandle>(FOLDER_KEY);
+  const canWrite = !!handle && await handle.queryPermission({ mode: 'readwrite' }) === 'granted';
+  const leftInFolder = new Set<string>();
+
+  // 同じ日のファイルは最後に作ったもので上書きされているので、古い順に処理する
+  const plain = (await getAllSnapshots()).filter(s => !s.encrypted).reverse();
+  for (const snapshot of plain) {
+    const raw = await getSnapshotContent(snapshot.id);
+    if (raw === undefined) continue;
+    const content = JSON.stringify(await encryptBackupWithKey(JSON.parse(raw), session.key, kdf));
+    const encrypted: BackupSnapshot = { ...snapshot, encrypted: true, size: content.length };
+    await addSnapshot(encrypted, content);
+
+    if (!handle) continue;
+    const plainName = snapshotFilename(snapshot);
+    if (!canWrite) {
+      leftInFolder.add(plainName);
+      continue;
+    }
+    try {
+      // 平文のファイルがあるときだけ置き換える（書き出しに失敗していた日は作らない）
+      await handle.getFileHandle(plainName);
+      await writeToFolder(encrypted, content);
+      await handle.removeEntry(plainName);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'NotFoundError')) {
+        console.warn('[autoBackup] フォルダの平文のスナップショットを置き換えられませんでした', err);
+        leftInFolder.add(plainName);
+      }
+    }
+  }
+  return [...leftInFolder];
+}
+
+async function withSnapshotLock(fn: () => Promise<void>): Promise<void> {
+  // 別のタブが作っている最中なら、そのタブに任せる
+  if ('locks' in navigator) {
+    await navigator.locks.request(LOCK_NAME, { ifAvailable: true }, async lock => {
+      if (lock) await fn();
+    });
+  } else {
+    await fn();
+  }
+}
+
+/** 間隔が空いていればスナップショットを作り、保持の規則から外れたものを消す */
+export async function runScheduledSnapshot(now = new Date()): Promise<void> {
+  // ロック中は日記を読めない
+  if (getLockState() === 'locked') return;
+  const settings = getAutoBackupSettings();
+  if (settings.frequency === 'off') return;
+  await withSnapshotLock(async () => {
+    const snapshots = await getAllSnapshots();
+    const last = snapshots.find(s => s.trigger === 'scheduled')?.createdAt ?? null;
+    if (!isSnapshotDue(last, settings.frequency, now)) return;
+    const created = await createSnapshot('scheduled');
+    if (!created) return;
+    await deleteSnapshots(snapshotsToPrune([created, ...snapshots], settings));
+  });
+}
+
+/** アプリ起動時に一度だけ呼ぶ。開いている間は1時間ごとに確かめる */
+export function startAutoBackup(): void {
+  if (started) return;
+  started = true;
+  const run = () => {
+    runScheduledSnapshot().catch(err => console.warn('[autoBackup] スナップショットを作れませんでした', err));
+  };
+  run();
+  setInterval(run, CHECK_INTERVAL_MS);
+}
+
+/** 復元用に、スナップショットの中身（バックアップファイルと同じ JSON）を読む */
+export async function loadSnapshot(id: string): Promise<unknown> {
+  const content = await getSnapshotContent(id);
+  if (content === undefined) throw new Error('スナップショットが見つかりません');
+  return JSON.parse(content);
+}
+
+// ── 書き出し先フォルダ ──
+
+export async function chooseBackupFolder(): Promise<string> {
+  const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+  if (!picker) throw new Error('このブラウザはフォルダの選択に対応していません');
+  const handle = await picker({ id: 'climbing-log-backup', mode: 'readwrite' });
+  await putSnapshotSetting(FOLDER_KEY, handle);
+  return handle.name;
+}
+
+/** 選ばれているフォルダと、書き込みの許可の状態 */
+export async function getBackupFolder(): Promise<{ name: string; permission: PermissionState } | null> {
+  const handle = await getSnapshotSetting<PermissionedDirectoryHandle>(FOLDER_KEY);
+  if (!handle) return null;
+  return { name: handle.name, permission: await handle.queryPermission({ mode: 'readwrite' }) };
+}
+
+/** ブラウザを開き直すと許可が切れるので、ボタンから頼み直す（ユーザー操作の中で呼ぶ） */
+export async function requestBackupFolderPermission(): Promise<boolean> {
+  const handle = await getSnapshotSetting<PermissionedDirectoryHandle>(FOLDER_KEY);
+  return !!handle && await handle.requestPermission({ mode: 'readwrite' }) === 'granted';
+}
+
+export async function forgetBackupFolder(): Promise<void> {
+  await deleteSnapshotSetting(FOLDER_KEY);
+}
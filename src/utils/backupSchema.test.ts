@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import type { DiaryEntry, Fragment, AiLog } from '../types';
+import {
+  parseBackup,
+  planRestore,
+  describeRestoreSummary,
+  BackupFormatError,
+  BACKUP_SCHEMA_VERSION,
+  type BackupData,
+} from './backupSchema';
+
+const NOW = '2025-06-01T00:00:00.000Z';
+
+function entry(id: string, content: string, extra: Partial<DiaryEntry> = {}): DiaryEntry {
+  return {
+    id,
+    date: '2025-03-01',
+    content,
+    sourceFile: 'diary.txt',
+    importedAt: '2025-03-02T00:00:00.000Z',
+    comments: [],
+    isFavorite: false,
+    ...extra,
+  };
+}
+
+function fragment(id: string, entryId: string): Fragment {
+  return { id, entryId, text: '稜線', savedAt: '2025-03-03T00:00:00.000Z' };
+}
+
+function log(id: string, analyzedAt: string): AiLog {
+  return { id, type: 'today', result: '結果', analyzedAt, entryCount: 1 };
+}
+
+function backup(patch: Partial<BackupData> = {}): BackupData {
+  return {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: NOW,
+    entries: [],
+    fragments: [],
+    observations: [],
+    aiLogs: [],
+    aiCache: [],
+    ...patch,
+  };
+}
+
+// テストでは本文をそのまま重複検出キーにする
+function keys(entries: DiaryEntry[]): Map<string, string> {
+  return new Map(entries.map(e => [e.id, `${e.sourceFile}|${e.date}|${e.content}`]));
+}
+
+describe('parseBackup', () => {
+  it('版のない従来のバックアップを版2の形にそろえる', () => {
+    const { data, issues } = parseBackup({
+      entries: [{ id: 'e1', date: null, content: '本文' }],
+      fragments: [],
+    }, NOW);
+    expect(issues).toEqual([]);
+    expect(data.schemaVersion).toBe(BACKUP_SCHEMA_VERSION);
+    expect(data.entries[0]).toMatchObject({ id: 'e1', comments: [], isFavorite: false, sourceFile: '', importedAt: NOW });
+    expect(data.observations).toEqual([]);
+    expect(data.aiLogs).toEqual([]);
+  });
+
+  it('壊れたレコードは理由を添えて飛ばし、残りは読み込む', () => {
+    const { data, issues } = parseBackup({
+      schemaVersion: 2,
+      entries: [entry('e1', '本文'), { id: 'e2' }, 'oops'],
+      fragments: [],
+      aiLogs: [log('l1', NOW), { id: 'l2', type: 'today', result: '結果' }],
+    }, NOW);
+    expect(data.entries.map(e => e.id)).toEqual(['e1']);
+    expect(data.aiLogs.map(l => l.id)).toEqual(['l1']);
+    expect(issues).toEqual([
+      { store: 'entries', index: 1, id: 'e2', reason: '本文（content）がありません' },
+      { store: 'entries', index: 2, id: undefined, reason: 'レコードがオブジェクトではありません' },
+      { store: 'aiLogs', index: 1, id: 'l2', reason: '分析日時（analyzedAt）がありません' },
+    ]);
+  });
+
+  it('AIログの使用量・プロンプトの版・目印は、形が合わなければ落とす', () => {
+    const usage = { provider: 'openai', model: 'gpt-4o-mini', inputTokens: 120, outputTokens: 80, costUsd: null };
+    const { data } = parseBackup({
+      entries: [],
+      fragments: [],
+      aiLogs: [
+        { ...log('l1', NOW), usage, promptVersion: 'a1b2c3d4', pinned: true },
+        { ...log('l2', NOW), usage: { ...usage, provider: 'unknown' }, promptVersion: 42, pinned: 'yes' },
+      ],
+    }, NOW);
+    expect(data.aiLogs[0]).toEqual({ ...log('l1', NOW), usage, promptVersion: 'a1b2c3d4', pinned: true });
+    expect(data.aiLogs[1]).toEqual(log('l2', NOW));
+  });
+
+  it('日記・宝物庫・観測所は知っている項目だけを拾い、形の合わない任意項目は落とす', () => {
+    const comment = { id: 'c1', text: '未来へ', createdAt: NOW };
+    const { data } = parseBackup({
+      entries: [
+        {
+          ...entry('e1', '本文'),
+          updatedAt: NOW,
+          time: '07:30',
+          comments: [{ ...comment, extra: 1 }, { id: 'c2' }],
+          metadata: { app: 'dayone', tags: ['山'], location: { name: '槍', latitude: '36' }, sealed: 'x', extra: 1 },
+          extra: 'x',
+        },
+        { ...entry('e2', '本文'), updatedAt: 'yesterday', importedAt: 42, metadata: { app: 'unknown' } },
+      ],
+      fragments: [
+        { ...fragment('f1', 'e1'), source: 'auto', entryDate: null, updatedAt: NOW, extra: 1 },
+        { ...fragment('f2', 'e1'), source: 'robot', entryDate: 3, updatedAt: 'soon' },
+      ],
+    }, NOW);
+    expect(data.entries[0]).toEqual({
+      ...entry('e1', '本文'),
+      updatedAt: NOW,
+      time: '07:30',
+      comments: [comment],
+      metadata: { app: 'dayone', tags: ['山'], location: { name: '槍' } },
+    });
+    expect(data.entries[1]).toEqual({ ...entry('e2', '本文'), importedAt: NOW });
+    expect(data.fragments).toEqual([
+      { ...fragment('f1', 'e1'), source: 'auto', entryDate: null, updatedAt: NOW },
+      fragment('f2', 'e1'),
+    ]);
+  });
+
+  it('観測所の波が calm / ripple / high のどれでもなければ飛ばす', () => {
+    const observation = { id: 'o1', date: '2025-03-01', sky: '☀️', comfort: 60, wave: 'calm', note: '', prompt: '', createdAt: NOW };
+    const { data, issues } = parseBackup({
+      entries: [],
+      fragments: [],
+      observations: [{ ...observation, updatedAt: NOW, extra: 1 }, { ...observation, id: 'o2', wave: 'storm' }],
+    }, NOW);
+    expect(data.observations).toEqual([{ ...observation, updatedAt: NOW }]);
+    expect(issues).toEqual([
+      { store: 'observations', index: 1, id: 'o2', reason: '波（wave）が calm / ripple / high のどれでもありません' },
+    ]);
+  });
+
+  it('同じ ID の2件目以降は飛ばす', () => {
+    const { data, issues } = parseBackup({ entries: [entry('e1', 'a'), entry('e1', 'b')], fragments: [] }, NOW);
+    expect(data.entries.map(e => e.content)).toEqual(['a']);
+    expect(issues[0]).toMatchObject({ index: 1, id: 'e1' });
+  });
+
+  it('日記や宝物庫の一覧がなければ読めない', () => {
+    expect(() => parseBackup({ entries: [] })).toThrow(BackupFormatError);
+    expect(() => parseBackup([])).toThrow(BackupFormatError);
+  });
+
+  it('新しい版のバックアップは断る', () => {
+    expect(() => parseBackup({ schemaVersion: BACKUP_SCHEMA_VERSION + 1, entries: [], fragments: [] }))
+      .toThrow(/新しい版/);
+  });
+});
+
+describe('planRestore', () => {
+  const current = entry('e1', '今の本文', { updatedAt: '2025-05-01T00:00:00.000Z' });
+  const existing = { ...backup({ entries: [current], aiLogs: [log('l1', NOW)] }) };
+
+  it('replace はすべてを書き込み、今の件数を削除として数える', () => {
+    const incoming = backup({ entries: [entry('e9', '別の本文')] });
+    const plan = planRestore(existing, incoming, 'replace', { existing: keys(existing.entries), incoming: keys(incoming.entries) });
+    expect(plan.clear).toBe(true);
+    expect(plan.puts.entries).toEqual(incoming.entries);
+    expect(plan.summary.entries).toEqual({ added: 1, updated: 0, skipped: 0, removed: 1 });
+    expect(plan.summary.aiLogs.removed).toBe(1);
+  });
+
+  it('merge は同じ ID なら新しい方を残す', () => {
+    const newer = entry('e1', '後で直した本文', { updatedAt: '2025-05-02T00:00:00.000Z' });
+    const older = entry('e1', '古い本文', { updatedAt: '2025-04-01T00:00:00.000Z' });
+    const k = { existing: keys(existing.entries), incoming: keys([newer]) };
+    expect(planRestore(existing, backup({ entries: [newer] }), 'merge', k).puts.entries).toEqual([newer]);
+    const skipped = planRestore(existing, backup({ entries: [older] }), 'merge', k);
+    expect(skipped.puts.entries).toEqual([]);
+    expect(skipped.summary.entries.skipped).toBe(1);
+  });
+
+  it('ID が違っても重複検出キーが同じ日記は今の ID に寄せ、宝物庫も付け替える', () => {
+    const copy = entry('other-id', '今の本文', { updatedAt: '2025-05-03T00:00:00.000Z', isFavorite: true });
+    const incoming = backup({ entries: [copy], fragments: [fragment('f1', 'other-id')] });
+    const plan = planRestore(existing, incoming, 'merge', { existing: keys(existing.entries), incoming: keys(incoming.entries) });
+    expect(plan.puts.entries).toEqual([{ ...copy, id: 'e1' }]);
+    expect(plan.puts.fragments).toEqual([fragment('f1', 'e1')]);
+    expect(plan.summary.entries).toEqual({ added: 0, updated: 1, skipped: 0, removed: 0 });
+    expect(plan.summary.fragments.added).toBe(1);
+  });
+
+  it('add-only は今あるレコードを新しくても書き換えない', () => {
+    const newer = entry('e1', '後で直した本文', { updatedAt: '2025-05-02T00:00:00.000Z' });
+    const incoming = backup({ entries: [newer, entry('e2', '新しい日記')], aiLogs: [log('l1', NOW), log('l2', NOW)] });
+    const plan = planRestore(existing, incoming, 'add-only', { existing: keys(existing.entries), incoming: keys(incoming.entries) });
+    expect(plan.puts.entries.map(e => e.id)).toEqual(['e2']);
+    expect(plan.puts.aiLogs.map(l => l.id)).toEqual(['l2']);
+    expect(plan.summary.entries).toEqual({ added: 1, updated: 0, skipped: 1, removed: 0 });
+  });
+});
+
+describe('describeRestoreSummary', () => {
+  it('変化のあったストアだけを並べる', () => {
+    const incoming = backup({ entries: [entry('e2', '新しい日記')] });
+    const plan = planRestore(backup(), incoming, 'merge', { existing: new Map(), incoming: keys(incoming.entries) });
+    expect(describeRestoreSummary(plan.summary)).toEqual(['日記: 1件を追加']);
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * バックアップの形式（版つき）と復元の計画
+ *
+ * 版1: schemaVersion のない従来の形式（entries / fragments / observations のみ）
+ * 版2: schemaVersion・exportedAt を持ち、AIログと分析キャッシュも含む
+ *
+ * 読み込むときはレコードを1件ずつ確かめ、壊れたものは理由を添えて飛ばす。
+ * 復元の方法は3つ:
+ *   replace  — 今のデータを消してバックアップに置き換える
+ *   merge    — 同じレコード（ID、日記は重複検出キーでも突き合わせる）は新しい方を残す
+ *   add-only — 今のデータにないレコードだけを追加する
+ */
+import type {
+  DiaryEntry,
+  EntryMetadata,
+  EntryLocation,
+  EntryWeather,
+  FutureComment,
+  JournalApp,
+  Fragment,
+  Observation,
+  AiLog,
+  AiCache,
+  AiUsage,
+  AiProviderId,
+} from '../types';
+import { normalizeComments } from './futureComment';
+import { isWave } from './observatory';
+
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export const BACKUP_STORES = ['entries', 'fragments', 'observations', 'aiLogs', 'aiCache'] as const;
+export type BackupStore = typeof BACKUP_STORES[number];
+
+export const BACKUP_STORE_LABELS: Record<BackupStore, string> = {
+  entries: '日記',
+  fragments: '宝物庫',
+  observations: '観測所',
+  aiLogs: 'AIログ',
+  aiCache: 'AI分析の最新結果',
+};
+
+export interface BackupData {
+  schemaVersion: typeof BACKUP_SCHEMA_VERSION;
+  exportedAt: string; // ISO timestamp
+  entries: DiaryEntry[];
+  fragments: Fragment[];
+  observations: Observation[];
+  aiLogs: AiLog[];
+  aiCache: AiCache[];
+}
+
+export type RestoreStrategy = 'replace' | 'merge' | 'add-only';
+
+/** 読み込めなかったレコード */
+export interface BackupIssue {
+  store: BackupStore;
+  index: number; // バックアップ内の位置（0始まり）
+  id?: string;
+  reason: string;
+}
+
+export interface RestoreCounts {
+  added: number;
+  updated: number;
+  skipped: number; // 同じものがある・今のデータの方が新しい
+  removed: number; // replace で消した件数
+}
+
+export type RestoreSummary = Record<BackupStore, RestoreCounts>;
+
+/** バックアップとして読めないファイル（個々のレコードの問題は BackupIssue で返す） */
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+// ── 検証 ──
+
+type Raw = Record<string, unknown>;
+type Validator<T> = (raw: Raw, now: string) => T | string; // 文字列は読めなかった理由
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function optionalString(value: unknown, fallback: string): string {
+  return isString(value) ? value : fallback;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+const AI_PROVIDER_IDS: AiProviderId[] = ['anthropic', 'openai', 'local'];
+
+// 使用量は形が合うときだけ残す（合わなければ、記録を始める前のログと同じく使用量なしとして扱う）
+function readUsage(value: unknown): AiUsage | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const raw = value as Raw;
+  if (!AI_PROVIDER_IDS.includes(raw.provider as AiProviderId) || !isString(raw.model)) return undefined;
+  if (!isFiniteNumber(raw.inputTokens) || !isFiniteNumber(raw.outputTokens)) return undefined;
+  if (raw.costUsd !== null && !isFiniteNumber(raw.costUsd)) return undefined;
+  return {
+    provider: raw.provider as AiProviderId,
+    model: raw.model,
+    inputTokens: raw.inputTokens,
+    outputTokens: raw.outputTokens,
+    costUsd: raw.costUsd,
+  };
+}
+
+// 時刻は ISO 形式として読めるものだけ受け取る
+function isTimestamp(value: unknown): value is string {
+  return isString(value) && !Number.isNaN(Date.parse(value));
+}
+
+// 古いバックアップでは comments が欠けている場合がある。形の合わないコメントは落とす
+function readComments(value: unknown): FutureComment[] {
+  return normalizeComments(value).map(c => ({ id: c.id, text: c.text, createdAt: c.createdAt }));
+}
+
+const JOURNAL_APPS: JournalApp[] = ['dayone', 'journey', 'diarium'];
+
+// 日記アプリの付加情報は app が分かるときだけ残し、中身も形の合う項目だけを拾う（sealed は db 層の中だけの形なので読まない）
+function readMetadata(value: unknown): EntryMetadata | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const raw = value as Raw;
+  if (!JOURNAL_APPS.includes(raw.app as JournalApp)) return undefined;
+  const metadata: EntryMetadata = { app: raw.app as JournalApp };
+  if (isString(raw.createdAt)) metadata.createdAt = raw.createdAt;
+  if (Array.isArray(raw.tags) && raw.tags.every(isString)) metadata.tags = raw.tags;
+  if (typeof raw.location === 'object' && raw.location !== null) {
+    const { name, latitude, longitude } = raw.location as Raw;
+    const location: EntryLocation = {};
+    if (isString(name)) location.name = name;
+    if (isFiniteNumber(latitude)) location.latitude = latitude;
+    if (isFiniteNumber(longitude)) location.longitude = longitude;
+    if (Object.keys(location).length > 0) metadata.location = location;
+  }
+  if (typeof raw.weather === 'object' && raw.weather !== null) {
+    const { description, temperatureC } = raw.weather as Raw;
+    const weather: EntryWeather = {};
+    if (isString(description)) weather.description = description;
+    if (isFiniteNumber(temperatureC)) weather.temperatureC = temperatureC;
+    if (Object.keys(weather).length > 0) metadata.weather = weather;
+  }
+  return metadata;
+}
+
+type FragmentSource = NonNullable<Fragment['source']>;
+const FRAGMENT_SOURCES: FragmentSource[] = ['manual', 'auto', 'auto-skip'];
+
+const validators: { [S in BackupStore]: Validator<BackupData[S][number]> } = {
+  entries: (raw, now) => {
+    if (!isString(raw.id) || !raw.id) return 'id がありません';
+    if (!isString(raw.content)) return '本文（content）がありません';
+    if (raw.date !== null && raw.date !== undefined && !isString(raw.date)) return '日付（date）が文字列ではありません';
+    const entry: DiaryEntry = {
+      id: raw.id,
+      date: raw.date ?? null,
+      content: raw.content,
+      sourceFile: optionalString(raw.sourceFile, ''),
+      importedAt: isTimestamp(raw.importedAt) ? raw.importedAt : now,
+      comments: readComments(raw.comments),
+      isFavorite: raw.isFavorite === true,
+    };
+    if (isString(raw.time)) entry.time = raw.time;
+    if (isString(raw.timeZone)) entry.timeZone = raw.timeZone;
+    if (isTimestamp(raw.updatedAt)) entry.updatedAt = raw.updatedAt;
+    const metadata = readMetadata(raw.metadata);
+    if (metadata) entry.metadata = metadata;
+    return entry;
+  },
+  fragments: (raw, now) => {
+    if (!isString(raw.id) || !raw.id) return 'id がありません';
+    if (!isString(raw.entryId)) return '元の日記（entryId）がありません';
+    if (!isString(raw.text)) return '本文（text）がありません';
+    const fragment: Fragment = {
+      id: raw.id,
+      entryId: raw.entryId,
+      text: raw.text,
+      savedAt: isTimestamp(raw.savedAt) ? raw.savedAt : now,
+    };
+    if (FRAGMENT_SOURCES.includes(raw.source as FragmentSource)) fragment.source = raw.source as FragmentSource;
+    if (raw.entryDate === null || isString(raw.entryDate)) fragment.entryDate = raw.entryDate;
+    if (isTimestamp(raw.updatedAt)) fragment.updatedAt = raw.updatedAt;
+    return fragment;
+  },
+  observations: (raw, now) => {
+    if (!isString(raw.id) || !raw.id) return 'id がありません';
+    if (!isString(raw.date)) return '日付（date）がありません';
+    if (!isFiniteNumber(raw.comfort)) return '安心ゲージ（comfort）が数値ではありません';
+    if (!isString(raw.wave) || !isWave(raw.wave)) return '波（wave）が calm / ripple / high のどれでもありません';
+    const observation: Observation = {
+      id: raw.id,
+      date: raw.date,
+      sky: optionalString(raw.sky, ''),
+      comfort: raw.comfort,
+      wave: raw.wave,
+      note: optionalString(raw.note, ''),
+      prompt: optionalString(raw.prompt, ''),
+      createdAt: isTimestamp(raw.createdAt) ? raw.createdAt : now,
+    };
+    if (isTimestamp(raw.updatedAt)) observation.updatedAt = raw.updatedAt;
+    return observation;
+  },
+  aiLogs: raw => {
+    if (!isString(raw.id) || !raw.id) return 'id がありません';
+    if (!isString(raw.type)) return '分析の種類（type）がありません';
+    if (!isString(raw.result)) return '結果（result）がありません';
+    if (!isString(raw.analyzedAt)) return '分析日時（analyzedAt）がありません';
+    const log: AiLog = {
+      id: raw.id,
+      type: raw.type,
+      result: raw.result,
+      analyzedAt: raw.analyzedAt,
+      entryCount: isFiniteNumber(raw.entryCount) ? raw.entryCount : 0,
+    };
+    const usage = readUsage(raw.usage);
+    if (usage) log.usage = usage;
+    if (isString(raw.promptVersion)) log.promptVersion = raw.promptVersion;
+    if (raw.pinned === true) log.pinned = true;
+    return log;
+  },
+  aiCache: raw => {
+    if (!isString(raw.type) || !raw.type) return '分析の種類（type）がありません';
+    if (!isString(raw.result)) return '結果（result）がありません';
+    if (!isString(raw.analyzedAt)) return '分析日時（analyzedAt）がありません';
+    const cache: AiCache = {
+      type: raw.type,
+      result: raw.result,
+      analyzedAt: raw.analyzedAt,
+      entryCount: isFiniteNumber(raw.entryCount) ? raw.entryCount : 0,
+      isStale: raw.isStale === true,
+    };
+    if (isString(raw.analyzedForDate)) cache.analyzedForDate = raw.analyzedForDate;
+    if (isFiniteNumber(raw.todayEntryCount)) cache.todayEntryCount = raw.todayEntryCount;
+    return cache;
+  },
+};
+
+function recordId(store: BackupStore, record: Raw): unknown {
+  return store === 'aiCache' ? record.type : record.id;
+}
+
+/**
+ * JSON を読み込んで版2の形にそろえる。壊れたレコードと、同じ ID の2件目以降は issues に入れて飛ばす。
+ * @throws BackupFormatError バックアップとして読めないとき
+ */
+export function parseBackup(raw: unknown, now = new Date().toISOString()): { data: BackupData; issues: BackupIssue[] } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new BackupFormatError('バックアップファイルの形式ではありません');
+  }
+  const source = raw as Raw;
+  const version = source.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new BackupFormatError('バックアップの版（schemaVersion）が読めません');
+  }
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new BackupFormatError('新しい版のアプリで作られたバックアップです。アプリを更新してから復元してください。');
+  }
+  // 版1でも日記と宝物庫は必ずある
+  if (!Array.isArray(source.entries) || !Array.isArray(source.fragments)) {
+    throw new BackupFormatError('日記（entries）または宝物庫（fragments）がありません');
+  }
+
+  const exportedAt = optionalString(source.exportedAt, now);
+  const issues: BackupIssue[] = [];
+  const read = <S extends BackupStore>(store: S): BackupData[S] => {
+    const list = source[store];
+    if (list === undefined) return [];
+    if (!Array.isArray(list)) {
+      issues.push({ store, index: -1, reason: '一覧が配列ではありません' });
+      return [];
+    }
+    const seen = new Set<unknown>();
+    const records: BackupData[S][number][] = [];
+    list.forEach((item: unknown, index) => {
+      if (typeof item !== 'object' || item === null) {
+        issues.push({ store, index, reason: 'レコードがオブジェクトではありません' });
+        return;
+      }
+      const id = recordId(store, item as Raw);
+      const result = validators[store](item as Raw, exportedAt);
+      if (typeof result === 'string') {
+        issues.push({ store, index, id: isString(id) ? id : undefined, reason: result });
+      } else if (seen.has(id)) {
+        issues.push({ store, index, id: id as string, reason: '同じ ID のレコードがすでにあります' });
+      } else {
+        seen.add(id);
+        records.push(result);
+      }
+    });
+    return records as BackupData[S];
+  };
+
+  const data: BackupData = {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt,
+    entries: read('entries'),
+    fragments: read('fragments'),
+    observations: read('observations'),
+    aiLogs: read('aiLogs'),
+    aiCache: read('aiCache'),
+  };
+  return { data, issues };
+}
+
+// ── 復元の計画 ──
+
+export interface RestorePlan {
+  clear: boolean; // replace のとき、書き込む前に今のデータを消す
+  puts: { [S in BackupStore]: BackupData[S] };
+  summary: RestoreSummary;
+}
+
+// 「新しい方」を決める時刻
+const versionOf: { [S in BackupStore]: (record: BackupData[S][number]) => string } = {
+  entries: e => e.updatedAt ?? e.importedAt ?? '',
+  fragments: f => f.updatedAt ?? f.savedAt ?? '',
+  observations: o => o.updatedAt ?? o.createdAt ?? '',
+  aiLogs: l => l.analyzedAt ?? '',
+  aiCache: c => c.analyzedAt ?? '',
+};
+
+function keyOfRecord(store: BackupStore, record: { id?: string; type?: string }): string {
+  return (store === 'aiCache' ? record.type : record.id) ?? '';
+}
+
+function emptyCounts(): RestoreCounts {
+  return { added: 0, updated: 0, skipped: 0, removed: 0 };
+}
+
+/**
+ * 今のデータとバックアップから、書き込むレコードと件数の内訳を決める。
+ * entryKeys は日記の重複検出キー（sourceFile + 日付 + 本文のハッシュ）。ID が違っても同じ日記とみなし、
+ * 今の ID に寄せる（宝物庫の entryId も付け替える）。
+ */
+export function planRestore(
+  existing: Omit<BackupData, 'schemaVersion' | 'exportedAt'>,
+  incoming: BackupData,
+  strategy: RestoreStrategy,
+  entryKeys: { existing: Map<string, string>; incoming: Map<string, string> }, // entryId → 重複検出キー
+): RestorePlan {
+  const summary = Object.fromEntries(BACKUP_STORES.map(store => [store, emptyCounts()])) as RestoreSummary;
+
+  if (strategy === 'replace') {
+    for (const store of BACKUP_STORES) {
+      summary[store].removed = existing[store].length;
+      summary[store].added = incoming[store].length;
+    }
+    const { entries, fragments, observations, aiLogs, aiCache } = incoming;
+    return { clear: true, puts: { entries, fragments, observations, aiLogs, aiCache }, summary };
+  }
+
+  // 重複検出キーで見つかった日記: バックアップの ID → 今の ID
+  const entryIdMap = new Map<string, string>();
+  const existingByKey = new Map<string, string>();
+  for (const [id, key] of entryKeys.existing) existingByKey.set(key, id);
+
+  const plan = <S extends BackupStore>(store: S, records: BackupData[S]): BackupData[S] => {
+    const current = new Map<string, BackupData[S][number]>();
+    for (const record of existing[store]) current.set(keyOfRecord(store, record), record);
+    const version = versionOf[store] as (record: BackupData[S][number]) => string;
+
+    const puts: BackupData[S][number][] = [];
+    for (const record of records) {
+      let id = keyOfRecord(store, record);
+      if (store === 'entries' && !current.has(id)) {
+        const matchedId = existingByKey.get(entryKeys.incoming.get(id) ?? '');
+        if (matchedId) {
+          entryIdMap.set(id, matchedId);
+          id = matchedId;
+        }
+      }
+      const found = current.get(id);
+      if (!found) {
+        summary[store].added++;
+        puts.push(record);
+      } else if (strategy === 'merge' && version(record) > version(found)) {
+        summary[store].updated++;
+        puts.push(store === 'entries' ? { ...record, id } : record);
+      } else {
+        summary[store].skipped++;
+      }
+    }
+    return puts as BackupData[S];
+  };
+
+  const entries = plan('entries', incoming.entries);
+  const fragments = plan('fragments', incoming.fragments.map(f => (
+    entryIdMap.has(f.entryId) ? { ...f, entryId: entryIdMap.get(f.entryId)! } : f
+  )));
+  return {
+    clear: false,
+    puts: {
+      entries,
+      fragments,
+      observations: plan('observations', incoming.observations),
+      aiLogs: plan('aiLogs', incoming.aiLogs),
+      aiCache: plan('aiCache', incoming.aiCache),
+    },
+    summary,
+  };
+}
+
+/** 件数の内訳を1行ずつの文に（変化のないストアは省く） */
+export function describeRestoreSummary(summary: RestoreSummary): string[] {
+  return BACKUP_STORES.flatMap(store => {
+    const { added, updated, skipped, removed } = summary[store];
+    const parts = [
+      removed > 0 ? `${removed}件を削除` : '',
+      added > 0 ? `${added}件を追加` : '',
+      updated > 0 ? `${updated}件を更新` : '',
+      skipped > 0 ? `${skipped}件はそのまま` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? [`${BACKUP_STORE_LABELS[store]}: ${parts.join('、')}`] : [];
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { importSources, isProbablyBinary, type ImportSource } from './bulkImport';
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+function source(path: string, content: string | Uint8Array): ImportSource {
+  const bytes = typeof content === 'string' ? text(content) : content;
+  return { path, read: async () => bytes };
+}
+
+// ── isProbablyBinary ──
+
+describe('isProbablyBinary', () => {
+  it('NUL を含めばバイナリ', () => {
+    expect(isProbablyBinary(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00]))).toBe(true);
+    expect(isProbablyBinary(text('日記'))).toBe(false);
+  });
+});
+
+// ── importSources ──
+
+describe('importSources', () => {
+  it('ファイルごとのエントリ数を報告する', async () => {
+    const { entries, reports } = await importSources([
+      source('diary/2024.txt', '2024-01-15\n一日目\n\n2024-01-16\n二日目'),
+      source('diary/notes.md', '2024-02-01\nメモ'),
+    ]);
+    expect(entries).toHaveLength(3);
+    expect(reports).toEqual([
+      { path: 'diary/2024.txt', status: 'imported', count: 2 },
+      { path: 'diary/notes.md', status: 'imported', count: 1 },
+    ]);
+  });
+
+  it('sourceFile にはパス全体を残す', async () => {
+    const { entries } = await importSources([source('2023/日記.txt', '2023-05-01\n本文')]);
+    expect(entries[0].sourceFile).toBe('2023/日記.txt');
+  });
+
+  it('日付はファイル名だけから推定する（フォルダ名は使わない）', async () => {
+    const { entries } = await importSources([source('backup_20231201/note.txt', '日付のない本文')]);
+    expect(entries[0].date).toBeNull();
+  });
+
+  it('対応していない拡張子とバイナリは読み飛ばす', async () => {
+    const { entries, reports } = await importSources([
+      source('photo.jpg', new Uint8Array([0xff, 0xd8, 0xff])),
+      source('broken.txt', new Uint8Array([0x61, 0x00, 0x62])),
+    ]);
+    expect(entries).toHaveLength(0);
+    expect(reports.map(r => r.status)).toEqual(['skipped', 'skipped']);
+  });
+
+  it('隠しファイルと __MACOSX は報告にも出さない', async () => {
+    const { reports } = await importSources([
+      source('.DS_Store', new Uint8Array([0x00])),
+      source('__MACOSX/diary/._a.txt', 'x'),
+      source('diary/.hidden.txt', 'x'),
+    ]);
+    expect(reports).toEqual([]);
+  });
+
+  it('UTF-8 でないテキストや壊れた JSON は失敗として続行する', async () => {
+    const { entries, reports } = await importSources([
+      source('sjis.txt', new Uint8Array([0x93, 0xfa, 0x8b, 0x4c])),
+      source('broken.json', '{ not json'),
+      source('ok.txt', '2024-01-15\n大丈夫'),
+    ]);
+    expect(reports.map(r => r.status)).toEqual(['failed', 'failed', 'imported']);
+    expect(reports[0].message).toContain('UTF-8');
+    expect(entries).toHaveLength(1);
+  });
+
+  it('読めない ZIP は失敗として報告する', async () => {
+    const { reports } = await importSources([source('export.zip', 'not a zip')]);
+    expect(reports).toEqual([
+      expect.objectContaining({ path: 'export.zip', status: 'failed' }),
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * ZIP・フォルダのまとめ読み込み
+ *
+ * 選択・ドロップされたファイル（フォルダ内のファイル、ZIP 内のファイルを含む）を
+ * 再帰的にたどって importFile に通し、ファイルごとの結果を報告する。
+ */
+import type { DiaryEntry } from '../types';
+import { importFile } from './importer';
+import { readZip } from './zipReader';
+import { toErrorMessage } from './errorMessage';
+
+/** 読み込み対象の1ファイル。中身は必要になるまで読まない */
+export interface ImportSource {
+  path: string;
+  read: () => Promise<Uint8Array>;
+}
+
+export interface FileImportReport {
+  path: string;
+  status: 'imported' | 'skipped' | 'failed';
+  count: number; // 取り出したエントリ数（重複除外前）
+  message?: string;
+}
+
+const TEXT_EXTENSIONS = new Set(['txt', 'md', 'json']);
+// ZIP の中の ZIP をたどる深さの上限
+const MAX_ARCHIVE_DEPTH = 3;
+// 先頭のこのバイト数に NUL があればバイナリとみなす
+const BINARY_SNIFF_BYTES = 8000;
+
+function extensionOf(path: string): string {
+  const name = path.split('/').pop() ?? '';
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+}
+
+function basename(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+// 隠しファイルや macOS が ZIP に入れるメタデータは、報告にも出さずに読み飛ばす
+function isIgnoredPath(path: string): boolean {
+  return path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+}
+
+export function isProbablyBinary(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+function decodeText(bytes: Uint8Array): string {
+  try {
+    // BOM は TextDecoder が取り除く
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    throw new Error('UTF-8 のテキストとして読めませんでした');
+  }
+}
+
+/** File を ImportSource にする。フォルダ選択時は相対パスを使う */
+export function fileToSource(file: File): ImportSource {
+  return {
+    path: file.webkitRelativePath || file.name,
+    read: async () => new Uint8Array(await file.arrayBuffer()),
+  };
+}
+
+/**
+ * ファイル群をエントリに変換する。ZIP は中身を展開してたどる。
+ * 1ファイルの失敗で全体を止めず、ファイルごとの結果を reports に残す。
+ */
+export async function importSources(
+  sources: ImportSource[],
+): Promise<{ entries: DiaryEntry[]; reports: FileImportReport[] }> {
+  const entries: DiaryEntry[] = [];
+  const reports: FileImportReport[] = [];
+
+  async function walk(list: ImportSource[], depth: number): Promise<void> {
+    for (const source of list) {
+      if (isIgnoredPath(source.path)) continue;
+      const ext = extensionOf(source.path);
+
+      if (ext === 'zip') {
+        if (depth >= MAX_ARCHIVE_DEPTH) {
+          reports.push({ path: source.path, status: 'skipped', count: 0, message: 'ZIP の入れ子が深すぎます' });
+          continue;
+        }
+        try {
+          const inner = readZip(await source.read());
+          await walk(inner.map(e => ({ path: `${source.path}/${e.path}`, read: e.read })), depth + 1);
+        } catch (err) {
+          reports.push({ path: source.path, status: 'failed', count: 0, message: toErrorMessage(err, 'ZIP を読み込めませんでした') });
+        }
+        continue;
+      }
+
+      if (!TEXT_EXTENSIONS.has(ext)) {
+        reports.push({ path: source.path, status: 'skipped', count: 0, message: '対応していない形式' });
+        continue;
+      }
+
+      try {
+        const bytes = await source.read();
+        if (isProbablyBinary(bytes)) {
+          reports.push({ path: source.path, status: 'skipped', count: 0, message: 'バイナリファイル' });
+          continue;
+        }
+        // 日付の推定にはファイル名だけを使い、出どころにはパス全体を残す
+        const parsed = importFile(decodeText(bytes), basename(source.path))
+          .map(e => ({ ...e, sourceFile: source.path }));
+        entries.push(...parsed);
+        reports.push({ path: source.path, status: 'imported', count: parsed.length });
+      } catch (err) {
+        reports.push({ path: source.path, status: 'failed', count: 0, message: toErrorMessage(err, '読み込みに失敗しました') });
+      }
+    }
+  }
+
+  await walk(sources, 0);
+  return { entries, reports };
+}
+
+// --- ドラッグ＆ドロップ ---
+
+function readAllDirectoryEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  // readEntries は一度に全件を返すとは限らないので、空になるまで繰り返す
+  return new Promise((resolve, reject) => {
+    const all: FileSystemEntry[] = [];
+    const next = () => reader.readEntries(batch => {
+      if (batch.length === 0) {
+        resolve(all);
+      } else {
+        all.push(...batch);
+        next();
+      }
+    }, reject);
+    next();
+  });
+}
+
+async function collectEntry(entry: FileSystemEntry, sources: ImportSource[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    // fullPath は "/フォルダ/ファイル" の形
+    const path = entry.fullPath.replace(/^\//, '');
+    sources.push({ path, read: async () => new Uint8Array(await file.arrayBuffer()) });
+  } else if (entry.isDirectory) {
+    const children = await readAllDirectoryEntries((entry as FileSystemDirectoryEntry).createReader());
+    for (const child of children) {
+      await collectEntry(child, sources);
+    }
+  }
+}
+
+/** ドロップされたファイル・フォルダを ImportSource に展開する */
+export async function collectDroppedSources(dataTransfer: DataTransfer): Promise<ImportSource[]> {
+  // getAsEntry はイベント処理中にしか呼べないため、await の前に全件取り出しておく
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((e): e is FileSystemEntry => e !== null);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(fileToSource);
+  }
+
+  const sources: ImportSource[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry, sources);
+  }
+  return sources;
+}
@@ -1,10 +1,17 @@
-import { getApiKey } from './apiKey';
+import { sendChat, getAiProviderConfig, type ChatMessage, type ChatResult, type ChatOptions, type TokenUsage } from './aiProvider';
 import {
   calcMonthlyDeepAnalysis,
   calcCurrentStateNumeric,
   calcExistentialDensity30d,
+  detectTrendShifts,
+  calcSeasonalCrossStats,
+  calcPredictiveIndicators,
+  calcDailyPredictiveContext,
+  formatDeepStatsForPrompt,
 } from './deepAnalyzer';
-import type { DiaryEntry } from '../types';
+import type { DiaryEntry, AiUsage, CustomAnalysisType } from '../types';
+import { addAiUsageRecord, getAiCostSince, savePromptVersion } from '../db';
+import { toAiUsage, getMonthlyBudgetUsd, monthStartISO, BudgetExceededError } from './aiUsage';
 import {
   OUTPUT_FORMAT_RULE,
   AI_OUTPUT_DETECTION,
@@ -13,17 +20,37 @@ import {
   BANNED_PHRASES_BASE,
   OTHER_PERSON_BEHAVIOR_RULE,
   CORRECTION_CONTEXT_RULE,
+  PROMPT_PARTS,
 } from './promptParts';
-import { toDateOnly, compareDateOnly } from './dateNormalize';
+import { entryDay, compareEntryTime } from './dayBoundary';
+import { toPlannedRequest, type PlannedRequest } from './preflight';
+import { getFavoriteSamplingMode, partitionByFavorite, type FavoriteSamplingMode } from './favoriteSampling';
+import { getAnalysisLabel } from './analysisTypes';
+import { hashPromptVersion, getSystemPrompt, replaceSystemPrompt } from './promptVersion';
+
+export { ApiOverloadError } from './aiProvider';
+
+export interface AiCallOptions extends ChatOptions {
+  /** 使用量台帳に残す用途（AnalysisType のキー、または 'fragments'） */
+  purpose?: string;
+  /** 呼び出しが終わるたびに、その回の使用量を受け取る */
+  onUsage?: (usage: AiUsage) => void;
+  /** 指定すると送らずに、送るはずだったリクエストだけを受け取る（事前の見積もり用） */
+  onPayload?: (request: PlannedRequest) => void;
+  /** 送ったプロンプトの版を受け取る */
+  onPromptVersion?: (version: string) => void;
+  /** システムプロンプトをこの本文に差し替えて送る（A/B比較用） */
+  systemPrompt?: string;
+  /** 設定のモデルの代わりにこのモデルで送る（A/B比較用） */
+  model?: string;
+}
 
 /** 分析関数が「今日」として認識する日付とエントリ数を返す（診断用） */
 export function detectAnalysisToday(entries: DiaryEntry[]): { date: string; count: number } | null {
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
   if (sorted.length === 0) return null;
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
-  const todayEntries = sorted.filter(e => toDateOnly(e.date!) === latestDateStr);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
+  const todayEntries = sorted.filter(e => entryDay(e) === latestDateStr);
   return { date: latestDateStr, count: todayEntries.length };
 }
 
@@ -34,95 +61,70 @@ function subtractDaysISO(dateStr: string, days: number): string {
   return d.toISOString().substring(0, 10);
 }
 
-interface ChatMessage {
-  role: 'system' | 'user';
-  content: string;
-}
-
-interface ChatResult {
-  text: string;
-  stopReason: string;
+// 月の予算を設定していれば、今月の推定費用が予算に達した時点で止める
+async function assertWithinBudget(): Promise<void> {
+  const budget = getMonthlyBudgetUsd();
+  if (budget === null) return;
+  const spent = await getAiCostSince(monthStartISO(new Date()));
+  if (spent >= budget) throw new BudgetExceededError(spent, budget);
 }
 
-/** API過負荷（529）/ レート制限（429）エラー — 呼び出し元でキャッチしてバッチ単位のリトライに使う */
-export class ApiOverloadError extends Error {
-  retryAfterMs: number;
-  constructor(message: string, retryAfterMs = 0) {
-    super(message);
-    this.name = 'ApiOverloadError';
-    this.retryAfterMs = retryAfterMs;
+// 設定で選んだ接続先（Anthropic / OpenAI 互換 / ローカル）に送り、使用量とプロンプトの版を残す。
+// 使用量は、ストリーミングを中断した・途中で失敗したときも、それまでに届いた分を残す（月の予算に数えるため）。
+// promptExtras はユーザーメッセージに入るが日記によらない指示（版のハッシュに含める）
+async function callChatRaw(
+  messages: ChatMessage[],
+  maxTokens = 1024,
+  options: AiCallOptions = {},
+  promptExtras: string[] = [],
+): Promise<ChatResult> {
+  const sent = options.systemPrompt !== undefined ? replaceSystemPrompt(messages, options.systemPrompt) : messages;
+  const purpose = options.purpose ?? 'unknown';
+  if (options.onPayload) {
+    options.onPayload(toPlannedRequest(purpose, sent, maxTokens));
+    return { text: '', stopReason: 'end_turn' };
   }
-}
-
-/** Retry-After ヘッダーからミリ秒を取得（なければ 0） */
-function parseRetryAfterMs(res: Response): number {
-  const header = res.headers.get('retry-after');
-  if (!header) return 0;
-  const seconds = Number(header);
-  return isNaN(seconds) || seconds <= 0 ? 0 : seconds * 1000;
-}
-
-async function callChatRaw(messages: ChatMessage[], maxTokens = 1024): Promise<ChatResult> {
-  const key = getApiKey();
-  if (!key) throw new Error('APIキーが設定されていません。設定ページで入力してください。');
-
-  // system メッセージを抽出（Anthropic APIではsystemパラメータとして渡す）
-  const systemMessages = messages.filter(m => m.role === 'system');
-  const userMessages = messages.filter(m => m.role !== 'system');
-  const systemPrompt = systemMessages.map(m => m.content).join('\n\n');
-
-  const MAX_RETRIES = 3;
-  const RETRY_DELAYS = [2000, 4000, 8000]; // ms — 指数バックオフ
-
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    const res = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': key,
-        'anthropic-version': '2023-06-01',
-        'anthropic-dangerous-direct-browser-access': 'true',
+  await assertWithinBudget();
+  const config = options.model ? { ...getAiProviderConfig(), model: options.model } : getAiProviderConfig();
+  const startedAt = Date.now();
+  let tokens: TokenUsage | undefined;
+  let result: ChatResult;
+  try {
+    result = await sendChat(config, sent, maxTokens, {
+      ...options,
+      onTokenUsage: partial => {
+        tokens = partial;
+        options.onTokenUsage?.(partial);
       },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-6',
-        max_tokens: maxTokens,
-        temperature: 0.3,
-        ...(systemPrompt ? { system: systemPrompt } : {}),
-        messages: userMessages.map(m => ({ role: m.role, content: m.content })),
-      }),
     });
-
-    if (!res.ok) {
-      const retryAfterMs = (res.status === 429 || res.status === 529) ? parseRetryAfterMs(res) : 0;
-      const body = await res.text();
-      if (res.status === 401) throw new Error('APIキーが無効です。設定を確認してください。');
-      // 529（過負荷）または 429（レート制限）はリトライ対象
-      // Retry-After ヘッダーがあればその値を使い、なければ固定バックオフ（1回あたり最大30秒）
-      if ((res.status === 529 || res.status === 429) && attempt < MAX_RETRIES) {
-        const delay = retryAfterMs > 0
-          ? Math.min(retryAfterMs, 30_000)
-          : RETRY_DELAYS[attempt];
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-      if (res.status === 429) throw new ApiOverloadError('リクエスト制限に達しました。しばらく待ってください。', retryAfterMs);
-      if (res.status === 529) throw new ApiOverloadError('APIサーバーが混雑しています。しばらく待ってからもう一度お試しください。', retryAfterMs);
-      throw new Error(`API呼び出しに失敗しました (${res.status}): ${body}`);
+    tokens = result.usage ?? tokens;
+  } finally {
+    if (tokens) {
+      const usage = toAiUsage(config, tokens);
+      await addAiUsageRecord({
+        id: crypto.randomUUID(),
+        calledAt: new Date().toISOString(),
+        purpose,
+        durationMs: Date.now() - startedAt,
+        ...usage,
+      });
+      options.onUsage?.(usage);
     }
-
-    const data = await res.json();
-    return {
-      text: data.content?.[0]?.text ?? '',
-      stopReason: data.stop_reason ?? 'unknown',
-    };
   }
-
-  // ここには到達しないはずだが型安全のため
-  throw new Error('APIサーバーが混雑しています。しばらく待ってからもう一度お試しください。');
+  const system = getSystemPrompt(sent);
+  const version = hashPromptVersion([system, ...promptExtras]);
+  await savePromptVersion({ version, purpose, system, firstUsedAt: new Date().toISOString() });
+  options.onPromptVersion?.(version);
+  return result;
 }
 
-async function callChat(messages: ChatMessage[], maxTokens = 1024): Promise<string> {
-  const result = await callChatRaw(messages, maxTokens);
+async function callChat(
+  messages: ChatMessage[],
+  maxTokens = 1024,
+  options?: AiCallOptions,
+  promptExtras?: string[],
+): Promise<string> {
+  const result = await callChatRaw(messages, maxTokens, options, promptExtras);
   return result.text;
 }
 
@@ -135,10 +137,21 @@ function sampleSliceFromArray(slice: DiaryEntry[], count: number): DiaryEntry[]
 
 // 時系列で均等にサンプリングする（年ごとに最低保証枠あり）
 // 追加: 直近30日のエントリは必ず全件含める
-function sampleUniform(entries: DiaryEntry[], maxCount: number): DiaryEntry[] {
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+// お気に入りの扱いは設定（favoriteSampling）に従う
+function sampleUniform(
+  entries: DiaryEntry[],
+  maxCount: number,
+  favoriteMode: FavoriteSamplingMode = getFavoriteSamplingMode(),
+): DiaryEntry[] {
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
+  const { pinned, pool, budget } = partitionByFavorite(sorted, maxCount, favoriteMode);
+  if (pinned.length === 0) return sampleUniformSorted(pool, budget);
+  return [...pinned, ...sampleUniformSorted(pool, budget)]
+    .sort((a, b) => compareEntryTime(a, b));
+}
+
+function sampleUniformSorted(sorted: DiaryEntry[], maxCount: number): DiaryEntry[] {
+  if (maxCount <= 0) return [];
   if (sorted.length <= maxCount) return sorted;
 
   // 直近30日のエントリは必ず含める
@@ -154,7 +167,7 @@ function sampleUniform(entries: DiaryEntry[], maxCount: number): DiaryEntry[] {
   // 年ごとにグループ化
   const byYear = new Map<string, DiaryEntry[]>();
   for (const e of rest) {
-    const year = e.date!.substring(0, 4);
+    const year = entryDay(e)!.substring(0, 4);
     const list = byYear.get(year) ?? [];
     list.push(e);
     byYear.set(year, list);
@@ -180,15 +193,15 @@ function sampleUniform(entries: DiaryEntry[], maxCount: number): DiaryEntry[] {
     result.push(...sampleSliceFromArray(yearEntries, budget));
   }
 
-  return [...result, ...mustInclude].sort((a, b) => compareDateOnly(a.date ?? '', b.date ?? ''));
+  return [...result, ...mustInclude].sort((a, b) => compareEntryTime(a, b));
 }
 
 // 直近N日のエントリを確実に取得する（日数ベース）
 function getRecentEntries(sorted: DiaryEntry[], days: number): DiaryEntry[] {
   if (sorted.length === 0) return [];
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
   const cutoffStr = subtractDaysISO(latestDateStr, days);
-  return sorted.filter(e => toDateOnly(e.date!) >= cutoffStr);
+  return sorted.filter(e => entryDay(e)! >= cutoffStr);
 }
 
 function extractVitalPointQuestions(results: string[]): string[] {
@@ -212,17 +225,20 @@ const answeredQuestions: { question: string; answer: string }[] = [
 ];
 
 // 急所 — やさしいだけじゃない。今日の日記から本質を突く一撃
-export async function analyzeVitalPoint(entries: DiaryEntry[], previousResult?: string, pastResults?: string[]): Promise<string> {
+export async function analyzeVitalPoint(
+  entries: DiaryEntry[],
+  previousResult?: string,
+  pastResults?: string[],
+  options?: AiCallOptions,
+): Promise<string> {
   if (entries.length === 0) return '';
 
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
   if (sorted.length === 0) return '';
 
   // 最新日（今日）のエントリのみ
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
-  const todayEntries = sorted.filter(e => toDateOnly(e.date!) === latestDateStr);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
+  const todayEntries = sorted.filter(e => entryDay(e) === latestDateStr);
   if (todayEntries.length === 0) return '今日の日記がありません。';
 
   // 今日の全文 — ここに急所がある
@@ -590,22 +606,20 @@ export async function analyzeVitalPoint(entries: DiaryEntry[], previousResult?:
         truncated,
       ].filter(Boolean).join('\n\n'),
     },
-  ], 3500);
+  ], 3500, options, [answeredHint]);
 }
 
 // 今日の分析 — 過去の蓄積を踏まえた上で、今日だけを見る
 // 友人のように「わかっている」が、「前はこうだったよね」とは言わない
-export async function analyzeTodaysEntry(entries: DiaryEntry[]): Promise<string> {
+export async function analyzeTodaysEntry(entries: DiaryEntry[], options?: AiCallOptions): Promise<string> {
   if (entries.length === 0) return '';
 
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
   if (sorted.length === 0) return '';
 
   // 最新日のエントリのみを「今日」として扱う
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
-  const todayEntries = sorted.filter(e => toDateOnly(e.date!) === latestDateStr);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
+  const todayEntries = sorted.filter(e => entryDay(e) === latestDateStr);
 
   if (todayEntries.length === 0) return '';
 
@@ -615,14 +629,14 @@ export async function analyzeTodaysEntry(entries: DiaryEntry[]): Promise<string>
   // 直近14日のコンテキスト（今日を除く）— 友人の「最近の記憶」
   const twoWeeksAgoStr = subtractDaysISO(latestDateStr, 14);
   const recentContext = sorted.filter(e => {
-    const d = toDateOnly(e.date!);
+    const d = entryDay(e)!;
     return d >= twoWeeksAgoStr && d < latestDateStr;
   });
   const recentTexts = recentContext.map(e => `[${e.date}] ${e.content.slice(0, 150)}`).join('\n---\n').slice(0, 3000);
 
   // より古い期間からサンプリング（友人の「長い付き合いの記憶」）
   // 背景に引っ張られすぎないよう控えめに
-  const olderEntries = sorted.filter(e => toDateOnly(e.date!) < twoWeeksAgoStr);
+  const olderEntries = sorted.filter(e => entryDay(e)! < twoWeeksAgoStr);
   const olderSampled = sampleUniform(olderEntries, 10);
   const olderTexts = olderSampled.map(e => `[${e.date}] ${e.content.slice(0, 60)}`).join('\n---\n').slice(0, 1500);
 
@@ -788,21 +802,19 @@ export async function analyzeTodaysEntry(entries: DiaryEntry[]): Promise<string>
         recentTexts ? `【直近の日記】\n${recentTexts}` : '',
       ].filter(Boolean).join('\n\n'),
     },
-  ], 1200);
+  ], 1200, options);
 }
 
 // 外基準の統合 — 内側を守ったまま外基準を武器に変えるまでの統合プロセスを構造化する
-export async function analyzeExternalStandardsMastery(entries: DiaryEntry[]): Promise<string> {
+export async function analyzeExternalStandardsMastery(entries: DiaryEntry[], options?: AiCallOptions): Promise<string> {
   if (entries.length === 0) return '';
 
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
   if (sorted.length === 0) return '';
 
   // 最新日のエントリのみを「今日」として扱う
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
-  const todayEntries = sorted.filter(e => toDateOnly(e.date!) === latestDateStr);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
+  const todayEntries = sorted.filter(e => entryDay(e) === latestDateStr);
 
   if (todayEntries.length === 0) return '';
 
@@ -812,13 +824,13 @@ export async function analyzeExternalStandardsMastery(entries: DiaryEntry[]): Pr
   // 直近14日のコンテキスト（今日を除く）— 友人の「最近の記憶」
   const twoWeeksAgoStr = subtractDaysISO(latestDateStr, 14);
   const recentContext = sorted.filter(e => {
-    const d = toDateOnly(e.date!);
+    const d = entryDay(e)!;
     return d >= twoWeeksAgoStr && d < latestDateStr;
   });
   const recentTexts = recentContext.map(e => `[${e.date}] ${e.content.slice(0, 200)}`).join('\n---\n').slice(0, 4000);
 
   // より古い期間からサンプリング（友人の「長い付き合いの記憶」）
-  const olderEntries = sorted.filter(e => toDateOnly(e.date!) < twoWeeksAgoStr);
+  const olderEntries = sorted.filter(e => entryDay(e)! < twoWeeksAgoStr);
   const olderSampled = sampleUniform(olderEntries, 20);
   const olderTexts = olderSampled.map(e => `[${e.date}] ${e.content.slice(0, 80)}`).join('\n---\n').slice(0, 3000);
 
@@ -1094,22 +1106,20 @@ export async function analyzeExternalStandardsMastery(entries: DiaryEntry[]): Pr
         todayTexts,
       ].filter(Boolean).join('\n\n'),
     },
-  ], 4000);
+  ], 4000, options);
 }
 
 // 今日の景色 — 今日の日記の「並び」を見せる。要約ではなく、並び順・温度差・つながり
 // フレームワークのバイアスを通さず、今日固有の豊かさを拾う
-export async function analyzeTodaysLandscape(entries: DiaryEntry[]): Promise<string> {
+export async function analyzeTodaysLandscape(entries: DiaryEntry[], options?: AiCallOptions): Promise<string> {
   if (entries.length === 0) return '';
 
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
   if (sorted.length === 0) return '';
 
   // 最新日のエントリのみを「今日」として扱う
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
-  const todayEntries = sorted.filter(e => toDateOnly(e.date!) === latestDateStr);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
+  const todayEntries = sorted.filter(e => entryDay(e) === latestDateStr);
 
   if (todayEntries.length === 0) return '';
 
@@ -1119,7 +1129,7 @@ export async function analyzeTodaysLandscape(entries: DiaryEntry[]): Promise<str
   // 直近30日のコンテキスト（今日を除く）— 「いつもの話題」との差分を見るため
   const thirtyDaysAgoStr = subtractDaysISO(latestDateStr, 30);
   const recentContext = sorted.filter(e => {
-    const d = toDateOnly(e.date!);
+    const d = entryDay(e)!;
     return d >= thirtyDaysAgoStr && d < latestDateStr;
   });
   const recentTexts = recentContext.map(e => `[${e.date}] ${e.content.slice(0, 100)}`).join('\n---\n').slice(0, 3000);
@@ -1248,22 +1258,20 @@ export async function analyzeTodaysLandscape(entries: DiaryEntry[]): Promise<str
         todayTexts,
       ].filter(Boolean).join('\n\n'),
     },
-  ], 2000);
+  ], 2000, options);
 }
 
 // 自然の眼 — 日記の中の自然メタファー・比喩・非人間的イメージを拾い上げる
 // 粘菌、鏡、器と水、草、天気、動物、地形 — 書き手が無意識に選ぶ自然のことばから思考の構造を読む
-export async function analyzeNatureReflection(entries: DiaryEntry[]): Promise<string> {
+export async function analyzeNatureReflection(entries: DiaryEntry[], options?: AiCallOptions): Promise<string> {
   if (entries.length === 0) return '';
 
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
   if (sorted.length === 0) return '';
 
   // 最新日のエントリのみを「今日」として扱う
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
-  const todayEntries = sorted.filter(e => toDateOnly(e.date!) === latestDateStr);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
+  const todayEntries = sorted.filter(e => entryDay(e) === latestDateStr);
 
   if (todayEntries.length === 0) return '';
 
@@ -1273,7 +1281,7 @@ export async function analyzeNatureReflection(entries: DiaryEntry[]): Promise<st
   // 直近30日のコンテキスト（今日を除く）— 比喩の変遷を見るため
   const thirtyDaysAgoStr = subtractDaysISO(latestDateStr, 30);
   const recentContext = sorted.filter(e => {
-    const d = toDateOnly(e.date!);
+    const d = entryDay(e)!;
     return d >= thirtyDaysAgoStr && d < latestDateStr;
   });
   const recentTexts = recentContext.map(e => `[${e.date}] ${e.content.slice(0, 120)}`).join('\n---\n').slice(0, 3000);
@@ -1378,21 +1386,19 @@ export async function analyzeNatureReflection(entries: DiaryEntry[]): Promise<st
         todayTexts,
       ].filter(Boolean).join('\n\n'),
     },
-  ], 1200);
+  ], 1200, options);
 }
 
 // 時間の地層 — 3日・1週間・1ヶ月・1年・3年・5年の各スパンで何が変わったかを読む
 // 今日を起点に、各時点の日記との差分から変化の輪郭を浮かべる
-export async function analyzeTimeChanges(entries: DiaryEntry[]): Promise<string> {
+export async function analyzeTimeChanges(entries: DiaryEntry[], options?: AiCallOptions): Promise<string> {
   if (entries.length === 0) return '';
 
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
   if (sorted.length === 0) return '';
 
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
-  const todayEntries = sorted.filter(e => toDateOnly(e.date!) === latestDateStr);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
+  const todayEntries = sorted.filter(e => entryDay(e) === latestDateStr);
 
   if (todayEntries.length === 0) return '';
 
@@ -1403,7 +1409,7 @@ export async function analyzeTimeChanges(entries: DiaryEntry[]): Promise<string>
     const fromStr = subtractDaysISO(latestDateStr, daysAgo + windowDays);
     const toStr = subtractDaysISO(latestDateStr, daysAgo - windowDays);
     const found = sorted.filter(e => {
-      const d = toDateOnly(e.date!);
+      const d = entryDay(e)!;
       return d >= fromStr && d <= toStr && d !== latestDateStr;
     });
     if (found.length === 0) return '';
@@ -1536,7 +1542,60 @@ export async function analyzeTimeChanges(entries: DiaryEntry[]): Promise<string>
         todayTexts,
       ].join('\n\n'),
     },
-  ], 3000);
+  ], 3000, options);
+}
+
+// ユーザー定義の分析 — 画面で決めたプロンプト・ルール・日記の範囲で今日を読む
+export async function analyzeCustom(
+  type: CustomAnalysisType,
+  entries: DiaryEntry[],
+  options?: AiCallOptions,
+): Promise<string> {
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
+  if (sorted.length === 0) return '';
+
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
+  const todayEntries = sorted.filter(e => entryDay(e) === latestDateStr);
+  const todayTexts = todayEntries.map(e => `[${e.date}] ${e.content}`).join('\n---\n');
+
+  // 今日より前の日記から、選んだ範囲だけを背景として渡す
+  const past = sorted.filter(e => entryDay(e)! < latestDateStr);
+  const context = type.sampleWindow === 'recent30'
+    ? past.filter(e => entryDay(e)! >= subtractDaysISO(latestDateStr, 30))
+    : type.sampleWindow === 'uniform'
+      ? sampleUniform(past, type.sampleCount)
+      : [];
+  const contextTexts = context.map(e => `[${e.date}] ${e.content.slice(0, 200)}`).join('\n---\n').slice(0, 8000);
+
+  let deepStats = '';
+  if (type.includeDeepStats) {
+    const monthlyDeep = calcMonthlyDeepAnalysis(entries);
+    deepStats = formatDeepStatsForPrompt(
+      monthlyDeep,
+      detectTrendShifts(monthlyDeep),
+      calcSeasonalCrossStats(monthlyDeep),
+      calcCurrentStateNumeric(monthlyDeep),
+      calcPredictiveIndicators(monthlyDeep, entries),
+      calcDailyPredictiveContext(entries),
+      calcExistentialDensity30d(entries),
+    );
+  }
+
+  return callChat([
+    {
+      role: 'system',
+      content: [type.systemPrompt, ...type.promptParts.map(key => PROMPT_PARTS[key].text)].join('\n\n'),
+    },
+    {
+      role: 'user',
+      content: [
+        contextTexts ? `【背景: ${type.sampleWindow === 'recent30' ? '直近30日' : '過去'}の日記（抜粋）】\n${contextTexts}` : '',
+        deepStats,
+        '【今日の日記 — これだけが分析の対象】',
+        todayTexts,
+      ].filter(Boolean).join('\n\n'),
+    },
+  ], type.maxTokens, options);
 }
 
 // 横断読み — 複数の分析結果を横断して、形を変えて繰り返し現れるパターンを見つける
@@ -1544,28 +1603,18 @@ export async function analyzeTimeChanges(entries: DiaryEntry[]): Promise<string>
 export async function analyzeCrossReading(
   entries: DiaryEntry[],
   analysisResults: Record<string, string>,
+  options?: AiCallOptions,
 ): Promise<string> {
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
   if (sorted.length === 0) return '';
 
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
-  const todayEntries = sorted.filter(e => toDateOnly(e.date!) === latestDateStr);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
+  const todayEntries = sorted.filter(e => entryDay(e) === latestDateStr);
   const todayTexts = todayEntries.map(e => `[${e.date}] ${e.content}`).join('\n---\n');
 
-  const typeLabels: Record<string, string> = {
-    todaysEntry: '今日',
-    vitalPoint: '急所',
-    externalStandardsMastery: '外基準の統合',
-    todaysLandscape: '今日の景色',
-    natureReflection: '自然の眼',
-    timeChanges: '時間の地層',
-  };
-
   const resultTexts = Object.entries(analysisResults)
     .filter(([, text]) => text)
-    .map(([type, text]) => `【${typeLabels[type] || type}】\n${text}`)
+    .map(([type, text]) => `【${getAnalysisLabel(type)}】\n${text}`)
     .join('\n\n---\n\n');
 
   if (!resultTexts) return '';
@@ -1664,13 +1713,14 @@ export async function analyzeCrossReading(
         resultTexts,
       ].join('\n\n'),
     },
-  ], 1800);
+  ], 1800, options);
 }
 
 // ── 宝物庫: 日記から光っている一文を自動抽出 ──
 
 export async function extractFragments(
   entries: DiaryEntry[],
+  options?: AiCallOptions,
 ): Promise<{ entryId: string; entryDate: string | null; text: string }[]> {
   if (entries.length === 0) return [];
 
@@ -1714,7 +1764,7 @@ export async function extractFragments(
   let maxTokens = Math.max(1024, entries.length * 200);
   let result: ChatResult | null = null;
   for (let attempt = 0; attempt < 2; attempt++) {
-    result = await callChatRaw(messages, maxTokens);
+    result = await callChatRaw(messages, maxTokens, { ...options, purpose: 'fragments' });
     if (result.stopReason !== 'max_tokens') break;
     maxTokens *= 2;
   }
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CUSTOM_DRAFT,
+  MAX_CUSTOM_MAX_TOKENS,
+  isCustomAnalysisType,
+  validateCustomDraft,
+  toCustomAnalysisType,
+  describeCustomAnalysis,
+  type CustomAnalysisDraft,
+} from './customAnalysis';
+
+const draft: CustomAnalysisDraft = {
+  ...DEFAULT_CUSTOM_DRAFT,
+  name: '身体の声',
+  systemPrompt: '今日の日記から、身体の感覚について書かれたところだけを拾う。',
+};
+
+describe('validateCustomDraft', () => {
+  it('名前とシステムプロンプトがあれば保存できる', () => {
+    expect(validateCustomDraft(draft)).toBeNull();
+  });
+
+  it('空白だけの名前やプロンプトは受け付けない', () => {
+    expect(validateCustomDraft({ ...draft, name: '  ' })).toContain('名前');
+    expect(validateCustomDraft({ ...draft, systemPrompt: '\n' })).toContain('システムプロンプト');
+  });
+
+  it('最大トークン数は範囲内の整数だけ', () => {
+    expect(validateCustomDraft({ ...draft, maxTokens: 100 })).toContain('最大トークン数');
+    expect(validateCustomDraft({ ...draft, maxTokens: MAX_CUSTOM_MAX_TOKENS + 1 })).toContain('最大トークン数');
+    expect(validateCustomDraft({ ...draft, maxTokens: 1500.5 })).toContain('最大トークン数');
+  });
+
+  it('件数は均等に選ぶときだけ確かめる', () => {
+    expect(validateCustomDraft({ ...draft, sampleWindow: 'today', sampleCount: 0 })).toBeNull();
+    expect(validateCustomDraft({ ...draft, sampleWindow: 'uniform', sampleCount: 0 })).toContain('件数');
+  });
+});
+
+describe('toCustomAnalysisType', () => {
+  it('新規作成では custom- で始まる id を振り、前後の空白と重複したルールを除く', () => {
+    const type = toCustomAnalysisType(
+      { ...draft, name: ' 身体の声 ', promptParts: ['outputFormat', 'outputFormat', 'bannedPhrases'] },
+      undefined,
+      '2025-03-01T00:00:00.000Z',
+    );
+    expect(isCustomAnalysisType(type.id)).toBe(true);
+    expect(type.name).toBe('身体の声');
+    expect(type.promptParts).toEqual(['outputFormat', 'bannedPhrases']);
+    expect(type.createdAt).toBe('2025-03-01T00:00:00.000Z');
+  });
+
+  it('編集では id と作成日時を引き継ぎ、更新日時だけ変える', () => {
+    const existing = toCustomAnalysisType(draft, undefined, '2025-03-01T00:00:00.000Z');
+    const edited = toCustomAnalysisType({ ...draft, maxTokens: 3000 }, existing, '2025-03-02T00:00:00.000Z');
+    expect(edited.id).toBe(existing.id);
+    expect(edited.createdAt).toBe('2025-03-01T00:00:00.000Z');
+    expect(edited.updatedAt).toBe('2025-03-02T00:00:00.000Z');
+    expect(edited.maxTokens).toBe(3000);
+  });
+});
+
+describe('isCustomAnalysisType', () => {
+  it('組み込みの分析タイプは対象外', () => {
+    expect(isCustomAnalysisType('vitalPoint')).toBe(false);
+  });
+});
+
+describe('describeCustomAnalysis', () => {
+  it('渡す日記の範囲・統計の有無・出力上限をまとめる', () => {
+    const type = toCustomAnalysisType({ ...draft, sampleWindow: 'uniform', sampleCount: 50, includeDeepStats: true });
+    expect(describeCustomAnalysis(type)).toBe('今日＋全期間から均等に50件 / 統計あり / 最大2000トークン');
+    expect(describeCustomAnalysis({ ...type, sampleWindow: 'today', includeDeepStats: false })).toBe('今日だけ / 最大2000トークン');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * ユーザー定義の分析タイプ
+ *
+ * 名前・システムプロンプト・足すルール・渡す日記の範囲・統計の有無・出力上限を画面から決める。
+ * id は 'custom-' で始まり、キャッシュ・AIログ・横断読みでは組み込みの分析と同じように扱う。
+ */
+import type { CustomAnalysisType, CustomSampleWindow, PromptPartKey } from '../types';
+
+const ID_PREFIX = 'custom-';
+
+export const MIN_CUSTOM_MAX_TOKENS = 256;
+export const MAX_CUSTOM_MAX_TOKENS = 8000;
+export const MAX_CUSTOM_SAMPLE_COUNT = 200;
+
+/** 編集中の内容（id と日時を除いたもの） */
+export type CustomAnalysisDraft = Omit<CustomAnalysisType, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const DEFAULT_CUSTOM_DRAFT: CustomAnalysisDraft = {
+  name: '',
+  systemPrompt: '',
+  promptParts: ['outputFormat', 'aiOutputDetection'],
+  sampleWindow: 'today',
+  sampleCount: 30,
+  includeDeepStats: false,
+  maxTokens: 2000,
+};
+
+export const SAMPLE_WINDOW_LABELS: Record<CustomSampleWindow, string> = {
+  today: '今日だけ',
+  recent30: '今日＋直近30日',
+  uniform: '今日＋全期間から均等に',
+};
+
+export function isCustomAnalysisType(type: string): boolean {
+  return type.startsWith(ID_PREFIX);
+}
+
+/** 保存できない理由（問題なければ null） */
+export function validateCustomDraft(draft: CustomAnalysisDraft): string | null {
+  if (!draft.name.trim()) return '名前を入力してください';
+  if (!draft.systemPrompt.trim()) return 'システムプロンプトを入力してください';
+  if (!Number.isInteger(draft.maxTokens) || draft.maxTokens < MIN_CUSTOM_MAX_TOKENS || draft.maxTokens > MAX_CUSTOM_MAX_TOKENS) {
+    return `最大トークン数は ${MIN_CUSTOM_MAX_TOKENS}〜${MAX_CUSTOM_MAX_TOKENS} の整数で指定してください`;
+  }
+  if (draft.sampleWindow === 'uniform'
+    && (!Number.isInteger(draft.sampleCount) || draft.sampleCount < 1 || draft.sampleCount > MAX_CUSTOM_SAMPLE_COUNT)) {
+    return `均等に選ぶ件数は 1〜${MAX_CUSTOM_SAMPLE_COUNT} の整数で指定してください`;
+  }
+  return null;
+}
+
+/** 下書きから保存する定義を作る（existing があれば id と作成日時を引き継ぐ） */
+export function toCustomAnalysisType(
+  draft: CustomAnalysisDraft,
+  existing?: CustomAnalysisType,
+  now = new Date().toISOString(),
+): CustomAnalysisType {
+  const promptParts: PromptPartKey[] = [...new Set(draft.promptParts)];
+  return {
+    ...draft,
+    name: draft.name.trim(),
+    systemPrompt: draft.systemPrompt.trim(),
+    promptParts,
+    id: existing?.id ?? `${ID_PREFIX}${crypto.randomUUID()}`,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/** 一覧に出す短い説明（例: 今日＋全期間から均等に50件 / 統計あり / 最大2000トークン） */
+export function describeCustomAnalysis(type: CustomAnalysisType): string {
+  const window = type.sampleWindow === 'uniform'
+    ? `${SAMPLE_WINDOW_LABELS.uniform}${type.sampleCount}件`
+    : SAMPLE_WINDOW_LABELS[type.sampleWindow];
+  return [window, type.includeDeepStats ? '統計あり' : '', `最大${type.maxTokens}トークン`].filter(Boolean).join(' / ');
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractDate, extractDateFromFilename, DATE_LINE_REGEX } from './dateExtractor';
+import { extractDate, extractDateFromFilename, extractTime, DATE_LINE_REGEX } from './dateExtractor';
 
 // ── extractDate ──
 
@@ -137,3 +137,26 @@ describe('DATE_LINE_REGEX', () => {
     expect(DATE_LINE_REGEX.test('2024-01-15に行った')).toBe(false);
   });
 });
+
+// ── extractTime ──
+
+describe('extractTime', () => {
+  it('HH:MM 形式', () => {
+    expect(extractTime('2024-01-15 23:40')).toBe('23:40');
+    expect(extractTime('2024/01/15（月） 7:05:30')).toBe('07:05');
+  });
+
+  it('日本語の時刻', () => {
+    expect(extractTime('2024年1月15日 午後11時40分')).toBe('23:40');
+    expect(extractTime('2024年1月15日 0時半')).toBe('00:30');
+    expect(extractTime('令和6年1月15日 午前12時')).toBe('00:00');
+  });
+
+  it('時刻がなければ null', () => {
+    expect(extractTime('2024-01-15（月）')).toBeNull();
+  });
+
+  it('ありえない時刻は null', () => {
+    expect(extractTime('2024-01-15 25:10')).toBeNull();
+  });
+});
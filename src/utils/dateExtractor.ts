@@ -92,3 +92,25 @@ export function extractDateFromFilename(filename: string): string | null {
   if (m1) return toISO(m1[1], m1[2], m1[3]);
   return null;
 }
+
+/**
+ * 日付行に添えられた時刻を HH:mm で返す（なければ null）
+ * e.g. 2024-01-15 23:40, 2024年1月15日 午後11時40分, 2024/1/15 0時半
+ */
+export function extractTime(line: string): string | null {
+  const colon = line.match(/(?:^|[^\d:])(\d{1,2}):(\d{2})(?![\d])/);
+  if (colon) return toHHmm(Number(colon[1]), Number(colon[2]));
+  const ja = line.match(/(午前|午後)?\s*(\d{1,2})時(?:(\d{1,2})分|(半))?/);
+  if (ja) {
+    let hour = Number(ja[2]);
+    if (ja[1] === '午後' && hour < 12) hour += 12;
+    if (ja[1] === '午前' && hour === 12) hour = 0;
+    return toHHmm(hour, ja[4] ? 30 : Number(ja[3] ?? 0));
+  }
+  return null;
+}
+
+function toHHmm(hour: number, minute: number): string | null {
+  if (hour > 23 || minute > 59) return null;
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
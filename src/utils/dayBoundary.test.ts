@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { entryDay, compareEntryTime } from './dayBoundary';
+import type { DiaryEntry } from '../types';
+
+function makeEntry(id: string, date: string | null, time?: string): DiaryEntry {
+  return {
+    id,
+    date,
+    ...(time ? { time } : {}),
+    content: id,
+    sourceFile: 'a.txt',
+    importedAt: '2024-06-01T00:00:00.000Z',
+    comments: [],
+    isFavorite: false,
+  };
+}
+
+// ── entryDay ──
+
+describe('entryDay', () => {
+  it('区切り前の深夜は前日になる', () => {
+    expect(entryDay(makeEntry('a', '2024-03-01', '02:30'), 4)).toBe('2024-02-29');
+  });
+
+  it('区切り以降はその日のまま', () => {
+    expect(entryDay(makeEntry('a', '2024-03-01', '04:00'), 4)).toBe('2024-03-01');
+  });
+
+  it('区切りが0時なら暦どおり', () => {
+    expect(entryDay(makeEntry('a', '2024-03-01', '00:10'), 0)).toBe('2024-03-01');
+  });
+
+  it('時刻のないエントリは日付どおり、日付不明は null', () => {
+    expect(entryDay(makeEntry('a', '2024-03-01T09:00:00Z'), 4)).toBe('2024-03-01');
+    expect(entryDay(makeEntry('a', null, '01:00'), 4)).toBeNull();
+  });
+});
+
+// ── compareEntryTime ──
+
+describe('compareEntryTime', () => {
+  it('同じ日の中では時刻順、区切り前の深夜は末尾', () => {
+    const entries = [
+      makeEntry('late', '2024-03-02', '01:00'),
+      makeEntry('night', '2024-03-01', '23:00'),
+      makeEntry('morning', '2024-03-01', '08:00'),
+      makeEntry('untimed', '2024-03-01'),
+      makeEntry('next', '2024-03-02', '09:00'),
+    ];
+    const sorted = [...entries].sort((a, b) => compareEntryTime(a, b, 4));
+    expect(sorted.map(e => e.id)).toEqual(['untimed', 'morning', 'night', 'late', 'next']);
+  });
+});
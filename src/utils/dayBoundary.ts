@@ -0,0 +1,69 @@
+/**
+ * 1日の区切り（日付が変わる時刻）
+ *
+ * 深夜に書いた日記を前日のものとして扱えるよう、区切りの時刻を設定できる。
+ * 例: 区切りが 4 時なら、1/16 02:30 に書いた日記は 1/15 の日記になる。
+ * 時刻のわからないエントリは日付どおりに扱う。
+ */
+import type { DiaryEntry } from '../types';
+import { toDateOnly } from './dateNormalize';
+
+const BOUNDARY_KEY = 'climbing-log-day-boundary-hour';
+
+export const DAY_BOUNDARY_HOUR_MAX = 11;
+
+let cachedHour: number | null = null;
+
+/** 設定された区切りの時刻（0〜11時、既定 0 時） */
+export function getDayBoundaryHour(): number {
+  if (cachedHour !== null) return cachedHour;
+  // テストなど localStorage のない環境では既定値
+  const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(BOUNDARY_KEY);
+  const hour = Number(stored);
+  cachedHour = Number.isInteger(hour) && hour >= 0 && hour <= DAY_BOUNDARY_HOUR_MAX ? hour : 0;
+  return cachedHour;
+}
+
+export function setDayBoundaryHour(hour: number): void {
+  cachedHour = Math.min(DAY_BOUNDARY_HOUR_MAX, Math.max(0, Math.floor(hour)));
+  localStorage.setItem(BOUNDARY_KEY, String(cachedHour));
+}
+
+/** HH:mm を分に変換（不正なら null） */
+function toMinutes(time: string | undefined): number | null {
+  const m = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (!m) return null;
+  const minutes = Number(m[1]) * 60 + Number(m[2]);
+  return minutes < 24 * 60 ? minutes : null;
+}
+
+/** YYYY-MM-DD の前日（UTC安全） */
+function previousDay(dateStr: string): string {
+  const d = new Date(dateStr + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().substring(0, 10);
+}
+
+/**
+ * 区切りの時刻を踏まえた、そのエントリが属する日（YYYY-MM-DD）。
+ * 日付不明なら null。
+ */
+export function entryDay(entry: DiaryEntry, boundaryHour = getDayBoundaryHour()): string | null {
+  if (!entry.date) return null;
+  const date = toDateOnly(entry.date);
+  const minutes = toMinutes(entry.time);
+  if (minutes !== null && minutes < boundaryHour * 60) return previousDay(date);
+  return date;
+}
+
+/**
+ * 区切りの時刻を踏まえた時系列の比較関数。
+ * 同じ日の中では時刻順（区切り前の深夜は末尾）、時刻のわからないエントリは先頭。
+ */
+export function compareEntryTime(a: DiaryEntry, b: DiaryEntry, boundaryHour = getDayBoundaryHour()): number {
+  const ad = entryDay(a, boundaryHour) ?? '';
+  const bd = entryDay(b, boundaryHour) ?? '';
+  if (ad !== bd) return ad < bd ? -1 : 1;
+  const offset = (m: number | null) => (m === null ? -1 : (m - boundaryHour * 60 + 24 * 60) % (24 * 60));
+  return offset(toMinutes(a.time)) - offset(toMinutes(b.time));
+}
@@ -13,7 +13,8 @@ import type {
   ExistentialDensity,
 } from '../types';
 import { negativeWords as allNegativeWords, positiveWords as allPositiveWords, countWords } from './emotionDictionaries';
-import { toDateOnly, toMonthKey, compareDateOnly } from './dateNormalize';
+import { toMonthKey } from './dateNormalize';
+import { entryDay, compareEntryTime } from './dayBoundary';
 
 // ── 辞書定義（deepAnalyzer 固有） ──
 
@@ -956,22 +957,20 @@ export function calcPredictiveIndicators(
 // ── 直近30日の存在論的密度 ──
 
 export function calcExistentialDensity30d(entries: DiaryEntry[]): ExistentialDensity {
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(b.date ?? '', a.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(b, a));
   if (sorted.length === 0) {
     return { density: 0, themes: { lifeDeath: 0, identity: 0, completion: 0, intensity: 0, dignity: 0, agency: 0 }, recentEntryCount: 0, highlightWords: [] };
   }
 
   // 最新エントリの日付から30日遡る（UTC安全）
-  const latestDate = toDateOnly(sorted[0].date!);
+  const latestDate = entryDay(sorted[0])!;
   const cutoffD = new Date(latestDate + 'T00:00:00Z');
   cutoffD.setUTCDate(cutoffD.getUTCDate() - 30);
   const cutoff = cutoffD.toISOString().substring(0, 10);
 
   const recentEntries = entries.filter(e => {
-    if (!e.date) return false;
-    return toDateOnly(e.date) >= cutoff;
+    const day = entryDay(e);
+    return day !== null && day >= cutoff;
   });
   if (recentEntries.length === 0) {
     return { density: 0, themes: { lifeDeath: 0, identity: 0, completion: 0, intensity: 0, dignity: 0, agency: 0 }, recentEntryCount: 0, highlightWords: [] };
@@ -1041,9 +1040,7 @@ const interpersonalWords = [
 ];
 
 export function calcDailyPredictiveContext(entries: DiaryEntry[]): DailyPredictiveContext {
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
 
   const result: DailyPredictiveContext = {
     precursorWindowDays: 3,
@@ -1057,7 +1054,7 @@ export function calcDailyPredictiveContext(entries: DiaryEntry[]): DailyPredicti
   // 日付ごとにグループ化
   const byDate = new Map<string, DiaryEntry[]>();
   for (const e of sorted) {
-    const d = toDateOnly(e.date!);
+    const d = entryDay(e)!;
     const list = byDate.get(d) ?? [];
     list.push(e);
     byDate.set(d, list);
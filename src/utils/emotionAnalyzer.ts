@@ -1,6 +1,7 @@
 import type { DiaryEntry, EmotionAnalysis, EmotionAnalysisDaily, StabilityIndex, ElevationPoint, ElevationPointMonthly, ElevationPointDaily, ResilienceMetrics } from '../types';
 import { negativeWords, selfDenialWords, positiveWords, countWords, getEmotionWordCounts } from './emotionDictionaries';
 import { toDateOnly, toMonthKey, toYearKey, compareDateOnly } from './dateNormalize';
+import { entryDay, compareEntryTime } from './dayBoundary';
 
 // ── スコアリング定数 ──
 
@@ -219,8 +220,8 @@ export function analyzeEntriesEveryOtherDay(entries: DiaryEntry[]): EmotionAnaly
   const byDate = new Map<string, DiaryEntry[]>();
 
   for (const entry of entries) {
-    if (!entry.date) continue;
-    const date = toDateOnly(entry.date);
+    const date = entryDay(entry);
+    if (!date) continue;
     const existing = byDate.get(date) ?? [];
     existing.push(entry);
     byDate.set(date, existing);
@@ -255,8 +256,8 @@ export function calcElevationEveryOtherDay(
 
   const countByDate = new Map<string, number>();
   for (const e of entries) {
-    if (!e.date) continue;
-    const d = toDateOnly(e.date);
+    const d = entryDay(e);
+    if (!d) continue;
     countByDate.set(d, (countByDate.get(d) ?? 0) + 1);
   }
 
@@ -407,9 +408,7 @@ export interface RecentStateContext {
 }
 
 export function calcRecentStateContext(entries: DiaryEntry[]): RecentStateContext {
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
 
   if (sorted.length === 0) {
     return {
@@ -423,13 +422,13 @@ export function calcRecentStateContext(entries: DiaryEntry[]): RecentStateContex
   }
 
   // 最新の日付から3ヶ月以内をrecentとする（UTC安全）
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
   const threeMonthsAgo = new Date(latestDateStr + 'T00:00:00Z');
   threeMonthsAgo.setUTCMonth(threeMonthsAgo.getUTCMonth() - 3);
   const cutoffStr = threeMonthsAgo.toISOString().substring(0, 10);
 
-  const recentEntries = sorted.filter(e => toDateOnly(e.date!) >= cutoffStr);
-  const olderEntries = sorted.filter(e => toDateOnly(e.date!) < cutoffStr);
+  const recentEntries = sorted.filter(e => entryDay(e)! >= cutoffStr);
+  const olderEntries = sorted.filter(e => entryDay(e)! < cutoffStr);
 
   // 直近のエントリが少なすぎる場合はコンテキストを生成しない
   // ただし直近1件でもあれば現在の状態は伝える（材料が少ないからと見逃さない）
@@ -572,17 +571,15 @@ export function calcResilience(elevationPoints: { climb: number; isSlide: boolea
 // 直近エントリのハイライトテキスト生成（プロンプト注入用）
 // 直近30日のエントリを丸ごと別枠で渡し、AIが見逃さないようにする
 export function formatRecentEntriesHighlight(entries: DiaryEntry[], maxChars = 5000): string {
-  const sorted = [...entries].filter(e => e.date).sort((a, b) =>
-    compareDateOnly(a.date ?? '', b.date ?? '')
-  );
+  const sorted = [...entries].filter(e => e.date).sort((a, b) => compareEntryTime(a, b));
   if (sorted.length === 0) return '';
 
-  const latestDateStr = toDateOnly(sorted[sorted.length - 1].date!);
+  const latestDateStr = entryDay(sorted[sorted.length - 1])!;
   const cutoffD = new Date(latestDateStr + 'T00:00:00Z');
   cutoffD.setUTCDate(cutoffD.getUTCDate() - 30);
   const cutoffStr = cutoffD.toISOString().substring(0, 10);
 
-  const recentEntries = sorted.filter(e => toDateOnly(e.date!) >= cutoffStr);
+  const recentEntries = sorted.filter(e => entryDay(e)! >= cutoffStr);
   if (recentEntries.length === 0) return '';
 
   const lines = recentEntries.map(e => `[${e.date}] ${e.content.slice(0, 500)}`);
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encryptBackup,
+  encryptBackupWithKey,
+  decryptBackup,
+  isEncryptedBackup,
+  ENCRYPTED_BACKUP_FORMAT,
+  ENCRYPTED_BACKUP_VERSION,
+} from './encryptedBackup';
+import { WrongPassphraseError, deriveKey, toBase64 } from './encryption';
+
+// テストでは反復回数を減らして速くする
+const ITERATIONS = 1000;
+const data = {
+  entries: [{ id: 'e1', date: '2025-03-01', content: '今日は稜線まで歩いた。' }],
+  fragments: [],
+};
+
+describe('encryptBackup / decryptBackup', () => {
+  it('ヘッダーに版と鍵導出の設定を持ち、本文は読めない', async () => {
+    const backup = await encryptBackup(data, 'backup passphrase', ITERATIONS);
+    expect(backup.format).toBe(ENCRYPTED_BACKUP_FORMAT);
+    expect(backup.version).toBe(ENCRYPTED_BACKUP_VERSION);
+    expect(backup.kdf).toMatchObject({ name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS });
+    expect(JSON.stringify(backup)).not.toContain('稜線');
+  });
+
+  it('JSON の文字列にしてから読み戻しても復号できる', async () => {
+    const backup = await encryptBackup(data, 'backup passphrase', ITERATIONS);
+    const restored = JSON.parse(JSON.stringify(backup));
+    expect(isEncryptedBackup(restored)).toBe(true);
+    expect(await decryptBackup(restored, 'backup passphrase')).toEqual(data);
+  });
+
+  it('パスフレーズが違えば WrongPassphraseError', async () => {
+    const backup = await encryptBackup(data, 'backup passphrase', ITERATIONS);
+    await expect(decryptBackup(backup, 'another passphrase')).rejects.toBeInstanceOf(WrongPassphraseError);
+  });
+
+  it('新しい版のファイルは復号を試さずに断る', async () => {
+    const backup = await encryptBackup(data, 'backup passphrase', ITERATIONS);
+    await expect(decryptBackup({ ...backup, version: ENCRYPTED_BACKUP_VERSION + 1 }, 'backup passphrase'))
+      .rejects.toThrow(/新しい版/);
+  });
+
+  it('反復回数が整数でないか範囲外なら、鍵を導かずに断る', async () => {
+    const backup = await encryptBackup(data, 'backup passphrase', ITERATIONS);
+    for (const iterations of [0, 1.5, 10_000_001, Number.NaN]) {
+      await expect(decryptBackup({ ...backup, kdf: { ...backup.kdf, iterations } }, 'backup passphrase'))
+        .rejects.toThrow(/鍵導出の設定/);
+    }
+  });
+});
+
+describe('isEncryptedBackup', () => {
+  it('従来の平文バックアップは暗号化バックアップとみなさない', () => {
+    expect(isEncryptedBackup(data)).toBe(false);
+    expect(isEncryptedBackup(null)).toBe(false);
+  });
+});
+
+describe('encryptBackupWithKey', () => {
+  it('同じソルトと反復回数で導いた鍵なら、パスフレーズで復号できる', async () => {
+    const salt = new Uint8Array(16).fill(3);
+    const key = await deriveKey('lock passphrase', salt, ITERATIONS);
+    const backup = await encryptBackupWithKey(data, key, { salt: toBase64(salt), iterations: ITERATIONS });
+    expect(await decryptBackup(backup, 'lock passphrase')).toEqual(data);
+  });
+});
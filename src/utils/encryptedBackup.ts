@@ -0,0 +1,98 @@
+/**
+ * 暗号化したバックアップファイル
+ *
+ * バックアップの JSON をまるごと AES-GCM で暗号化し、復号に要るもの（版・ソルト・鍵導出の設定・IV）を
+ * 平文のヘッダーとして添えた JSON にする。パスフレーズはアプリのロック（encryption.ts）とは別に、書き出すたびに決める。
+ * 暗号化していない従来のバックアップ JSON もそのまま読み込める（isEncryptedBackup で見分ける）。
+ */
+import { deriveKey, toBase64, fromBase64, WrongPassphraseError, PBKDF2_ITERATIONS } from './encryption';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'climbing-log-encrypted-backup';
+export const ENCRYPTED_BACKUP_VERSION = 1;
+// 鍵導出の反復回数として受け入れる範囲。ファイルに書かれた値のまま導出するので、極端な値で固まらないようにする
+const MAX_KDF_ITERATIONS = 10_000_000;
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }; // salt は base64
+  cipher: { name: 'AES-GCM'; iv: string }; // iv は base64
+  payload: string; // バックアップ JSON の暗号文（base64）
+}
+
+export function isEncryptedBackup(value: unknown): value is EncryptedBackup {
+  return typeof value === 'object' && value !== null
+    && (value as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+export async function encryptBackup(
+  data: unknown,
+  passphrase: string,
+  iterations = PBKDF2_ITERATIONS,
+): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, iterations);
+  return encryptBackupWithKey(data, key, { salt: toBase64(salt), iterations });
+}
+
+/** 導出済みの鍵で暗号化する。kdf には、その鍵をパスフレーズから導いたときのソルトと反復回数を渡す */
+export async function encryptBackupWithKey(
+  data: unknown,
+  key: CryptoKey,
+  kdf: { salt: string; iterations: number },
+): Promise<EncryptedBackup> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const payload = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(data)),
+  );
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: kdf.iterations, salt: kdf.salt },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    payload: toBase64(new Uint8Array(payload)),
+  };
+}
+
+/** 復号して、中身のバックアップ JSON を返す。パスフレーズが違えば WrongPassphraseError */
+export async function decryptBackup(backup: EncryptedBackup, passphrase: string): Promise<unknown> {
+  return decryptBackupWithKey(backup, await deriveBackupKey(backup, passphrase));
+}
+
+/** ヘッダーのソルトと反復回数で、パスフレーズから鍵を導く（対応していない形式なら導出する前に断る） */
+export async function deriveBackupKey(backup: EncryptedBackup, passphrase: string): Promise<CryptoKey> {
+  assertSupported(backup);
+  return deriveKey(passphrase, fromBase64(backup.kdf.salt), backup.kdf.iterations);
+}
+
+/** 導出済みの鍵で復号する。鍵が違えば WrongPassphraseError */
+export async function decryptBackupWithKey(backup: EncryptedBackup, key: CryptoKey): Promise<unknown> {
+  assertSupported(backup);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(backup.cipher.iv) },
+      key,
+      fromBase64(backup.payload),
+    );
+  } catch {
+    // 鍵が違うか、ファイルが壊れている（AES-GCM では区別できない）
+    throw new WrongPassphraseError();
+  }
+  return JSON.parse(new TextDecoder().decode(plain));
+}
+
+function assertSupported(backup: EncryptedBackup): void {
+  if (backup.version > ENCRYPTED_BACKUP_VERSION) {
+    throw new Error('新しい版のアプリで作られたバックアップです。アプリを更新してから復元してください。');
+  }
+  if (backup.kdf?.name !== 'PBKDF2' || backup.kdf.hash !== 'SHA-256' || backup.cipher?.name !== 'AES-GCM') {
+    throw new Error('対応していない暗号化方式のバックアップです');
+  }
+  const { iterations } = backup.kdf;
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_KDF_ITERATIONS) {
+    throw new Error('鍵導出の設定が正しくないバックアップです');
+  }
+}
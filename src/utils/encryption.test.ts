@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toBase64,
+  fromBase64,
+  isEncryptedValue,
+  validatePassphrase,
+  deriveKey,
+  encryptWithKey,
+  decryptWithKey,
+  encryptString,
+  decryptString,
+  getLockState,
+  ENCRYPTED_PREFIX,
+} from './encryption';
+
+// テストでは反復回数を減らして速くする
+const ITERATIONS = 1000;
+const salt = new Uint8Array(16).fill(7);
+
+describe('toBase64 / fromBase64', () => {
+  it('すべてのバイト値を往復できる', () => {
+    const bytes = new Uint8Array(256).map((_, i) => i);
+    expect(fromBase64(toBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('validatePassphrase', () => {
+  it('短すぎるパスフレーズは断る', () => {
+    expect(validatePassphrase('short', 'short')).toMatch(/8文字以上/);
+  });
+
+  it('確認用と一致しなければ断る', () => {
+    expect(validatePassphrase('long enough', 'long enougH')).toMatch(/一致しません/);
+  });
+
+  it('条件を満たせば null', () => {
+    expect(validatePassphrase('long enough', 'long enough')).toBeNull();
+  });
+});
+
+describe('encryptWithKey / decryptWithKey', () => {
+  it('暗号化した値を同じパスフレーズの鍵で復号できる', async () => {
+    const key = await deriveKey('山の上の日記帳', salt, ITERATIONS);
+    const encrypted = await encryptWithKey(key, '今日は稜線まで歩いた。');
+    expect(encrypted.startsWith(ENCRYPTED_PREFIX)).toBe(true);
+    expect(encrypted).not.toContain('稜線');
+
+    const again = await deriveKey('山の上の日記帳', salt, ITERATIONS);
+    expect(await decryptWithKey(again, encrypted)).toBe('今日は稜線まで歩いた。');
+  });
+
+  it('同じ平文でも毎回ちがう暗号文になる', async () => {
+    const key = await deriveKey('山の上の日記帳', salt, ITERATIONS);
+    expect(await encryptWithKey(key, '同じ文')).not.toBe(await encryptWithKey(key, '同じ文'));
+  });
+
+  it('違うパスフレーズの鍵では復号できない', async () => {
+    const key = await deriveKey('山の上の日記帳', salt, ITERATIONS);
+    const wrong = await deriveKey('山の下の日記帳', salt, ITERATIONS);
+    const encrypted = await encryptWithKey(key, '秘密');
+    await expect(decryptWithKey(wrong, encrypted)).rejects.toThrow();
+  });
+
+  it('書き換えられた暗号文は復号できない', async () => {
+    const key = await deriveKey('山の上の日記帳', salt, ITERATIONS);
+    const bytes = fromBase64((await encryptWithKey(key, '秘密')).slice(ENCRYPTED_PREFIX.length));
+    bytes[bytes.length - 1] ^= 1;
+    await expect(decryptWithKey(key, ENCRYPTED_PREFIX + toBase64(bytes))).rejects.toThrow();
+  });
+
+  it('空文字も往復できる', async () => {
+    const key = await deriveKey('山の上の日記帳', salt, ITERATIONS);
+    expect(await decryptWithKey(key, await encryptWithKey(key, ''))).toBe('');
+  });
+});
+
+describe('isEncryptedValue', () => {
+  it('接頭辞のある文字列だけを暗号文とみなす', () => {
+    expect(isEncryptedValue(`${ENCRYPTED_PREFIX}AAAA`)).toBe(true);
+    expect(isEncryptedValue('今日の日記')).toBe(false);
+    expect(isEncryptedValue(undefined)).toBe(false);
+  });
+});
+
+describe('encryptString / decryptString', () => {
+  it('ロックを使っていなければ平文のまま読み書きする', async () => {
+    expect(getLockState()).toBe('off');
+    expect(await encryptString('今日の日記')).toBe('今日の日記');
+    expect(await decryptString(`${ENCRYPTED_PREFIX}AAAA`)).toBe(`${ENCRYPTED_PREFIX}AAAA`);
+  });
+});
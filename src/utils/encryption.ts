@@ -0,0 +1,245 @@
+/**
+ * 保存データの暗号化（パスフレーズによるロック）
+ *
+ * パスフレーズから PBKDF2-SHA256 で AES-GCM の鍵を導き、日記の本文などを項目ごとに暗号化して保存する。
+ * （Argon2 は WebCrypto にないため、ライブラリなしで使える PBKDF2 を選んでいる）
+ * 鍵はメモリにだけ置き、ロックすると捨てる。ソルトと確認用の暗号文は localStorage に置く。
+ *
+ * 暗号化した値は "enc1:" + base64(IV 12バイト + 暗号文) の文字列。平文と混ざっていても見分けられるので、
+ * 全データの暗号化・解除の途中で閉じても、読み出しはそのまま動き、次のロック解除時に続きを処理できる。
+ */
+
+const SETTINGS_KEY = 'climbing-log-encryption';
+const CHECK_TEXT = 'climbing-log';
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+
+export const ENCRYPTED_PREFIX = 'enc1:';
+export const PBKDF2_ITERATIONS = 600_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_IDLE_LOCK_MINUTES = 10;
+/** 自動ロックまでの分数の選択肢（0 は自動ロックしない） */
+export const IDLE_LOCK_CHOICES = [5, 10, 30, 60, 0];
+
+export interface EncryptionSettings {
+  version: 1;
+  salt: string; // base64
+  iterations: number;
+  check: string; // CHECK_TEXT を暗号化したもの（パスフレーズの確認用）
+  idleMinutes: number; // 操作がなければロックするまでの分数。0 なら自動ロックしない
+  migrating?: 'encrypt' | 'decrypt'; // 全データの暗号化・解除の途中
+}
+
+/** off: ロックを使っていない / locked: 鍵がない / unlocked: 鍵をメモリに持っている */
+export type LockState = 'off' | 'locked' | 'unlocked';
+
+export class LockedError extends Error {
+  constructor() {
+    super('ロック中です。パスフレーズを入力してロックを解除してください。');
+    this.name = 'LockedError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('パスフレーズが違います');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+// ── 暗号の部品 ──
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/** パスフレーズの条件を満たさなければ理由を返す */
+export function validatePassphrase(passphrase: string, confirmation: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上にしてください`;
+  if (passphrase !== confirmation) return '確認用のパスフレーズが一致しません';
+  return null;
+}
+
+export async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function encryptWithKey(key: CryptoKey, plain: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plain));
+  const packed = new Uint8Array(IV_BYTES + cipher.byteLength);
+  packed.set(iv);
+  packed.set(new Uint8Array(cipher), IV_BYTES);
+  return ENCRYPTED_PREFIX + toBase64(packed);
+}
+
+/** 鍵が違う・改ざんされている場合は WebCrypto の OperationError になる */
+export async function decryptWithKey(key: CryptoKey, value: string): Promise<string> {
+  const packed = fromBase64(value.slice(ENCRYPTED_PREFIX.length));
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: packed.subarray(0, IV_BYTES) },
+    key,
+    packed.subarray(IV_BYTES),
+  );
+  return new TextDecoder().decode(plain);
+}
+
+// ── 設定と鍵 ──
+
+let sessionKey: CryptoKey | null = null;
+let cachedSettings: EncryptionSettings | null | undefined;
+const listeners = new Set<() => void>();
+let watchingStorage = false;
+
+function notify(): void {
+  for (const listener of listeners) listener();
+}
+
+export function getEncryptionSettings(): EncryptionSettings | null {
+  if (cachedSettings !== undefined) return cachedSettings;
+  // テストなど localStorage のない環境ではロックなし
+  const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(SETTINGS_KEY);
+  try {
+    cachedSettings = stored ? JSON.parse(stored) as EncryptionSettings : null;
+  } catch {
+    cachedSettings = null;
+  }
+  return cachedSettings;
+}
+
+/** null を渡すとロックをやめ、鍵も捨てる */
+export function saveEncryptionSettings(settings: EncryptionSettings | null): void {
+  cachedSettings = settings;
+  if (settings) {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(SETTINGS_KEY);
+    sessionKey = null;
+  }
+  notify();
+}
+
+export function isEncryptionEnabled(): boolean {
+  return getEncryptionSettings() !== null;
+}
+
+/** 書き込むときに暗号化するか（解除の途中は平文に戻していく） */
+export function isEncrypting(): boolean {
+  const settings = getEncryptionSettings();
+  return settings !== null && settings.migrating !== 'decrypt';
+}
+
+export function getLockState(): LockState {
+  if (!isEncryptionEnabled()) return 'off';
+  return sessionKey ? 'unlocked' : 'locked';
+}
+
+export function subscribeLockState(listener: () => void): () => void {
+  // 別のタブでロックを有効化・解除したら、このタブの鍵は使えなくなる
+  if (!watchingStorage && typeof window !== 'undefined') {
+    watchingStorage = true;
+    window.addEventListener('storage', e => {
+      if (e.key !== SETTINGS_KEY) return;
+      const previousSalt = cachedSettings?.salt;
+      cachedSettings = undefined;
+      if (getEncryptionSettings()?.salt !== previousSalt) sessionKey = null;
+      notify();
+    });
+  }
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** 新しいソルトで鍵を作り、設定（まだ保存しない）と一緒に返す */
+export async function createEncryptionSettings(
+  passphrase: string,
+  idleMinutes: number,
+): Promise<{ settings: EncryptionSettings; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const settings: EncryptionSettings = {
+    version: 1,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await encryptWithKey(key, CHECK_TEXT),
+    idleMinutes,
+  };
+  return { settings, key };
+}
+
+/** 設定を保存し、その鍵でロックを解除した状態にする */
+export function activateEncryption(settings: EncryptionSettings, key: CryptoKey): void {
+  sessionKey = key;
+  saveEncryptionSettings(settings);
+}
+
+/**
+ * パスフレーズから鍵を導き、確認用の暗号文が復号できれば鍵をメモリに置く。
+ * 画面の切り替え（notifyLockChange）は、呼び出し側がキーの復号などを済ませてから行う。
+ */
+export async function unlockEncryption(passphrase: string): Promise<void> {
+  const settings = getEncryptionSettings();
+  if (!settings) return;
+  const key = await deriveKey(passphrase, fromBase64(settings.salt), settings.iterations);
+  let check: string | null = null;
+  try {
+    check = await decryptWithKey(key, settings.check);
+  } catch {
+    // 鍵が違うと復号そのものが失敗する
+  }
+  if (check !== CHECK_TEXT) throw new WrongPassphraseError();
+  sessionKey = key;
+}
+
+/**
+ * ロック解除中の鍵と、その鍵を導いた設定。
+ * 自動バックアップを、ロックと同じパスフレーズで復元できる暗号化バックアップにするために使う。
+ */
+export function getSessionKey(): { key: CryptoKey; settings: EncryptionSettings } | null {
+  const settings = getEncryptionSettings();
+  return sessionKey && settings ? { key: sessionKey, settings } : null;
+}
+
+export function notifyLockChange(): void {
+  notify();
+}
+
+export function lockEncryption(): void {
+  if (!sessionKey) return;
+  sessionKey = null;
+  notify();
+}
+
+/** 書き込む値。ロックを使っていなければ平文のまま返す */
+export async function encryptString(plain: string): Promise<string> {
+  if (!isEncrypting()) return plain;
+  if (!sessionKey) throw new LockedError();
+  return encryptWithKey(sessionKey, plain);
+}
+
+/** 読み出した値。平文（ロックを使っていないときはすべて）はそのまま返す */
+export async function decryptString(value: string): Promise<string> {
+  if (!isEncryptionEnabled() || !isEncryptedValue(value)) return value;
+  if (!sessionKey) throw new LockedError();
+  return decryptWithKey(sessionKey, value);
+}
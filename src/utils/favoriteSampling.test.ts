@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { partitionByFavorite } from './favoriteSampling';
+import type { DiaryEntry } from '../types';
+
+function makeEntry(date: string, isFavorite = false): DiaryEntry {
+  return {
+    id: crypto.randomUUID(),
+    date,
+    content: `${date}の日記`,
+    sourceFile: 'test.txt',
+    importedAt: new Date().toISOString(),
+    comments: [],
+    isFavorite,
+  };
+}
+
+function makeEntries(count: number, favoriteEvery: number): DiaryEntry[] {
+  return Array.from({ length: count }, (_, i) => {
+    const d = new Date(Date.UTC(2020, 0, 1 + i)).toISOString().slice(0, 10);
+    return makeEntry(d, i % favoriteEvery === 0);
+  });
+}
+
+// ── partitionByFavorite ──
+
+describe('partitionByFavorite', () => {
+  it('off は全件を母集団にする', () => {
+    const entries = makeEntries(20, 4);
+    const result = partitionByFavorite(entries, 10, 'off');
+    expect(result.pinned).toEqual([]);
+    expect(result.pool).toBe(entries);
+    expect(result.budget).toBe(10);
+  });
+
+  it('only はお気に入りだけを母集団にする', () => {
+    const entries = makeEntries(20, 4);
+    const result = partitionByFavorite(entries, 10, 'only');
+    expect(result.pool).toHaveLength(5);
+    expect(result.pool.every(e => e.isFavorite)).toBe(true);
+    expect(result.budget).toBe(10);
+  });
+
+  it('お気に入りが0件なら only でも全件', () => {
+    const entries = makeEntries(20, 100).map(e => ({ ...e, isFavorite: false }));
+    const result = partitionByFavorite(entries, 10, 'only');
+    expect(result.pool).toHaveLength(20);
+  });
+
+  it('prefer は枠の半分までお気に入りを確保する', () => {
+    const entries = makeEntries(100, 2); // お気に入り50件
+    const result = partitionByFavorite(entries, 10, 'prefer');
+    expect(result.pinned).toHaveLength(5);
+    expect(result.pinned.every(e => e.isFavorite)).toBe(true);
+    expect(result.budget).toBe(5);
+    expect(result.pool).toHaveLength(95);
+  });
+
+  it('prefer でお気に入りが枠より少なければ全件確保して残りを通常枠に回す', () => {
+    const entries = makeEntries(100, 50); // お気に入り2件
+    const result = partitionByFavorite(entries, 10, 'prefer');
+    expect(result.pinned).toHaveLength(2);
+    expect(result.budget).toBe(8);
+    expect(result.pool.some(e => result.pinned.includes(e))).toBe(false);
+  });
+
+  it('prefer で確保するお気に入りは期間全体から均等に選ぶ', () => {
+    const entries = makeEntries(100, 1); // 全件お気に入り
+    const result = partitionByFavorite(entries, 10, 'prefer');
+    expect(result.pinned[0].date).toBe(entries[0].date);
+    expect(result.pinned[4].date).toBe(entries[80].date);
+  });
+});
@@ -0,0 +1,59 @@
+import type { DiaryEntry } from '../types';
+
+const MODE_KEY = 'climbing-log-favorite-sampling';
+
+/**
+ * AI分析で過去の日記をサンプリングするときのお気に入りの扱い
+ * - off: お気に入りを区別しない
+ * - only: お気に入りだけからサンプリングする（お気に入りが0件なら off と同じ）
+ * - prefer: 枠の半分までをお気に入りで埋め、残りを通常どおりサンプリングする
+ */
+export type FavoriteSamplingMode = 'off' | 'only' | 'prefer';
+
+/** prefer モードでお気に入りに割り当てる枠の割合 */
+export const FAVORITE_PREFER_RATIO = 0.5;
+
+export function getFavoriteSamplingMode(): FavoriteSamplingMode {
+  const mode = localStorage.getItem(MODE_KEY);
+  return mode === 'only' || mode === 'prefer' ? mode : 'off';
+}
+
+export function setFavoriteSamplingMode(mode: FavoriteSamplingMode): void {
+  localStorage.setItem(MODE_KEY, mode);
+}
+
+// 配列から均等な間隔で count 件を取り出す
+function pickEvenly(list: DiaryEntry[], count: number): DiaryEntry[] {
+  if (list.length <= count) return list;
+  const step = list.length / count;
+  return Array.from({ length: count }, (_, i) => list[Math.floor(i * step)]);
+}
+
+/**
+ * サンプリング前にお気に入りで母集団と枠を振り分ける。
+ * pinned は必ず含めるエントリ、pool と budget は通常のサンプリングに渡す母集団と残り枠。
+ * 入力は日付昇順を想定し、順序は保持する。
+ */
+export function partitionByFavorite(
+  entries: DiaryEntry[],
+  maxCount: number,
+  mode: FavoriteSamplingMode,
+): { pinned: DiaryEntry[]; pool: DiaryEntry[]; budget: number } {
+  const favorites = entries.filter(e => e.isFavorite);
+  if (mode === 'off' || favorites.length === 0) {
+    return { pinned: [], pool: entries, budget: maxCount };
+  }
+
+  if (mode === 'only') {
+    return { pinned: [], pool: favorites, budget: maxCount };
+  }
+
+  const favoriteBudget = Math.floor(maxCount * FAVORITE_PREFER_RATIO);
+  const pinned = pickEvenly(favorites, favoriteBudget);
+  const pinnedIds = new Set(pinned.map(e => e.id));
+  return {
+    pinned,
+    pool: entries.filter(e => !pinnedIds.has(e.id)),
+    budget: maxCount - pinned.length,
+  };
+}
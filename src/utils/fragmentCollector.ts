@@ -0,0 +1,59 @@
+/**
+ * 宝物庫の収集
+ *
+ * 日記を数件ずつのバッチにして光っている一文を抜き出し、宝物庫に保存する。
+ * 一文が見つからなかったエントリにはスキップマーカーを残し、次の収集で再び送らない。
+ */
+import type { DiaryEntry, Fragment } from '../types';
+import { getEntry, addFragments } from '../db';
+import { extractFragments, type AiCallOptions } from './claude';
+
+export const FRAGMENT_BATCH_SIZE = 5;
+
+/** 収集の対象（短すぎる日記は送らない）。新しい日記から処理する */
+export function selectEntriesToCollect(entries: DiaryEntry[], collectedIds: Set<string>): DiaryEntry[] {
+  return entries
+    .filter(e => !collectedIds.has(e.id) && e.content.trim().length > 30)
+    .reverse(); // getAllEntries は日付昇順のため reverse
+}
+
+export function toFragmentBatches(entries: DiaryEntry[]): DiaryEntry[][] {
+  const batches: DiaryEntry[][] = [];
+  for (let i = 0; i < entries.length; i += FRAGMENT_BATCH_SIZE) {
+    batches.push(entries.slice(i, i + FRAGMENT_BATCH_SIZE));
+  }
+  return batches;
+}
+
+/** 1バッチ分を収集して保存する（キューに積んだ後で削除された日記は飛ばす） */
+export async function collectFragmentBatch(entryIds: string[], options?: AiCallOptions): Promise<void> {
+  const entries = (await Promise.all(entryIds.map(id => getEntry(id)))).filter((e): e is DiaryEntry => !!e);
+  if (entries.length === 0) return;
+
+  const results = await extractFragments(entries, options);
+  const foundEntryIds = new Set(results.map(r => r.entryId));
+  const now = new Date().toISOString();
+
+  // 抽出結果とスキップマーカーをまとめて1トランザクションで書き込む
+  const toSave: Fragment[] = results.map(r => ({
+    id: crypto.randomUUID(),
+    entryId: r.entryId,
+    text: r.text,
+    savedAt: now,
+    source: 'auto',
+    entryDate: r.entryDate,
+  }));
+  for (const entry of entries) {
+    if (!foundEntryIds.has(entry.id)) {
+      toSave.push({
+        id: crypto.randomUUID(),
+        entryId: entry.id,
+        text: '',
+        savedAt: now,
+        source: 'auto-skip',
+        entryDate: entry.date,
+      });
+    }
+  }
+  await addFragments(toSave);
+}
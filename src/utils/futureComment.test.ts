@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FUTURE_COMMENT_MAX_LENGTH,
+  countChars,
+  validateFutureComment,
+  createFutureComment,
+  formatElapsedSince,
+  normalizeComments,
+} from './futureComment';
+
+// ── validateFutureComment ──
+
+describe('validateFutureComment', () => {
+  it('空文字・空白のみはエラー', () => {
+    expect(validateFutureComment('')).not.toBeNull();
+    expect(validateFutureComment('   \n')).not.toBeNull();
+  });
+
+  it('140文字ちょうどは通る', () => {
+    expect(validateFutureComment('あ'.repeat(FUTURE_COMMENT_MAX_LENGTH))).toBeNull();
+  });
+
+  it('141文字はエラー', () => {
+    expect(validateFutureComment('あ'.repeat(FUTURE_COMMENT_MAX_LENGTH + 1))).not.toBeNull();
+  });
+
+  it('前後の空白は文字数に含めない', () => {
+    expect(validateFutureComment(`  ${'あ'.repeat(FUTURE_COMMENT_MAX_LENGTH)}  `)).toBeNull();
+  });
+
+  it('サロゲートペアの絵文字は1文字として数える', () => {
+    expect('😀😀'.length).toBe(4);
+    expect(countChars('😀😀')).toBe(2);
+  });
+});
+
+// ── createFutureComment ──
+
+describe('createFutureComment', () => {
+  it('本文をトリムして createdAt を付与', () => {
+    const c = createFutureComment('  未来より  ', new Date('2030-01-01T00:00:00Z'));
+    expect(c.id).toBeTruthy();
+    expect(c.text).toBe('未来より');
+    expect(c.createdAt).toBe('2030-01-01T00:00:00.000Z');
+  });
+});
+
+// ── formatElapsedSince ──
+
+describe('formatElapsedSince', () => {
+  it('年単位', () => {
+    expect(formatElapsedSince('2020-03-15', '2024-03-15T12:00:00Z')).toBe('4年後');
+  });
+
+  it('記念日の前日はまだ前の年数', () => {
+    expect(formatElapsedSince('2020-03-15', '2024-03-14T12:00:00Z')).toBe('3年後');
+  });
+
+  it('1年未満は月単位', () => {
+    expect(formatElapsedSince('2024-01-10', '2024-06-10T00:00:00Z')).toBe('5ヶ月後');
+  });
+
+  it('1ヶ月未満は日単位', () => {
+    expect(formatElapsedSince('2024-01-10', '2024-01-20T00:00:00Z')).toBe('10日後');
+  });
+
+  it('同日は「当日」', () => {
+    expect(formatElapsedSince('2024-01-10', '2024-01-10T23:00:00Z')).toBe('当日');
+  });
+
+  it('ドット区切りの日付も扱える', () => {
+    expect(formatElapsedSince('2020.03.15', '2022-03-15T00:00:00Z')).toBe('2年後');
+  });
+});
+
+// ── normalizeComments ──
+
+describe('normalizeComments', () => {
+  it('配列でなければ空配列', () => {
+    expect(normalizeComments(undefined)).toEqual([]);
+    expect(normalizeComments(null)).toEqual([]);
+  });
+
+  it('不正な要素を除外', () => {
+    const valid = { id: 'a', text: 'ok', createdAt: '2024-01-01T00:00:00Z' };
+    expect(normalizeComments([valid, { id: 'b' }, 'x'])).toEqual([valid]);
+  });
+});
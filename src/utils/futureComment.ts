@@ -0,0 +1,58 @@
+import type { FutureComment } from '../types';
+import { toDateOnly } from './dateNormalize';
+
+/** 未来からのコメントの最大文字数 */
+export const FUTURE_COMMENT_MAX_LENGTH = 140;
+
+/** 文字数をコードポイント単位で数える（絵文字・サロゲートペアを1文字として扱う） */
+export function countChars(text: string): number {
+  return Array.from(text).length;
+}
+
+/** コメント本文を検証する。問題なければ null、あればエラーメッセージを返す */
+export function validateFutureComment(text: string): string | null {
+  const trimmed = text.trim();
+  if (!trimmed) return 'コメントを入力してください';
+  if (countChars(trimmed) > FUTURE_COMMENT_MAX_LENGTH) {
+    return `コメントは${FUTURE_COMMENT_MAX_LENGTH}文字以内で入力してください`;
+  }
+  return null;
+}
+
+/** 新しいコメントを生成する（検証は呼び出し側で済ませておく） */
+export function createFutureComment(text: string, now = new Date()): FutureComment {
+  return {
+    id: crypto.randomUUID(),
+    text: text.trim(),
+    createdAt: now.toISOString(),
+  };
+}
+
+/**
+ * 日記の日付からコメントを書いた時点までの経過を「N年後」の形で返す。
+ * 1年未満は「Nヶ月後」「N日後」、同日以前は「当日」。
+ */
+export function formatElapsedSince(entryDate: string, createdAt: string): string {
+  const from = new Date(toDateOnly(entryDate) + 'T00:00:00Z');
+  const to = new Date(createdAt.substring(0, 10) + 'T00:00:00Z');
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) return '当日';
+
+  let months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+  if (to.getUTCDate() < from.getUTCDate()) months--;
+
+  if (months >= 12) return `${Math.floor(months / 12)}年後`;
+  if (months >= 1) return `${months}ヶ月後`;
+  const days = Math.round((to.getTime() - from.getTime()) / 86_400_000);
+  return `${days}日後`;
+}
+
+/** 古いバックアップ等で comments が欠けているエントリを補正する */
+export function normalizeComments(comments: unknown): FutureComment[] {
+  if (!Array.isArray(comments)) return [];
+  return comments.filter((c): c is FutureComment =>
+    typeof c === 'object' && c !== null
+    && typeof (c as FutureComment).id === 'string'
+    && typeof (c as FutureComment).text === 'string'
+    && typeof (c as FutureComment).createdAt === 'string',
+  );
+}
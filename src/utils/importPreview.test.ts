@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  setEntryDate,
+  previousInSameFile,
+  mergeWithPrevious,
+  splitEntry,
+  groupBySourceFile,
+} from './importPreview';
+import type { DiaryEntry } from '../types';
+
+function makeEntry(id: string, date: string | null, content: string, sourceFile = 'a.txt'): DiaryEntry {
+  return {
+    id,
+    date,
+    content,
+    sourceFile,
+    importedAt: '2024-06-01T00:00:00.000Z',
+    comments: [],
+    isFavorite: false,
+  };
+}
+
+const rows = [
+  makeEntry('1', '2024-01-15', '2024-01-15\n一日目'),
+  makeEntry('2', null, '続きのメモ'),
+  makeEntry('3', '2024-01-20', '別ファイル', 'b.txt'),
+];
+
+// ── setEntryDate ──
+
+describe('setEntryDate', () => {
+  it('指定したエントリの日付だけを変える', () => {
+    const result = setEntryDate(rows, '2', '2024-01-16');
+    expect(result[1].date).toBe('2024-01-16');
+    expect(result[0]).toBe(rows[0]);
+    expect(rows[1].date).toBeNull();
+  });
+});
+
+// ── previousInSameFile / mergeWithPrevious ──
+
+describe('mergeWithPrevious', () => {
+  it('直前のエントリに本文をつなげる', () => {
+    const result = mergeWithPrevious(rows, '2');
+    expect(result).toHaveLength(2);
+    expect(result[0].id).toBe('1');
+    expect(result[0].content).toBe('2024-01-15\n一日目\n\n続きのメモ');
+    expect(result[0].date).toBe('2024-01-15');
+  });
+
+  it('直前が日付不明ならこちらの日付を引き継ぐ', () => {
+    const list = [makeEntry('1', null, '前'), makeEntry('2', '2024-02-01', '後')];
+    expect(mergeWithPrevious(list, '2')[0].date).toBe('2024-02-01');
+  });
+
+  it('別のファイルとは結合しない', () => {
+    expect(previousInSameFile(rows, '3')).toBeNull();
+    expect(mergeWithPrevious(rows, '3')).toBe(rows);
+  });
+
+  it('先頭は結合できない', () => {
+    expect(previousInSameFile(rows, '1')).toBeNull();
+  });
+});
+
+// ── splitEntry ──
+
+describe('splitEntry', () => {
+  const entry = makeEntry('1', '2024-01-15', '2024-01-15\n朝\n2024年1月16日\n夜');
+
+  it('指定行から後ろを別エントリにし、先頭行から日付を読む', () => {
+    const result = splitEntry([entry], '1', 2);
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ id: '1', date: '2024-01-15', content: '2024-01-15\n朝' });
+    expect(result[1]).toMatchObject({ date: '2024-01-16', content: '2024年1月16日\n夜', sourceFile: 'a.txt' });
+    expect(result[1].id).not.toBe('1');
+  });
+
+  it('先頭行に日付がなければ日付不明', () => {
+    expect(splitEntry([entry], '1', 3)[1].date).toBeNull();
+  });
+
+  it('時刻と日記アプリの付加情報は後半に引き継がない', () => {
+    const withMeta: DiaryEntry = { ...entry, time: '07:30', metadata: { app: 'dayone', tags: ['山'] } };
+    const [first, second] = splitEntry([withMeta], '1', 2);
+    expect(first).toMatchObject({ time: '07:30', metadata: { app: 'dayone' } });
+    expect(second).not.toHaveProperty('time');
+    expect(second).not.toHaveProperty('metadata');
+  });
+
+  it('片側が空になる位置では分割しない', () => {
+    const list = [entry];
+    expect(splitEntry(list, '1', 0)).toBe(list);
+    expect(splitEntry(list, '1', 4)).toBe(list);
+  });
+});
+
+// ── groupBySourceFile ──
+
+describe('groupBySourceFile', () => {
+  it('ファイルごとに日付不明・重複を数える', () => {
+    const groups = groupBySourceFile(rows, new Set(['1']));
+    expect(groups.map(g => g.sourceFile)).toEqual(['a.txt', 'b.txt']);
+    expect(groups[0]).toMatchObject({ undated: 1, duplicates: 1 });
+    expect(groups[0].entries.map(e => e.id)).toEqual(['1', '2']);
+    expect(groups[1]).toMatchObject({ undated: 0, duplicates: 0 });
+  });
+});
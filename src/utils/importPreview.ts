@@ -0,0 +1,86 @@
+/**
+ * インポート前のプレビューで行う手直し
+ *
+ * 取り込み候補のエントリ配列を受け取り、新しい配列を返す（元の配列は変更しない）。
+ * 結合・分割は同じファイル内の並び順を前提にしている。
+ */
+import type { DiaryEntry } from '../types';
+import { extractDate } from './dateExtractor';
+
+/** 日付を直す（null で日付不明に戻す） */
+export function setEntryDate(entries: DiaryEntry[], id: string, date: string | null): DiaryEntry[] {
+  return entries.map(e => (e.id === id ? { ...e, date } : e));
+}
+
+/** 同じファイル内で直前のエントリ。なければ null */
+export function previousInSameFile(entries: DiaryEntry[], id: string): DiaryEntry | null {
+  const idx = entries.findIndex(e => e.id === id);
+  if (idx <= 0) return null;
+  const prev = entries[idx - 1];
+  return prev.sourceFile === entries[idx].sourceFile ? prev : null;
+}
+
+/**
+ * 直前のエントリ（同じファイル内）に結合する。
+ * 日付は直前のものを優先し、直前が日付不明ならこちらの日付を使う。
+ */
+export function mergeWithPrevious(entries: DiaryEntry[], id: string): DiaryEntry[] {
+  const prev = previousInSameFile(entries, id);
+  if (!prev) return entries;
+  const current = entries.find(e => e.id === id)!;
+  const merged: DiaryEntry = {
+    ...prev,
+    date: prev.date ?? current.date,
+    content: `${prev.content}\n\n${current.content}`,
+  };
+  return entries.filter(e => e.id !== id).map(e => (e.id === prev.id ? merged : e));
+}
+
+/**
+ * lineIndex 行目から後ろを別のエントリに分ける。
+ * 後半の日付は先頭行から読み取り、読み取れなければ日付不明にする。
+ */
+export function splitEntry(entries: DiaryEntry[], id: string, lineIndex: number): DiaryEntry[] {
+  const idx = entries.findIndex(e => e.id === id);
+  if (idx < 0) return entries;
+  const entry = entries[idx];
+  const lines = entry.content.split('\n');
+  const head = lines.slice(0, lineIndex).join('\n').trim();
+  const tail = lines.slice(lineIndex).join('\n').trim();
+  if (!head || !tail) return entries;
+
+  const second: DiaryEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    date: extractDate(lines[lineIndex]),
+    content: tail,
+    comments: [],
+  };
+  // 書いた時刻と日記アプリの付加情報は前半のものなので、後半には引き継がない
+  delete second.time;
+  delete second.metadata;
+  return [...entries.slice(0, idx), { ...entry, content: head }, second, ...entries.slice(idx + 1)];
+}
+
+export interface PreviewFileSummary {
+  sourceFile: string;
+  entries: DiaryEntry[];
+  undated: number;
+  duplicates: number;
+}
+
+/** ファイルごとにまとめ、日付不明・重複の件数を数える（出現順を保つ） */
+export function groupBySourceFile(entries: DiaryEntry[], duplicateIds: Set<string>): PreviewFileSummary[] {
+  const groups = new Map<string, PreviewFileSummary>();
+  for (const entry of entries) {
+    let group = groups.get(entry.sourceFile);
+    if (!group) {
+      group = { sourceFile: entry.sourceFile, entries: [], undated: 0, duplicates: 0 };
+      groups.set(entry.sourceFile, group);
+    }
+    group.entries.push(entry);
+    if (entry.date === null) group.undated++;
+    if (duplicateIds.has(entry.id)) group.duplicates++;
+  }
+  return [...groups.values()];
+}
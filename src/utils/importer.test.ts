@@ -67,6 +67,16 @@ describe('parseTextFile', () => {
     expect(result[0].comments).toEqual([]);
     expect(result[0].isFavorite).toBe(false);
   });
+
+  it('日付行の時刻を読む', () => {
+    const result = parseTextFile('2024-01-15 23:40\n夜\n2024-01-16\n朝', 'test.txt');
+    expect(result[0].time).toBe('23:40');
+    expect(result[1].time).toBeUndefined();
+  });
+
+  it('単一エントリでも先頭の日付行の時刻を読む', () => {
+    expect(parseTextFile('2024年1月15日 午前1時\n眠れない', 'test.txt')[0].time).toBe('01:00');
+  });
 });
 
 // ── parseJsonFile ──
@@ -177,6 +187,27 @@ describe('parseJsonFile', () => {
     const result = parseJsonFile(json, 'test.json');
     expect(result[0].date).toBe('2024-01-15');
   });
+
+  it('date の時刻部分と time フィールドを読む', () => {
+    const json = JSON.stringify([
+      { date: '2024-01-15T23:40:00', content: 'a' },
+      { date: '2024-01-15', time: '7:05', content: 'b' },
+    ]);
+    const result = parseJsonFile(json, 'test.json');
+    expect(result[0]).toMatchObject({ date: '2024-01-15', time: '23:40' });
+    expect(result[0].timeZone).toBeUndefined();
+    expect(result[1]).toMatchObject({ date: '2024-01-15', time: '07:05' });
+  });
+
+  it('オフセット付きの時刻は timeZone があればその地域の時刻にする', () => {
+    const json = JSON.stringify([
+      { date: '2024-01-15T15:30:00Z', timeZone: 'Asia/Tokyo', content: 'a' },
+      { date: '2024-01-15T15:30:00Z', content: 'b' },
+    ]);
+    const result = parseJsonFile(json, 'test.json');
+    expect(result[0]).toMatchObject({ date: '2024-01-16', time: '00:30', timeZone: 'Asia/Tokyo' });
+    expect(result[1]).toMatchObject({ date: '2024-01-15', time: '15:30', timeZone: 'UTC' });
+  });
 });
 
 // ── importFile ──
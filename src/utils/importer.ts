@@ -1,5 +1,6 @@
 import type { DiaryEntry } from '../types';
-import { extractDate, extractDateFromFilename, DATE_LINE_REGEX } from './dateExtractor';
+import { extractDate, extractDateFromFilename, extractTime, DATE_LINE_REGEX } from './dateExtractor';
+import { parseJournalExport, toLocalDateTime, type EntryWhen } from './journalImporters';
 
 /** 日付文字列を YYYY-MM-DD に正規化（タイムスタンプ混入・セパレータ混在でも安全） */
 function toDateOnly(dateStr: string | null | undefined): string | null {
@@ -12,33 +13,56 @@ function toDateOnly(dateStr: string | null | undefined): string | null {
   return /^\d{4}-\d{2}-\d{2}$/.test(normalized) ? normalized : null;
 }
 
+/**
+ * 汎用 JSON の日付・時刻。date の時刻部分か time フィールドを読み、
+ * timeZone があり date がオフセット付きならその地域の時刻に直す
+ */
+function jsonEntryWhen(item: Record<string, unknown>): EntryWhen {
+  const rawDate = typeof item.date === 'string' ? item.date : undefined;
+  const rawZone = item.timeZone ?? item.timezone;
+  const timeZone = typeof rawZone === 'string' && rawZone ? rawZone : undefined;
+  const date = toDateOnly(rawDate) ?? extractDate(String(item.content ?? '')) ?? null;
+  if (!rawDate || !date) return { date };
+
+  const stamp = rawDate.match(/^\d{4}-\d{2}-\d{2}[T ](\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/);
+  if (stamp?.[2] && timeZone) return toLocalDateTime(new Date(rawDate), timeZone);
+
+  const time = stamp?.[1] ?? (typeof item.time === 'string' ? extractTime(item.time) ?? undefined : undefined);
+  if (!time) return { date, ...(timeZone ? { timeZone } : {}) };
+  // Z 付きで地域がわからなければ UTC として記録する
+  const zone = timeZone ?? (stamp?.[2] === 'Z' ? 'UTC' : undefined);
+  return { date, time, ...(zone ? { timeZone: zone } : {}) };
+}
+
 function generateId(): string {
   return crypto.randomUUID();
 }
 
 // テキスト内の区切り（日付行など）でエントリを分割
-function splitByDates(text: string): { date: string | null; content: string }[] {
+function splitByDates(text: string): { date: string | null; time: string | null; content: string }[] {
   const dateLineRegex = DATE_LINE_REGEX;
   const lines = text.split('\n');
-  const entries: { date: string | null; content: string }[] = [];
+  const entries: { date: string | null; time: string | null; content: string }[] = [];
   let current: string[] = [];
   let currentDate: string | null = null;
+  let currentTime: string | null = null;
 
   for (const line of lines) {
     const trimmedLine = line.trim();
     // 日付行は短い（日付 + 曜日等で40文字以内）。長い行は本文中の日付参照
     if (trimmedLine.length <= 40 && dateLineRegex.test(trimmedLine)) {
       if (current.length > 0 && current.some(l => l.trim())) {
-        entries.push({ date: currentDate, content: current.join('\n').trim() });
+        entries.push({ date: currentDate, time: currentTime, content: current.join('\n').trim() });
       }
       currentDate = extractDate(line);
+      currentTime = extractTime(trimmedLine);
       current = [line];
     } else {
       current.push(line);
     }
   }
   if (current.length > 0 && current.some(l => l.trim())) {
-    entries.push({ date: currentDate, content: current.join('\n').trim() });
+    entries.push({ date: currentDate, time: currentTime, content: current.join('\n').trim() });
   }
 
   return entries;
@@ -51,9 +75,12 @@ export function parseTextFile(text: string, filename: string): DiaryEntry[] {
   // 日付区切りが1つしかなければ単一エントリ
   if (segments.length <= 1) {
     const date = extractDate(text) ?? extractDateFromFilename(filename);
+    // 日付行で始まるなら、その行の時刻も読む
+    const time = segments[0]?.time;
     return [{
       id: generateId(),
       date,
+      ...(time ? { time } : {}),
       content: text.trim(),
       sourceFile: filename,
       importedAt: now,
@@ -65,6 +92,7 @@ export function parseTextFile(text: string, filename: string): DiaryEntry[] {
   return segments.map(seg => ({
     id: generateId(),
     date: seg.date,
+    ...(seg.time ? { time: seg.time } : {}),
     content: seg.content,
     sourceFile: filename,
     importedAt: now,
@@ -77,6 +105,10 @@ export function parseJsonFile(text: string, filename: string): DiaryEntry[] {
   const now = new Date().toISOString();
   const data = JSON.parse(text);
 
+  // Day One / Journey / Diarium のエクスポートは専用の変換でメタデータごと取り込む
+  const journal = parseJournalExport(data, filename, now);
+  if (journal) return journal;
+
   // 配列の場合
   if (Array.isArray(data)) {
     return data
@@ -88,7 +120,7 @@ export function parseJsonFile(text: string, filename: string): DiaryEntry[] {
       })
       .map((item: Record<string, unknown>) => ({
         id: generateId(),
-        date: toDateOnly(item.date as string) ?? extractDate(String(item.content ?? '')) ?? null,
+        ...jsonEntryWhen(item),
         content: String(item.content ?? item.text ?? item.body),
         sourceFile: filename,
         importedAt: now,
@@ -110,7 +142,7 @@ export function parseJsonFile(text: string, filename: string): DiaryEntry[] {
     }
     return [{
       id: generateId(),
-      date: toDateOnly(data.date) ?? extractDate(String(data.content ?? '')) ?? null,
+      ...jsonEntryWhen(data),
       content: String(raw),
       sourceFile: filename,
       importedAt: now,
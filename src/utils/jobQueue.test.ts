@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { retryDelayMs, pickNextJob, nextWakeAt, settleFailedJob, summarizeJobRuns, MAX_JOB_ATTEMPTS } from './jobQueue';
+import { ApiOverloadError } from './aiProvider';
+import { LockedError } from './encryption';
+import type { AiJob } from '../types';
+
+const NOW = Date.parse('2025-01-01T00:00:00.000Z');
+
+function makeJob(overrides: Partial<AiJob> = {}): AiJob {
+  return {
+    id: crypto.randomUUID(),
+    runId: 'run-1',
+    kind: 'analysis',
+    seq: 0,
+    status: 'pending',
+    attempts: 0,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ── retryDelayMs ──
+
+describe('retryDelayMs', () => {
+  it('失敗するたびに倍に延ばし、上限で止める', () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(2)).toBe(60_000);
+    expect(retryDelayMs(10)).toBe(10 * 60_000);
+  });
+
+  it('Retry-After より短くしない', () => {
+    expect(retryDelayMs(1, 120_000)).toBe(120_000);
+  });
+});
+
+// ── pickNextJob ──
+
+describe('pickNextJob', () => {
+  it('run の中では seq の順に実行する', () => {
+    const jobs = [makeJob({ seq: 0, status: 'done' }), makeJob({ seq: 1 }), makeJob({ seq: 2 })];
+    expect(pickNextJob(jobs, NOW)).toBe(jobs[1]);
+  });
+
+  it('先頭が待ち時間中ならその run は待ち、別の run を先に進める', () => {
+    const waiting = makeJob({ seq: 0, nextAttemptAt: '2025-01-01T00:01:00.000Z' });
+    const later = makeJob({ seq: 1 });
+    const other = makeJob({ runId: 'run-2', kind: 'fragments' });
+    expect(pickNextJob([waiting, later, other], NOW)).toBe(other);
+    expect(pickNextJob([waiting, later], NOW)).toBeUndefined();
+    expect(pickNextJob([waiting, later], Date.parse('2025-01-01T00:01:00.000Z'))).toBe(waiting);
+  });
+
+  it('終わったジョブしかなければ何もしない', () => {
+    expect(pickNextJob([makeJob({ status: 'cancelled' }), makeJob({ status: 'failed' })], NOW)).toBeUndefined();
+  });
+});
+
+describe('nextWakeAt', () => {
+  it('待ち時間中のジョブの最も早い再開時刻', () => {
+    const jobs = [
+      makeJob({ nextAttemptAt: '2025-01-01T00:05:00.000Z' }),
+      makeJob({ nextAttemptAt: '2025-01-01T00:02:00.000Z' }),
+      makeJob({ status: 'cancelled', nextAttemptAt: '2025-01-01T00:01:00.000Z' }),
+    ];
+    expect(nextWakeAt(jobs)).toBe(Date.parse('2025-01-01T00:02:00.000Z'));
+    expect(nextWakeAt([makeJob()])).toBeNull();
+  });
+});
+
+// ── settleFailedJob ──
+
+describe('settleFailedJob', () => {
+  it('混雑なら待ってから再試行する', () => {
+    const job = settleFailedJob(makeJob({ status: 'running', attempts: 1 }), new ApiOverloadError('混雑'), NOW);
+    expect(job).toMatchObject({ status: 'pending', error: '混雑', nextAttemptAt: '2025-01-01T00:00:30.000Z' });
+  });
+
+  it('再試行の回数を使い切ったら失敗', () => {
+    const job = settleFailedJob(makeJob({ status: 'running', attempts: MAX_JOB_ATTEMPTS }), new ApiOverloadError('混雑'), NOW);
+    expect(job.status).toBe('failed');
+    expect(job.nextAttemptAt).toBeUndefined();
+  });
+
+  it('中止は中止、それ以外のエラーは再試行しない', () => {
+    expect(settleFailedJob(makeJob({ status: 'running', attempts: 1 }), new DOMException('aborted', 'AbortError'), NOW).status).toBe('cancelled');
+    expect(settleFailedJob(makeJob({ status: 'running', attempts: 1 }), new Error('壊れた応答'), NOW))
+      .toMatchObject({ status: 'failed', error: '壊れた応答' });
+  });
+
+  it('ロックで止めたら、試行回数を戻して解除後にやり直す', () => {
+    const job = settleFailedJob(makeJob({ status: 'running', attempts: 2 }), new LockedError(), NOW);
+    expect(job).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(job.nextAttemptAt).toBeUndefined();
+  });
+});
+
+// ── summarizeJobRuns ──
+
+describe('summarizeJobRuns', () => {
+  it('run ごとに進み具合をまとめ、新しい run を先にする', () => {
+    const jobs = [
+      makeJob({ seq: 0, status: 'done' }),
+      makeJob({ seq: 1, status: 'failed', error: 'E' }),
+      makeJob({ seq: 2, status: 'failed', error: 'E' }),
+      makeJob({ seq: 3, status: 'cancelled' }),
+      makeJob({ runId: 'run-2', kind: 'fragments', createdAt: '2025-01-02T00:00:00.000Z', nextAttemptAt: '2025-01-02T00:01:00.000Z' }),
+    ];
+    const [latest, first] = summarizeJobRuns(jobs);
+    expect(latest).toMatchObject({ runId: 'run-2', kind: 'fragments', active: true, finished: 0, waitingUntil: '2025-01-02T00:01:00.000Z' });
+    expect(first).toMatchObject({ runId: 'run-1', total: 4, finished: 4, failed: 2, cancelled: 1, active: false, errors: ['E'] });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * 再開できるAI処理のジョブキュー
+ *
+ * 「すべて実行」の各分析や宝物庫の収集バッチをジョブとして IndexedDB に積み、1件ずつ順に実行する。
+ * 再読み込みやタブを閉じた後も、次に開いたときに未完了のジョブから再開する。
+ * 中止は DB に残すので、再開時に中止したジョブを蒸し返さない。
+ * API の混雑（ApiOverloadError）は間隔を延ばしながら再試行し、月の予算に達したら残りを止める。
+ * パスフレーズのロック中は日記を読めないので、実行中のジョブを待ちに戻して止め、ロックを解除したら再開する。
+ */
+import type { AiJob, AiJobKind } from '../types';
+import { getAllAiJobs, getAiJob, putAiJobs, deleteAiJobs } from '../db';
+import { ApiOverloadError, isAbortError } from './aiProvider';
+import { BudgetExceededError } from './aiUsage';
+import { LockedError, getLockState, subscribeLockState } from './encryption';
+import type { AiCallOptions } from './claude';
+import { runAnalysis } from './analysisRunner';
+import { collectFragmentBatch } from './fragmentCollector';
+
+export const MAX_JOB_ATTEMPTS = 5;
+const BASE_RETRY_MS = 30_000;
+const MAX_RETRY_MS = 10 * 60_000;
+// 複数のタブで同じジョブを二重に実行しないためのロック
+const LOCK_NAME = 'climbing-log-ai-jobs';
+
+export type NewJob = Pick<AiJob, 'kind' | 'analysisType' | 'entryIds'>;
+
+type JobHandler = (job: AiJob, options: AiCallOptions) => Promise<void>;
+
+const handlers: Record<AiJobKind, JobHandler> = {
+  analysis: async (job, options) => {
+    await runAnalysis(job.analysisType ?? '', options);
+  },
+  fragments: async (job, options) => {
+    // 収集の途中経過は表示しないので、中止用の signal だけ渡す
+    await collectFragmentBatch(job.entryIds ?? [], { signal: options.signal });
+  },
+};
+
+// ── キューの規則 ──
+
+/** 混雑で n 回目に失敗した後の待ち時間。Retry-After があればそれより短くしない */
+export function retryDelayMs(attempts: number, retryAfterMs = 0): number {
+  const backoff = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.max(backoff, retryAfterMs);
+}
+
+function isUnfinished(job: AiJob): boolean {
+  return job.status === 'pending' || job.status === 'running';
+}
+
+/**
+ * 次に実行するジョブ。run の中では seq の順番を守り（先頭が待ち時間中ならその run ごと待つ）、
+ * 古い run を先にする
+ */
+export function pickNextJob(jobs: AiJob[], now: number): AiJob | undefined {
+  const seen = new Set<string>();
+  for (const job of jobs) {
+    if (job.status !== 'pending' || seen.has(job.runId)) continue;
+    seen.add(job.runId);
+    if (!job.nextAttemptAt || Date.parse(job.nextAttemptAt) <= now) return job;
+  }
+  return undefined;
+}
+
+/** 待ち時間中のジョブのうち、最も早い再開時刻（なければ null） */
+export function nextWakeAt(jobs: AiJob[]): number | null {
+  const times = jobs
+    .filter(j => j.status === 'pending' && j.nextAttemptAt)
+    .map(j => Date.parse(j.nextAttemptAt!));
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/**
+ * 失敗したジョブの次の状態（混雑なら待ってから再試行、ロックされたら解除後にやり直す、中止は中止のまま、それ以外は失敗）
+ */
+export function settleFailedJob(job: AiJob, error: unknown, now: number): AiJob {
+  const updatedAt = new Date(now).toISOString();
+  // ロックで止めた回は試行回数に数えない
+  if (error instanceof LockedError) {
+    return { ...job, status: 'pending', attempts: Math.max(0, job.attempts - 1), nextAttemptAt: undefined, updatedAt };
+  }
+  if (isAbortError(error)) return { ...job, status: 'cancelled', nextAttemptAt: undefined, updatedAt };
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ApiOverloadError && job.attempts < MAX_JOB_ATTEMPTS) {
+    const nextAttemptAt = new Date(now + retryDelayMs(job.attempts, error.retryAfterMs)).toISOString();
+    return { ...job, status: 'pending', nextAttemptAt, error: message, updatedAt };
+  }
+  return { ...job, status: 'failed', nextAttemptAt: undefined, error: message, updatedAt };
+}
+
+export interface JobRunSummary {
+  runId: string;
+  kind: AiJobKind;
+  jobs: AiJob[];
+  total: number;
+  finished: number; // 完了・失敗・中止を合わせた数
+  failed: number;
+  cancelled: number;
+  active: boolean; // 未完了のジョブが残っている
+  waitingUntil: string | null; // 混雑で待っているときの再開時刻
+  errors: string[]; // 失敗したジョブのエラー（重複は除く）
+}
+
+/** run ごとの進み具合（新しい run が先） */
+export function summarizeJobRuns(jobs: AiJob[]): JobRunSummary[] {
+  const runs = new Map<string, AiJob[]>();
+  for (const job of jobs) {
+    runs.set(job.runId, [...(runs.get(job.runId) ?? []), job]);
+  }
+  return [...runs.entries()]
+    .map(([runId, runJobs]) => {
+      const waiting = runJobs.find(j => j.status === 'pending' && j.nextAttemptAt);
+      return {
+        runId,
+        kind: runJobs[0].kind,
+        jobs: runJobs,
+        total: runJobs.length,
+        finished: runJobs.filter(j => !isUnfinished(j)).length,
+        failed: runJobs.filter(j => j.status === 'failed').length,
+        cancelled: runJobs.filter(j => j.status === 'cancelled').length,
+        active: runJobs.some(isUnfinished),
+        waitingUntil: waiting?.nextAttemptAt ?? null,
+        errors: [...new Set(runJobs.filter(j => j.status === 'failed' && j.error).map(j => j.error!))],
+      };
+    })
+    .sort((a, b) => b.jobs[0].createdAt.localeCompare(a.jobs[0].createdAt));
+}
+
+// ── 実行 ──
+
+export interface JobQueueState {
+  jobs: AiJob[];
+  activeJobId: string | null;
+  partial: string | null; // 実行中の分析のストリーミング途中経過
+}
+
+let state: JobQueueState = { jobs: [], activeJobId: null, partial: null };
+const listeners = new Set<() => void>();
+let started = false;
+let looping = false;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+let controller: AbortController | null = null;
+let wakeLock: WakeLockSentinel | null = null;
+
+function setState(patch: Partial<JobQueueState>): void {
+  state = { ...state, ...patch };
+  for (const listener of listeners) listener();
+}
+
+export function getJobQueueState(): JobQueueState {
+  return state;
+}
+
+export function subscribeJobQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+async function saveJobs(updated: AiJob[]): Promise<void> {
+  if (updated.length === 0) return;
+  await putAiJobs(updated);
+  const byId = new Map(updated.map(j => [j.id, j]));
+  setState({ jobs: state.jobs.map(j => byId.get(j.id) ?? j) });
+}
+
+async function acquireWakeLock(): Promise<void> {
+  if (wakeLock) return;
+  try {
+    if ('wakeLock' in navigator) {
+      wakeLock = await navigator.wakeLock.request('screen');
+      wakeLock.addEventListener('release', () => { wakeLock = null; });
+    }
+  } catch {
+    // Wake Lock API 非対応 or 権限拒否 — 無視して続行
+  }
+}
+
+function releaseWakeLock(): void {
+  wakeLock?.release();
+  wakeLock = null;
+}
+
+async function withQueueLock(fn: () => Promise<void>): Promise<void> {
+  if ('locks' in navigator) await navigator.locks.request(LOCK_NAME, fn);
+  else await fn();
+}
+
+/** アプリ起動時に一度だけ呼ぶ。DB に残ったジョブを読み込み、未完了があれば再開する */
+export async function startJobQueue(): Promise<void> {
+  if (started) return;
+  started = true;
+  // タブが再びアクティブになったら Wake Lock を再取得
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible' && state.activeJobId) void acquireWakeLock();
+  });
+  subscribeLockState(() => {
+    if (getLockState() === 'locked') pauseJobQueue();
+    else void processQueue();
+  });
+  setState({ jobs: await getAllAiJobs() });
+  void processQueue();
+}
+
+/** ロックされたとき: 実行中のジョブを待ちに戻して止め、混雑の待ち時間が明けても起こさない */
+function pauseJobQueue(): void {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+  controller?.abort(new LockedError());
+}
+
+/** ジョブを積んで実行を始める。同じ種類の終わった run は片付ける */
+export async function enqueueJobs(newJobs: NewJob[]): Promise<string> {
+  const runId = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const jobs: AiJob[] = newJobs.map((job, seq) => ({
+    ...job,
+    id: crypto.randomUUID(),
+    runId,
+    seq,
+    status: 'pending',
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  const kinds = new Set(newJobs.map(j => j.kind));
+  const staleIds = new Set(
+    summarizeJobRuns(state.jobs)
+      .filter(r => !r.active && kinds.has(r.kind))
+      .flatMap(r => r.jobs.map(j => j.id)),
+  );
+  await deleteAiJobs([...staleIds]);
+  await putAiJobs(jobs);
+  setState({ jobs: [...state.jobs.filter(j => !staleIds.has(j.id)), ...jobs] });
+  void processQueue();
+  return runId;
+}
+
+/** run の残りを中止する。DB に残すので、再読み込みしても再開しない */
+export async function cancelJobRun(runId: string): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  const cancelled = state.jobs
+    .filter(j => j.runId === runId && isUnfinished(j))
+    .map(j => ({ ...j, status: 'cancelled' as const, nextAttemptAt: undefined, updatedAt }));
+  await saveJobs(cancelled);
+  if (cancelled.some(j => j.id === state.activeJobId)) controller?.abort();
+}
+
+async function processQueue(): Promise<void> {
+  if (looping || getLockState() === 'locked') return;
+  looping = true;
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+  try {
+    await withQueueLock(async () => {
+      // ロックを待つ間に別のタブが進めた分を取り込み、
+      // 前回の実行中に閉じられたジョブ（running のまま）を積み直す
+      const jobs = await getAllAiJobs();
+      const interrupted = jobs
+        .filter(j => j.status === 'running')
+        .map(j => ({ ...j, status: 'pending' as const }));
+      await putAiJobs(interrupted);
+      const byId = new Map(interrupted.map(j => [j.id, j]));
+      setState({ jobs: jobs.map(j => byId.get(j.id) ?? j) });
+
+      for (let next = pickNextJob(state.jobs, Date.now()); next; next = pickNextJob(state.jobs, Date.now())) {
+        if (getLockState() === 'locked') return;
+        await runJob(next);
+      }
+    });
+  } finally {
+    looping = false;
+    releaseWakeLock();
+  }
+
+  // 実行中に積まれたジョブがあれば続け、混雑で待っているジョブは再開時刻に起こす（ロック中は解除されたときに再開する）
+  if (getLockState() === 'locked') return;
+  if (pickNextJob(state.jobs, Date.now())) {
+    void processQueue();
+    return;
+  }
+  const wakeAt = nextWakeAt(state.jobs);
+  if (wakeAt !== null) wakeTimer = setTimeout(() => void processQueue(), Math.max(0, wakeAt - Date.now()));
+}
+
+async function runJob(job: AiJob): Promise<void> {
+  // 別のタブで中止・削除されていないか確かめてから実行する
+  const stored = await getAiJob(job.id);
+  if (stored?.status !== 'pending') {
+    setState({
+      jobs: stored
+        ? state.jobs.map(j => (j.id === job.id ? stored : j))
+        : state.jobs.filter(j => j.id !== job.id),
+    });
+    return;
+  }
+
+  const running: AiJob = {
+    ...stored,
+    status: 'running',
+    attempts: stored.attempts + 1,
+    nextAttemptAt: undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  await saveJobs([running]);
+  controller = new AbortController();
+  setState({ activeJobId: job.id, partial: null });
+  await acquireWakeLock();
+
+  try {
+    await handlers[job.kind](running, {
+      signal: controller.signal,
+      onText: text => setState({ partial: text }),
+    });
+    await saveJobs([{ ...running, status: 'done', error: undefined, updatedAt: new Date().toISOString() }]);
+  } catch (err) {
+    // ロックで止めたときは、中断の AbortError ではなくロックとして扱う
+    const reason = controller.signal.reason instanceof LockedError ? controller.signal.reason : err;
+    await saveJobs([settleFailedJob(running, reason, Date.now())]);
+    // 予算に達したら、以降のジョブも送らずに止める
+    if (err instanceof BudgetExceededError) {
+      const updatedAt = new Date().toISOString();
+      await saveJobs(state.jobs
+        .filter(j => j.status === 'pending')
+        .map(j => ({ ...j, status: 'cancelled' as const, nextAttemptAt: undefined, error: err.message, updatedAt })));
+    }
+  } finally {
+    controller = null;
+    setState({ activeJobId: null, partial: null });
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonFile } from './importer';
+import { toLocalDateTime, htmlToText } from './journalImporters';
+import dayOneJournal from './__fixtures__/dayone-journal.json?raw';
+import journeyEntry from './__fixtures__/journey-entry.json?raw';
+import journeyNoLocation from './__fixtures__/journey-no-location.json?raw';
+import diariumExport from './__fixtures__/diarium-export.json?raw';
+
+// ── Day One ──
+
+describe('Day One (Journal.json)', () => {
+  const result = parseJsonFile(dayOneJournal, 'Journal.json');
+
+  it('本文のないエントリ（写真だけ）はスキップ', () => {
+    expect(result).toHaveLength(2);
+  });
+
+  it('タイムゾーンでの日付・時刻を使う', () => {
+    // 2023-01-15T15:30Z は東京で 1/16 00:30
+    expect(result[0]).toMatchObject({ date: '2023-01-16', time: '00:30', timeZone: 'Asia/Tokyo' });
+    // 2023-01-16T01:00Z はニューヨークで 1/15 20:00
+    expect(result[1]).toMatchObject({ date: '2023-01-15', time: '20:00', timeZone: 'America/New_York' });
+  });
+
+  it('エスケープと写真の埋め込みを取り除く', () => {
+    expect(result[0].content).toBe('高尾山に登った. 思ったより寒い!\n\n- 帰りにそばを食べた');
+  });
+
+  it('タグ・位置・天気・元の記録時刻をメタデータに入れる', () => {
+    expect(result[0].metadata).toEqual({
+      app: 'dayone',
+      createdAt: '2023-01-15T15:30:00Z',
+      tags: ['山', 'ひとり'],
+      location: { name: '高尾山口駅', latitude: 35.6324, longitude: 139.2697 },
+      weather: { description: 'Partly Cloudy', temperatureC: 4.5 },
+    });
+  });
+
+  it('starred をお気に入りにする', () => {
+    expect(result[0].isFavorite).toBe(true);
+    expect(result[1].isFavorite).toBe(false);
+  });
+
+  it('ない情報はメタデータに含めない', () => {
+    expect(result[1].metadata).toEqual({
+      app: 'dayone',
+      createdAt: '2023-01-16T01:00:00Z',
+    });
+  });
+});
+
+// ── Journey ──
+
+describe('Journey（エントリごとの JSON）', () => {
+  it('HTML 本文をテキストにする', () => {
+    const [entry] = parseJsonFile(journeyEntry, 'journey.json');
+    expect(entry.content).toBe('雨の朝。\n傘を忘れた & 濡れた\n・コーヒー\n・読書');
+  });
+
+  it('date_journal をタイムゾーンでの日付にする', () => {
+    // 1673794800000 = 2023-01-15T15:00Z = 東京で 1/16 00:00
+    const [entry] = parseJsonFile(journeyEntry, 'journey.json');
+    expect(entry).toMatchObject({ date: '2023-01-16', time: '00:00', timeZone: 'Asia/Tokyo' });
+    expect(entry.metadata?.createdAt).toBe('2023-01-15T15:00:00.000Z');
+  });
+
+  it('位置・天気・タグをメタデータに入れる', () => {
+    const [entry] = parseJsonFile(journeyEntry, 'journey.json');
+    expect(entry.metadata?.app).toBe('journey');
+    expect(entry.metadata?.tags).toEqual(['雨']);
+    expect(entry.metadata?.location).toEqual({ name: '京都市左京区', latitude: 35.0262, longitude: 135.7808 });
+    expect(entry.metadata?.weather).toEqual({ description: 'Light Rain', temperatureC: 6.2 });
+  });
+
+  it('位置・天気が未設定の番兵値は捨てる', () => {
+    const [entry] = parseJsonFile(journeyNoLocation, 'journey.json');
+    expect(entry.content).toBe('Markdown **entry** without location');
+    expect(entry.metadata?.location).toBeUndefined();
+    expect(entry.metadata?.weather).toBeUndefined();
+    expect(entry.metadata?.tags).toBeUndefined();
+    expect(entry.isFavorite).toBe(true);
+  });
+});
+
+// ── Diarium ──
+
+describe('Diarium', () => {
+  const result = parseJsonFile(diariumExport, 'diarium.json');
+
+  it('本文のないエントリはスキップ', () => {
+    expect(result).toHaveLength(2);
+  });
+
+  it('見出しを本文の先頭に付ける', () => {
+    expect(result[0].content).toBe('文化の日\n\n美術館へ行った。\n帰り道、"紅葉"がきれいだった。');
+    expect(result[1].content).toBe('朝、少し走った。');
+  });
+
+  it('ローカル時刻の日付をそのまま使う', () => {
+    expect(result[0]).toMatchObject({ date: '2022-11-03', time: '23:45' });
+    expect(result[0].timeZone).toBeUndefined();
+    expect(result[0].metadata?.createdAt).toBe('2022-11-03T23:45:00');
+  });
+
+  it('文字列の位置・天気を name / description にする', () => {
+    expect(result[0].metadata).toMatchObject({
+      app: 'diarium',
+      tags: ['休日', '美術館'],
+      location: { name: '上野' },
+      weather: { description: '晴れ 15°C' },
+    });
+  });
+
+  it('オブジェクト形式の位置・天気・タグも読む', () => {
+    expect(result[1].metadata).toMatchObject({
+      tags: ['運動'],
+      location: { name: '代々木公園', latitude: 35.6717, longitude: 139.6949 },
+      weather: { description: '曇り', temperatureC: 11 },
+    });
+  });
+});
+
+// ── 汎用形式との切り分け ──
+
+describe('形式判定', () => {
+  it('汎用形式の JSON はメタデータなしで従来どおり取り込む', () => {
+    const json = JSON.stringify([{ date: '2024-01-15', content: '日記の内容' }]);
+    const [entry] = parseJsonFile(json, 'test.json');
+    expect(entry.content).toBe('日記の内容');
+    expect(entry.metadata).toBeUndefined();
+  });
+});
+
+// ── ヘルパー ──
+
+describe('toLocalDateTime', () => {
+  it('不正なタイムゾーンは UTC で数える', () => {
+    expect(toLocalDateTime(new Date('2023-01-15T23:00:00Z'), 'Mars/Olympus'))
+      .toEqual({ date: '2023-01-15', time: '23:00', timeZone: 'UTC' });
+  });
+
+  it('深夜0時台は 00 時として返す', () => {
+    expect(toLocalDateTime(new Date('2023-01-15T15:05:00Z'), 'Asia/Tokyo').time).toBe('00:05');
+  });
+
+  it('不正な時刻は日付不明', () => {
+    expect(toLocalDateTime(new Date('invalid'), 'Asia/Tokyo')).toEqual({ date: null });
+  });
+});
+
+describe('htmlToText', () => {
+  it('二重エスケープを一段だけ戻す', () => {
+    expect(htmlToText('&amp;lt;p&amp;gt;')).toBe('&lt;p&gt;');
+  });
+
+  it('数値文字参照を戻す', () => {
+    expect(htmlToText('&#x1F3D4;&#26426;')).toBe('🏔机');
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * 日記アプリ（Day One / Journey / Diarium）のエクスポート JSON を DiaryEntry に変換する。
+ *
+ * どのアプリの形式かは JSON の形から判定する。判定できなければ null を返し、
+ * 呼び出し側（parseJsonFile）は汎用の content / text / body 形式として扱う。
+ */
+import type { DiaryEntry, EntryMetadata, EntryLocation, EntryWeather, JournalApp } from '../types';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function asStringArray(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const tags = value
+    .map(v => (isObject(v) ? asString(v.name) : asString(v)))
+    .filter((v): v is string => v !== undefined);
+  return tags.length > 0 ? tags : undefined;
+}
+
+// undefined のキーを落とし、空になったら undefined を返す
+function compact<T extends object>(value: T): T | undefined {
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+export interface EntryWhen {
+  date: string | null;
+  time?: string;
+  timeZone?: string;
+}
+
+/**
+ * 時刻をタイムゾーンでのローカル日付（YYYY-MM-DD）と時刻（HH:mm）にする。
+ * タイムゾーンが不明・不正なら UTC で数える。
+ */
+export function toLocalDateTime(instant: Date, timeZone: string | undefined): EntryWhen {
+  if (isNaN(instant.getTime())) return { date: null };
+  const format = (tz: string) => {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: tz,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(instant);
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+    return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}`, timeZone: tz };
+  };
+  try {
+    return format(timeZone ?? 'UTC');
+  } catch {
+    return format('UTC');
+  }
+}
+
+/** HTML を改行を保ったプレーンテキストにする（DOMParser のない環境でも動くよう正規表現で処理） */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '・')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Day One は Markdown 記号をバックスラッシュでエスケープし、写真を dayone-moment:// で埋め込む
+function cleanDayOneText(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\(dayone-moment:\/\/[^)]*\)/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function makeEntry(
+  content: string,
+  when: EntryWhen,
+  metadata: EntryMetadata,
+  filename: string,
+  importedAt: string,
+  isFavorite = false,
+): DiaryEntry {
+  return {
+    id: crypto.randomUUID(),
+    ...when,
+    content,
+    sourceFile: filename,
+    importedAt,
+    comments: [],
+    isFavorite,
+    metadata: compact(metadata),
+  };
+}
+
+// --- Day One ---
+// Journal.json: { metadata, entries: [{ uuid, creationDate, timeZone, text, tags, starred, location, weather }] }
+
+function parseDayOne(items: JsonObject[], filename: string, importedAt: string): DiaryEntry[] {
+  return items.flatMap(item => {
+    const content = cleanDayOneText(asString(item.text) ?? '');
+    if (!content) return [];
+
+    const createdAt = asString(item.creationDate);
+    const when = createdAt ? toLocalDateTime(new Date(createdAt), asString(item.timeZone)) : { date: null };
+
+    const loc = isObject(item.location) ? item.location : {};
+    const location = compact<EntryLocation>({
+      name: asString(loc.placeName) ?? asString(loc.localityName) ?? asString(loc.administrativeArea),
+      latitude: asNumber(loc.latitude),
+      longitude: asNumber(loc.longitude),
+    });
+    const w = isObject(item.weather) ? item.weather : {};
+    const weather = compact<EntryWeather>({
+      description: asString(w.conditionsDescription),
+      temperatureC: asNumber(w.temperatureCelsius),
+    });
+
+    return [makeEntry(
+      content,
+      when,
+      { app: 'dayone', createdAt, tags: asStringArray(item.tags), location, weather },
+      filename,
+      importedAt,
+      item.starred === true,
+    )];
+  });
+}
+
+// --- Journey ---
+// エントリごとの JSON: { text, type: 'html' | 'markdown', date_journal(ms), timezone, tags, address, lat, lon, weather, favourite }
+
+function parseJourney(items: JsonObject[], filename: string, importedAt: string): DiaryEntry[] {
+  return items.flatMap(item => {
+    const raw = asString(item.text) ?? '';
+    const content = item.type === 'html' || /<\/?[a-z][^>]*>/i.test(raw) ? htmlToText(raw) : raw;
+    if (!content) return [];
+
+    const millis = asNumber(item.date_journal);
+    const instant = millis !== undefined ? new Date(millis) : null;
+
+    // Journey は緯度経度がないとき 1.7976931348623157E308 を入れてくる
+    const validCoord = (v: unknown) => {
+      const n = asNumber(v);
+      return n !== undefined && Math.abs(n) <= 180 ? n : undefined;
+    };
+    const location = compact<EntryLocation>({
+      name: asString(item.address),
+      latitude: validCoord(item.lat),
+      longitude: validCoord(item.lon),
+    });
+    const w = isObject(item.weather) ? item.weather : {};
+    const degree = asNumber(w.degree_c);
+    const weather = compact<EntryWeather>({
+      description: asString(w.description),
+      // 天気未取得のときは degree_c が極端な値になる
+      temperatureC: degree !== undefined && Math.abs(degree) < 100 ? degree : undefined,
+    });
+
+    return [makeEntry(
+      content,
+      instant ? toLocalDateTime(instant, asString(item.timezone)) : { date: null },
+      {
+        app: 'journey',
+        createdAt: instant?.toISOString(),
+        tags: asStringArray(item.tags),
+        location,
+        weather,
+      },
+      filename,
+      importedAt,
+      item.favourite === true,
+    )];
+  });
+}
+
+// --- Diarium ---
+// [{ date: 'YYYY-MM-DD HH:mm:ss'（ローカル時刻）, heading, html, tags, location, weather }]
+
+function parseDiarium(items: JsonObject[], filename: string, importedAt: string): DiaryEntry[] {
+  return items.flatMap(item => {
+    const body = htmlToText(asString(item.html) ?? asString(item.text) ?? '');
+    const heading = asString(item.heading);
+    const content = [heading, body].filter(Boolean).join('\n\n');
+    if (!content) return [];
+
+    const rawDate = asString(item.date);
+    const match = rawDate?.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2})?))?/);
+
+    // location は文字列のことも、{ name, lat, lng } のこともある
+    const loc = item.location;
+    const location = isObject(loc)
+      ? compact<EntryLocation>({
+        name: asString(loc.name) ?? asString(loc.address),
+        latitude: asNumber(loc.lat) ?? asNumber(loc.latitude),
+        longitude: asNumber(loc.lng) ?? asNumber(loc.longitude),
+      })
+      : compact<EntryLocation>({ name: asString(loc) });
+    const w = item.weather;
+    const weather = isObject(w)
+      ? compact<EntryWeather>({
+        description: asString(w.description) ?? asString(w.text),
+        temperatureC: asNumber(w.temperature) ?? asNumber(w.temperatureC),
+      })
+      : compact<EntryWeather>({ description: asString(w) });
+
+    return [makeEntry(
+      content,
+      // Diarium はタイムゾーンを持たず、書き手のローカル時刻で記録している
+      match ? { date: match[1], time: match[2]?.slice(0, 5) } : { date: null },
+      {
+        app: 'diarium',
+        createdAt: match?.[2] ? `${match[1]}T${match[2]}` : undefined,
+        tags: asStringArray(item.tags),
+        location,
+        weather,
+      },
+      filename,
+      importedAt,
+    )];
+  });
+}
+
+// --- 形式判定 ---
+
+function detectJournalApp(data: unknown): { app: JournalApp; items: JsonObject[] } | null {
+  if (isObject(data) && Array.isArray(data.entries)) {
+    const items = data.entries.filter(isObject);
+    if (items.some(e => 'creationDate' in e)) return { app: 'dayone', items };
+  }
+
+  const items = Array.isArray(data) ? data.filter(isObject) : isObject(data) ? [data] : [];
+  if (items.length === 0) return null;
+  if (items.some(e => typeof e.date_journal === 'number')) return { app: 'journey', items };
+  if (items.some(e => 'date' in e && ('html' in e || 'heading' in e))) return { app: 'diarium', items };
+  return null;
+}
+
+/**
+ * 日記アプリのエクスポートなら変換したエントリを返す。どの形式でもなければ null。
+ */
+export function parseJournalExport(
+  data: unknown,
+  filename: string,
+  importedAt: string,
+): DiaryEntry[] | null {
+  const detected = detectJournalApp(data);
+  if (!detected) return null;
+
+  switch (detected.app) {
+    case 'dayone':
+      return parseDayOne(detected.items, filename, importedAt);
+    case 'journey':
+      return parseJourney(detected.items, filename, importedAt);
+    case 'diarium':
+      return parseDiarium(detected.items, filename, importedAt);
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GENTLE_PROMPTS,
+  pickPrompt,
+  clampComfort,
+  toObservationChartData,
+} from './observatory';
+import type { Observation } from '../types';
+
+function makeObservation(date: string, comfort: number, wave: string): Observation {
+  return {
+    id: crypto.randomUUID(),
+    date,
+    sky: '☀️',
+    comfort,
+    wave,
+    note: '',
+    prompt: '',
+    createdAt: `${date}T12:00:00.000Z`,
+  };
+}
+
+// ── pickPrompt ──
+
+describe('pickPrompt', () => {
+  it('同じ日は同じ問い', () => {
+    expect(pickPrompt('2024-05-01')).toBe(pickPrompt('2024-05-01'));
+  });
+
+  it('翌日は別の問い', () => {
+    expect(pickPrompt('2024-05-02')).not.toBe(pickPrompt('2024-05-01'));
+  });
+
+  it('直前の問いと重なったら次の問いへずらす', () => {
+    const today = pickPrompt('2024-05-01');
+    expect(pickPrompt('2024-05-01', today)).not.toBe(today);
+  });
+
+  it('offset で巡回できる', () => {
+    const seen = new Set(GENTLE_PROMPTS.map((_, i) => pickPrompt('2024-05-01', undefined, i)));
+    expect(seen.size).toBe(GENTLE_PROMPTS.length);
+  });
+});
+
+// ── clampComfort ──
+
+describe('clampComfort', () => {
+  it('0-100 に収める', () => {
+    expect(clampComfort(-5)).toBe(0);
+    expect(clampComfort(140)).toBe(100);
+    expect(clampComfort(42.6)).toBe(43);
+  });
+
+  it('数値でなければ中央値', () => {
+    expect(clampComfort(NaN)).toBe(50);
+  });
+});
+
+// ── toObservationChartData ──
+
+describe('toObservationChartData', () => {
+  it('日付昇順に並べる', () => {
+    const data = toObservationChartData([
+      makeObservation('2024-05-03', 80, 'calm'),
+      makeObservation('2024-05-01', 20, 'high'),
+    ]);
+    expect(data.map(d => d.date)).toEqual(['2024-05-01', '2024-05-03']);
+    expect(data[0]['波']).toBe(2);
+    expect(data[1]['波']).toBe(0);
+  });
+
+  it('同じ日の観測は平均する', () => {
+    const data = toObservationChartData([
+      makeObservation('2024-05-01', 40, 'calm'),
+      makeObservation('2024-05-01', 60, 'ripple'),
+    ]);
+    expect(data).toHaveLength(1);
+    expect(data[0]['安心']).toBe(50);
+    expect(data[0]['波']).toBe(0.5);
+  });
+});
@@ -0,0 +1,88 @@
+// 観測所（毎日の小さなチェックイン）のユーティリティ
+import type { Observation } from '../types';
+
+export type Wave = 'calm' | 'ripple' | 'high';
+
+/** 空模様の選択肢（晴れ → 雷雨） */
+export const SKY_OPTIONS = ['☀️', '🌤️', '⛅', '🌥️', '☁️', '🌧️', '⛈️'] as const;
+
+export const WAVE_LABELS: Record<Wave, string> = {
+  calm: '凪',
+  ripple: 'さざ波',
+  high: '高波',
+};
+
+/** チャート描画用の数値（高いほど荒れている） */
+const WAVE_LEVELS: Record<Wave, number> = {
+  calm: 0,
+  ripple: 1,
+  high: 2,
+};
+
+/** やさしいプロンプト。答えなくてもいい問いだけを置く */
+export const GENTLE_PROMPTS = [
+  '今日、少しだけほっとした瞬間は？',
+  'いま体のどこに力が入っている？',
+  '今日の空気は、どんな匂いがした？',
+  'いちばん長く目に入っていたものは？',
+  '今日、誰かの声を聞いた？',
+  'いま飲みたいものは？',
+  '今日のあなたに、ひとことだけ言うなら？',
+  '今日、手で触れたもののなかで好きだったものは？',
+  'いま聞こえている音は？',
+  '明日の自分に、何を残しておきたい？',
+];
+
+/** ローカル時刻の YYYY-MM-DD を返す */
+export function localDateString(d = new Date()): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+/**
+ * 日付ごとにプロンプトを巡回させる。
+ * 同じ日は同じ問い。直前の観測と同じ問いになる場合は次の問いへずらす。
+ */
+export function pickPrompt(date: string, lastPrompt?: string, offset = 0): string {
+  const dayIndex = Math.floor(Date.parse(date + 'T00:00:00Z') / 86_400_000);
+  const base = Number.isNaN(dayIndex) ? 0 : dayIndex;
+  let idx = ((base + offset) % GENTLE_PROMPTS.length + GENTLE_PROMPTS.length) % GENTLE_PROMPTS.length;
+  if (GENTLE_PROMPTS[idx] === lastPrompt) {
+    idx = (idx + 1) % GENTLE_PROMPTS.length;
+  }
+  return GENTLE_PROMPTS[idx];
+}
+
+export function isWave(value: string): value is Wave {
+  return value === 'calm' || value === 'ripple' || value === 'high';
+}
+
+/** 安心ゲージを 0-100 の整数に丸める */
+export function clampComfort(value: number): number {
+  if (!Number.isFinite(value)) return 50;
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+/** 観測を日付昇順のチャートデータに変換する。同じ日に複数あれば平均する */
+export function toObservationChartData(
+  observations: Observation[],
+): { date: string; '安心': number; '波': number }[] {
+  const byDate = new Map<string, { comfort: number[]; wave: number[] }>();
+  for (const o of observations) {
+    const bucket = byDate.get(o.date) ?? { comfort: [], wave: [] };
+    bucket.comfort.push(o.comfort);
+    if (isWave(o.wave)) bucket.wave.push(WAVE_LEVELS[o.wave]);
+    byDate.set(o.date, bucket);
+  }
+  const avg = (xs: number[]) => xs.length === 0 ? 0 : xs.reduce((a, b) => a + b, 0) / xs.length;
+  return [...byDate.keys()].sort().map(date => {
+    const b = byDate.get(date)!;
+    return {
+      date,
+      '安心': Math.round(avg(b.comfort)),
+      '波': Math.round(avg(b.wave) * 10) / 10,
+    };
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * パスフレーズによるロックの有効化・解除・ロック解除
+ *
+ * 暗号そのものは encryption.ts、項目ごとの暗号化は db 層、APIキーは apiKey.ts、同期の設定は sync.ts、
+ * スナップショットは autoBackup.ts が受け持ち、
+ * ここでは順番をまとめる。有効化・解除では先に設定を書き換えてから全データを書き直すので、
+ * 途中で閉じても次のロック解除時に続きから処理する。
+ */
+import { rewriteEncryptedStores } from '../db';
+import { loadApiKeys, forgetApiKeys, rewriteStoredApiKeys } from './apiKey';
+import { rewriteStoredSyncConfig } from './sync';
+import { encryptPlainSnapshots } from './autoBackup';
+import {
+  activateEncryption,
+  createEncryptionSettings,
+  getEncryptionSettings,
+  lockEncryption,
+  notifyLockChange,
+  saveEncryptionSettings,
+  unlockEncryption,
+} from './encryption';
+
+type Progress = (done: number, total: number) => void;
+
+/**
+ * 途中になっている暗号化・解除を最後まで進める。
+ * 暗号化では、フォルダに平文のまま残ったスナップショットのファイル名を返す。
+ */
+async function finishMigration(onProgress?: Progress): Promise<string[]> {
+  const settings = getEncryptionSettings();
+  if (!settings?.migrating) return [];
+  await rewriteStoredApiKeys();
+  await rewriteStoredSyncConfig();
+  await rewriteEncryptedStores(onProgress);
+  if (settings.migrating === 'decrypt') {
+    // 暗号化したスナップショットは、ロックのパスフレーズで復元できるのでそのまま残す
+    forgetApiKeys();
+    saveEncryptionSettings(null);
+    return [];
+  }
+  const plainFiles = await encryptPlainSnapshots();
+  saveEncryptionSettings({ ...settings, migrating: undefined });
+  return plainFiles;
+}
+
+/**
+ * ロックを有効にし、保存済みのデータとスナップショットを暗号化する。
+ * 書き出し先フォルダに平文のまま残ったスナップショットのファイル名を返す。
+ */
+export async function enablePassphraseLock(
+  passphrase: string,
+  idleMinutes: number,
+  onProgress?: Progress,
+): Promise<string[]> {
+  if (getEncryptionSettings()) throw new Error('すでにロックが有効です');
+  const { settings, key } = await createEncryptionSettings(passphrase, idleMinutes);
+  activateEncryption({ ...settings, migrating: 'encrypt' }, key);
+  // 保存されているキーはまだ平文なので、そのまま読み込める
+  await loadApiKeys();
+  return finishMigration(onProgress);
+}
+
+/** パスフレーズを確かめてから、すべてのデータを平文に戻してロックをやめる */
+export async function disablePassphraseLock(passphrase: string, onProgress?: Progress): Promise<void> {
+  const settings = getEncryptionSettings();
+  if (!settings) return;
+  await unlockEncryption(passphrase);
+  saveEncryptionSettings({ ...settings, migrating: 'decrypt' });
+  await finishMigration(onProgress);
+}
+
+/** ロックを解除する。前回の暗号化・解除が途中なら続きを処理する */
+export async function unlockWithPassphrase(passphrase: string, onProgress?: Progress): Promise<void> {
+  await unlockEncryption(passphrase);
+  try {
+    await loadApiKeys();
+    await finishMigration(onProgress);
+  } finally {
+    notifyLockChange();
+  }
+}
+
+export function lockNow(): void {
+  forgetApiKeys();
+  lockEncryption();
+}
+
+export function setIdleLockMinutes(minutes: number): void {
+  const settings = getEncryptionSettings();
+  if (settings) saveEncryptionSettings({ ...settings, idleMinutes: minutes });
+}
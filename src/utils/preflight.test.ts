@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, toPlannedRequest, estimatePreflight, formatDuration } from './preflight';
+import type { AiUsageRecord } from '../types';
+
+function makeRecord(purpose: string, outputTokens: number, durationMs?: number): AiUsageRecord {
+  return {
+    id: crypto.randomUUID(),
+    calledAt: '2025-01-01T00:00:00.000Z',
+    purpose,
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-6',
+    inputTokens: 1000,
+    outputTokens,
+    costUsd: 0,
+    durationMs,
+  };
+}
+
+const config = { provider: 'anthropic' as const, model: 'claude-sonnet-4-6' };
+
+// ── estimateTokens ──
+
+describe('estimateTokens', () => {
+  it('日本語は1文字1トークン、英数字は4文字で1トークン', () => {
+    expect(estimateTokens('今日は晴れ')).toBe(5);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('山 abc')).toBe(2);
+  });
+
+  it('メッセージごとの付加分を足す', () => {
+    const r = toPlannedRequest('todaysEntry', [
+      { role: 'system', content: '指示' },
+      { role: 'user', content: '日記' },
+    ], 1024);
+    expect(r).toEqual({ purpose: 'todaysEntry', inputTokens: 12, maxTokens: 1024 });
+  });
+});
+
+// ── estimatePreflight ──
+
+describe('estimatePreflight', () => {
+  const requests = [
+    { purpose: 'fragments', inputTokens: 3000, maxTokens: 1024 },
+    { purpose: 'fragments', inputTokens: 2000, maxTokens: 1024 },
+  ];
+
+  it('実績がなければ max_tokens の半分を出力とみなす', () => {
+    const e = estimatePreflight(requests, config, []);
+    expect(e).toMatchObject({ requests: 2, inputTokens: 5000, outputTokens: 1024, historyPurposes: [] });
+    // 入力 $3 / 出力 $15（100万トークンあたり）
+    expect(e.costUsd).toBeCloseTo((5000 * 3 + 1024 * 15) / 1_000_000);
+    expect(e.seconds).toBeGreaterThan(0);
+  });
+
+  it('同じ用途の実績があれば平均の出力トークンと所要時間を使う', () => {
+    const history = [makeRecord('fragments', 300, 4000), makeRecord('fragments', 500, 6000), makeRecord('vitalPoint', 900, 30000)];
+    const e = estimatePreflight(requests, config, history);
+    expect(e.outputTokens).toBe(800);
+    expect(e.seconds).toBe(10);
+    expect(e.historyPurposes).toEqual(['fragments']);
+  });
+
+  it('出力は max_tokens を超えない', () => {
+    const e = estimatePreflight([{ purpose: 'p', inputTokens: 10, maxTokens: 100 }], config, [makeRecord('p', 5000)]);
+    expect(e.outputTokens).toBe(100);
+  });
+
+  it('単価のわからないモデルは費用不明', () => {
+    expect(estimatePreflight(requests, { provider: 'openai', model: 'mystery' }, []).costUsd).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('秒・分・時間で表す', () => {
+    expect(formatDuration(0)).toBe('約1秒');
+    expect(formatDuration(45)).toBe('約45秒');
+    expect(formatDuration(150)).toBe('約3分');
+    expect(formatDuration(3600)).toBe('約1時間');
+    expect(formatDuration(5400)).toBe('約1時間30分');
+  });
+});
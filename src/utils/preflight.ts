@@ -0,0 +1,100 @@
+/**
+ * 一括実行前の見積もり
+ *
+ * 分析や宝物庫の収集を実際には送らずに走らせ、送るはずだったプロンプトから
+ * リクエスト数・入出力トークン・費用・所要時間を見積もる。
+ * 出力トークンと所要時間は、使用量台帳に同じ用途の記録があればその平均を使う。
+ */
+import type { AiProviderId, AiUsageRecord } from '../types';
+import type { ChatMessage } from './aiProvider';
+import { estimateCostUsd } from './aiUsage';
+
+// 台帳に記録がないときの目安
+const DEFAULT_OUTPUT_RATIO = 0.5; // max_tokens のうち実際に出力される割合
+const DEFAULT_LATENCY_MS = 2000; // 応答が始まるまで
+const DEFAULT_OUTPUT_TOKENS_PER_SEC = 50;
+const MESSAGE_OVERHEAD_TOKENS = 4; // role などメッセージごとの付加分
+
+/** 送るはずだった1回分のリクエスト */
+export interface PlannedRequest {
+  purpose: string;
+  inputTokens: number;
+  maxTokens: number;
+}
+
+export interface PreflightEstimate {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null; // 単価のわからないモデルは null
+  seconds: number;
+  /** 出力トークン・所要時間を台帳の実績から出せた用途 */
+  historyPurposes: string[];
+}
+
+/**
+ * トークン数の概算。日本語など ASCII 以外は1文字ほぼ1トークン、
+ * 英数字や記号は4文字で1トークンとして数える
+ */
+export function estimateTokens(text: string): number {
+  let wide = 0;
+  let narrow = 0;
+  for (const ch of text) {
+    if (ch.charCodeAt(0) > 0x7f) wide++;
+    else narrow++;
+  }
+  return wide + Math.ceil(narrow / 4);
+}
+
+export function toPlannedRequest(purpose: string, messages: ChatMessage[], maxTokens: number): PlannedRequest {
+  const inputTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+  return { purpose, inputTokens, maxTokens };
+}
+
+/** リクエストは1件ずつ順に送る前提で、合計を見積もる */
+export function estimatePreflight(
+  requests: PlannedRequest[],
+  config: { provider: AiProviderId; model: string },
+  history: AiUsageRecord[],
+): PreflightEstimate {
+  // 用途ごとの実績の平均（1回あたり）
+  const averages = new Map<string, { outputTokens: number; durationMs: number | null }>();
+  for (const purpose of new Set(requests.map(r => r.purpose))) {
+    const records = history.filter(r => r.purpose === purpose);
+    if (records.length === 0) continue;
+    const timed = records.filter(r => r.durationMs !== undefined);
+    averages.set(purpose, {
+      outputTokens: records.reduce((sum, r) => sum + r.outputTokens, 0) / records.length,
+      durationMs: timed.length > 0 ? timed.reduce((sum, r) => sum + r.durationMs!, 0) / timed.length : null,
+    });
+  }
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let durationMs = 0;
+  for (const r of requests) {
+    const avg = averages.get(r.purpose);
+    const output = Math.round(Math.min(r.maxTokens, avg?.outputTokens ?? r.maxTokens * DEFAULT_OUTPUT_RATIO));
+    inputTokens += r.inputTokens;
+    outputTokens += output;
+    durationMs += avg?.durationMs ?? DEFAULT_LATENCY_MS + (output / DEFAULT_OUTPUT_TOKENS_PER_SEC) * 1000;
+  }
+
+  return {
+    requests: requests.length,
+    inputTokens,
+    outputTokens,
+    costUsd: estimateCostUsd(config.provider, config.model, { inputTokens, outputTokens }),
+    seconds: Math.round(durationMs / 1000),
+    historyPurposes: [...averages.keys()],
+  };
+}
+
+/** 所要時間の目安（約N秒 / 約N分 / 約N時間M分） */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `約${Math.max(1, seconds)}秒`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `約${minutes}分`;
+  const rest = minutes % 60;
+  return `約${Math.floor(minutes / 60)}時間${rest > 0 ? `${rest}分` : ''}`;
+}
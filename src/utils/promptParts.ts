@@ -1,6 +1,8 @@
 // claude.ts の複数分析関数で共通に使うプロンプトパーツ
 // 各分析関数のシステムプロンプトに展開して使う
 
+import type { PromptPartKey } from '../types';
+
 /** マークダウン禁止・■見出し指定 */
 export const OUTPUT_FORMAT_RULE =
   '【出力形式】マークダウン記法（#, ##, ###, ** 等）は使うな。■ を見出しとして使え。';
@@ -58,3 +60,14 @@ export const CORRECTION_CONTEXT_RULE = [
   '訂正の文脈で使われた言葉を、感情的な文脈で使われた同じ言葉と接続するな。',
   '同じキーワードが別の文脈で出てきても、文脈が違えば意味が違う。キーワード一致だけでパターンを見出すな。',
 ].join('\n');
+
+/** ユーザー定義の分析で選べるプロンプトパーツ（設定画面の表示順） */
+export const PROMPT_PARTS: Record<PromptPartKey, { label: string; text: string }> = {
+  outputFormat: { label: 'マークダウン禁止・■見出し', text: OUTPUT_FORMAT_RULE },
+  aiOutputDetection: { label: 'AIの出力と日記を混同しない', text: AI_OUTPUT_DETECTION },
+  aiOutputExamples: { label: 'AIの出力の具体例', text: AI_OUTPUT_EXAMPLES },
+  backgroundUsage: { label: '背景知識の使い方', text: BACKGROUND_USAGE_RULE },
+  bannedPhrases: { label: '禁止フレーズ', text: BANNED_PHRASES_BASE },
+  otherPersonBehavior: { label: '他者の行動を書き手の行動と読まない', text: OTHER_PERSON_BEHAVIOR_RULE },
+  correctionContext: { label: '訂正の記述を再解釈しない', text: CORRECTION_CONTEXT_RULE },
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { hashPromptVersion, getSystemPrompt, replaceSystemPrompt } from './promptVersion';
+import type { ChatMessage } from './aiProvider';
+
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'あなたは日記の観察者。' },
+  { role: 'user', content: '[2025-03-01] 今日は山に登った。' },
+];
+
+describe('hashPromptVersion', () => {
+  it('8桁の16進数で、同じプロンプトなら同じ版', () => {
+    const version = hashPromptVersion(['あなたは日記の観察者。']);
+    expect(version).toMatch(/^[0-9a-f]{8}$/);
+    expect(hashPromptVersion(['あなたは日記の観察者。'])).toBe(version);
+  });
+
+  it('1文字でも変われば別の版', () => {
+    expect(hashPromptVersion(['あなたは日記の観察者。'])).not.toBe(hashPromptVersion(['あなたは日記の観察者']));
+  });
+
+  it('区切りの位置が違えば別の版', () => {
+    expect(hashPromptVersion(['ab', 'c'])).not.toBe(hashPromptVersion(['a', 'bc']));
+  });
+});
+
+describe('getSystemPrompt / replaceSystemPrompt', () => {
+  it('システムプロンプトだけを取り出す', () => {
+    expect(getSystemPrompt(messages)).toBe('あなたは日記の観察者。');
+  });
+
+  it('差し替えてもユーザーメッセージはそのまま', () => {
+    const replaced = replaceSystemPrompt(messages, '古い版のプロンプト');
+    expect(getSystemPrompt(replaced)).toBe('古い版のプロンプト');
+    expect(replaced[1]).toEqual(messages[1]);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * プロンプトの版
+ *
+ * claude.ts のプロンプトや promptParts.ts のルールはよく書き換えるので、
+ * どのプロンプトで出した結果かを AIログに残せるよう、システムプロンプトから短いハッシュを作る。
+ * 日記の本文はユーザーメッセージに入るので、同じ版なら日が変わってもハッシュは変わらない。
+ */
+import type { ChatMessage } from './aiProvider';
+
+/** システムプロンプト（と、ユーザーメッセージに入る固定の指示）から版を作る。FNV-1a 32bit を8桁の16進数で */
+export function hashPromptVersion(parts: string[]): string {
+  let hash = 0x811c9dc5;
+  for (const ch of parts.join('\u0000')) {
+    hash ^= ch.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function getSystemPrompt(messages: ChatMessage[]): string {
+  return messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+}
+
+/** システムプロンプトだけを差し替える（A/B比較で過去の版を送り直すとき） */
+export function replaceSystemPrompt(messages: ChatMessage[], system: string): ChatMessage[] {
+  return [
+    { role: 'system', content: system },
+    ...messages.filter(m => m.role !== 'system'),
+  ];
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeForSearch,
+  extractGrams,
+  termGrams,
+  parseSearchQuery,
+  isEmptyQuery,
+  matchesQuery,
+  matchesFilters,
+  buildSnippets,
+} from './search';
+import type { DiaryEntry } from '../types';
+
+function makeEntry(overrides: Partial<DiaryEntry> = {}): DiaryEntry {
+  return {
+    id: crypto.randomUUID(),
+    date: '2020-05-10',
+    content: 'テスト',
+    sourceFile: 'diary.txt',
+    importedAt: new Date().toISOString(),
+    comments: [],
+    isFavorite: false,
+    ...overrides,
+  };
+}
+
+function matches(content: string, input: string): boolean {
+  return matchesQuery(normalizeForSearch(content).text, parseSearchQuery(input));
+}
+
+// ── normalizeForSearch ──
+
+describe('normalizeForSearch', () => {
+  it('全角英数を半角に、大文字を小文字にする', () => {
+    expect(normalizeForSearch('ＡＢＣ１２３').text).toBe('abc123');
+  });
+
+  it('半角カナを全角にする', () => {
+    expect(normalizeForSearch('ｶﾀｶﾅ').text).toBe('カタカナ');
+  });
+
+  it('連続する空白・改行をひとつにまとめ、前後を落とす', () => {
+    expect(normalizeForSearch('  山に\n\n　登った  ').text).toBe('山に 登った');
+  });
+
+  it('元テキストの位置を保持する', () => {
+    const source = '今日は　ＡＢ';
+    const { text, starts, ends } = normalizeForSearch(source);
+    const idx = text.indexOf('ab');
+    expect(source.slice(starts[idx], ends[idx + 1])).toBe('ＡＢ');
+  });
+});
+
+// ── extractGrams / termGrams ──
+
+describe('extractGrams', () => {
+  it('ユニグラムとバイグラムを重複なく返す', () => {
+    expect(extractGrams('山山').sort()).toEqual(['山', '山山']);
+    expect(extractGrams('山に登る').sort()).toEqual(['に', 'に登', '山', '山に', '登', '登る', 'る'].sort());
+  });
+
+  it('空白をまたぐバイグラムは作らない', () => {
+    expect(extractGrams('山 川')).not.toContain('山 ');
+    expect(extractGrams('山 川')).not.toContain('山川');
+  });
+
+  it('サロゲートペアを1文字として扱う', () => {
+    expect(extractGrams('🏔山')).toContain('🏔山');
+  });
+});
+
+describe('termGrams', () => {
+  it('1文字はユニグラム、2文字以上はバイグラムで引く', () => {
+    expect(termGrams('雨')).toEqual(['雨']);
+    expect(termGrams('雨の日')).toEqual(['雨の', 'の日']);
+  });
+
+  it('フレーズは空白ごとに区切って引く', () => {
+    expect(termGrams('a good day').sort()).toEqual(['a', 'da', 'go', 'od', 'oo', 'ay'].sort());
+  });
+});
+
+// ── parseSearchQuery ──
+
+describe('parseSearchQuery', () => {
+  it('空白区切りは AND', () => {
+    expect(parseSearchQuery('山 雨')).toEqual({ groups: [['山'], ['雨']], excluded: [] });
+  });
+
+  it('OR と | は直前の語とまとめる', () => {
+    expect(parseSearchQuery('山 雨 OR 雪 | 霧')).toEqual({ groups: [['山'], ['雨', '雪', '霧']], excluded: [] });
+  });
+
+  it('-語 と NOT 語は除外', () => {
+    expect(parseSearchQuery('山 -仕事 NOT 会議')).toEqual({ groups: [['山']], excluded: ['仕事', '会議'] });
+  });
+
+  it('引用符で囲むとフレーズになる', () => {
+    expect(parseSearchQuery('"Good Day" -"bad  day"')).toEqual({ groups: [['good day']], excluded: ['bad day'] });
+  });
+
+  it('全角スペース・全角引用符も区切りとして扱う', () => {
+    expect(parseSearchQuery('山　＂雨の日＂')).toEqual({ groups: [['山'], ['雨の日']], excluded: [] });
+  });
+
+  it('先頭の OR は無視する', () => {
+    expect(parseSearchQuery('OR 山')).toEqual({ groups: [['山']], excluded: [] });
+  });
+
+  it('空入力は空クエリ', () => {
+    expect(isEmptyQuery(parseSearchQuery('   '))).toBe(true);
+    expect(isEmptyQuery(parseSearchQuery('-山'))).toBe(false);
+  });
+});
+
+// ── matchesQuery ──
+
+describe('matchesQuery', () => {
+  const content = '今日は雨の中、山に登った。\n仕事のことは忘れた。';
+
+  it('AND はすべて含むときだけ一致', () => {
+    expect(matches(content, '雨 山')).toBe(true);
+    expect(matches(content, '雨 海')).toBe(false);
+  });
+
+  it('OR はどれかを含めば一致', () => {
+    expect(matches(content, '海 OR 山')).toBe(true);
+    expect(matches(content, '海 OR 川')).toBe(false);
+  });
+
+  it('除外語を含むと一致しない', () => {
+    expect(matches(content, '山 -仕事')).toBe(false);
+    expect(matches(content, '山 -会議')).toBe(true);
+  });
+
+  it('フレーズは並び順まで一致する必要がある', () => {
+    expect(matches(content, '"山に登った"')).toBe(true);
+    expect(matches(content, '"登った山"')).toBe(false);
+  });
+
+  it('改行をまたぐフレーズも空白として一致する', () => {
+    expect(matches(content, '"登った。 仕事"')).toBe(true);
+  });
+
+  it('大文字小文字・全角半角を区別しない', () => {
+    expect(matches('Ｆｕｊｉ山', 'fuji')).toBe(true);
+  });
+});
+
+// ── matchesFilters ──
+
+describe('matchesFilters', () => {
+  it('期間は両端を含む', () => {
+    expect(matchesFilters(makeEntry({ date: '2020-05-10' }), { from: '2020-05-10', to: '2020-05-10' })).toBe(true);
+    expect(matchesFilters(makeEntry({ date: '2020-05-11' }), { to: '2020-05-10' })).toBe(false);
+  });
+
+  it('フォーマットが混在した日付も比較できる', () => {
+    expect(matchesFilters(makeEntry({ date: '2020/05/10' }), { from: '2020-05-01' })).toBe(true);
+  });
+
+  it('期間指定時は日付不明を除外する', () => {
+    expect(matchesFilters(makeEntry({ date: null }), { from: '2020-01-01' })).toBe(false);
+    expect(matchesFilters(makeEntry({ date: null }), {})).toBe(true);
+  });
+
+  it('ソースファイルで絞り込める', () => {
+    expect(matchesFilters(makeEntry({ sourceFile: 'a.txt' }), { sourceFile: 'b.txt' })).toBe(false);
+  });
+});
+
+// ── buildSnippets ──
+
+describe('buildSnippets', () => {
+  it('一致箇所をハイライトする', () => {
+    const snippets = buildSnippets('今日は雨だった', ['雨']);
+    expect(snippets).toEqual([[
+      { text: '今日は', hit: false },
+      { text: '雨', hit: true },
+      { text: 'だった', hit: false },
+    ]]);
+  });
+
+  it('正規化前の表記のままハイライトする', () => {
+    const parts = buildSnippets('ＦＵＪＩに登った', ['fuji'])[0];
+    expect(parts.find(p => p.hit)?.text).toBe('ＦＵＪＩ');
+  });
+
+  it('離れた一致は別のスニペットにし、前後を省略記号で示す', () => {
+    const content = `${'あ'.repeat(100)}山${'い'.repeat(100)}川${'う'.repeat(100)}`;
+    const snippets = buildSnippets(content, ['山', '川'], 10);
+    expect(snippets).toHaveLength(2);
+    expect(snippets[0][0].text).toBe('…');
+    expect(snippets[0].at(-1)!.text).toBe('…');
+  });
+
+  it('スニペット数の上限を守る', () => {
+    const content = Array.from({ length: 10 }, () => `山${'あ'.repeat(50)}`).join('');
+    expect(buildSnippets(content, ['山'], 5, 3)).toHaveLength(3);
+  });
+
+  it('一致がなければ冒頭を返す', () => {
+    expect(buildSnippets('今日は晴れ', ['雨'])).toEqual([[{ text: '今日は晴れ', hit: false }]]);
+  });
+});
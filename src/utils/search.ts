@@ -0,0 +1,262 @@
+/**
+ * 日記の全文検索ユーティリティ
+ *
+ * 日本語は単語区切りがないため、文字単位のユニグラム＋バイグラムで転置インデックスを作る。
+ * インデックスは候補の絞り込みにだけ使い、最終的な一致判定は正規化した本文で行う
+ * （バイグラムがすべて含まれていても、並び順まで一致しているとは限らないため）。
+ */
+import type { DiaryEntry } from '../types';
+import { toDateOnly } from './dateNormalize';
+
+/** 正規化後のテキストと、各文字が元テキストのどこに対応するか */
+export interface NormalizedText {
+  text: string;
+  starts: number[]; // text[i] に対応する元テキストの開始位置
+  ends: number[]; // text[i] に対応する元テキストの終了位置（排他）
+}
+
+/**
+ * 検索用に正規化する。
+ * - NFKC（全角英数→半角、半角カナ→全角など）＋小文字化
+ * - 連続する空白・改行は半角スペース1つにまとめ、前後の空白は落とす
+ */
+export function normalizeForSearch(source: string): NormalizedText {
+  let text = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let pos = 0;
+  let pendingSpace = false;
+
+  for (const ch of source) {
+    const start = pos;
+    pos += ch.length;
+    if (/\s/.test(ch)) {
+      pendingSpace = text.length > 0;
+      continue;
+    }
+    if (pendingSpace) {
+      text += ' ';
+      starts.push(start);
+      ends.push(start);
+      pendingSpace = false;
+    }
+    const normalized = ch.normalize('NFKC').toLowerCase();
+    for (let i = 0; i < normalized.length; i++) {
+      starts.push(start);
+      ends.push(pos);
+    }
+    text += normalized;
+  }
+
+  return { text, starts, ends };
+}
+
+// 空白で区切られた連続部分ごとに、コードポイント単位のユニグラムとバイグラムを集める
+function collectGrams(normalized: string, withUnigrams: boolean): string[] {
+  const grams = new Set<string>();
+  for (const run of normalized.split(' ')) {
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      grams.add(chars[0]);
+      continue;
+    }
+    for (let i = 0; i < chars.length; i++) {
+      if (withUnigrams) grams.add(chars[i]);
+      if (i + 1 < chars.length) grams.add(chars[i] + chars[i + 1]);
+    }
+  }
+  grams.delete('');
+  return [...grams];
+}
+
+/** 本文から転置インデックスに載せるグラム（ユニグラム＋バイグラム）を抽出する */
+export function extractGrams(content: string): string[] {
+  return collectGrams(normalizeForSearch(content).text, true);
+}
+
+/**
+ * 検索語（正規化済み）をインデックスで引くためのグラム。
+ * 1文字ならユニグラム、2文字以上ならバイグラムのみで引く。
+ */
+export function termGrams(term: string): string[] {
+  return collectGrams(term, false);
+}
+
+// --- クエリ ---
+
+/**
+ * 解析済みの検索クエリ。
+ * groups は AND で結ばれ、各グループ内の語は OR で結ばれる。excluded はどれも含まないこと。
+ * 語はすべて normalizeForSearch 済み。
+ */
+export interface SearchQuery {
+  groups: string[][];
+  excluded: string[];
+}
+
+/**
+ * 検索ボックスの入力を解析する。
+ * - 空白区切り: AND（例: `山 雨`）
+ * - OR / |: 直前の語との OR（例: `雨 OR 雪`）
+ * - -語 / NOT 語: 除外（例: `山 -仕事`）
+ * - "…": フレーズ（空白を含めてそのまま探す）
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const groups: string[][] = [];
+  const excluded: string[] = [];
+  let pendingOr = false;
+  let pendingNot = false;
+
+  // 全角の引用符・スペースも受け付けるため先に NFKC をかける
+  const source = input.normalize('NFKC');
+  const tokenPattern = /(-?)"([^"]*)"?|(\S+)/g;
+
+  for (const match of source.matchAll(tokenPattern)) {
+    const [, minus, phrase, word] = match;
+    if (word === 'OR' || word === '|') {
+      pendingOr = groups.length > 0;
+      continue;
+    }
+    if (word === 'NOT') {
+      pendingNot = true;
+      continue;
+    }
+
+    let negated = pendingNot;
+    let raw: string;
+    if (phrase !== undefined) {
+      negated ||= minus === '-';
+      raw = phrase;
+    } else if (word.startsWith('-') && word.length > 1) {
+      negated = true;
+      raw = word.slice(1);
+    } else {
+      raw = word;
+    }
+
+    const term = normalizeForSearch(raw).text;
+    const orWithPrevious = pendingOr;
+    pendingOr = false;
+    pendingNot = false;
+    if (!term) continue;
+
+    if (negated) {
+      excluded.push(term);
+    } else if (orWithPrevious) {
+      groups[groups.length - 1].push(term);
+    } else {
+      groups.push([term]);
+    }
+  }
+
+  return { groups, excluded };
+}
+
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return query.groups.length === 0 && query.excluded.length === 0;
+}
+
+/** 正規化済みの本文がクエリに一致するか */
+export function matchesQuery(normalizedContent: string, query: SearchQuery): boolean {
+  return (
+    query.groups.every(group => group.some(term => normalizedContent.includes(term))) &&
+    !query.excluded.some(term => normalizedContent.includes(term))
+  );
+}
+
+// --- 絞り込み ---
+
+export interface SearchFilters {
+  from?: string; // YYYY-MM-DD（含む）
+  to?: string; // YYYY-MM-DD（含む）
+  sourceFile?: string;
+}
+
+/** 期間・ソースファイルの絞り込みに合うか。期間指定時は日付不明のエントリを除外する */
+export function matchesFilters(entry: DiaryEntry, filters: SearchFilters): boolean {
+  if (filters.sourceFile && entry.sourceFile !== filters.sourceFile) return false;
+  if (filters.from || filters.to) {
+    if (!entry.date) return false;
+    const date = toDateOnly(entry.date);
+    if (filters.from && date < filters.from) return false;
+    if (filters.to && date > filters.to) return false;
+  }
+  return true;
+}
+
+// --- スニペット ---
+
+export interface SnippetPart {
+  text: string;
+  hit: boolean;
+}
+
+/**
+ * 一致箇所の前後を切り出し、ハイライト用に分割する。
+ * 近い一致はひとつのスニペットにまとめ、最大 maxSnippets 個まで返す。
+ * 一致がない場合（除外語だけのクエリなど）は冒頭を返す。
+ */
+export function buildSnippets(
+  content: string,
+  terms: string[],
+  radius = 40,
+  maxSnippets = 3,
+): SnippetPart[][] {
+  const { text, starts, ends } = normalizeForSearch(content);
+
+  // 一致範囲を元テキストの座標で集める
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    let idx = text.indexOf(term);
+    while (idx !== -1) {
+      ranges.push([starts[idx], ends[idx + term.length - 1]]);
+      idx = text.indexOf(term, idx + 1);
+    }
+  }
+
+  if (ranges.length === 0) {
+    const head = content.slice(0, radius * 2);
+    return [[{ text: head + (content.length > head.length ? '…' : ''), hit: false }]];
+  }
+
+  // 重なる範囲を統合
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+
+  // 前後 radius 文字の窓に分け、窓同士が重なるものはまとめる
+  const windows: { start: number; end: number; hits: [number, number][] }[] = [];
+  for (const hit of merged) {
+    const start = Math.max(0, hit[0] - radius);
+    const end = Math.min(content.length, hit[1] + radius);
+    const last = windows[windows.length - 1];
+    if (last && start <= last.end) {
+      last.end = end;
+      last.hits.push(hit);
+    } else {
+      if (windows.length === maxSnippets) break;
+      windows.push({ start, end, hits: [hit] });
+    }
+  }
+
+  return windows.map(({ start, end, hits }) => {
+    const parts: SnippetPart[] = [];
+    let cursor = start;
+    for (const [hitStart, hitEnd] of hits) {
+      if (hitStart > cursor) parts.push({ text: content.slice(cursor, hitStart), hit: false });
+      parts.push({ text: content.slice(hitStart, hitEnd), hit: true });
+      cursor = hitEnd;
+    }
+    if (end > cursor) parts.push({ text: content.slice(cursor, end), hit: false });
+    if (start > 0) parts.unshift({ text: '…', hit: false });
+    if (end < content.length) parts.push({ text: '…', hit: false });
+    return parts;
+  });
+}
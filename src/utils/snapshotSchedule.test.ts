@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { isSnapshotDue, localWeekKey, snapshotsToPrune } from './snapshotSchedule';
+
+// 端末のタイムゾーンで解釈させるため、日時は Z を付けずに書く
+function at(local: string): string {
+  return new Date(local).toISOString();
+}
+
+function scheduled(id: string, local: string) {
+  return { id, createdAt: at(local), trigger: 'scheduled' as const };
+}
+
+describe('localWeekKey', () => {
+  it('月曜始まりの ISO 週を返す', () => {
+    expect(localWeekKey(new Date('2025-03-09T12:00'))).toBe('2025-W10'); // 日曜
+    expect(localWeekKey(new Date('2025-03-10T12:00'))).toBe('2025-W11'); // 月曜
+  });
+
+  it('年をまたぐ週は木曜日の属する年で数える', () => {
+    expect(localWeekKey(new Date('2024-12-30T12:00'))).toBe('2025-W01');
+    expect(localWeekKey(new Date('2021-01-01T12:00'))).toBe('2020-W53');
+  });
+});
+
+describe('isSnapshotDue', () => {
+  const now = new Date('2025-03-12T09:00');
+
+  it('まだ1つもなければ作る', () => {
+    expect(isSnapshotDue(null, 'daily', now)).toBe(true);
+  });
+
+  it('毎日なら日付が変わっていれば作る', () => {
+    expect(isSnapshotDue(at('2025-03-12T00:30'), 'daily', now)).toBe(false);
+    expect(isSnapshotDue(at('2025-03-11T23:30'), 'daily', now)).toBe(true);
+  });
+
+  it('毎週なら週が変わっていれば作る', () => {
+    expect(isSnapshotDue(at('2025-03-10T08:00'), 'weekly', now)).toBe(false);
+    expect(isSnapshotDue(at('2025-03-09T08:00'), 'weekly', now)).toBe(true);
+  });
+
+  it('止めていれば作らない', () => {
+    expect(isSnapshotDue(null, 'off', now)).toBe(false);
+  });
+});
+
+describe('snapshotsToPrune', () => {
+  it('直近N日はその日の最新だけを残す', () => {
+    const snapshots = [
+      scheduled('d3', '2025-03-12T09:00'),
+      scheduled('d2-late', '2025-03-11T20:00'),
+      scheduled('d2-early', '2025-03-11T08:00'),
+      scheduled('d1', '2025-03-10T09:00'),
+    ];
+    expect(snapshotsToPrune(snapshots, { keepDaily: 2, keepWeekly: 0 }).sort()).toEqual(['d1', 'd2-early']);
+  });
+
+  it('日ごとから外れても、直近M週の各週の最新は残す', () => {
+    const snapshots = [
+      scheduled('w11-wed', '2025-03-12T09:00'),
+      scheduled('w11-mon', '2025-03-10T09:00'),
+      scheduled('w10-sun', '2025-03-09T09:00'),
+      scheduled('w10-fri', '2025-03-07T09:00'),
+      scheduled('w9-sun', '2025-03-02T09:00'),
+      scheduled('w8-sun', '2025-02-23T09:00'),
+    ];
+    expect(snapshotsToPrune(snapshots, { keepDaily: 1, keepWeekly: 3 }).sort())
+      .toEqual(['w10-fri', 'w11-mon', 'w8-sun']);
+  });
+
+  it('手動のスナップショットは消さない', () => {
+    const snapshots = [
+      scheduled('new', '2025-03-12T09:00'),
+      { id: 'manual', createdAt: at('2025-01-01T09:00'), trigger: 'manual' as const },
+      scheduled('old', '2025-01-01T09:00'),
+    ];
+    expect(snapshotsToPrune(snapshots, { keepDaily: 1, keepWeekly: 0 })).toEqual(['old']);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * 自動バックアップ（スナップショット）の間隔と保持の規則
+ *
+ * ブラウザはアプリを閉じている間は何もできないので、開いたとき（と開いている間は1時間ごと）に
+ * 前回から間隔が空いていればスナップショットを作る。
+ * 保持は「直近 N 日は1日1つ、直近 M 週は1週1つ」。どちらにも残らない自動のスナップショットを消す。
+ * 手動で作ったスナップショットは自動では消さない。
+ */
+import type { BackupSnapshot } from '../types';
+
+const SETTINGS_KEY = 'climbing-log-auto-backup';
+
+export type SnapshotFrequency = 'off' | 'daily' | 'weekly';
+
+export interface AutoBackupSettings {
+  frequency: SnapshotFrequency;
+  keepDaily: number; // 1日1つ残す日数
+  keepWeekly: number; // 1週1つ残す週数
+}
+
+export const DEFAULT_AUTO_BACKUP_SETTINGS: AutoBackupSettings = { frequency: 'daily', keepDaily: 7, keepWeekly: 4 };
+export const MAX_KEEP = 60;
+
+export function getAutoBackupSettings(): AutoBackupSettings {
+  // テストなど localStorage のない環境では既定値
+  const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(SETTINGS_KEY);
+  try {
+    const parsed = stored ? JSON.parse(stored) as Partial<AutoBackupSettings> : {};
+    return normalizeAutoBackupSettings({ ...DEFAULT_AUTO_BACKUP_SETTINGS, ...parsed });
+  } catch {
+    return DEFAULT_AUTO_BACKUP_SETTINGS;
+  }
+}
+
+export function setAutoBackupSettings(settings: AutoBackupSettings): AutoBackupSettings {
+  const normalized = normalizeAutoBackupSettings(settings);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(normalized));
+  return normalized;
+}
+
+function clampKeep(value: unknown, min: number, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) ? Math.min(MAX_KEEP, Math.max(min, n)) : fallback;
+}
+
+function normalizeAutoBackupSettings(settings: AutoBackupSettings): AutoBackupSettings {
+  const frequency = (['off', 'daily', 'weekly'] as const).includes(settings.frequency)
+    ? settings.frequency
+    : DEFAULT_AUTO_BACKUP_SETTINGS.frequency;
+  return {
+    frequency,
+    // 作ったばかりのスナップショットまで消さないよう、日ごとは最低1つ残す
+    keepDaily: clampKeep(settings.keepDaily, 1, DEFAULT_AUTO_BACKUP_SETTINGS.keepDaily),
+    keepWeekly: clampKeep(settings.keepWeekly, 0, DEFAULT_AUTO_BACKUP_SETTINGS.keepWeekly),
+  };
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/** 端末のタイムゾーンでの YYYY-MM-DD */
+export function localDayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** 端末のタイムゾーンでの ISO 週（YYYY-Www）。週は月曜始まり */
+export function localWeekKey(date: Date): string {
+  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const weekday = d.getUTCDay() || 7;
+  // その週の木曜日が属する年が ISO 週の年
+  d.setUTCDate(d.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${pad(week)}`;
+}
+
+/** 前回の自動スナップショットから、次を作る時期が来ているか */
+export function isSnapshotDue(lastCreatedAt: string | null, frequency: SnapshotFrequency, now: Date): boolean {
+  if (frequency === 'off') return false;
+  if (!lastCreatedAt) return true;
+  const last = new Date(lastCreatedAt);
+  return frequency === 'daily'
+    ? localDayKey(last) !== localDayKey(now)
+    : localWeekKey(last) !== localWeekKey(now);
+}
+
+/**
+ * 保持の規則から外れる自動スナップショットの ID。
+ * 直近 keepDaily 日（スナップショットのある日を新しい順に数える）はその日の最新を、
+ * 直近 keepWeekly 週はその週の最新を残す。
+ */
+export function snapshotsToPrune(
+  snapshots: Pick<BackupSnapshot, 'id' | 'createdAt' | 'trigger'>[],
+  settings: Pick<AutoBackupSettings, 'keepDaily' | 'keepWeekly'>,
+): string[] {
+  const scheduled = snapshots
+    .filter(s => s.trigger === 'scheduled')
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const keep = new Set<string>();
+  const pickLatest = (keyOf: (date: Date) => string, limit: number) => {
+    const seen = new Set<string>();
+    for (const snapshot of scheduled) {
+      const key = keyOf(new Date(snapshot.createdAt));
+      if (seen.has(key)) continue;
+      if (seen.size >= limit) break;
+      seen.add(key);
+      keep.add(snapshot.id);
+    }
+  };
+  pickLatest(localDayKey, settings.keepDaily);
+  pickLatest(localWeekKey, settings.keepWeekly);
+
+  return scheduled.filter(s => !keep.has(s.id)).map(s => s.id);
+}
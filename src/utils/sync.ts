@@ -0,0 +1,150 @@
+/**
+ * 端末間の同期（設定・実行・状態）
+ *
+ * 同期は任意で、ユーザーが用意した WebDAV / S3 互換の同期先を設定したときだけ動く（このアプリの運営するサーバーは無い）。
+ * 同期先には同期用のパスフレーズで暗号化した変更だけを置く。手順は syncEngine.ts、併合の規則は syncMerge.ts。
+ * 同期先の接続情報と同期用のパスフレーズは、APIキーと同じくロックが有効なら暗号化して保存する。
+ */
+import type { SyncTargetConfig } from './syncTarget';
+import { createSyncTarget } from './syncTarget';
+import { runSync, type SyncResult } from './syncEngine';
+import { applySyncChanges, getSyncState, resetSyncState, markAllAiCacheStale, deduplicationKey } from '../db';
+import { encryptString, decryptString, getLockState } from './encryption';
+import { toErrorMessage } from './errorMessage';
+
+const SETTINGS_KEY = 'climbing-log-sync';
+const DEVICE_KEY = 'climbing-log-sync-device';
+const LAST_SYNCED_KEY = 'climbing-log-sync-last';
+const SYNC_INTERVAL_MS = 15 * 60_000;
+// 複数のタブで同時に同期しないためのロック
+const LOCK_NAME = 'climbing-log-sync';
+
+export interface SyncConfig {
+  target: SyncTargetConfig;
+  passphrase: string; // 同期先に置く変更を暗号化するパスフレーズ（すべての端末で同じもの）
+}
+
+export interface SyncStatus {
+  running: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  lastResult: SyncResult | null;
+}
+
+let status: SyncStatus = {
+  running: false,
+  lastSyncedAt: typeof localStorage === 'undefined' ? null : localStorage.getItem(LAST_SYNCED_KEY),
+  lastError: null,
+  lastResult: null,
+};
+const listeners = new Set<() => void>();
+let started = false;
+
+function setStatus(next: Partial<SyncStatus>): void {
+  status = { ...status, ...next };
+  listeners.forEach(listener => listener());
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeSyncStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// ── 設定 ──
+
+export function isSyncConfigured(): boolean {
+  return localStorage.getItem(SETTINGS_KEY) !== null;
+}
+
+export async function getSyncConfig(): Promise<SyncConfig | null> {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  return stored ? JSON.parse(await decryptString(stored)) as SyncConfig : null;
+}
+
+/** 同期先を保存する（null で同期をやめる）。同期先が変わったら同期の記録を消して、最初から同期し直す */
+export async function saveSyncConfig(config: SyncConfig | null): Promise<void> {
+  const previous = await getSyncConfig();
+  if (JSON.stringify(previous?.target) !== JSON.stringify(config?.target)) {
+    await resetSyncState();
+    localStorage.removeItem(LAST_SYNCED_KEY);
+    setStatus({ lastSyncedAt: null, lastError: null, lastResult: null });
+  }
+  if (config) localStorage.setItem(SETTINGS_KEY, await encryptString(JSON.stringify(config)));
+  else localStorage.removeItem(SETTINGS_KEY);
+}
+
+/** ロックの有効化・解除時: 保存された同期の設定を今の設定（暗号化するかどうか）で書き直す */
+export async function rewriteStoredSyncConfig(): Promise<void> {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (stored) localStorage.setItem(SETTINGS_KEY, await encryptString(await decryptString(stored)));
+}
+
+function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+}
+
+// ── 実行 ──
+
+async function syncOnce(): Promise<SyncResult | null> {
+  const config = await getSyncConfig();
+  if (!config) return null;
+  const result = await runSync(
+    createSyncTarget(config.target),
+    { load: getSyncState, save: applySyncChanges, entryKey: deduplicationKey },
+    { passphrase: config.passphrase, deviceId: getDeviceId() },
+  );
+  // 日記が変わったので、分析結果を古いものとして扱う
+  if (result.pulled > 0) await markAllAiCacheStale();
+  return result;
+}
+
+/**
+ * 今すぐ同期する。設定が無い・ロック中・実行中（別のタブを含む）なら何もせず null。
+ * 失敗は状態（lastError）に残して、例外としても投げる。
+ */
+export async function syncNow(): Promise<SyncResult | null> {
+  if (status.running || !isSyncConfigured() || getLockState() === 'locked') return null;
+  setStatus({ running: true });
+  try {
+    let result: SyncResult | null = null;
+    if ('locks' in navigator) {
+      await navigator.locks.request(LOCK_NAME, { ifAvailable: true }, async lock => {
+        if (lock) result = await syncOnce();
+      });
+    } else {
+      result = await syncOnce();
+    }
+    if (result) {
+      const lastSyncedAt = new Date().toISOString();
+      localStorage.setItem(LAST_SYNCED_KEY, lastSyncedAt);
+      setStatus({ lastSyncedAt, lastError: null, lastResult: result });
+    }
+    return result;
+  } catch (err) {
+    setStatus({ lastError: toErrorMessage(err, '同期に失敗しました') });
+    throw err;
+  } finally {
+    setStatus({ running: false });
+  }
+}
+
+/** アプリ起動時に一度だけ呼ぶ。同期を設定していれば、開いている間は15分ごとに同期する */
+export function startAutoSync(): void {
+  if (started) return;
+  started = true;
+  const run = () => {
+    // 失敗は状態に残っているので、設定画面で見せる
+    syncNow().catch(() => {});
+  };
+  run();
+  setInterval(run, SYNC_INTERVAL_MS);
+}
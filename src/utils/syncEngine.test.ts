@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import type { DiaryEntry, SyncConflict, SyncRecord } from '../types';
+import { runSync, changeSetName, KEY_INFO_NAME, type SyncLocal } from './syncEngine';
+import { createWebDavTarget } from './syncTarget';
+import { recordKey } from './syncMerge';
+import { WrongPassphraseError } from './encryption';
+
+// テストでは反復回数を減らして速くする
+const ITERATIONS = 1000;
+
+/** メモリ上の WebDAV サーバー。GET と、If-None-Match: * つきの PUT だけを受け付ける */
+function createWebDavStub(credentials = 'alice:secret') {
+  const files = new Map<string, string>();
+  const expectedAuth = `Basic ${btoa(credentials)}`;
+  const fetchFn = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const headers = new Headers(init?.headers);
+    if (headers.get('Authorization') !== expectedAuth) return new Response(null, { status: 401 });
+    const path = url.pathname;
+    if ((init?.method ?? 'GET') === 'GET') {
+      const body = files.get(path);
+      return body === undefined ? new Response(null, { status: 404 }) : new Response(body);
+    }
+    if (init?.method === 'PUT') {
+      if (headers.get('If-None-Match') === '*' && files.has(path)) return new Response(null, { status: 412 });
+      files.set(path, String(init.body));
+      return new Response(null, { status: 201 });
+    }
+    return new Response(null, { status: 405 });
+  }) as typeof fetch;
+  return { files, fetchFn };
+}
+
+/** メモリ上の端末。db 層の getSyncState / applySyncChanges と同じ役目 */
+function createDevice() {
+  const records = new Map<string, SyncRecord>();
+  const synced = new Map<string, string>();
+  const conflicts: SyncConflict[] = [];
+  let lastSeq = 0;
+  const local: SyncLocal = {
+    async load() {
+      return { records: [...records.values()], synced: new Map(synced), lastSeq };
+    },
+    async save(changes) {
+      for (const record of changes.apply) records.set(recordKey(record), record);
+      for (const [key, modifiedAt] of changes.synced) synced.set(key, modifiedAt);
+      conflicts.push(...changes.conflicts);
+      lastSeq = changes.lastSeq;
+    },
+    async entryKey(entry) {
+      return `${entry.sourceFile}|${entry.date}|${entry.content}`;
+    },
+  };
+  return {
+    local,
+    conflicts,
+    write(id: string, content: string, at: string) {
+      const value: DiaryEntry = {
+        id, date: '2025-03-01', content, sourceFile: 'a.txt', importedAt: '2025-03-01T00:00:00.000Z',
+        updatedAt: at, comments: [], isFavorite: false,
+      };
+      records.set(recordKey({ store: 'entries', id, modifiedAt: at, value }), { store: 'entries', id, modifiedAt: at, value });
+    },
+    remove(id: string, at: string) {
+      records.set(recordKey({ store: 'entries', id, modifiedAt: at, value: null }), { store: 'entries', id, modifiedAt: at, value: null });
+    },
+    entryIds() {
+      return [...records.values()].filter(r => r.store === 'entries' && r.value !== null).map(r => r.id);
+    },
+    content(id: string) {
+      const record = records.get(`entries:${id}`);
+      return record?.value ? (record.value as DiaryEntry).content : null;
+    },
+  };
+}
+
+const config = { kind: 'webdav' as const, url: 'https://dav.example.com/climbing-log', username: 'alice', password: 'secret' };
+const options = (deviceId: string) => ({ passphrase: 'sync passphrase', deviceId, iterations: ITERATIONS });
+
+describe('runSync（WebDAV のスタブ相手）', () => {
+  it('2台の端末の変更が行き来し、同期先には暗号化された変更だけが置かれる', async () => {
+    const { files, fetchFn } = createWebDavStub();
+    const target = createWebDavTarget(config, fetchFn);
+    const phone = createDevice();
+    const laptop = createDevice();
+    phone.write('e1', '稜線で風が強かった', '2025-03-01T10:00:00.000Z');
+    laptop.write('e2', '山小屋で休んだ', '2025-03-01T11:00:00.000Z');
+
+    expect(await runSync(target, phone.local, options('phone'))).toEqual({ pulled: 0, pushed: 1, conflicts: 0 });
+    expect(await runSync(target, laptop.local, options('laptop'))).toEqual({ pulled: 1, pushed: 1, conflicts: 0 });
+    expect(await runSync(target, phone.local, options('phone'))).toEqual({ pulled: 1, pushed: 0, conflicts: 0 });
+
+    expect(phone.content('e2')).toBe('山小屋で休んだ');
+    expect(laptop.content('e1')).toBe('稜線で風が強かった');
+    expect([...files.keys()].sort()).toEqual([
+      `/climbing-log/${changeSetName(1)}`,
+      `/climbing-log/${changeSetName(2)}`,
+      `/climbing-log/${KEY_INFO_NAME}`,
+    ]);
+    for (const body of files.values()) expect(body).not.toContain('稜線');
+  });
+
+  it('削除も伝わる', async () => {
+    const { fetchFn } = createWebDavStub();
+    const target = createWebDavTarget(config, fetchFn);
+    const phone = createDevice();
+    const laptop = createDevice();
+    phone.write('e1', '消す予定の日記', '2025-03-01T10:00:00.000Z');
+    await runSync(target, phone.local, options('phone'));
+    await runSync(target, laptop.local, options('laptop'));
+
+    laptop.remove('e1', '2025-03-02T10:00:00.000Z');
+    await runSync(target, laptop.local, options('laptop'));
+    await runSync(target, phone.local, options('phone'));
+    expect(phone.content('e1')).toBeNull();
+  });
+
+  it('削除してからバックアップで戻した日記は、復元した時刻の版としてほかの端末にも戻る', async () => {
+    const { fetchFn } = createWebDavStub();
+    const target = createWebDavTarget(config, fetchFn);
+    const phone = createDevice();
+    const laptop = createDevice();
+    phone.write('e1', '戻したい日記', '2025-03-01T10:00:00.000Z');
+    await runSync(target, phone.local, options('phone'));
+    await runSync(target, laptop.local, options('laptop'));
+    laptop.remove('e1', '2025-03-02T10:00:00.000Z');
+    await runSync(target, laptop.local, options('laptop'));
+    await runSync(target, phone.local, options('phone'));
+    expect(phone.content('e1')).toBeNull();
+
+    // restoreBackup は書き込む日記を今の時刻の版にし、削除の記録を消す
+    phone.write('e1', '戻したい日記', '2025-03-03T10:00:00.000Z');
+    expect(await runSync(target, phone.local, options('phone'))).toEqual({ pulled: 0, pushed: 1, conflicts: 0 });
+    await runSync(target, laptop.local, options('laptop'));
+    expect(laptop.content('e1')).toBe('戻したい日記');
+    expect(laptop.conflicts).toEqual([]);
+  });
+
+  it('同じファイルを両方で取り込んでいた日記は、初めての同期で1件にまとまる', async () => {
+    const { fetchFn } = createWebDavStub();
+    const target = createWebDavTarget(config, fetchFn);
+    const phone = createDevice();
+    const laptop = createDevice();
+    phone.write('phone-e1', '同じ日記', '2025-03-01T10:00:00.000Z');
+    laptop.write('laptop-e1', '同じ日記', '2025-03-01T11:00:00.000Z');
+    await runSync(target, phone.local, options('phone'));
+    await runSync(target, laptop.local, options('laptop'));
+    await runSync(target, phone.local, options('phone'));
+
+    expect(laptop.entryIds()).toEqual(['phone-e1']);
+    expect(phone.entryIds()).toEqual(['phone-e1']);
+    expect(laptop.conflicts).toEqual([]);
+  });
+
+  it('同じ日記を両方で編集したら、新しい方にそろい、取り込んだ側に衝突が残る', async () => {
+    const { fetchFn } = createWebDavStub();
+    const target = createWebDavTarget(config, fetchFn);
+    const phone = createDevice();
+    const laptop = createDevice();
+    phone.write('e1', '元の本文', '2025-03-01T10:00:00.000Z');
+    await runSync(target, phone.local, options('phone'));
+    await runSync(target, laptop.local, options('laptop'));
+
+    phone.write('e1', 'スマホで編集', '2025-03-02T10:00:00.000Z');
+    laptop.write('e1', 'パソコンで編集', '2025-03-03T10:00:00.000Z');
+    await runSync(target, phone.local, options('phone'));
+    const result = await runSync(target, laptop.local, options('laptop'));
+    await runSync(target, phone.local, options('phone'));
+
+    expect(result.conflicts).toBe(1);
+    expect(laptop.conflicts[0].discarded.value).toMatchObject({ content: 'スマホで編集' });
+    expect(laptop.content('e1')).toBe('パソコンで編集');
+    expect(phone.content('e1')).toBe('パソコンで編集');
+  });
+
+  it('同期用のパスフレーズが違えば WrongPassphraseError', async () => {
+    const { fetchFn } = createWebDavStub();
+    const target = createWebDavTarget(config, fetchFn);
+    await runSync(target, createDevice().local, options('phone'));
+    await expect(runSync(target, createDevice().local, { ...options('laptop'), passphrase: 'another passphrase' }))
+      .rejects.toBeInstanceOf(WrongPassphraseError);
+  });
+
+  it('keyinfo.json の反復回数が範囲外なら、鍵を導かずに断る', async () => {
+    const { files, fetchFn } = createWebDavStub();
+    const target = createWebDavTarget(config, fetchFn);
+    await runSync(target, createDevice().local, options('phone'));
+    const path = `/climbing-log/${KEY_INFO_NAME}`;
+    const info = JSON.parse(files.get(path)!);
+    files.set(path, JSON.stringify({ ...info, kdf: { ...info.kdf, iterations: 1e12 } }));
+    await expect(runSync(target, createDevice().local, options('laptop'))).rejects.toThrow(/鍵導出の設定/);
+  });
+
+  it('認証で断られたらエラーにする', async () => {
+    const { fetchFn } = createWebDavStub();
+    const target = createWebDavTarget({ ...config, password: 'wrong' }, fetchFn);
+    await expect(runSync(target, createDevice().local, options('phone'))).rejects.toThrow(/HTTP 401/);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * 端末間の同期の手順（同期先とのやりとり）
+ *
+ * 同期先には、同期用のパスフレーズで暗号化した「変更の束」を 1, 2, 3... の連番で置いていく（追記だけで書き換えない）。
+ * 1回の同期では、まだ読んでいない番号を順に読んで取り込み（syncMerge.ts）、手元の変更があれば次の番号に書く。
+ * 同じ番号を別の端末が先に書いていたら、それを取り込み直してから次の番号に書き直す。
+ * 鍵を導くソルトは同期先の keyinfo.json に置き、最初に同期した端末が作る。
+ * 手元のデータの読み書きは SyncLocal として外から渡す（アプリでは db 層、テストではメモリ上）。
+ */
+import type { DiaryEntry, SyncConflict, SyncRecord } from '../types';
+import type { SyncTarget } from './syncTarget';
+import { collectOutgoing, mergeIncoming, recordKey } from './syncMerge';
+import { deriveKey, toBase64, PBKDF2_ITERATIONS } from './encryption';
+import { encryptBackupWithKey, decryptBackupWithKey, deriveBackupKey, isEncryptedBackup } from './encryptedBackup';
+
+export const KEY_INFO_NAME = 'keyinfo.json';
+export const CHANGE_SET_VERSION = 1;
+const KEY_CHECK = 'climbing-log-sync';
+// 同じ番号の取り合いに負け続けたらあきらめる
+const MAX_PUSH_ATTEMPTS = 5;
+
+export function changeSetName(seq: number): string {
+  return `changes-${String(seq).padStart(8, '0')}.json`;
+}
+
+interface ChangeSet {
+  version: number;
+  deviceId: string;
+  createdAt: string;
+  records: SyncRecord[];
+}
+
+export interface SyncLocalState {
+  records: SyncRecord[]; // 手元のレコードとトゥームストーン
+  synced: Map<string, string>; // キーごとの最後に同期した版
+  lastSeq: number; // 読み終えた変更の束の番号
+}
+
+export interface SyncLocalChanges {
+  apply: SyncRecord[];
+  // apply を決めたときの手元の版。書き込むまでに手元で変えられていたら、書かずに衝突として残す
+  expected: [key: string, modifiedAt: string | null][];
+  conflicts: SyncConflict[];
+  synced: [key: string, modifiedAt: string][];
+  lastSeq: number;
+}
+
+export interface SyncLocal {
+  load(): Promise<SyncLocalState>;
+  save(changes: SyncLocalChanges): Promise<void>;
+  entryKey(entry: DiaryEntry): Promise<string>; // 日記の重複検出キー（初めての同期で、同じ日記を突き合わせる）
+}
+
+export interface SyncResult {
+  pulled: number; // 手元に書き込んだ版の数
+  pushed: number; // 送り出した版の数
+  conflicts: number;
+}
+
+export interface SyncOptions {
+  passphrase: string;
+  deviceId: string;
+  iterations?: number; // keyinfo.json を新しく作るときの鍵導出の反復回数
+  now?: () => Date;
+}
+
+interface SyncKey {
+  key: CryptoKey;
+  kdf: { salt: string; iterations: number };
+}
+
+/** 同期先の keyinfo.json から鍵を導く。まだ無ければ作る。パスフレーズが違えば WrongPassphraseError */
+async function openSyncKey(target: SyncTarget, passphrase: string, iterations: number): Promise<SyncKey> {
+  let raw = await target.get(KEY_INFO_NAME);
+  if (raw === null) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const kdf = { salt: toBase64(salt), iterations };
+    const key = await deriveKey(passphrase, salt, iterations);
+    const info = await encryptBackupWithKey({ check: KEY_CHECK }, key, kdf);
+    if (await target.create(KEY_INFO_NAME, JSON.stringify(info))) return { key, kdf };
+    // 別の端末が先に作った
+    raw = await target.get(KEY_INFO_NAME);
+    if (raw === null) throw new Error('同期先に鍵の情報を置けませんでした');
+  }
+
+  const info: unknown = JSON.parse(raw);
+  if (!isEncryptedBackup(info)) throw new Error('同期先の keyinfo.json がこのアプリのものではありません');
+  const key = await deriveBackupKey(info, passphrase);
+  await decryptBackupWithKey(info, key);
+  return { key, kdf: { salt: info.kdf.salt, iterations: info.kdf.iterations } };
+}
+
+/**
+ * 初めての同期: 同じファイルを両方の端末で取り込んでいた日記を、重複検出キーで突き合わせる。
+ * 返すのは、届いた日記のキー → 同じ日記とみなす手元の日記のキー（手元の1件は1回だけ使う）。
+ */
+async function matchDuplicateEntries(local: SyncLocal, mine: SyncRecord[], incoming: SyncRecord[]): Promise<Map<string, string>> {
+  const localKeys = new Set(mine.map(recordKey));
+  const byEntryKey = new Map<string, string>();
+  for (const record of mine) {
+    if (record.store !== 'entries' || record.value === null) continue;
+    const entryKey = await local.entryKey(record.value);
+    if (!byEntryKey.has(entryKey)) byEntryKey.set(entryKey, recordKey(record));
+  }
+
+  const duplicates = new Map<string, string>();
+  for (const record of incoming) {
+    const key = recordKey(record);
+    if (record.store !== 'entries' || record.value === null || localKeys.has(key) || duplicates.has(key)) continue;
+    const entryKey = await local.entryKey(record.value);
+    const match = byEntryKey.get(entryKey);
+    if (!match) continue;
+    duplicates.set(key, match);
+    byEntryKey.delete(entryKey);
+  }
+  return duplicates;
+}
+
+async function readChangeSet(target: SyncTarget, seq: number, key: CryptoKey): Promise<ChangeSet | null> {
+  const raw = await target.get(changeSetName(seq));
+  if (raw === null) return null;
+  const backup: unknown = JSON.parse(raw);
+  if (!isEncryptedBackup(backup)) throw new Error(`同期先の ${changeSetName(seq)} を読めません`);
+  const set = await decryptBackupWithKey(backup, key) as ChangeSet;
+  if (set.version > CHANGE_SET_VERSION) {
+    throw new Error('新しい版のアプリで同期された変更があります。アプリを更新してから同期してください。');
+  }
+  return set;
+}
+
+/** 1回分の同期（取り込んでから送り出す） */
+export async function runSync(target: SyncTarget, local: SyncLocal, options: SyncOptions): Promise<SyncResult> {
+  const now = () => (options.now?.() ?? new Date()).toISOString();
+  const { key, kdf } = await openSyncKey(target, options.passphrase, options.iterations ?? PBKDF2_ITERATIONS);
+  const result: SyncResult = { pulled: 0, pushed: 0, conflicts: 0 };
+
+  for (let attempt = 0; attempt < MAX_PUSH_ATTEMPTS; attempt++) {
+    let state = await local.load();
+
+    // 取り込み。自分が書いた束も読む（手元のデータを消したあとでも戻せるように）
+    const incoming: SyncRecord[] = [];
+    let seq = state.lastSeq;
+    for (let set = await readChangeSet(target, seq + 1, key); set; set = await readChangeSet(target, seq + 1, key)) {
+      incoming.push(...set.records);
+      seq++;
+    }
+    if (seq !== state.lastSeq) {
+      const duplicates = state.lastSeq === 0 ? await matchDuplicateEntries(local, state.records, incoming) : undefined;
+      const merged = mergeIncoming(state.records, state.synced, incoming, now(), duplicates);
+      await local.save({ ...merged, lastSeq: seq });
+      result.pulled += merged.apply.length;
+      result.conflicts += merged.conflicts.length;
+      state = await local.load();
+    }
+
+    // 送り出し
+    const outgoing = collectOutgoing(state.records, state.synced);
+    if (outgoing.length === 0) return result;
+    const set: ChangeSet = { version: CHANGE_SET_VERSION, deviceId: options.deviceId, createdAt: now(), records: outgoing };
+    const body = JSON.stringify(await encryptBackupWithKey(set, key, kdf));
+    if (await target.create(changeSetName(state.lastSeq + 1), body)) {
+      await local.save({
+        apply: [],
+        expected: [],
+        conflicts: [],
+        synced: outgoing.map(record => [recordKey(record), record.modifiedAt]),
+        lastSeq: state.lastSeq + 1,
+      });
+      result.pushed += outgoing.length;
+      return result;
+    }
+    // 別の端末が同じ番号に先に書いた。取り込み直してから送り直す
+  }
+  throw new Error('ほかの端末の同期と重なりました。しばらくしてからもう一度同期してください');
+}
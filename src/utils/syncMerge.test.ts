@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import type { DiaryEntry, Fragment, SyncRecord } from '../types';
+import { collectOutgoing, mergeIncoming, pickNewer, syncKey } from './syncMerge';
+
+const NOW = '2025-03-12T00:00:00.000Z';
+
+function entry(id: string, content: string, updatedAt: string): SyncRecord {
+  const value: DiaryEntry = {
+    id, date: '2025-03-01', content, sourceFile: 'a.txt', importedAt: '2025-03-01T00:00:00.000Z',
+    updatedAt, comments: [], isFavorite: false,
+  };
+  return { store: 'entries', id, modifiedAt: updatedAt, value };
+}
+
+function deleted(id: string, deletedAt: string): SyncRecord {
+  return { store: 'entries', id, modifiedAt: deletedAt, value: null };
+}
+
+describe('pickNewer', () => {
+  it('時刻の新しい方を残す', () => {
+    const older = entry('e1', '古い', '2025-03-01T10:00:00.000Z');
+    const newer = entry('e1', '新しい', '2025-03-02T10:00:00.000Z');
+    expect(pickNewer(older, newer)).toBe(newer);
+    expect(pickNewer(newer, older)).toBe(newer);
+  });
+
+  it('同じ時刻なら削除を残し、内容が違えばどちらの順でも同じ方を選ぶ', () => {
+    const t = '2025-03-01T10:00:00.000Z';
+    expect(pickNewer(entry('e1', 'a', t), deleted('e1', t)).value).toBeNull();
+    const a = entry('e1', 'a', t);
+    const b = entry('e1', 'b', t);
+    expect(pickNewer(a, b)).toBe(pickNewer(b, a));
+  });
+});
+
+describe('collectOutgoing', () => {
+  it('最後に同期した版と違うものだけを送る', () => {
+    const same = entry('e1', '同期済み', '2025-03-01T10:00:00.000Z');
+    const edited = entry('e2', '編集した', '2025-03-02T10:00:00.000Z');
+    const added = entry('e3', '追加した', '2025-03-03T10:00:00.000Z');
+    const synced = new Map([
+      [syncKey('entries', 'e1'), '2025-03-01T10:00:00.000Z'],
+      [syncKey('entries', 'e2'), '2025-03-01T09:00:00.000Z'],
+    ]);
+    expect(collectOutgoing([same, edited, added], synced).map(r => r.id)).toEqual(['e2', 'e3']);
+  });
+});
+
+describe('mergeIncoming', () => {
+  const base = '2025-03-01T10:00:00.000Z';
+  const synced = new Map([[syncKey('entries', 'e1'), base]]);
+
+  it('手元にないレコードはそのまま取り込む', () => {
+    const theirs = entry('e9', '向こうで書いた', base);
+    const result = mergeIncoming([], new Map(), [theirs], NOW);
+    expect(result.apply).toEqual([theirs]);
+    expect(result.synced).toEqual([[syncKey('entries', 'e9'), base]]);
+    expect(result.expected).toEqual([[syncKey('entries', 'e9'), null]]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('手元が前回の同期から変わっていなければ、新しい版を衝突なしで取り込む', () => {
+    const mine = entry('e1', '元の本文', base);
+    const theirs = entry('e1', '向こうで編集', '2025-03-02T10:00:00.000Z');
+    const result = mergeIncoming([mine], synced, [theirs], NOW);
+    expect(result.apply).toEqual([theirs]);
+    expect(result.expected).toEqual([[syncKey('entries', 'e1'), base]]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('両方で編集していれば新しい方を採用し、もう一方を衝突として残す', () => {
+    const mine = entry('e1', 'こちらで編集', '2025-03-03T10:00:00.000Z');
+    const theirs = entry('e1', '向こうで編集', '2025-03-02T10:00:00.000Z');
+    const result = mergeIncoming([mine], synced, [theirs], NOW);
+    expect(result.apply).toEqual([]);
+    // 手元の版は同期済みにしない（次に送り出す）
+    expect(result.synced).toEqual([]);
+    expect(result.conflicts).toEqual([
+      { key: syncKey('entries', 'e1'), store: 'entries', id: 'e1', detectedAt: NOW, kept: mine, discarded: theirs },
+    ]);
+  });
+
+  it('削除より新しい編集があれば生き返り、削除した側に衝突として残る', () => {
+    const mine = deleted('e1', '2025-03-02T10:00:00.000Z');
+    const theirs = entry('e1', '向こうで編集', '2025-03-03T10:00:00.000Z');
+    const result = mergeIncoming([mine], synced, [theirs], NOW);
+    expect(result.apply).toEqual([theirs]);
+    expect(result.conflicts[0]).toMatchObject({ kept: theirs, discarded: mine });
+  });
+
+  it('古い版が届いても、削除したレコードは生き返らない', () => {
+    const mine = deleted('e1', '2025-03-02T10:00:00.000Z');
+    const stale = entry('e1', '元の本文', base);
+    const result = mergeIncoming([mine], new Map([[syncKey('entries', 'e1'), mine.modifiedAt]]), [stale], NOW);
+    expect(result.apply).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('同じレコードの版がいくつも届いたら、その中の最新だけを見る', () => {
+    const mine = entry('e1', '元の本文', base);
+    const first = entry('e1', '1回目', '2025-03-02T10:00:00.000Z');
+    const second = entry('e1', '2回目', '2025-03-03T10:00:00.000Z');
+    const result = mergeIncoming([mine], synced, [second, first], NOW);
+    expect(result.apply).toEqual([second]);
+  });
+
+  it('重複とみなした手元の日記は届いた ID にそろえ、宝物庫を付け替えてから消す', () => {
+    const mine = entry('mine-e1', '同じ日記', base);
+    const fragmentValue: Fragment = { id: 'f1', entryId: 'mine-e1', entryDate: '2025-03-01', text: '一節', savedAt: base };
+    const fragment: SyncRecord = { store: 'fragments', id: 'f1', modifiedAt: base, value: fragmentValue };
+    const theirs = entry('their-e1', '同じ日記', '2025-03-02T10:00:00.000Z');
+    const result = mergeIncoming(
+      [mine, fragment], new Map(), [theirs], NOW,
+      new Map([[syncKey('entries', 'their-e1'), syncKey('entries', 'mine-e1')]]),
+    );
+    expect(result.apply).toEqual([
+      theirs,
+      { ...fragment, value: { ...fragmentValue, entryId: 'their-e1' } },
+      deleted('mine-e1', NOW),
+    ]);
+    // 手元の ID の削除は送り出さない
+    expect(result.synced).toContainEqual([syncKey('entries', 'mine-e1'), NOW]);
+    expect(result.conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * 端末間の同期: レコードの版と、取り込むときの併合（最後に書いた方が勝つ + トゥームストーン）
+ *
+ * 日記・宝物庫・観測所のレコードごとに「最後に変えた時刻」を版とし、新しい方を採用する。
+ * 削除はトゥームストーン（削除した時刻）として同じように扱うので、古い版で生き返らない。
+ * 端末ごとに「最後に同期した版」を覚えておき、それと違うレコードを送り出す。
+ * 取り込むレコードと手元のレコードが両方とも前回の同期から変わっていれば衝突として残す。
+ * 同じファイルを両方の端末で取り込んでいた日記は ID が違うので、初めての同期で重複検出キーで突き合わせて
+ * 届いた方の ID にそろえる（duplicates）。
+ */
+import type { DiaryEntry, Fragment, Observation, SyncConflict, SyncRecord, SyncStoreName, SyncTombstone } from '../types';
+
+export const SYNC_STORES: SyncStoreName[] = ['entries', 'fragments', 'observations'];
+
+export function syncKey(store: SyncStoreName, id: string): string {
+  return `${store}:${id}`;
+}
+
+export function recordKey(record: SyncRecord): string {
+  return syncKey(record.store, record.id);
+}
+
+/** レコードの版（最後に変えた時刻）。同じ値からは必ず同じ版になる */
+export function entryModifiedAt(entry: DiaryEntry): string {
+  return entry.updatedAt ?? entry.importedAt;
+}
+
+export function fragmentModifiedAt(fragment: Fragment): string {
+  return fragment.updatedAt ?? fragment.savedAt;
+}
+
+export function observationModifiedAt(observation: Observation): string {
+  return observation.updatedAt ?? observation.createdAt;
+}
+
+export function tombstoneRecord(tombstone: SyncTombstone): SyncRecord {
+  return { store: tombstone.store, id: tombstone.id, modifiedAt: tombstone.deletedAt, value: null };
+}
+
+/** 同じレコードの2つの版のうち残す方。時刻が新しい方、同時刻なら削除、それも同じなら内容で決める（どの端末でも同じ結果にするため） */
+export function pickNewer(a: SyncRecord, b: SyncRecord): SyncRecord {
+  if (a.modifiedAt !== b.modifiedAt) return a.modifiedAt > b.modifiedAt ? a : b;
+  if ((a.value === null) !== (b.value === null)) return a.value === null ? a : b;
+  return JSON.stringify(a.value) >= JSON.stringify(b.value) ? a : b;
+}
+
+function sameContent(a: SyncRecord, b: SyncRecord): boolean {
+  return JSON.stringify(a.value) === JSON.stringify(b.value);
+}
+
+/** 前回の同期から変わったレコード（synced はキーごとの最後に同期した版） */
+export function collectOutgoing(local: SyncRecord[], synced: Map<string, string>): SyncRecord[] {
+  return local.filter(record => synced.get(recordKey(record)) !== record.modifiedAt);
+}
+
+export interface MergeResult {
+  apply: SyncRecord[]; // 手元に書き込む版
+  expected: [key: string, modifiedAt: string | null][]; // apply を決めたときの手元の版（null は手元に無い）
+  conflicts: SyncConflict[];
+  synced: [key: string, modifiedAt: string][]; // 同期済みとして覚える版
+}
+
+/**
+ * 手元の日記（duplicate）を、届いた同じ日記（theirs）の ID にそろえる。
+ * 手元の方が新しければ（コメントやお気に入りを足していれば）手元の内容を届いた ID で残し、次の送り出しで伝える。
+ * 宝物庫は付け替えてから、手元の ID の日記を消す（消す前に付け替えないと、日記と一緒に消えてしまう）。
+ * 届いたのが削除なら何もせず false（ふつうに取り込む）。
+ */
+function adoptIncomingId(theirs: SyncRecord, duplicate: SyncRecord, local: SyncRecord[], now: string, result: MergeResult): boolean {
+  if (theirs.store !== 'entries' || theirs.value === null || duplicate.store !== 'entries' || duplicate.value === null) return false;
+  const key = recordKey(theirs);
+  const adopted: SyncRecord = pickNewer(duplicate, theirs) === theirs
+    ? theirs
+    : { ...duplicate, id: theirs.id, value: { ...duplicate.value, id: theirs.id } };
+  result.apply.push(adopted);
+  result.expected.push([key, null]);
+  result.synced.push([key, theirs.modifiedAt]);
+
+  for (const record of local) {
+    if (record.store !== 'fragments' || record.value?.entryId !== duplicate.id) continue;
+    result.apply.push({ ...record, value: { ...record.value, entryId: theirs.id } });
+    result.expected.push([recordKey(record), record.modifiedAt]);
+  }
+
+  // 手元の ID はほかの端末に送っていないので、削除も送らない
+  const duplicateKey = recordKey(duplicate);
+  result.apply.push({ store: 'entries', id: duplicate.id, modifiedAt: now, value: null });
+  result.expected.push([duplicateKey, duplicate.modifiedAt]);
+  result.synced.push([duplicateKey, now]);
+  return true;
+}
+
+/**
+ * ほかの端末から届いた版を手元のレコードと併合する。
+ * duplicates は、届いた日記のキー → 同じ日記とみなす手元の日記のキー（ID が違うもの）。
+ */
+export function mergeIncoming(
+  local: SyncRecord[],
+  synced: Map<string, string>,
+  incoming: SyncRecord[],
+  now: string,
+  duplicates: Map<string, string> = new Map(),
+): MergeResult {
+  const localByKey = new Map(local.map(record => [recordKey(record), record]));
+  const latest = new Map<string, SyncRecord>();
+  for (const record of incoming) {
+    const key = recordKey(record);
+    const seen = latest.get(key);
+    latest.set(key, seen ? pickNewer(seen, record) : record);
+  }
+
+  const result: MergeResult = { apply: [], expected: [], conflicts: [], synced: [] };
+  for (const [key, theirs] of latest) {
+    const mine = localByKey.get(key);
+    const duplicate = localByKey.get(duplicates.get(key) ?? '');
+    if (!mine && duplicate && adoptIncomingId(theirs, duplicate, local, now, result)) continue;
+    if (!mine) {
+      result.apply.push(theirs);
+      result.expected.push([key, null]);
+      result.synced.push([key, theirs.modifiedAt]);
+      continue;
+    }
+    if (mine.modifiedAt === theirs.modifiedAt && sameContent(mine, theirs)) {
+      result.synced.push([key, theirs.modifiedAt]);
+      continue;
+    }
+
+    const kept = pickNewer(mine, theirs);
+    if (kept === theirs) {
+      result.apply.push(theirs);
+      result.expected.push([key, mine.modifiedAt]);
+      result.synced.push([key, theirs.modifiedAt]);
+    }
+    // 手元も前回の同期から変わっていれば、両方で変えたことになる（削除どうし・同じ内容どうしは除く）
+    const changedHere = synced.get(key) !== mine.modifiedAt;
+    const bothDeleted = mine.value === null && theirs.value === null;
+    if (changedHere && !bothDeleted && !sameContent(mine, theirs)) {
+      result.conflicts.push({
+        key,
+        store: theirs.store,
+        id: theirs.id,
+        detectedAt: now,
+        kept,
+        discarded: kept === theirs ? mine : theirs,
+      });
+    }
+  }
+  return result;
+}
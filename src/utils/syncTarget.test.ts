@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { signRequest, createS3Target } from './syncTarget';
+
+// AWS の SigV4 テストスイートの get-vanilla
+const EMPTY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+describe('signRequest', () => {
+  it('AWS のテストスイートと同じ署名になる', async () => {
+    const headers = await signRequest({
+      method: 'GET',
+      url: 'https://example.amazonaws.com/',
+      headers: {},
+      payloadHash: EMPTY_SHA256,
+      region: 'us-east-1',
+      service: 'service',
+      accessKeyId: 'AKIDEXAMPLE',
+      secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+      now: new Date('2015-08-30T12:36:00Z'),
+    });
+    expect(headers['x-amz-date']).toBe('20150830T123600Z');
+    expect(headers.authorization).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, '
+      + 'SignedHeaders=host;x-amz-date, '
+      + 'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+    );
+  });
+});
+
+describe('createS3Target', () => {
+  it('パス形式の URL に、条件付きの PUT を署名して送る', async () => {
+    const requests: { url: string; init?: RequestInit }[] = [];
+    const fetchFn = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push({ url: String(input), init });
+      return new Response(null, { status: requests.length === 1 ? 200 : 412 });
+    }) as typeof fetch;
+    const target = createS3Target({
+      kind: 's3',
+      endpoint: 'http://localhost:9000',
+      region: '',
+      bucket: 'diary',
+      prefix: 'climbing-log',
+      accessKeyId: 'minio',
+      secretAccessKey: 'minio-secret',
+    }, fetchFn);
+
+    expect(await target.create('changes-00000001.json', '{}')).toBe(true);
+    expect(await target.create('changes-00000001.json', '{}')).toBe(false);
+
+    const { url, init } = requests[0];
+    const headers = init?.headers as Record<string, string>;
+    expect(url).toBe('http://localhost:9000/diary/climbing-log/changes-00000001.json');
+    expect(headers['if-none-match']).toBe('*');
+    expect(headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=minio\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=content-type;host;if-none-match;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/,
+    );
+  });
+});
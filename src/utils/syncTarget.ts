@@ -0,0 +1,189 @@
+/**
+ * 端末間の同期先（ユーザーが用意する WebDAV / S3 互換のストレージ）
+ *
+ * 同期先には「読む」と「まだ無いときだけ作る」の2つしか求めない。一覧の取得（XML）は使わず、
+ * 変更の束を連番のファイル名で置くので、次の番号を読めるかどうかで新しい変更の有無がわかる。
+ * 「まだ無いときだけ作る」は If-None-Match: * で、同じ番号に2台が同時に書いても片方だけが成功する。
+ * ブラウザから直接つなぐので、同期先でこのアプリのオリジンからの CORS を許可しておく必要がある。
+ */
+import { toBase64 } from './encryption';
+
+export type SyncTargetConfig =
+  | { kind: 'webdav'; url: string; username: string; password: string }
+  | {
+      kind: 's3';
+      endpoint: string; // 例: https://s3.ap-northeast-1.amazonaws.com、http://localhost:9000（MinIO）
+      region: string;
+      bucket: string;
+      prefix: string; // 例: climbing-log/
+      accessKeyId: string;
+      secretAccessKey: string;
+    };
+
+export interface SyncTarget {
+  /** ファイルを読む。無ければ null */
+  get(name: string): Promise<string | null>;
+  /** まだ無いときだけ作る。すでにあれば false */
+  create(name: string, body: string): Promise<boolean>;
+}
+
+type FetchFn = typeof fetch;
+
+function httpError(status: number): Error {
+  if (status === 401 || status === 403) return new Error(`同期先に認証で断られました（HTTP ${status}）。ユーザー名やキーを確かめてください`);
+  return new Error(`同期先への接続に失敗しました（HTTP ${status}）`);
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+// ── WebDAV ──
+
+export function createWebDavTarget(
+  config: Extract<SyncTargetConfig, { kind: 'webdav' }>,
+  fetchFn: FetchFn = fetch,
+): SyncTarget {
+  const base = withTrailingSlash(config.url.trim());
+  const headers: Record<string, string> = config.username
+    ? { Authorization: `Basic ${toBase64(new TextEncoder().encode(`${config.username}:${config.password}`))}` }
+    : {};
+
+  return {
+    async get(name) {
+      const res = await fetchFn(base + name, { headers, cache: 'no-store' });
+      if (res.status === 404) return null;
+      if (!res.ok) throw httpError(res.status);
+      return res.text();
+    },
+    async create(name, body) {
+      const res = await fetchFn(base + name, {
+        method: 'PUT',
+        headers: { ...headers, 'Content-Type': 'application/json', 'If-None-Match': '*' },
+        body,
+      });
+      if (res.status === 412) return false;
+      if (!res.ok) throw httpError(res.status);
+      return true;
+    },
+  };
+}
+
+// ── S3 互換（AWS Signature Version 4） ──
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array<ArrayBuffer>, text: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(text));
+}
+
+// RFC 3986 の予約されていない文字以外をエンコードする（S3 の正規化の規則）
+function encodeRfc3986(text: string): string {
+  return encodeURIComponent(text).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export interface SignRequestInput {
+  method: string;
+  url: string;
+  headers: Record<string, string>; // 署名に含めるヘッダー（host と x-amz-date は自動で足す）
+  payloadHash: string; // 本文の SHA-256（16進）
+  region: string;
+  service: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  now: Date;
+}
+
+/** SigV4 の署名をして、送るヘッダー（Authorization と x-amz-date を含む）を返す。host はブラウザが付けるので返さない */
+export async function signRequest(input: SignRequestInput): Promise<Record<string, string>> {
+  const url = new URL(input.url);
+  const amzDate = input.now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const day = amzDate.slice(0, 8);
+
+  const signed: Record<string, string> = { host: url.host, 'x-amz-date': amzDate };
+  for (const [name, value] of Object.entries(input.headers)) signed[name.toLowerCase()] = value.trim();
+  const names = Object.keys(signed).sort();
+  const signedHeaders = names.join(';');
+
+  const query = [...url.searchParams]
+    .map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+    .sort()
+    .join('&');
+  const canonicalPath = url.pathname.split('/').map(segment => encodeRfc3986(decodeURIComponent(segment))).join('/');
+  const canonicalRequest = [
+    input.method,
+    canonicalPath,
+    query,
+    names.map(name => `${name}:${signed[name]}\n`).join(''),
+    signedHeaders,
+    input.payloadHash,
+  ].join('\n');
+
+  const scope = `${day}/${input.region}/${input.service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  let key = await hmac(new TextEncoder().encode(`AWS4${input.secretAccessKey}`), day);
+  for (const part of [input.region, input.service, 'aws4_request']) key = await hmac(key, part);
+  const signature = toHex(await hmac(key, stringToSign));
+
+  const headers: Record<string, string> = { ...signed };
+  delete headers.host;
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export function createS3Target(
+  config: Extract<SyncTargetConfig, { kind: 's3' }>,
+  fetchFn: FetchFn = fetch,
+): SyncTarget {
+  // MinIO などでも使えるよう、パス形式（endpoint/bucket/key）で指定する
+  const base = `${withTrailingSlash(config.endpoint.trim())}${encodeURIComponent(config.bucket.trim())}/`;
+  const trimmed = config.prefix.trim().replace(/^\/+/, '');
+  const prefix = trimmed && !trimmed.endsWith('/') ? `${trimmed}/` : trimmed;
+
+  async function send(method: 'GET' | 'PUT', name: string, body?: string, extra: Record<string, string> = {}) {
+    const url = base + prefix.split('/').map(encodeURIComponent).join('/') + encodeURIComponent(name);
+    const payloadHash = await sha256Hex(body ?? '');
+    const headers = await signRequest({
+      method,
+      url,
+      headers: { ...extra, 'x-amz-content-sha256': payloadHash },
+      payloadHash,
+      region: config.region.trim() || 'us-east-1',
+      service: 's3',
+      accessKeyId: config.accessKeyId.trim(),
+      secretAccessKey: config.secretAccessKey.trim(),
+      now: new Date(),
+    });
+    return fetchFn(url, { method, headers, body, cache: 'no-store' });
+  }
+
+  return {
+    async get(name) {
+      const res = await send('GET', name);
+      if (res.status === 404) return null;
+      if (!res.ok) throw httpError(res.status);
+      return res.text();
+    },
+    async create(name, body) {
+      const res = await send('PUT', name, body, { 'content-type': 'application/json', 'if-none-match': '*' });
+      // 409 は同じキーへの条件付き書き込みが重なったとき
+      if (res.status === 412 || res.status === 409) return false;
+      if (!res.ok) throw httpError(res.status);
+      return true;
+    },
+  };
+}
+
+export function createSyncTarget(config: SyncTargetConfig, fetchFn: FetchFn = fetch): SyncTarget {
+  return config.kind === 'webdav' ? createWebDavTarget(config, fetchFn) : createS3Target(config, fetchFn);
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { splitSentences, diffTokens, diffText, type DiffPart } from './textDiff';
+
+// 差分を元に戻せるか（equal+delete が前、equal+insert が後）
+function rebuild(parts: DiffPart[]): { before: string; after: string } {
+  return {
+    before: parts.filter(p => p.op !== 'insert').map(p => p.text).join(''),
+    after: parts.filter(p => p.op !== 'delete').map(p => p.text).join(''),
+  };
+}
+
+describe('splitSentences', () => {
+  it('句点・感嘆符・疑問符・改行の直後で分け、つなげると元に戻る', () => {
+    const text = '今日は山に登った。頂上は寒い！\nなぜ登るのか？';
+    const sentences = splitSentences(text);
+    expect(sentences).toEqual(['今日は山に登った。', '頂上は寒い！', '\n', 'なぜ登るのか？']);
+    expect(sentences.join('')).toBe(text);
+  });
+
+  it('区切りのない末尾も1文として残す', () => {
+    expect(splitSentences('一文目。二文目')).toEqual(['一文目。', '二文目']);
+    expect(splitSentences('')).toEqual([]);
+  });
+});
+
+describe('diffTokens', () => {
+  it('同じなら全部 equal', () => {
+    expect(diffTokens(['a', 'b'], ['a', 'b'])).toEqual([{ op: 'equal', text: 'ab' }]);
+  });
+
+  it('置き換えは削除と追加になり、前後の共通部分は残る', () => {
+    const parts = diffTokens([...'山に登った'], [...'川に下った']);
+    expect(rebuild(parts)).toEqual({ before: '山に登った', after: '川に下った' });
+    expect(parts.filter(p => p.op === 'equal').map(p => p.text)).toEqual(['に', 'った']);
+  });
+
+  it('空との差分', () => {
+    expect(diffTokens([], ['a'])).toEqual([{ op: 'insert', text: 'a' }]);
+    expect(diffTokens(['a'], [])).toEqual([{ op: 'delete', text: 'a' }]);
+  });
+});
+
+describe('diffText', () => {
+  it('文単位では変わった文だけが追加・削除になる', () => {
+    const { mode, parts } = diffText('急所は仕事。問いは一つ。', '急所は家族。問いは一つ。', 'sentence');
+    expect(mode).toBe('sentence');
+    expect(parts).toEqual([
+      { op: 'delete', text: '急所は仕事。' },
+      { op: 'insert', text: '急所は家族。' },
+      { op: 'equal', text: '問いは一つ。' },
+    ]);
+  });
+
+  it('文字単位で表が大きくなりすぎるときは文単位にする', () => {
+    const before = 'あ'.repeat(1500) + '。';
+    const after = 'い'.repeat(1500) + '。';
+    expect(diffText(before, after, 'char').mode).toBe('sentence');
+    expect(diffText('山。', '川。', 'char').mode).toBe('char');
+  });
+});
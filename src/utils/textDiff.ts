@@ -0,0 +1,89 @@
+/**
+ * 2つの分析結果の差分
+ *
+ * AIログの履歴で、1つ前の結果から何が変わったかを文単位か文字単位で見せる。
+ * 最長共通部分列（LCS）で共通部分を決め、残りを追加・削除とする。
+ */
+
+export type DiffMode = 'sentence' | 'char';
+
+export interface DiffPart {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// 文字単位の表は (前の長さ × 後の長さ) の大きさになるので、これを超えたら文単位に落とす
+const MAX_CHAR_CELLS = 2_000_000;
+
+/** 文の区切り（。！？と改行）の直後で分ける。区切り文字は前の文に含める */
+export function splitSentences(text: string): string[] {
+  return text.match(/[^。！？!?\n]*(?:[。！？!?]+|\n+|$)/g)?.filter(Boolean) ?? [];
+}
+
+/** 同じ操作が続く部分をまとめる */
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = [];
+  for (const part of parts) {
+    const last = merged.at(-1);
+    if (last && last.op === part.op) last.text += part.text;
+    else if (part.text) merged.push({ ...part });
+  }
+  return merged;
+}
+
+/** トークン列どうしの差分（前後の共通部分を先に除いてから LCS をとる） */
+export function diffTokens(before: string[], after: string[]): DiffPart[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endB = before.length;
+  let endA = after.length;
+  while (endB > start && endA > start && before[endB - 1] === after[endA - 1]) {
+    endB--;
+    endA--;
+  }
+
+  const a = before.slice(start, endB);
+  const b = after.slice(start, endA);
+  const cols = b.length + 1;
+  // lcs[i * cols + j] = a[i..] と b[j..] の LCS の長さ
+  const lcs = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = a[i] === b[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [{ op: 'equal', text: before.slice(0, start).join('') }];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ op: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      parts.push({ op: 'delete', text: a[i++] });
+    } else {
+      parts.push({ op: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) parts.push({ op: 'delete', text: a[i++] });
+  while (j < b.length) parts.push({ op: 'insert', text: b[j++] });
+  parts.push({ op: 'equal', text: before.slice(endB).join('') });
+  return mergeParts(parts);
+}
+
+/**
+ * before から after への差分。文字単位で表が大きくなりすぎるときは文単位にする
+ * （実際に使った単位を mode で返す）
+ */
+export function diffText(before: string, after: string, mode: DiffMode): { mode: DiffMode; parts: DiffPart[] } {
+  if (mode === 'char') {
+    const a = [...before];
+    const b = [...after];
+    if (a.length * b.length <= MAX_CHAR_CELLS) return { mode, parts: diffTokens(a, b) };
+  }
+  return { mode: 'sentence', parts: diffTokens(splitSentences(before), splitSentences(after)) };
+}
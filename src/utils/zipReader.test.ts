@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { readZip } from './zipReader';
+
+interface ZipFixtureFile {
+  name: string | Uint8Array;
+  data: Uint8Array;
+  deflate?: boolean;
+  utf8Flag?: boolean;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream()
+    .pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// テスト用の最小限の ZIP を組み立てる（CRC は読み取り側で検証しないので 0）
+async function buildZip(files: ZipFixtureFile[]): Promise<Uint8Array> {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = typeof file.name === 'string' ? new TextEncoder().encode(file.name) : file.name;
+    const body = file.deflate ? await deflateRaw(file.data) : file.data;
+    const flags = file.utf8Flag ? 0x800 : 0;
+    const method = file.deflate ? 8 : 0;
+
+    const local = new Uint8Array(30 + name.length + body.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(6, flags, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, body.length, true);
+    lv.setUint32(22, file.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(body, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(8, flags, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, body.length, true);
+    cv.setUint32(24, file.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + eocd.length);
+  let p = 0;
+  for (const chunk of [...locals, ...centrals, eocd]) {
+    out.set(chunk, p);
+    p += chunk.length;
+  }
+  return out;
+}
+
+const text = (s: string) => new TextEncoder().encode(s);
+const decode = (b: Uint8Array) => new TextDecoder().decode(b);
+
+// ── readZip ──
+
+describe('readZip', () => {
+  it('無圧縮と deflate の両方を読める', async () => {
+    const zip = await buildZip([
+      { name: 'a.txt', data: text('2024-01-15\n無圧縮') },
+      { name: 'b.txt', data: text('2024-01-16\n圧縮あり'.repeat(20)), deflate: true },
+    ]);
+    const entries = readZip(zip);
+    expect(entries.map(e => e.path)).toEqual(['a.txt', 'b.txt']);
+    expect(decode(await entries[0].read())).toBe('2024-01-15\n無圧縮');
+    expect(decode(await entries[1].read())).toBe('2024-01-16\n圧縮あり'.repeat(20));
+  });
+
+  it('ディレクトリ項目は含めず、サブフォルダのパスを保つ', async () => {
+    const zip = await buildZip([
+      { name: '2024/', data: new Uint8Array() },
+      { name: '2024/01.txt', data: text('一月') },
+    ]);
+    const entries = readZip(zip);
+    expect(entries.map(e => e.path)).toEqual(['2024/01.txt']);
+  });
+
+  it('UTF-8 フラグ付きの日本語ファイル名', async () => {
+    const zip = await buildZip([{ name: '日記.txt', data: text('本文'), utf8Flag: true }]);
+    expect(readZip(zip)[0].path).toBe('日記.txt');
+  });
+
+  it('UTF-8 フラグのない Shift_JIS のファイル名', async () => {
+    // 「日記.txt」の Shift_JIS
+    const sjis = new Uint8Array([0x93, 0xfa, 0x8b, 0x4c, 0x2e, 0x74, 0x78, 0x74]);
+    const zip = await buildZip([{ name: sjis, data: text('本文') }]);
+    expect(readZip(zip)[0].path).toBe('日記.txt');
+  });
+
+  it('ZIP でなければエラー', () => {
+    expect(() => readZip(text('これは ZIP ではない'))).toThrow();
+  });
+});
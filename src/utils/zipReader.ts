@@ -0,0 +1,103 @@
+/**
+ * 依存ライブラリなしの最小限の ZIP リーダー
+ *
+ * セントラルディレクトリを読んでファイル一覧を作り、中身は read() を呼んだときに展開する。
+ * 対応: 無圧縮（stored）と deflate。deflate はブラウザ標準の DecompressionStream で展開する。
+ * 非対応: ZIP64、暗号化、分割アーカイブ。
+ */
+
+export interface ZipEntry {
+  path: string;
+  size: number; // 展開後のバイト数
+  read: () => Promise<Uint8Array>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// 末尾コメントの分だけさかのぼって End of Central Directory を探す
+function findEndOfCentralDirectory(view: DataView): number {
+  const min = Math.max(0, view.byteLength - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let p = view.byteLength - EOCD_MIN_SIZE; p >= min; p--) {
+    if (view.getUint32(p, true) === EOCD_SIGNATURE) return p;
+  }
+  return -1;
+}
+
+// UTF-8 フラグのない古い ZIP（Windows の日本語環境など）は Shift_JIS のことが多い
+function decodeName(bytes: Uint8Array, utf8: boolean): string {
+  if (utf8) return new TextDecoder().decode(bytes);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('shift_jis').decode(bytes);
+  }
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** ZIP のファイル一覧を読む（ディレクトリ項目は含めない） */
+export function readZip(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) throw new Error('ZIP ファイルとして読み込めませんでした');
+
+  const count = view.getUint16(eocd + 10, true);
+  const centralOffset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || centralOffset === 0xffffffff) {
+    throw new Error('ZIP64 形式のアーカイブには対応していません');
+  }
+
+  const entries: ZipEntry[] = [];
+  let p = centralOffset;
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > view.byteLength || view.getUint32(p, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('ZIP のファイル一覧が壊れています');
+    }
+    const flags = view.getUint16(p + 8, true);
+    const method = view.getUint16(p + 10, true);
+    const compressedSize = view.getUint32(p + 20, true);
+    const size = view.getUint32(p + 24, true);
+    const nameLength = view.getUint16(p + 28, true);
+    const extraLength = view.getUint16(p + 30, true);
+    const commentLength = view.getUint16(p + 32, true);
+    const localOffset = view.getUint32(p + 42, true);
+    const path = decodeName(data.subarray(p + 46, p + 46 + nameLength), (flags & FLAG_UTF8) !== 0);
+    p += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+
+    entries.push({
+      path,
+      size,
+      read: async () => {
+        if (flags & FLAG_ENCRYPTED) throw new Error('暗号化されたファイルは読み込めません');
+        if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+          throw new Error('ZIP 内のファイルが壊れています');
+        }
+        // ローカルヘッダの名前・拡張フィールド長はセントラルディレクトリと異なることがある
+        const start = localOffset + 30
+          + view.getUint16(localOffset + 26, true)
+          + view.getUint16(localOffset + 28, true);
+        const raw = data.subarray(start, start + compressedSize);
+        if (method === METHOD_STORED) return raw;
+        if (method === METHOD_DEFLATE) return inflateRaw(raw);
+        throw new Error(`対応していない圧縮方式です（method ${method}）`);
+      },
+    });
+  }
+
+  return entries;
+}